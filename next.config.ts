@@ -10,8 +10,17 @@ const nextConfig: NextConfig = {
         port: '',
         pathname: '/storage/v1/object/public/**',
       },
+      {
+        // Signed URLs for password-protected share links
+        protocol: 'https',
+        hostname: '*.supabase.co',
+        port: '',
+        pathname: '/storage/v1/object/sign/**',
+      },
     ],
   },
+  // tesseract.js spawns its OCR worker from a file path, so it must not be bundled
+  serverExternalPackages: ['tesseract.js'],
   // Enable experimental features for optimal performance
   experimental: {
     optimizePackageImports: ['@supabase/supabase-js', 'stripe'],
@@ -0,0 +1,42 @@
+/**
+ * DELETE /api/auth/api-keys/[id]
+ * Revoke an API key (requests using it are rejected immediately)
+ *
+ * @requires Authentication (session token - API keys cannot manage API keys)
+ */
+
+import { withAuth } from '@/lib/auth';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const DELETE = withAuth<{ id: string }>(
+  async (request, { userId, supabase, params }) => {
+    const { id } = params;
+
+    // 1. Validate UUID format
+    if (!uuidRegex.test(id)) {
+      throw new NotFoundError('API key');
+    }
+
+    // 2. Revoke key - filter by user_id to ensure ownership
+    const { data: revoked, error } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      throw new ValidationError('Failed to revoke API key', { error: error.message });
+    }
+
+    if (!revoked || revoked.length === 0) {
+      throw new NotFoundError('API key');
+    }
+
+    return new Response(null, { status: 204 });
+  },
+  { allowApiKeys: false }
+);
@@ -0,0 +1,93 @@
+/**
+ * GET /api/auth/api-keys
+ * List active API keys
+ *
+ * POST /api/auth/api-keys
+ * Create an API key (the full key is only returned in this response)
+ *
+ * @requires Authentication (session token - API keys cannot manage API keys)
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { validateRequest, createApiKeySchema } from '@/lib/validation';
+import { generateApiKey, toApiKeyResponse, MAX_API_KEYS_PER_USER } from '@/lib/api-keys';
+import { ValidationError } from '@/lib/errors';
+import type { ApiKeyResponse, CreatedApiKeyResponse } from '@/types/api';
+
+const API_KEY_SELECT = 'id, name, key_prefix, scopes, last_used_at, created_at';
+
+/**
+ * GET /api/auth/api-keys
+ * List active keys (newest first)
+ */
+export const GET = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Fetch active keys
+    const { data: apiKeys, error } = await supabase
+      .from('api_keys')
+      .select(API_KEY_SELECT)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new ValidationError('Failed to fetch API keys', { error: error.message });
+    }
+
+    // 2. Map to response format
+    const data: ApiKeyResponse[] = (apiKeys || []).map(toApiKeyResponse);
+
+    return NextResponse.json({ api_keys: data }, { status: 200 });
+  },
+  { allowApiKeys: false }
+);
+
+/**
+ * POST /api/auth/api-keys
+ * Create a key
+ */
+export const POST = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validated = validateRequest(createApiKeySchema, body);
+
+    // 2. Enforce the active key limit
+    const { count } = await supabase
+      .from('api_keys')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('revoked_at', null);
+
+    if (count !== null && count >= MAX_API_KEYS_PER_USER) {
+      throw new ValidationError(`You can have at most ${MAX_API_KEYS_PER_USER} active API keys`, {
+        max_keys: MAX_API_KEYS_PER_USER,
+      });
+    }
+
+    // 3. Generate and store the key (only the hash is persisted)
+    const { key, prefix, hash } = generateApiKey();
+    const { data: apiKey, error } = await supabase
+      .from('api_keys')
+      .insert({
+        user_id: userId,
+        name: validated.name,
+        key_prefix: prefix,
+        key_hash: hash,
+        scopes: validated.scopes ?? null,
+      })
+      .select(API_KEY_SELECT)
+      .single();
+
+    if (error || !apiKey) {
+      throw new ValidationError('Failed to create API key', { error: error?.message });
+    }
+
+    // 4. Return the key - it cannot be retrieved again
+    const response: CreatedApiKeyResponse = { ...toApiKeyResponse(apiKey), key };
+
+    return NextResponse.json(response, { status: 201 });
+  },
+  { allowApiKeys: false }
+);
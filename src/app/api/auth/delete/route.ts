@@ -1,34 +1,22 @@
 /**
  * POST /api/auth/delete
  * Permanently delete user account and all associated data (GDPR compliance)
- * Cascade deletes: screenshots (DB + storage), monthly_usage, profile, auth user
+ * Cascade deletes: screenshots (DB + storage), data exports (DB + storage), monthly_usage, profile, auth user
  * 
  * @requires Authentication
  * @warning DESTRUCTIVE - Cannot be undone
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { supabaseAdmin, getUserIdFromToken } from '@/lib/supabase';
-import { deleteFile } from '@/lib/storage';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth } from '@/lib/auth';
+import { deleteFiles, EXPORTS_BUCKET } from '@/lib/storage';
+import { deleteScreenshotFiles } from '@/lib/screenshots';
 import { stripe } from '@/lib/stripe';
-import { handleApiError, UnauthorizedError, ValidationError } from '@/lib/errors';
+import { UnauthorizedError, ValidationError } from '@/lib/errors';
 
-export async function POST(request: NextRequest) {
-  try {
-    // 1. Extract and validate authentication
-    const authHeader = request.headers.get('authorization');
-    const accessToken = authHeader?.replace('Bearer ', '');
-
-    if (!accessToken) {
-      throw new UnauthorizedError('Missing authorization token');
-    }
-
-    const userId = await getUserIdFromToken(accessToken);
-    if (!userId) {
-      throw new UnauthorizedError('Invalid authorization token');
-    }
-
-    // 2. Get user profile for Stripe customer ID
+export const POST = withAuth(
+  async (request, { userId }) => {
+    // 1. Get user profile for Stripe customer ID
     const { data: profile } = await supabaseAdmin
       .from('profiles')
       .select('stripe_customer_id')
@@ -39,16 +27,16 @@ export async function POST(request: NextRequest) {
       throw new UnauthorizedError('User profile not found');
     }
 
-    // 3. Fetch all screenshots to delete storage files
+    // 2. Fetch all screenshots to delete storage files
     const { data: screenshots } = await supabaseAdmin
       .from('screenshots')
-      .select('storage_path')
+      .select('storage_path, thumbnail_path, variants, password_hash, max_views')
       .eq('user_id', userId);
 
-    // 4. Delete all screenshot storage files (fire and forget - don't block on failures)
+    // 3. Delete all screenshot storage files (fire and forget - don't block on failures)
     if (screenshots && screenshots.length > 0) {
       const deletePromises = screenshots.map((screenshot) =>
-        deleteFile(screenshot.storage_path).catch((error) => {
+        deleteScreenshotFiles([screenshot]).catch((error) => {
           console.error(`Failed to delete file ${screenshot.storage_path}:`, error);
         })
       );
@@ -57,7 +45,23 @@ export async function POST(request: NextRequest) {
       await Promise.allSettled(deletePromises);
     }
 
-    // 5. Delete Stripe customer (cancels active subscriptions)
+    // Delete data export archives (rows cascade with the profile)
+    const { data: dataExports } = await supabaseAdmin
+      .from('data_exports')
+      .select('storage_path')
+      .eq('user_id', userId)
+      .not('storage_path', 'is', null);
+
+    if (dataExports && dataExports.length > 0) {
+      await deleteFiles(
+        dataExports.flatMap((dataExport) => (dataExport.storage_path ? [dataExport.storage_path] : [])),
+        EXPORTS_BUCKET
+      ).catch((error) => {
+        console.error('Failed to delete data exports:', error);
+      });
+    }
+
+    // 4. Delete Stripe customer (cancels active subscriptions)
     if (profile.stripe_customer_id) {
       try {
         await stripe.customers.del(profile.stripe_customer_id);
@@ -67,7 +71,7 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // 6. Delete database records (cascade via foreign keys)
+    // 5. Delete database records (cascade via foreign keys)
     // Order: screenshots → monthly_usage → profile → auth.users
 
     // Delete screenshots (cascade handled by RLS)
@@ -100,7 +104,7 @@ export async function POST(request: NextRequest) {
       console.error('Failed to delete profile:', profileError);
     }
 
-    // 7. Delete auth user (final step)
+    // 6. Delete auth user (final step)
     const { error: authError } = await supabaseAdmin.auth.admin.deleteUser(userId);
 
     if (authError) {
@@ -109,10 +113,8 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // 8. Return success response
+    // 7. Return success response
     return new Response(null, { status: 204 });
-  } catch (error) {
-    return handleApiError(error);
   }
-}
+);
 
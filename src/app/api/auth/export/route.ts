@@ -0,0 +1,114 @@
+/**
+ * POST /api/auth/export
+ * Request an export of all user data (GDPR right of access / data portability)
+ * The archive (manifest.json + original images) is built in the background by the
+ * process-exports cron job
+ *
+ * GET /api/auth/export
+ * Status of the latest export, with a time-limited download link once it is ready
+ *
+ * @requires Authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth } from '@/lib/auth';
+import { generateSignedDownloadUrl, EXPORTS_BUCKET } from '@/lib/storage';
+import {
+  toDataExportResponse,
+  EXPORT_COOLDOWN_HOURS,
+  EXPORT_DOWNLOAD_URL_TTL,
+} from '@/lib/export';
+import { NotFoundError, RateLimitError, ValidationError } from '@/lib/errors';
+
+/**
+ * Fetch the user's most recent export
+ */
+const getLatestExport = async (userId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from('data_exports')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new ValidationError('Failed to fetch data export', { error: error.message });
+  }
+
+  return data;
+};
+
+/**
+ * POST /api/auth/export
+ * Queue a new export (returns the export already in progress, if any)
+ */
+export const POST = withAuth(
+  async (request, { userId }) => {
+    // 1. Reuse an export that is still being built
+    const latest = await getLatestExport(userId);
+
+    if (latest && (latest.status === 'pending' || latest.status === 'processing')) {
+      return NextResponse.json(toDataExportResponse(latest), { status: 202 });
+    }
+
+    // 2. Limit how often the whole account can be exported (failed exports can be retried)
+    if (latest && latest.status !== 'failed') {
+      const nextAllowedAt =
+        new Date(latest.created_at).getTime() + EXPORT_COOLDOWN_HOURS * 60 * 60 * 1000;
+
+      if (nextAllowedAt > Date.now()) {
+        throw new RateLimitError(Math.ceil((nextAllowedAt - Date.now()) / 1000));
+      }
+    }
+
+    // 3. Queue the export
+    const { data: dataExport, error } = await supabaseAdmin
+      .from('data_exports')
+      .insert({ user_id: userId })
+      .select()
+      .single();
+
+    if (error || !dataExport) {
+      throw new ValidationError('Failed to request data export', { error: error?.message });
+    }
+
+    return NextResponse.json(toDataExportResponse(dataExport), { status: 202 });
+  }
+);
+
+/**
+ * GET /api/auth/export
+ * Latest export status
+ */
+export const GET = withAuth(
+  async (request, { userId }) => {
+    // 1. Fetch the latest export
+    const latest = await getLatestExport(userId);
+
+    if (!latest) {
+      throw new NotFoundError('Data export');
+    }
+
+    // 2. Issue a fresh download link while the archive is available
+    if (latest.status === 'completed' && latest.storage_path) {
+      if (latest.expires_at && new Date(latest.expires_at) <= new Date()) {
+        // Past its retention period but not purged by the cron job yet
+        return NextResponse.json(toDataExportResponse({ ...latest, status: 'expired' }), {
+          status: 200,
+        });
+      }
+
+      const downloadUrl = await generateSignedDownloadUrl(
+        latest.storage_path,
+        EXPORT_DOWNLOAD_URL_TTL,
+        EXPORTS_BUCKET
+      );
+
+      return NextResponse.json(toDataExportResponse(latest, downloadUrl), { status: 200 });
+    }
+
+    return NextResponse.json(toDataExportResponse(latest), { status: 200 });
+  }
+);
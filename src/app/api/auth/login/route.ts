@@ -0,0 +1,60 @@
+/**
+ * POST /api/auth/login
+ * Sign in with email/password
+ *
+ * @public No authentication required
+ * @rateLimit 20 requests per minute per client IP, 10 attempts per 15 minutes per email
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createAuthClient, toAuthSessionResponse } from '@/lib/sessions';
+import { validateRequest, loginSchema } from '@/lib/validation';
+import {
+  checkRateLimit,
+  authRateLimit,
+  loginRateLimit,
+  getClientIp,
+  addRateLimitHeaders,
+} from '@/lib/rate-limit';
+import { handleApiError, RateLimitError, UnauthorizedError } from '@/lib/errors';
+import type { AuthSessionResponse } from '@/types/api';
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Check rate limit per client IP
+    const rateLimitResult = await checkRateLimit(authRateLimit, getClientIp(request.headers));
+    if (!rateLimitResult.success) {
+      throw new RateLimitError(rateLimitResult.reset);
+    }
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validated = validateRequest(loginSchema, body);
+
+    // 3. Check rate limit per account (slows down password guessing from many IPs)
+    const accountRateLimitResult = await checkRateLimit(loginRateLimit, validated.email);
+    if (!accountRateLimitResult.success) {
+      throw new RateLimitError(accountRateLimitResult.reset);
+    }
+
+    // 4. Sign in (same error for unknown emails and wrong passwords)
+    const { data, error } = await createAuthClient().auth.signInWithPassword({
+      email: validated.email,
+      password: validated.password,
+    });
+
+    if (error || !data.session) {
+      throw new UnauthorizedError('Invalid email or password');
+    }
+
+    // 5. Return auth response
+    const response: AuthSessionResponse = toAuthSessionResponse(data.user, data.session);
+
+    const res = NextResponse.json(response, { status: 200 });
+    addRateLimitHeaders(res.headers, rateLimitResult);
+
+    return res;
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * POST /api/auth/logout
+ * Revoke the current session (its refresh token stops working)
+ * The access token stays valid until it expires (at most expires_in seconds)
+ *
+ * @requires Authentication (session token)
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth, getBearerToken } from '@/lib/auth';
+import { ValidationError } from '@/lib/errors';
+
+export const POST = withAuth(
+  async (request) => {
+    // 1. Revoke the session the access token belongs to (other devices stay signed in)
+    const { error } = await supabaseAdmin.auth.admin.signOut(getBearerToken(request), 'local');
+
+    if (error) {
+      throw new ValidationError('Failed to sign out', { error: error.message });
+    }
+
+    return new Response(null, { status: 204 });
+  },
+  { allowApiKeys: false }
+);
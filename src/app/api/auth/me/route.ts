@@ -8,33 +8,19 @@
  * @requires Authentication
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { createUserClient, getUserIdFromToken } from '@/lib/supabase';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
 import { validateRequest, updateProfileSchema } from '@/lib/validation';
-import { handleApiError, UnauthorizedError, ValidationError } from '@/lib/errors';
+import { UnauthorizedError, ValidationError } from '@/lib/errors';
 import type { ProfileResponse } from '@/types/api';
 
 /**
  * GET /api/auth/me
  * Fetch current user's profile
  */
-export async function GET(request: NextRequest) {
-  try {
-    // 1. Extract and validate authentication
-    const authHeader = request.headers.get('authorization');
-    const accessToken = authHeader?.replace('Bearer ', '');
-
-    if (!accessToken) {
-      throw new UnauthorizedError('Missing authorization token');
-    }
-
-    const userId = await getUserIdFromToken(accessToken);
-    if (!userId) {
-      throw new UnauthorizedError('Invalid authorization token');
-    }
-
-    // 2. Fetch user profile
-    const supabase = createUserClient(accessToken);
+export const GET = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Fetch user profile
     const { data: profile, error } = await supabase
       .from('profiles')
       .select('id, email, full_name, plan, created_at, updated_at')
@@ -45,7 +31,7 @@ export async function GET(request: NextRequest) {
       throw new ValidationError('Failed to fetch profile', { error: error?.message });
     }
 
-    // 3. Return profile response
+    // 2. Return profile response
     const response: ProfileResponse = {
       id: profile.id as string,
       email: profile.email as string,
@@ -56,36 +42,21 @@ export async function GET(request: NextRequest) {
     };
 
     return NextResponse.json(response, { status: 200 });
-  } catch (error) {
-    return handleApiError(error);
-  }
-}
+  },
+  { scope: 'account:read' }
+);
 
 /**
  * PATCH /api/auth/me
  * Update current user's profile
  */
-export async function PATCH(request: NextRequest) {
-  try {
-    // 1. Extract and validate authentication
-    const authHeader = request.headers.get('authorization');
-    const accessToken = authHeader?.replace('Bearer ', '');
-
-    if (!accessToken) {
-      throw new UnauthorizedError('Missing authorization token');
-    }
-
-    const userId = await getUserIdFromToken(accessToken);
-    if (!userId) {
-      throw new UnauthorizedError('Invalid authorization token');
-    }
-
-    // 2. Parse and validate request body
+export const PATCH = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Parse and validate request body
     const body = await request.json();
     const validated = validateRequest(updateProfileSchema, body);
 
-    // 3. Get current profile first
-    const supabase = createUserClient(accessToken);
+    // 2. Get current profile first
     const { data: currentProfile, error: fetchError } = await supabase
       .from('profiles')
       .select('id, email, full_name, plan, created_at, updated_at')
@@ -96,12 +67,12 @@ export async function PATCH(request: NextRequest) {
       throw new UnauthorizedError('User profile not found');
     }
 
-    // 4. Build update data (excluding plan)
+    // 3. Build update data (excluding plan)
     const updateData: { full_name?: string; email?: string } = {};
     if (validated.full_name !== undefined) updateData.full_name = validated.full_name;
     if (validated.email !== undefined) updateData.email = validated.email;
 
-    // 5. If no fields to update, return current profile
+    // 4. If no fields to update, return current profile
     if (Object.keys(updateData).length === 0) {
       const response: ProfileResponse = {
         id: currentProfile.id as string,
@@ -114,7 +85,7 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json(response, { status: 200 });
     }
 
-    // 6. Check for duplicate email (if email is being changed)
+    // 5. Check for duplicate email (if email is being changed)
     if (validated.email && validated.email !== currentProfile.email) {
       const { data: existingProfile, error: duplicateCheckError } = await supabase
         .from('profiles')
@@ -128,7 +99,7 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
-    // 7. Update profile (plan field is ignored)
+    // 6. Update profile (plan field is ignored)
     const { data: profile, error } = await supabase
       .from('profiles')
       .update(updateData)
@@ -140,7 +111,7 @@ export async function PATCH(request: NextRequest) {
       throw new ValidationError('Failed to update profile', { error: error?.message });
     }
 
-    // 8. Update auth email if changed
+    // 7. Update auth email if changed
     if (validated.email && validated.email !== (profile.email as string)) {
       const { error: authError } = await supabase.auth.updateUser({
         email: validated.email,
@@ -151,7 +122,7 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
-    // 9. Return updated profile
+    // 8. Return updated profile
     const response: ProfileResponse = {
       id: profile.id as string,
       email: profile.email as string,
@@ -162,8 +133,7 @@ export async function PATCH(request: NextRequest) {
     };
 
     return NextResponse.json(response, { status: 200 });
-  } catch (error) {
-    return handleApiError(error);
-  }
-}
+  },
+  { scope: 'account:write' }
+);
 
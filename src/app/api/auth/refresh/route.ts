@@ -0,0 +1,48 @@
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new session
+ * Refresh tokens are single-use: the response contains the replacement
+ *
+ * @public No authentication required (the refresh token is the credential)
+ * @rateLimit 20 requests per minute per client IP (shared with login)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createAuthClient, toAuthSessionResponse } from '@/lib/sessions';
+import { validateRequest, refreshSessionSchema } from '@/lib/validation';
+import { checkRateLimit, authRateLimit, getClientIp, addRateLimitHeaders } from '@/lib/rate-limit';
+import { handleApiError, RateLimitError, UnauthorizedError } from '@/lib/errors';
+import type { AuthSessionResponse } from '@/types/api';
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Check rate limit per client IP
+    const rateLimitResult = await checkRateLimit(authRateLimit, getClientIp(request.headers));
+    if (!rateLimitResult.success) {
+      throw new RateLimitError(rateLimitResult.reset);
+    }
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validated = validateRequest(refreshSessionSchema, body);
+
+    // 3. Refresh the session
+    const { data, error } = await createAuthClient().auth.refreshSession({
+      refresh_token: validated.refresh_token,
+    });
+
+    if (error || !data.session || !data.user) {
+      throw new UnauthorizedError('Invalid or expired refresh token');
+    }
+
+    // 4. Return auth response
+    const response: AuthSessionResponse = toAuthSessionResponse(data.user, data.session);
+
+    const res = NextResponse.json(response, { status: 200 });
+    addRateLimitHeaders(res.headers, rateLimitResult);
+
+    return res;
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
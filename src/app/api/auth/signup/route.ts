@@ -8,7 +8,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
-import { createClient } from '@supabase/supabase-js';
+import { createAuthClient, toAuthSessionResponse } from '@/lib/sessions';
 import { validateRequest, signupSchema } from '@/lib/validation';
 import { createCustomer } from '@/lib/stripe';
 import { handleApiError, ValidationError } from '@/lib/errors';
@@ -65,13 +65,8 @@ export async function POST(request: NextRequest) {
     }
 
     // 5. Create session for user using anon client (user is auto-confirmed)
-    const anonClient = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-    );
-
-    const { data: sessionData, error: sessionError } = 
-      await anonClient.auth.signInWithPassword({
+    const { data: sessionData, error: sessionError } =
+      await createAuthClient().auth.signInWithPassword({
         email: validated.email,
         password: validated.password,
       });
@@ -83,17 +78,7 @@ export async function POST(request: NextRequest) {
     }
 
     // 6. Return auth response
-    const response: AuthSessionResponse = {
-      user: {
-        id: authData.user.id,
-        email: authData.user.email!,
-      },
-      session: {
-        access_token: sessionData.session.access_token,
-        refresh_token: sessionData.session.refresh_token,
-        expires_in: sessionData.session.expires_in || 3600,
-      },
-    };
+    const response: AuthSessionResponse = toAuthSessionResponse(authData.user, sessionData.session);
 
     return NextResponse.json(response, { status: 201 });
   } catch (error) {
@@ -1,38 +1,26 @@
 /**
  * POST /api/billing/checkout
  * Create Stripe Checkout session for pro upgrade
+ * The team plan is billed per seat and must cover the seats the user's teams already use
  * 
  * @requires Authentication
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { createUserClient, getUserIdFromToken } from '@/lib/supabase';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
 import { createCheckoutSession } from '@/lib/stripe';
+import { countTeamSeatsUsed } from '@/lib/seats';
 import { validateRequest, checkoutSessionSchema } from '@/lib/validation';
-import { handleApiError, UnauthorizedError, ValidationError } from '@/lib/errors';
+import { UnauthorizedError, ValidationError } from '@/lib/errors';
 import type { CheckoutSessionResponse } from '@/types/api';
 
-export async function POST(request: NextRequest) {
-  try {
-    // 1. Extract and validate authentication
-    const authHeader = request.headers.get('authorization');
-    const accessToken = authHeader?.replace('Bearer ', '');
-
-    if (!accessToken) {
-      throw new UnauthorizedError('Missing authorization token');
-    }
-
-    const userId = await getUserIdFromToken(accessToken);
-    if (!userId) {
-      throw new UnauthorizedError('Invalid authorization token');
-    }
-
-    // 2. Validate request body
+export const POST = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Validate request body
     const body = await request.json();
     const validated = validateRequest(checkoutSessionSchema, body);
 
-    // 3. Get user profile and Stripe customer ID
-    const supabase = createUserClient(accessToken);
+    // 2. Get user profile and Stripe customer ID
     const { data: profile, error } = await supabase
       .from('profiles')
       .select('stripe_customer_id, plan')
@@ -47,18 +35,33 @@ export async function POST(request: NextRequest) {
       throw new ValidationError('Stripe customer ID not found');
     }
 
-    // 4. Check if user is already on the requested plan
+    // 3. Check if user is already on the requested plan
     if (profile.plan === validated.plan) {
       throw new ValidationError(`User is already on ${validated.plan} plan`);
     }
 
+    // 4. Team plan: buy at least the seats already in use (owner, members, pending invites)
+    let seats = 1;
+    if (validated.plan === 'team') {
+      const seatsUsed = await countTeamSeatsUsed(userId);
+      seats = validated.seats ?? seatsUsed;
+
+      if (seats < seatsUsed) {
+        throw new ValidationError(`Your teams already use ${seatsUsed} seats`, {
+          seats,
+          seats_used: seatsUsed,
+        });
+      }
+    }
+
     // 5. Create Stripe Checkout session
     const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
     const checkoutUrl = await createCheckoutSession(
       profile.stripe_customer_id,
       validated.plan,
       `${appUrl}/dashboard?upgrade=success`,
-      `${appUrl}/dashboard?upgrade=cancelled`
+      `${appUrl}/dashboard?upgrade=cancelled`,
+      seats
     );
 
     // 6. Return checkout URL
@@ -67,8 +70,6 @@ export async function POST(request: NextRequest) {
     };
 
     return NextResponse.json(response, { status: 200 });
-  } catch (error) {
-    return handleApiError(error);
   }
-}
+);
 
@@ -2,37 +2,47 @@
  * GET /api/billing/portal
  * Create Stripe Customer Portal session
  * Allows users to manage subscriptions and billing
+ * ?team_id= opens the portal for the team's subscription (the owner's), for roles with billing:manage
  * 
  * @requires Authentication
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { createUserClient, getUserIdFromToken } from '@/lib/supabase';
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth } from '@/lib/auth';
 import { createPortalSession } from '@/lib/stripe';
-import { handleApiError, UnauthorizedError, ValidationError } from '@/lib/errors';
+import { requireTeamPermission } from '@/lib/permissions';
+import { NotFoundError, UnauthorizedError, ValidationError } from '@/lib/errors';
 import type { PortalSessionResponse } from '@/types/api';
 
-export async function GET(request: NextRequest) {
-  try {
-    // 1. Extract and validate authentication
-    const authHeader = request.headers.get('authorization');
-    const accessToken = authHeader?.replace('Bearer ', '');
+export const GET = withAuth(
+  async (request, { userId, supabase }) => {
+    const teamId = request.nextUrl.searchParams.get('team_id');
 
-    if (!accessToken) {
-      throw new UnauthorizedError('Missing authorization token');
-    }
+    // 1. Resolve whose subscription to manage (a team is billed to its owner)
+    let billedUserId = userId;
+
+    if (teamId) {
+      await requireTeamPermission(supabase, teamId, userId, 'billing:manage');
+
+      const { data: team } = await supabase
+        .from('teams')
+        .select('owner_id')
+        .eq('id', teamId)
+        .single();
+
+      if (!team) {
+        throw new NotFoundError('Team');
+      }
 
-    const userId = await getUserIdFromToken(accessToken);
-    if (!userId) {
-      throw new UnauthorizedError('Invalid authorization token');
+      billedUserId = team.owner_id;
     }
 
-    // 2. Get user profile and Stripe customer ID
-    const supabase = createUserClient(accessToken);
-    const { data: profile, error } = await supabase
+    // 2. Get profile and Stripe customer ID (service role: admins manage the owner's billing)
+    const { data: profile, error } = await (billedUserId === userId ? supabase : supabaseAdmin)
       .from('profiles')
       .select('stripe_customer_id')
-      .eq('id', userId)
+      .eq('id', billedUserId)
       .single();
 
     if (error || !profile) {
@@ -56,8 +66,6 @@ export async function GET(request: NextRequest) {
     };
 
     return NextResponse.json(response, { status: 200 });
-  } catch (error) {
-    return handleApiError(error);
   }
-}
+);
 
@@ -8,7 +8,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
-import { verifyWebhookSignature } from '@/lib/stripe';
+import { verifyWebhookSignature, getPlanForPrice } from '@/lib/stripe';
 import { getSubscriptionFromEvent, getInvoiceFromEvent } from '@/types/stripe';
 
 export async function POST(request: NextRequest) {
@@ -65,17 +65,28 @@ export async function POST(request: NextRequest) {
           break;
         }
 
+        // Map the purchased price to a plan (the team price is billed per seat)
+        const item = subscription.items.data.find((item) => getPlanForPrice(item.price.id));
+        const pricePlan = item && getPlanForPrice(item.price.id);
+        if (!item || !pricePlan) {
+          console.error(`Subscription ${subscription.id} has no known price`);
+          break;
+        }
+
+        const plan = subscription.status === 'active' ? pricePlan : 'free';
+
         // Update profile with subscription details
         await supabaseAdmin
           .from('profiles')
           .update({
-            plan: subscription.status === 'active' ? 'pro' : 'free',
+            plan,
+            team_seats: plan === 'team' ? (item.quantity ?? 1) : null,
             stripe_subscription_id: subscription.id,
             downgraded_at: null, // Clear downgrade timestamp on upgrade
           })
           .eq('id', profile.id);
 
-        console.log(`Updated profile ${profile.id} to plan: ${subscription.status === 'active' ? 'pro' : 'free'}`);
+        console.log(`Updated profile ${profile.id} to plan: ${plan}`);
         break;
       }
 
@@ -101,6 +112,7 @@ export async function POST(request: NextRequest) {
           .from('profiles')
           .update({
             plan: 'free',
+            team_seats: null,
             stripe_subscription_id: null,
             downgraded_at: new Date().toISOString(),
           })
@@ -134,6 +146,7 @@ export async function POST(request: NextRequest) {
             .from('profiles')
             .update({
               plan: 'free',
+              team_seats: null,
               stripe_subscription_id: null,
               downgraded_at: new Date().toISOString(),
             })
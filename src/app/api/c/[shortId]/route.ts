@@ -0,0 +1,35 @@
+/**
+ * GET /api/c/[shortId]
+ * Public collection gallery endpoint
+ * Lists the collection's public screenshots (password-protected and limited-view ones are left out)
+ *
+ * @public No authentication required
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/errors';
+import {
+  getPublicCollection,
+  getPublicCollectionScreenshots,
+  toPublicCollectionResponse,
+} from '@/lib/collections';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ shortId: string }> }
+) {
+  try {
+    const { shortId } = await params;
+
+    // 1. Fetch collection (validates short ID and visibility)
+    const collection = await getPublicCollection(shortId);
+
+    // 2. Fetch gallery screenshots
+    const screenshots = await getPublicCollectionScreenshots(collection);
+
+    // 3. Return public collection response
+    return NextResponse.json(toPublicCollectionResponse(collection, screenshots), { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
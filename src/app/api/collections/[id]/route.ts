@@ -0,0 +1,138 @@
+/**
+ * GET /api/collections/[id]
+ * Get collection by ID
+ *
+ * PATCH /api/collections/[id]
+ * Rename, describe or share/unshare a collection
+ *
+ * DELETE /api/collections/[id]
+ * Delete a collection (its screenshots are kept and become unfiled)
+ *
+ * @requires Authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { validateRequest, updateCollectionSchema } from '@/lib/validation';
+import {
+  toCollectionResponse,
+  COLLECTION_WITH_COUNT_SELECT,
+  type CollectionWithCount,
+} from '@/lib/collections';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import type { CollectionResponse } from '@/types/api';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/collections/[id]
+ * Fetch collection with screenshot count
+ */
+export const GET = withAuth<{ id: string }>(
+  async (request, { userId, supabase, params }) => {
+    const { id } = params;
+
+    // 1. Validate UUID format
+    if (!uuidRegex.test(id)) {
+      throw new NotFoundError('Collection');
+    }
+
+    // 2. Fetch collection - filter by user_id to ensure ownership
+    const { data: collection, error } = await supabase
+      .from('collections')
+      .select(COLLECTION_WITH_COUNT_SELECT)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .is('screenshots.deleted_at', null)
+      .returns<CollectionWithCount[]>()
+      .single();
+
+    if (error || !collection) {
+      throw new NotFoundError('Collection');
+    }
+
+    // 3. Return collection response
+    const response: CollectionResponse = toCollectionResponse(collection);
+
+    return NextResponse.json(response, { status: 200 });
+  },
+  { scope: 'collections:read' }
+);
+
+/**
+ * PATCH /api/collections/[id]
+ * Update collection name, description or visibility
+ */
+export const PATCH = withAuth<{ id: string }>(
+  async (request, { userId, supabase, params }) => {
+    const { id } = params;
+
+    // 1. Validate UUID format
+    if (!uuidRegex.test(id)) {
+      throw new NotFoundError('Collection');
+    }
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validated = validateRequest(updateCollectionSchema, body);
+
+    // 3. Update collection - filter by user_id to ensure ownership
+    const { data: collection, error } = await supabase
+      .from('collections')
+      .update(validated)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select(COLLECTION_WITH_COUNT_SELECT)
+      .is('screenshots.deleted_at', null)
+      .returns<CollectionWithCount[]>()
+      .maybeSingle();
+
+    if (error) {
+      throw new ValidationError('Failed to update collection', { error: error.message });
+    }
+
+    if (!collection) {
+      throw new NotFoundError('Collection');
+    }
+
+    // 4. Return updated collection
+    const response: CollectionResponse = toCollectionResponse(collection);
+
+    return NextResponse.json(response, { status: 200 });
+  },
+  { scope: 'collections:write' }
+);
+
+/**
+ * DELETE /api/collections/[id]
+ * Delete collection (screenshots are unfiled by ON DELETE SET NULL, not deleted)
+ */
+export const DELETE = withAuth<{ id: string }>(
+  async (request, { userId, supabase, params }) => {
+    const { id } = params;
+
+    // 1. Validate UUID format
+    if (!uuidRegex.test(id)) {
+      throw new NotFoundError('Collection');
+    }
+
+    // 2. Delete collection - filter by user_id to ensure ownership
+    const { data: deleted, error } = await supabase
+      .from('collections')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw new ValidationError('Failed to delete collection', { error: error.message });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      throw new NotFoundError('Collection');
+    }
+
+    return new Response(null, { status: 204 });
+  },
+  { scope: 'collections:write' }
+);
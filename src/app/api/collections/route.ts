@@ -0,0 +1,97 @@
+/**
+ * GET /api/collections
+ * List user's collections with screenshot counts
+ *
+ * POST /api/collections
+ * Create a collection
+ *
+ * @requires Authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth } from '@/lib/auth';
+import { validateRequest, createCollectionSchema } from '@/lib/validation';
+import { generateUniqueShortId } from '@/lib/short-id';
+import {
+  toCollectionResponse,
+  COLLECTION_WITH_COUNT_SELECT,
+  type CollectionWithCount,
+} from '@/lib/collections';
+import { ValidationError } from '@/lib/errors';
+import type { CollectionResponse } from '@/types/api';
+
+/**
+ * GET /api/collections
+ * List collections (newest first)
+ */
+export const GET = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Fetch collections with screenshot counts
+    const { data: collections, error } = await supabase
+      .from('collections')
+      .select(COLLECTION_WITH_COUNT_SELECT)
+      .eq('user_id', userId)
+      .is('screenshots.deleted_at', null)
+      .order('created_at', { ascending: false })
+      .returns<CollectionWithCount[]>();
+
+    if (error) {
+      throw new ValidationError('Failed to fetch collections', { error: error.message });
+    }
+
+    // 2. Map to response format
+    const data: CollectionResponse[] = (collections || []).map((collection) =>
+      toCollectionResponse(collection)
+    );
+
+    return NextResponse.json({ collections: data }, { status: 200 });
+  },
+  { scope: 'collections:read' }
+);
+
+/**
+ * POST /api/collections
+ * Create a collection
+ */
+export const POST = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validated = validateRequest(createCollectionSchema, body);
+
+    // 2. Generate unique short ID for the gallery link
+    // (admin client - RLS would hide other users' collections from the collision check)
+    const shortId = await generateUniqueShortId(async (id) => {
+      const { data } = await supabaseAdmin
+        .from('collections')
+        .select('id')
+        .eq('short_id', id)
+        .single();
+      return data !== null;
+    });
+
+    // 3. Insert collection
+    const { data: collection, error } = await supabase
+      .from('collections')
+      .insert({
+        user_id: userId,
+        short_id: shortId,
+        name: validated.name,
+        description: validated.description ?? null,
+        is_public: validated.is_public,
+      })
+      .select()
+      .single();
+
+    if (error || !collection) {
+      throw new ValidationError('Failed to create collection', { error: error?.message });
+    }
+
+    // 4. Return created collection (new collections are empty)
+    const response: CollectionResponse = toCollectionResponse(collection, 0);
+
+    return NextResponse.json(response, { status: 201 });
+  },
+  { scope: 'collections:write' }
+);
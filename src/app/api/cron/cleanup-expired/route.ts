@@ -0,0 +1,190 @@
+/**
+ * GET /api/cron/cleanup-expired
+ * Remove expired screenshots and screenshots trashed more than TRASH_RETENTION_DAYS ago
+ * (storage objects + database rows)
+ * Releases their storage from monthly_usage and returns a summary report
+ *
+ * Query params:
+ * - dry_run (default: false) - report what would be removed without deleting anything
+ * - batch_size (default: 100, max: 500) - rows fetched per batch
+ * - max_batches (default: 10, max: 50) - upper bound on batches per invocation
+ *
+ * @requires Cron secret (Authorization: Bearer <CRON_SECRET>)
+ * @schedule Weekly (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { deleteScreenshotFiles, TRASH_RETENTION_DAYS } from '@/lib/screenshots';
+import { verifyCronRequest } from '@/lib/cron';
+import { validateRequest, cleanupExpiredSchema } from '@/lib/validation';
+import { handleApiError } from '@/lib/errors';
+import type { CleanupExpiredResponse } from '@/types/api';
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Verify the request was sent by Vercel Cron
+    verifyCronRequest(request);
+
+    // 2. Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const queryParams = {
+      dry_run: searchParams.get('dry_run') === 'true',
+      batch_size: parseInt(searchParams.get('batch_size') || '100'),
+      max_batches: parseInt(searchParams.get('max_batches') || '10'),
+    };
+
+    const validated = validateRequest(cleanupExpiredSchema, queryParams);
+
+    const startedAt = new Date().toISOString();
+    const trashCutoff = new Date(
+      Date.parse(startedAt) - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString();
+    const failures: CleanupExpiredResponse['failures'] = [];
+    const affectedUsers = new Set<string>();
+    // Bytes to release per user and month ("user_id|YYYY-MM")
+    const releasedStorage = new Map<string, number>();
+
+    let batches = 0;
+    let scanned = 0;
+    let deleted = 0;
+    let bytesFreed = 0;
+    let hasMore = false;
+    let lastId: string | null = null;
+
+    // 3. Process expired and purgeable trashed screenshots in batches (keyset pagination on id)
+    for (let batch = 0; batch < validated.max_batches; batch++) {
+      let query = supabaseAdmin
+        .from('screenshots')
+        .select('id, user_id, storage_path, thumbnail_path, variants, password_hash, max_views, file_size, created_at')
+        .or(`expires_at.lt.${startedAt},deleted_at.lt.${trashCutoff}`)
+        .order('id', { ascending: true })
+        .limit(validated.batch_size);
+
+      if (lastId) {
+        query = query.gt('id', lastId);
+      }
+
+      const { data: expired, error } = await query;
+
+      if (error) {
+        throw new Error(`Failed to fetch expired screenshots: ${error.message}`);
+      }
+
+      if (!expired || expired.length === 0) {
+        hasMore = false;
+        break;
+      }
+
+      batches++;
+      scanned += expired.length;
+      lastId = expired[expired.length - 1].id;
+      hasMore = expired.length === validated.batch_size;
+
+      // Dry run: report what would be removed and move on
+      if (validated.dry_run) {
+        for (const screenshot of expired) {
+          deleted++;
+          bytesFreed += screenshot.file_size;
+          affectedUsers.add(screenshot.user_id);
+        }
+        continue;
+      }
+
+      // 3a. Delete storage objects - rows whose file could not be removed
+      // are kept so the next run can retry them
+      const storageResults = await Promise.allSettled(
+        expired.map((screenshot) => deleteScreenshotFiles([screenshot]))
+      );
+
+      const removable = expired.filter((screenshot, index) => {
+        const result = storageResults[index];
+        if (result.status === 'rejected') {
+          failures.push({
+            id: screenshot.id,
+            storage_path: screenshot.storage_path,
+            error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+          });
+          return false;
+        }
+        return true;
+      });
+
+      if (removable.length === 0) {
+        continue;
+      }
+
+      // 3b. Delete database rows
+      const { error: deleteError } = await supabaseAdmin
+        .from('screenshots')
+        .delete()
+        .in('id', removable.map((screenshot) => screenshot.id));
+
+      if (deleteError) {
+        console.error('Failed to delete expired screenshot rows:', deleteError);
+        for (const screenshot of removable) {
+          failures.push({
+            id: screenshot.id,
+            storage_path: screenshot.storage_path,
+            error: deleteError.message,
+          });
+        }
+        continue;
+      }
+
+      for (const screenshot of removable) {
+        const key = `${screenshot.user_id}|${screenshot.created_at.slice(0, 7)}`;
+        releasedStorage.set(key, (releasedStorage.get(key) || 0) + screenshot.file_size);
+        affectedUsers.add(screenshot.user_id);
+        deleted++;
+        bytesFreed += screenshot.file_size;
+      }
+    }
+
+    // 4. Release storage from the month each screenshot was uploaded in
+    const usageResults = await Promise.allSettled(
+      Array.from(releasedStorage.entries()).map(async ([key, bytes]) => {
+        const [userId, month] = key.split('|');
+        const { error } = await supabaseAdmin.rpc('decrement_storage_usage', {
+          p_user_id: userId,
+          p_month: month,
+          p_bytes: bytes,
+        });
+
+        if (error) {
+          throw new Error(`Failed to release storage for ${key}: ${error.message}`);
+        }
+      })
+    );
+
+    for (const result of usageResults) {
+      if (result.status === 'rejected') {
+        // Usage counters are informational - don't fail the whole run
+        console.error('Failed to update monthly usage:', result.reason);
+      }
+    }
+
+    // 5. Return summary report
+    const response: CleanupExpiredResponse = {
+      dry_run: validated.dry_run,
+      started_at: startedAt,
+      completed_at: new Date().toISOString(),
+      batches,
+      scanned,
+      deleted,
+      bytes_freed: bytesFreed,
+      users_affected: affectedUsers.size,
+      has_more: hasMore,
+      failures,
+    };
+
+    console.log(
+      `Expired screenshot cleanup${validated.dry_run ? ' (dry run)' : ''}: ` +
+        `${deleted} removed, ${failures.length} failed, ${bytesFreed} bytes freed`
+    );
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
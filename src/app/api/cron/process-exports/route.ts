@@ -0,0 +1,154 @@
+/**
+ * GET /api/cron/process-exports
+ * Build queued GDPR data exports (POST /api/auth/export) and delete expired archives
+ * Failed exports are retried on later runs until MAX_EXPORT_ATTEMPTS is reached
+ *
+ * Query params:
+ * - batch_size (default: 1, max: 5) - exports built per invocation
+ *
+ * @requires Cron secret (Authorization: Bearer <CRON_SECRET>)
+ * @schedule Every 5 minutes (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { uploadFileStream, deleteFiles, EXPORTS_BUCKET } from '@/lib/storage';
+import {
+  createDataExportStream,
+  getExportStoragePath,
+  getExportExpiresAt,
+  MAX_EXPORT_ATTEMPTS,
+} from '@/lib/export';
+import { verifyCronRequest } from '@/lib/cron';
+import { validateRequest, processExportsSchema } from '@/lib/validation';
+import { handleApiError } from '@/lib/errors';
+import type { ProcessExportsResponse } from '@/types/api';
+
+/**
+ * Expired archives removed per invocation
+ */
+const EXPIRE_BATCH_SIZE = 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Verify the request was sent by Vercel Cron
+    verifyCronRequest(request);
+
+    // 2. Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const queryParams = {
+      batch_size: parseInt(searchParams.get('batch_size') || '1'),
+    };
+
+    const validated = validateRequest(processExportsSchema, queryParams);
+
+    const startedAt = new Date().toISOString();
+    const failures: ProcessExportsResponse['failures'] = [];
+    let completed = 0;
+    let retrying = 0;
+
+    // 3. Delete archives past their retention period
+    const { data: expiredExports, error: expiredError } = await supabaseAdmin
+      .from('data_exports')
+      .select('id, storage_path')
+      .eq('status', 'completed')
+      .lt('expires_at', startedAt)
+      .limit(EXPIRE_BATCH_SIZE);
+
+    if (expiredError) {
+      throw new Error(`Failed to fetch expired exports: ${expiredError.message}`);
+    }
+
+    if (expiredExports && expiredExports.length > 0) {
+      await deleteFiles(
+        expiredExports.flatMap((dataExport) => (dataExport.storage_path ? [dataExport.storage_path] : [])),
+        EXPORTS_BUCKET
+      );
+
+      const { error } = await supabaseAdmin
+        .from('data_exports')
+        .update({ status: 'expired', storage_path: null })
+        .in('id', expiredExports.map((dataExport) => dataExport.id));
+
+      if (error) {
+        throw new Error(`Failed to mark exports as expired: ${error.message}`);
+      }
+    }
+
+    // 4. Claim queued exports (skips rows claimed by an overlapping run)
+    const { data: claimed, error: claimError } = await supabaseAdmin.rpc('claim_data_export_batch', {
+      p_limit: validated.batch_size,
+      p_max_attempts: MAX_EXPORT_ATTEMPTS,
+    });
+
+    if (claimError) {
+      throw new Error(`Failed to claim export batch: ${claimError.message}`);
+    }
+
+    // 5. Build and upload each archive (streamed in chunks, never held in memory)
+    for (const dataExport of claimed ?? []) {
+      try {
+        const archive = await createDataExportStream(dataExport.user_id);
+        const storagePath = getExportStoragePath(dataExport.user_id, dataExport.id);
+
+        // Upsert so a retry after a crash overwrites a partial upload
+        const fileSize = await uploadFileStream(storagePath, archive, 'application/zip', true, EXPORTS_BUCKET);
+
+        const completedAt = new Date().toISOString();
+        const { error } = await supabaseAdmin
+          .from('data_exports')
+          .update({
+            status: 'completed',
+            storage_path: storagePath,
+            file_size: fileSize,
+            error: null,
+            completed_at: completedAt,
+            expires_at: getExportExpiresAt(completedAt),
+          })
+          .eq('id', dataExport.id);
+
+        if (error) {
+          throw new Error(`Failed to save export: ${error.message}`);
+        }
+
+        completed++;
+      } catch (exportError) {
+        const message = exportError instanceof Error ? exportError.message : String(exportError);
+        const exhausted = dataExport.attempts >= MAX_EXPORT_ATTEMPTS;
+        console.error(`Export failed for ${dataExport.id} (attempt ${dataExport.attempts}):`, exportError);
+
+        // Back to the queue for the next run, or give up after the last attempt
+        await supabaseAdmin
+          .from('data_exports')
+          .update({ status: exhausted ? 'failed' : 'pending', error: message })
+          .eq('id', dataExport.id);
+
+        if (!exhausted) {
+          retrying++;
+        }
+        failures.push({ id: dataExport.id, error: message });
+      }
+    }
+
+    // 6. Return summary report
+    const response: ProcessExportsResponse = {
+      started_at: startedAt,
+      completed_at: new Date().toISOString(),
+      claimed: claimed?.length ?? 0,
+      completed,
+      retrying,
+      failed: failures.length - retrying,
+      expired: expiredExports?.length ?? 0,
+      failures,
+    };
+
+    console.log(
+      `Export processing: ${completed} completed, ${retrying} retrying, ${response.failed} failed, ` +
+        `${response.expired} expired`
+    );
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
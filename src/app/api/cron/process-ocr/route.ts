@@ -0,0 +1,120 @@
+/**
+ * GET /api/cron/process-ocr
+ * Extract text from pending screenshots for full-text search (GET /api/screenshots?q=)
+ * Claims a batch, runs OCR locally and stores the text; failed screenshots are retried
+ * on later runs until MAX_OCR_ATTEMPTS is reached
+ *
+ * Query params:
+ * - batch_size (default: 10, max: 25) - screenshots processed per invocation
+ *
+ * @requires Cron secret (Authorization: Bearer <CRON_SECRET>)
+ * @schedule Every 5 minutes (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { downloadFile } from '@/lib/storage';
+import { getScreenshotBucket } from '@/lib/screenshots';
+import { createOcrWorker, extractText, getOcrLangPath, MAX_OCR_ATTEMPTS } from '@/lib/ocr';
+import { verifyCronRequest } from '@/lib/cron';
+import { validateRequest, processOcrSchema } from '@/lib/validation';
+import { handleApiError } from '@/lib/errors';
+import type { ProcessOcrResponse } from '@/types/api';
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Verify the request was sent by Vercel Cron
+    verifyCronRequest(request);
+
+    // 2. Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const queryParams = {
+      batch_size: parseInt(searchParams.get('batch_size') || '10'),
+    };
+
+    const validated = validateRequest(processOcrSchema, queryParams);
+
+    // 3. Resolve language data before claiming, so a misconfigured deploy leaves the queue untouched
+    const langPath = getOcrLangPath();
+
+    const startedAt = new Date().toISOString();
+    const failures: ProcessOcrResponse['failures'] = [];
+    let completed = 0;
+    let retrying = 0;
+
+    // 4. Claim pending screenshots (skips rows claimed by an overlapping run)
+    const { data: claimed, error: claimError } = await supabaseAdmin.rpc('claim_ocr_batch', {
+      p_limit: validated.batch_size,
+      p_max_attempts: MAX_OCR_ATTEMPTS,
+    });
+
+    if (claimError) {
+      throw new Error(`Failed to claim OCR batch: ${claimError.message}`);
+    }
+
+    // 5. Run OCR one screenshot at a time (Tesseract is CPU bound)
+    if (claimed && claimed.length > 0) {
+      const worker = await createOcrWorker(langPath);
+
+      try {
+        for (const screenshot of claimed) {
+          try {
+            const file = await downloadFile(screenshot.storage_path, getScreenshotBucket(screenshot));
+            const text = await extractText(worker, file);
+
+            const { error } = await supabaseAdmin
+              .from('screenshots')
+              .update({
+                ocr_status: 'completed',
+                ocr_text: text || null,
+                ocr_completed_at: new Date().toISOString(),
+              })
+              .eq('id', screenshot.id);
+
+            if (error) {
+              throw new Error(`Failed to save OCR text: ${error.message}`);
+            }
+
+            completed++;
+          } catch (ocrError) {
+            const message = ocrError instanceof Error ? ocrError.message : String(ocrError);
+            const exhausted = screenshot.ocr_attempts >= MAX_OCR_ATTEMPTS;
+            console.error(`OCR failed for ${screenshot.id} (attempt ${screenshot.ocr_attempts}):`, ocrError);
+
+            // Back to the queue for the next run, or give up after the last attempt
+            await supabaseAdmin
+              .from('screenshots')
+              .update({ ocr_status: exhausted ? 'failed' : 'pending' })
+              .eq('id', screenshot.id);
+
+            if (!exhausted) {
+              retrying++;
+            }
+            failures.push({ id: screenshot.id, error: message });
+          }
+        }
+      } finally {
+        await worker.terminate();
+      }
+    }
+
+    // 6. Return summary report
+    const response: ProcessOcrResponse = {
+      started_at: startedAt,
+      completed_at: new Date().toISOString(),
+      claimed: claimed?.length ?? 0,
+      completed,
+      retrying,
+      failed: failures.length - retrying,
+      failures,
+    };
+
+    console.log(
+      `OCR processing: ${completed} completed, ${retrying} retrying, ${response.failed} failed`
+    );
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * GET /api/plans
+ * List plans and their entitlements (limits and features) for the pricing page
+ *
+ * @public No authentication required
+ */
+
+import { NextResponse } from 'next/server';
+import { PLAN_ORDER, toPlanResponse } from '@/lib/plans';
+
+export async function GET() {
+  return NextResponse.json({ plans: PLAN_ORDER.map(toPlanResponse) }, { status: 200 });
+}
@@ -0,0 +1,86 @@
+/**
+ * POST /api/s/[shortId]/unlock
+ * Unlock a password-protected share link
+ * Returns a short-lived token for /api/s/[shortId]?token=, /s/[shortId]?token= and /i/[shortId]?token=
+ * plus a signed image URL
+ * Unlocking a limited-view screenshot uses up one of its views (the signed URL is the view)
+ *
+ * @public No authentication required
+ * @rateLimit 10 attempts per minute per link and client IP
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, unlockScreenshotSchema } from '@/lib/validation';
+import { generateSignedDownloadUrl } from '@/lib/storage';
+import { getPublicScreenshot, getScreenshotBucket, recordScreenshotView } from '@/lib/screenshots';
+import {
+  SHARE_TOKEN_TTL,
+  createShareAccessToken,
+  verifySharePassword,
+} from '@/lib/share-access';
+import { checkRateLimit, unlockRateLimit, getClientIp, addRateLimitHeaders } from '@/lib/rate-limit';
+import {
+  handleApiError,
+  PasswordRequiredError,
+  RateLimitError,
+  ValidationError,
+} from '@/lib/errors';
+import type { UnlockScreenshotResponse } from '@/types/api';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ shortId: string }> }
+) {
+  try {
+    const { shortId } = await params;
+
+    // 1. Check rate limit (slows down password guessing)
+    const rateLimitResult = await checkRateLimit(
+      unlockRateLimit,
+      `${shortId}:${getClientIp(request.headers)}`
+    );
+    if (!rateLimitResult.success) {
+      throw new RateLimitError(rateLimitResult.reset);
+    }
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validated = validateRequest(unlockScreenshotSchema, body);
+
+    // 3. Fetch screenshot (validates short ID, visibility and expiration)
+    const screenshot = await getPublicScreenshot(shortId);
+
+    if (!screenshot.password_hash) {
+      throw new ValidationError('Screenshot is not password protected');
+    }
+
+    // 4. Check password
+    const valid = await verifySharePassword(validated.password, screenshot.password_hash);
+    if (!valid) {
+      throw new PasswordRequiredError('Incorrect password');
+    }
+
+    // 5. Count the view for limited-view screenshots (GoneError once the limit is used up)
+    if (screenshot.max_views !== null) {
+      await recordScreenshotView(screenshot);
+    }
+
+    // 6. Issue unlock token and signed image URL
+    const response: UnlockScreenshotResponse = {
+      token: createShareAccessToken(screenshot),
+      expires_in: SHARE_TOKEN_TTL,
+      storage_url: await generateSignedDownloadUrl(
+        screenshot.storage_path,
+        SHARE_TOKEN_TTL,
+        getScreenshotBucket(screenshot)
+      ),
+    };
+
+    const res = NextResponse.json(response, { status: 200 });
+    addRateLimitHeaders(res.headers, rateLimitResult);
+
+    return res;
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -5,50 +5,38 @@
  * @requires Authentication
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { createUserClient, getUserIdFromToken } from '@/lib/supabase';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
 import { generateSignedDownloadUrl } from '@/lib/storage';
-import { handleApiError, UnauthorizedError, NotFoundError, ForbiddenError } from '@/lib/errors';
+import { getScreenshotBucket } from '@/lib/screenshots';
+import { NotFoundError, ForbiddenError } from '@/lib/errors';
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const { id } = await params;
+export const GET = withAuth<{ id: string }>(
+  async (request, { userId, supabase, params }) => {
+    const { id } = params;
 
-    // 1. Extract and validate authentication
-    const authHeader = request.headers.get('authorization');
-    const accessToken = authHeader?.replace('Bearer ', '');
-
-    if (!accessToken) {
-      throw new UnauthorizedError('Missing authorization token');
-    }
-
-    const userId = await getUserIdFromToken(accessToken);
-    if (!userId) {
-      throw new UnauthorizedError('Invalid authorization token');
-    }
-
-    // 2. Fetch screenshot
-    const supabase = createUserClient(accessToken);
+    // 1. Fetch screenshot
     const { data: screenshot, error } = await supabase
       .from('screenshots')
-      .select('user_id, storage_path')
+      .select('user_id, storage_path, password_hash, max_views, deleted_at')
       .eq('id', id)
       .single();
 
-    if (error || !screenshot) {
+    if (error || !screenshot || screenshot.deleted_at) {
       throw new NotFoundError('Screenshot');
     }
 
-    // 3. Verify ownership
+    // 2. Verify ownership
     if (screenshot.user_id !== userId) {
       throw new ForbiddenError('You do not have permission to download this screenshot');
     }
 
-    // 4. Generate signed download URL (1 hour expiration)
-    const downloadUrl = await generateSignedDownloadUrl(screenshot.storage_path, 3600);
+    // 3. Generate signed download URL (1 hour expiration)
+    const downloadUrl = await generateSignedDownloadUrl(
+      screenshot.storage_path,
+      3600,
+      getScreenshotBucket(screenshot)
+    );
 
     return NextResponse.json(
       {
@@ -57,8 +45,7 @@ export async function GET(
       },
       { status: 200 }
     );
-  } catch (error) {
-    return handleApiError(error);
-  }
-}
+  },
+  { scope: 'screenshots:read' }
+);
 
@@ -0,0 +1,48 @@
+/**
+ * POST /api/screenshots/[id]/restore
+ * Restore a screenshot from the trash (share links work again)
+ *
+ * @requires Authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { toScreenshotResponse } from '@/lib/screenshots';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import type { ScreenshotResponse } from '@/types/api';
+
+export const POST = withAuth<{ id: string }>(
+  async (request, { userId, supabase, params }) => {
+    const { id } = params;
+
+    // 1. Validate UUID format
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      throw new NotFoundError('Screenshot');
+    }
+
+    // 2. Clear deleted_at - only matches the user's own trashed screenshots
+    const { data: screenshot, error } = await supabase
+      .from('screenshots')
+      .update({ deleted_at: null })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .not('deleted_at', 'is', null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new ValidationError('Failed to restore screenshot', { error: error.message });
+    }
+
+    if (!screenshot) {
+      throw new NotFoundError('Screenshot');
+    }
+
+    // 3. Return restored screenshot
+    const response: ScreenshotResponse = await toScreenshotResponse(screenshot);
+
+    return NextResponse.json(response, { status: 200 });
+  },
+  { scope: 'screenshots:write' }
+);
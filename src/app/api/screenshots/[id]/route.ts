@@ -6,28 +6,55 @@
  * Update screenshot metadata
  * 
  * DELETE /api/screenshots/[id]
- * Delete screenshot and storage file
+ * Move screenshot to the trash (?permanent=true deletes it and its storage files)
+ * 
+ * Team admins can also change the visibility of other members' team screenshots and move them
+ * to the uploader's trash (see @/lib/permissions)
  * 
  * @requires Authentication
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { createUserClient, getUserIdFromToken } from '@/lib/supabase';
-import { validateRequest, updateScreenshotSchema } from '@/lib/validation';
-import { getPublicUrl, deleteFile } from '@/lib/storage';
-import { handleApiError, UnauthorizedError, NotFoundError, ValidationError, ForbiddenError } from '@/lib/errors';
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth } from '@/lib/auth';
+import { validateRequest, updateScreenshotSchema, resolveMaxViews } from '@/lib/validation';
+import { moveFiles } from '@/lib/storage';
+import {
+  toScreenshotResponse,
+  deleteScreenshotFiles,
+  getScreenshotBucket,
+  getScreenshotStoragePaths,
+} from '@/lib/screenshots';
+import { hashSharePassword } from '@/lib/share-access';
+import { getTeamRole } from '@/lib/teams';
+import { assertTeamPermission, requireTeamPermission } from '@/lib/permissions';
+import { resolveExpiresAt } from '@/lib/expiry';
+import { getEntitlements } from '@/lib/plans';
+import { ForbiddenError, NotFoundError, ValidationError } from '@/lib/errors';
 import type { ScreenshotResponse } from '@/types/api';
 
+/**
+ * Fields only the uploader can change (other team members can at most change is_public)
+ */
+const UPLOADER_ONLY_FIELDS = [
+  'original_filename',
+  'password',
+  'max_views',
+  'burn_after_reading',
+  'expires_in',
+  'expires_at',
+  'collection_id',
+  'team_id',
+  'tags',
+] as const;
+
 /**
  * GET /api/screenshots/[id]
  * Fetch screenshot metadata
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const { id } = await params;
+export const GET = withAuth<{ id: string }>(
+  async (request, { userId, supabase, params }) => {
+    const { id } = params;
 
     // 1. Validate UUID format
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -35,21 +62,7 @@ export async function GET(
       throw new ValidationError('Invalid screenshot ID format');
     }
 
-    // 2. Extract and validate authentication
-    const authHeader = request.headers.get('authorization');
-    const accessToken = authHeader?.replace('Bearer ', '');
-
-    if (!accessToken) {
-      throw new UnauthorizedError('Missing authorization token');
-    }
-
-    const userId = await getUserIdFromToken(accessToken);
-    if (!userId) {
-      throw new UnauthorizedError('Invalid authorization token');
-    }
-
-    // 3. Fetch screenshot - filter by user_id to ensure ownership
-    const supabase = createUserClient(accessToken);
+    // 2. Fetch screenshot - filter by user_id to ensure ownership
     const { data: screenshot, error } = await supabase
       .from('screenshots')
       .select('*')
@@ -57,46 +70,26 @@ export async function GET(
       .eq('user_id', userId) // Only fetch if user owns it
       .single();
 
-    if (error || !screenshot) {
+    // Trashed screenshots are only visible through GET /api/trash
+    if (error || !screenshot || screenshot.deleted_at) {
       throw new NotFoundError('Screenshot');
     }
 
-    // 4. Return screenshot response
-    const publicUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/s/${screenshot.short_id}`;
-    const response: ScreenshotResponse = {
-      id: screenshot.id,
-      short_id: screenshot.short_id,
-      original_filename: screenshot.original_filename,
-      file_size: screenshot.file_size,
-      width: screenshot.width,
-      height: screenshot.height,
-      mime_type: screenshot.mime_type,
-      public_url: publicUrl,
-      share_url: publicUrl,
-      storage_url: getPublicUrl(screenshot.storage_path),
-      expires_at: screenshot.expires_at,
-      views: screenshot.views,
-      is_public: screenshot.is_public,
-      created_at: screenshot.created_at,
-      updated_at: screenshot.updated_at,
-    };
+    // 3. Return screenshot response
+    const response: ScreenshotResponse = await toScreenshotResponse(screenshot);
 
     return NextResponse.json(response, { status: 200 });
-  } catch (error) {
-    return handleApiError(error);
-  }
-}
+  },
+  { scope: 'screenshots:read' }
+);
 
 /**
  * PATCH /api/screenshots/[id]
  * Update screenshot metadata
  */
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const { id } = await params;
+export const PATCH = withAuth<{ id: string }>(
+  async (request, { userId, supabase, params, getPlan }) => {
+    const { id } = params;
 
     // 1. Validate UUID format
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -104,120 +97,216 @@ export async function PATCH(
       throw new NotFoundError('Screenshot');
     }
 
-    // 2. Extract and validate authentication
-    const authHeader = request.headers.get('authorization');
-    const accessToken = authHeader?.replace('Bearer ', '');
-
-    if (!accessToken) {
-      throw new UnauthorizedError('Missing authorization token');
-    }
-
-    const userId = await getUserIdFromToken(accessToken);
-    if (!userId) {
-      throw new UnauthorizedError('Invalid authorization token');
-    }
-
-    // 3. Parse and validate request body
+    // 2. Parse and validate request body
     const body = await request.json();
     const validated = validateRequest(updateScreenshotSchema, body);
 
-    // 4. Check if screenshot exists first
-    const supabase = createUserClient(accessToken);
+    // 3. Check if screenshot exists first (RLS also shows team screenshots)
     const { data: existing, error: fetchError } = await supabase
       .from('screenshots')
-      .select('id')
+      .select('id, user_id, team_id, views, created_at, deleted_at, storage_path, thumbnail_path, variants, password_hash, max_views')
       .eq('id', id)
-      .eq('user_id', userId)
       .single();
 
-    if (fetchError || !existing) {
+    // Trashed screenshots must be restored before they can be edited
+    if (fetchError || !existing || existing.deleted_at) {
       throw new NotFoundError('Screenshot');
     }
 
-    // 5. Build update object
-    const updateData: { original_filename?: string; is_public?: boolean } = {};
+    // Other members' team screenshots: only their visibility, and only with the permission
+    if (existing.user_id !== userId) {
+      if (!existing.team_id) {
+        throw new NotFoundError('Screenshot');
+      }
+
+      const role = await getTeamRole(supabase, existing.team_id, userId);
+
+      if (UPLOADER_ONLY_FIELDS.some((field) => validated[field] !== undefined)) {
+        throw new ForbiddenError('Only the uploader can edit this screenshot');
+      }
+
+      assertTeamPermission(role, 'screenshots:visibility');
+    }
+
+    // 4. Build update object
+    const updateData: {
+      original_filename?: string;
+      is_public?: boolean;
+      password_hash?: string | null;
+      max_views?: number | null;
+      expires_at?: string | null;
+      collection_id?: string | null;
+      team_id?: string | null;
+    } = {};
     if (validated.original_filename !== undefined) updateData.original_filename = validated.original_filename;
     if (validated.is_public !== undefined) updateData.is_public = validated.is_public;
+    if (validated.password !== undefined) {
+      if (validated.password !== null) {
+        const entitlements = getEntitlements(await getPlan());
+        if (!entitlements.features.passwordLinks) {
+          throw new ForbiddenError(
+            `Password-protected links are not included in the ${entitlements.name} plan`
+          );
+        }
+      }
+
+      // Only the hash is stored; null removes password protection
+      updateData.password_hash = validated.password === null ? null : await hashSharePassword(validated.password);
+    }
+
+    const maxViews = resolveMaxViews(validated);
+    if (maxViews !== undefined) {
+      // A limit at or below the current count would destroy the link on its next view
+      if (maxViews !== null && maxViews <= existing.views) {
+        throw new ValidationError('max_views must be greater than the current view count', {
+          views: existing.views,
+        });
+      }
+      updateData.max_views = maxViews;
+    }
+
+    if (validated.expires_in !== undefined || validated.expires_at !== undefined) {
+      // Retention limits depend on the plan and are measured from the upload time
+      updateData.expires_at = resolveExpiresAt(
+        await getPlan(),
+        validated,
+        new Date(existing.created_at)
+      );
+    }
+
+    if (validated.collection_id !== undefined) {
+      // Screenshots can only be filed into the user's own collections
+      if (validated.collection_id !== null) {
+        const { data: collection } = await supabase
+          .from('collections')
+          .select('id')
+          .eq('id', validated.collection_id)
+          .eq('user_id', userId)
+          .single();
+
+        if (!collection) {
+          throw new NotFoundError('Collection');
+        }
+      }
+      updateData.collection_id = validated.collection_id;
+    }
+
+    if (validated.team_id !== undefined) {
+      // Screenshots can only be shared into teams whose role allows it (viewers can't)
+      if (validated.team_id !== null) {
+        await requireTeamPermission(supabase, validated.team_id, userId, 'screenshots:share');
+      }
+      updateData.team_id = validated.team_id;
+    }
+
+    // 5. Move the files when a password or view limit is added or removed, so protected images
+    // are never left in the public bucket
+    const fromBucket = getScreenshotBucket(existing);
+    const toBucket = getScreenshotBucket({ ...existing, ...updateData });
+    const storagePaths = getScreenshotStoragePaths(existing);
+
+    if (toBucket !== fromBucket) {
+      await moveFiles(storagePaths, fromBucket, toBucket);
+    }
 
     // 6. Update screenshot
     const { data: screenshot, error } = await supabase
       .from('screenshots')
       .update(updateData)
-      .eq('id', id)
-      .eq('user_id', userId) // RLS enforcement
+      .eq('id', id) // RLS and a trigger limit what other team members can change
       .select()
       .single();
 
     if (error || !screenshot) {
+      if (toBucket !== fromBucket) {
+        await moveFiles(storagePaths, toBucket, fromBucket).catch((moveError) => {
+          console.error(`Failed to move files back for ${id}:`, moveError);
+        });
+      }
       throw new ValidationError('Failed to update screenshot', { error: error?.message });
     }
 
-    // 5. Return updated screenshot
-    const publicUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/s/${screenshot.short_id}`;
-    const response: ScreenshotResponse = {
-      id: screenshot.id,
-      short_id: screenshot.short_id,
-      original_filename: screenshot.original_filename,
-      file_size: screenshot.file_size,
-      width: screenshot.width,
-      height: screenshot.height,
-      mime_type: screenshot.mime_type,
-      public_url: publicUrl,
-      share_url: publicUrl,
-      storage_url: getPublicUrl(screenshot.storage_path),
-      expires_at: screenshot.expires_at,
-      views: screenshot.views,
-      is_public: screenshot.is_public,
-      created_at: screenshot.created_at,
-      updated_at: screenshot.updated_at,
-    };
+    // 7. Replace tags once the update has gone through, so a rejected update leaves them as they were
+    let tags = screenshot.tags;
+    if (validated.tags !== undefined) {
+      // Tags live in screenshot_tags; the RPC creates missing tags and returns screenshots.tags
+      // as its sync trigger left it (ownership was checked in step 3)
+      const { data: updatedTags, error: tagsError } = await supabaseAdmin.rpc('set_screenshot_tags', {
+        p_user_id: userId,
+        p_screenshot_id: id,
+        p_tags: [...new Set(validated.tags)],
+      });
+
+      if (tagsError || !updatedTags) {
+        throw new ValidationError('Failed to update tags', { error: tagsError?.message });
+      }
+      tags = updatedTags;
+    }
+
+    // 8. Return updated screenshot
+    const response: ScreenshotResponse = await toScreenshotResponse({ ...screenshot, tags });
 
     return NextResponse.json(response, { status: 200 });
-  } catch (error) {
-    return handleApiError(error);
-  }
-}
+  },
+  { scope: 'screenshots:write' }
+);
 
 /**
  * DELETE /api/screenshots/[id]
- * Delete screenshot and storage file
+ * Move screenshot to the trash, or delete it and its storage files with ?permanent=true
+ * (also works for screenshots already in the trash)
  */
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const { id } = await params;
-
-    // 1. Extract and validate authentication
-    const authHeader = request.headers.get('authorization');
-    const accessToken = authHeader?.replace('Bearer ', '');
-
-    if (!accessToken) {
-      throw new UnauthorizedError('Missing authorization token');
-    }
+export const DELETE = withAuth<{ id: string }>(
+  async (request, { userId, supabase, params }) => {
+    const { id } = params;
 
-    const userId = await getUserIdFromToken(accessToken);
-    if (!userId) {
-      throw new UnauthorizedError('Invalid authorization token');
-    }
+    const permanent = request.nextUrl.searchParams.get('permanent') === 'true';
 
-    // 2. Fetch screenshot to get storage path
-    const supabase = createUserClient(accessToken);
+    // 1. Fetch screenshot to get storage paths (RLS also shows team screenshots)
     const { data: screenshot, error: fetchError } = await supabase
       .from('screenshots')
-      .select('storage_path')
+      .select('user_id, team_id, storage_path, thumbnail_path, variants, password_hash, max_views, deleted_at')
       .eq('id', id)
-      .eq('user_id', userId)
       .single();
 
     if (fetchError || !screenshot) {
       throw new NotFoundError('Screenshot');
     }
 
-    // 3. Delete storage file
+    // Other members' team screenshots can only be moved to the uploader's trash
+    if (screenshot.user_id !== userId) {
+      if (!screenshot.team_id || screenshot.deleted_at) {
+        throw new NotFoundError('Screenshot');
+      }
+
+      const role = await getTeamRole(supabase, screenshot.team_id, userId);
+
+      if (permanent) {
+        throw new ForbiddenError('Only the uploader can permanently delete this screenshot');
+      }
+
+      assertTeamPermission(role, 'screenshots:delete');
+    }
+
+    // 2. Move to the trash - already trashed screenshots keep their original deletion time
+    if (!permanent) {
+      if (!screenshot.deleted_at) {
+        const { error: trashError } = await supabase
+          .from('screenshots')
+          .update({ deleted_at: new Date().toISOString() })
+          .eq('id', id);
+
+        if (trashError) {
+          throw new ValidationError('Failed to delete screenshot', { error: trashError.message });
+        }
+      }
+
+      return new Response(null, { status: 204 });
+    }
+
+    // 3. Delete storage files (original, thumbnail and variants)
     try {
-      await deleteFile(screenshot.storage_path);
+      await deleteScreenshotFiles([screenshot]);
     } catch (storageError) {
       console.error('Failed to delete storage file:', storageError);
       // Continue with database deletion even if storage fails
@@ -235,8 +324,6 @@ export async function DELETE(
     }
 
     return new Response(null, { status: 204 });
-  } catch (error) {
-    return handleApiError(error);
-  }
-}
-
+  },
+  { scope: 'screenshots:write' }
+);
@@ -0,0 +1,113 @@
+/**
+ * POST /api/screenshots/archive
+ * Download screenshot originals as a zip archive
+ * Screenshots are selected by ID, by collection or by upload date range; screenshots in the trash
+ * are never included and the total size of the originals is capped per plan
+ *
+ * @requires Authentication
+ */
+
+import { withAuth } from '@/lib/auth';
+import { validateRequest, archiveScreenshotsSchema } from '@/lib/validation';
+import { createArchiveStream, MAX_ARCHIVE_FILES } from '@/lib/archive';
+import { getEntitlements } from '@/lib/plans';
+import { NotFoundError, ValidationError, PayloadTooLargeError } from '@/lib/errors';
+
+export const POST = withAuth(
+  async (request, { userId, supabase, getPlan }) => {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validated = validateRequest(archiveScreenshotsSchema, body);
+
+    // 2. Get user plan (archive size limit)
+    const plan = await getPlan();
+
+    // 3. Check the collection belongs to the user
+    if (validated.collection_id) {
+      const { data: collection } = await supabase
+        .from('collections')
+        .select('id')
+        .eq('id', validated.collection_id)
+        .eq('user_id', userId)
+        .single();
+
+      if (!collection) {
+        throw new NotFoundError('Collection');
+      }
+    }
+
+    // 4. Fetch the selected screenshots (one extra row detects selections over the file limit)
+    let query = supabase
+      .from('screenshots')
+      .select('id, original_filename, storage_path, password_hash, max_views, mime_type, file_size, created_at')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: true })
+      .limit(MAX_ARCHIVE_FILES + 1);
+
+    if (validated.screenshot_ids) {
+      query = query.in('id', validated.screenshot_ids);
+    }
+
+    if (validated.collection_id) {
+      query = query.eq('collection_id', validated.collection_id);
+    }
+
+    if (validated.from_date) {
+      query = query.gte('created_at', validated.from_date);
+    }
+
+    if (validated.to_date) {
+      query = query.lte('created_at', validated.to_date);
+    }
+
+    const { data: screenshots, error } = await query;
+
+    if (error) {
+      throw new ValidationError('Failed to fetch screenshots', { error: error.message });
+    }
+
+    // 5. Enforce selection and size limits before anything is streamed
+    if (validated.screenshot_ids) {
+      const foundIds = new Set(screenshots.map((screenshot) => screenshot.id));
+      const notFound = [...new Set(validated.screenshot_ids)].filter((id) => !foundIds.has(id));
+
+      if (notFound.length > 0) {
+        throw new ValidationError('Some screenshots were not found', { not_found: notFound });
+      }
+    }
+
+    if (screenshots.length === 0) {
+      throw new ValidationError('No screenshots match the selection');
+    }
+
+    if (screenshots.length > MAX_ARCHIVE_FILES) {
+      throw new ValidationError(`Archives are limited to ${MAX_ARCHIVE_FILES} screenshots`, {
+        max_files: MAX_ARCHIVE_FILES,
+      });
+    }
+
+    const totalBytes = screenshots.reduce((sum, screenshot) => sum + screenshot.file_size, 0);
+    const maxBytes = getEntitlements(plan).maxArchiveBytes;
+
+    if (totalBytes > maxBytes) {
+      throw new PayloadTooLargeError(
+        `Archive exceeds the ${plan} plan limit of ${maxBytes / (1024 * 1024)}MB`,
+        { total_bytes: totalBytes, max_bytes: maxBytes, plan: plan }
+      );
+    }
+
+    // 6. Stream the zip
+    const filename = `snappd-screenshots-${new Date().toISOString().slice(0, 10)}.zip`;
+
+    return new Response(createArchiveStream(screenshots), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  },
+  { scope: 'screenshots:read' }
+);
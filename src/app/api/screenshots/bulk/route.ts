@@ -0,0 +1,301 @@
+/**
+ * POST /api/screenshots/bulk
+ * Apply one action to many screenshots: delete (to the trash, or permanently), set_public,
+ * set_expiry, move (into or out of a collection), add_tags and remove_tags
+ *
+ * Screenshots succeed or fail individually - unknown IDs, other users' screenshots and screenshots
+ * in the trash (for every action except delete) fail with NOT_FOUND while the rest are still updated
+ *
+ * @requires Authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth, type AuthContext } from '@/lib/auth';
+import { validateRequest, bulkScreenshotsSchema, MAX_TAGS_PER_SCREENSHOT } from '@/lib/validation';
+import { deleteScreenshotFiles, type ScreenshotRow } from '@/lib/screenshots';
+import { resolveExpiresAt } from '@/lib/expiry';
+import { ApiError, UnauthorizedError, NotFoundError, ValidationError } from '@/lib/errors';
+import type { Database } from '@/types/database';
+import type { BulkScreenshotsResponse } from '@/types/api';
+
+/**
+ * IDs per .in() filter - keeps PostgREST request URLs short
+ */
+const BULK_QUERY_CHUNK_SIZE = 100;
+
+type UserClient = AuthContext['supabase'];
+
+type BulkTarget = Pick<
+  ScreenshotRow,
+  | 'id'
+  | 'created_at'
+  | 'tags'
+  | 'deleted_at'
+  | 'storage_path'
+  | 'thumbnail_path'
+  | 'variants'
+  | 'password_hash'
+  | 'max_views'
+>;
+
+/**
+ * Split items into BULK_QUERY_CHUNK_SIZE sized groups
+ */
+const toChunks = <T>(items: T[]): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += BULK_QUERY_CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + BULK_QUERY_CHUNK_SIZE));
+  }
+  return chunks;
+};
+
+/**
+ * Update screenshots chunk by chunk
+ * Screenshots in a chunk that fails are recorded in failures; other chunks still apply
+ * Rows the update didn't return (filtered out by RLS or a trigger since step 2) count as not found
+ */
+const updateScreenshots = async (
+  supabase: UserClient,
+  userId: string,
+  ids: string[],
+  values: Database['public']['Tables']['screenshots']['Update'],
+  failures: Map<string, ApiError>
+): Promise<void> => {
+  for (const chunk of toChunks(ids)) {
+    const { data: updated, error } = await supabase
+      .from('screenshots')
+      .update(values)
+      .in('id', chunk)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      for (const id of chunk) {
+        failures.set(id, new ValidationError('Failed to update screenshot', { error: error.message }));
+      }
+      continue;
+    }
+
+    const updatedIds = new Set((updated || []).map((screenshot) => screenshot.id));
+    for (const id of chunk) {
+      if (!updatedIds.has(id)) {
+        failures.set(id, new NotFoundError('Screenshot'));
+      }
+    }
+  }
+};
+
+export const POST = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validated = validateRequest(bulkScreenshotsSchema, body);
+    const screenshotIds = [...new Set(validated.screenshot_ids)];
+
+    // 2. Fetch the screenshots - filter by user_id so other users' IDs are reported as not found
+    const found = new Map<string, BulkTarget>();
+
+    for (const chunk of toChunks(screenshotIds)) {
+      const { data: screenshots, error } = await supabase
+        .from('screenshots')
+        .select('id, created_at, tags, deleted_at, storage_path, thumbnail_path, variants, password_hash, max_views')
+        .in('id', chunk)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw new ValidationError('Failed to fetch screenshots', { error: error.message });
+      }
+
+      for (const screenshot of screenshots || []) {
+        found.set(screenshot.id, screenshot);
+      }
+    }
+
+    const failures = new Map<string, ApiError>();
+    const targets: BulkTarget[] = [];
+
+    for (const id of screenshotIds) {
+      const screenshot = found.get(id);
+      // Trashed screenshots must be restored before they can be changed (delete still applies)
+      if (!screenshot || (screenshot.deleted_at && validated.action !== 'delete')) {
+        failures.set(id, new NotFoundError('Screenshot'));
+      } else {
+        targets.push(screenshot);
+      }
+    }
+
+    // 3. Apply the action to the remaining screenshots
+    if (targets.length > 0) {
+      switch (validated.action) {
+        case 'delete': {
+          if (!validated.permanent) {
+            // Already trashed screenshots keep their original deletion time
+            await updateScreenshots(
+              supabase,
+              userId,
+              targets.filter((screenshot) => !screenshot.deleted_at).map((screenshot) => screenshot.id),
+              { deleted_at: new Date().toISOString() },
+              failures
+            );
+            break;
+          }
+
+          for (const chunk of toChunks(targets)) {
+            const ids = chunk.map((screenshot) => screenshot.id);
+
+            try {
+              await deleteScreenshotFiles(chunk);
+            } catch (storageError) {
+              console.error('Failed to delete storage files:', storageError);
+              // Continue with database deletion even if storage fails
+            }
+
+            const { error } = await supabase
+              .from('screenshots')
+              .delete()
+              .in('id', ids)
+              .eq('user_id', userId);
+
+            if (error) {
+              for (const id of ids) {
+                failures.set(id, new ValidationError('Failed to delete screenshot', { error: error.message }));
+              }
+            }
+          }
+          break;
+        }
+
+        case 'set_public': {
+          await updateScreenshots(
+            supabase,
+            userId,
+            targets.map((screenshot) => screenshot.id),
+            { is_public: validated.is_public },
+            failures
+          );
+          break;
+        }
+
+        case 'set_expiry': {
+          // Retention limits depend on the plan and are measured from each screenshot's upload time
+          const { data: profile } = await supabase
+            .from('profiles')
+            .select('plan')
+            .eq('id', userId)
+            .single();
+
+          if (!profile) {
+            throw new UnauthorizedError('User profile not found');
+          }
+
+          let expiresAt: string | null | undefined;
+          const allowed = targets.filter((screenshot) => {
+            try {
+              expiresAt = resolveExpiresAt(profile.plan, validated, new Date(screenshot.created_at));
+              return true;
+            } catch (error) {
+              if (!(error instanceof ApiError)) {
+                throw error;
+              }
+              failures.set(screenshot.id, error);
+              return false;
+            }
+          });
+
+          await updateScreenshots(
+            supabase,
+            userId,
+            allowed.map((screenshot) => screenshot.id),
+            { expires_at: expiresAt },
+            failures
+          );
+          break;
+        }
+
+        case 'move': {
+          // Screenshots can only be filed into the user's own collections
+          if (validated.collection_id !== null) {
+            const { data: collection } = await supabase
+              .from('collections')
+              .select('id')
+              .eq('id', validated.collection_id)
+              .eq('user_id', userId)
+              .single();
+
+            if (!collection) {
+              throw new NotFoundError('Collection');
+            }
+          }
+
+          await updateScreenshots(
+            supabase,
+            userId,
+            targets.map((screenshot) => screenshot.id),
+            { collection_id: validated.collection_id },
+            failures
+          );
+          break;
+        }
+
+        case 'add_tags':
+        case 'remove_tags': {
+          const tags = [...new Set(validated.tags)];
+          let tagged = targets;
+
+          if (validated.action === 'add_tags') {
+            tagged = targets.filter((screenshot) => {
+              const tagCount = new Set([...screenshot.tags, ...tags]).size;
+              if (tagCount > MAX_TAGS_PER_SCREENSHOT) {
+                failures.set(
+                  screenshot.id,
+                  new ValidationError(`Screenshots can have at most ${MAX_TAGS_PER_SCREENSHOT} tags`, {
+                    tags: screenshot.tags,
+                  })
+                );
+                return false;
+              }
+              return true;
+            });
+          }
+
+          if (tagged.length === 0) {
+            break;
+          }
+
+          // Tag RPCs only touch screenshots owned by p_user_id (ownership was also checked in step 3)
+          const rpc = validated.action === 'add_tags' ? 'add_screenshot_tags' : 'remove_screenshot_tags';
+          const { error: tagsError } = await supabaseAdmin.rpc(rpc, {
+            p_user_id: userId,
+            p_screenshot_ids: tagged.map((screenshot) => screenshot.id),
+            p_tags: tags,
+          });
+
+          if (tagsError) {
+            for (const screenshot of tagged) {
+              failures.set(
+                screenshot.id,
+                new ValidationError('Failed to update tags', { error: tagsError.message })
+              );
+            }
+          }
+          break;
+        }
+      }
+    }
+
+    // 4. Report the outcome for each screenshot (in request order)
+    const response: BulkScreenshotsResponse = {
+      action: validated.action,
+      succeeded: screenshotIds.length - failures.size,
+      failed: failures.size,
+      results: screenshotIds.map((id) => {
+        const failure = failures.get(id);
+        return failure ? { id, success: false, ...failure.toJSON() } : { id, success: true };
+      }),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  },
+  { scope: 'screenshots:write' }
+);
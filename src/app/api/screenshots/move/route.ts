@@ -0,0 +1,60 @@
+/**
+ * POST /api/screenshots/move
+ * Move one or more screenshots into a collection, or out of their collection (collection_id: null)
+ *
+ * @requires Authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { validateRequest, moveScreenshotsSchema } from '@/lib/validation';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import type { MoveScreenshotsResponse } from '@/types/api';
+
+export const POST = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validated = validateRequest(moveScreenshotsSchema, body);
+    const screenshotIds = [...new Set(validated.screenshot_ids)];
+
+    // 2. Check the target collection belongs to the user
+    if (validated.collection_id !== null) {
+      const { data: collection } = await supabase
+        .from('collections')
+        .select('id')
+        .eq('id', validated.collection_id)
+        .eq('user_id', userId)
+        .single();
+
+      if (!collection) {
+        throw new NotFoundError('Collection');
+      }
+    }
+
+    // 3. Move screenshots - filter by user_id so other users' IDs are skipped
+    // (trashed screenshots are reported as not found)
+    const { data: moved, error } = await supabase
+      .from('screenshots')
+      .update({ collection_id: validated.collection_id })
+      .in('id', screenshotIds)
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .select('id');
+
+    if (error) {
+      throw new ValidationError('Failed to move screenshots', { error: error.message });
+    }
+
+    // 4. Report which screenshots were moved
+    const movedIds = new Set((moved || []).map((screenshot) => screenshot.id));
+    const response: MoveScreenshotsResponse = {
+      collection_id: validated.collection_id,
+      moved: screenshotIds.filter((id) => movedIds.has(id)),
+      not_found: screenshotIds.filter((id) => !movedIds.has(id)),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  },
+  { scope: 'screenshots:write' }
+);
@@ -1,89 +1,234 @@
 /**
  * POST /api/screenshots
- * Create screenshot metadata record after successful upload
+ * Finalize an upload: verify the stored object and create its metadata record
  * 
  * GET /api/screenshots
- * List user's screenshots with pagination and filtering
+ * List user's screenshots with offset or cursor pagination, sorting, full-text search and filtering
+ * (filename, date range, collection, tags), or a team library with ?team_id=
  * 
  * @requires Authentication
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { createUserClient, getUserIdFromToken, supabaseAdmin } from '@/lib/supabase';
-import { validateRequest, uploadScreenshotSchema, listScreenshotsSchema } from '@/lib/validation';
-import { getPublicUrl } from '@/lib/storage';
-import { handleApiError, UnauthorizedError, ValidationError } from '@/lib/errors';
-import type { ScreenshotResponse, PaginatedResponse } from '@/types/api';
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth } from '@/lib/auth';
+import {
+  validateRequest,
+  uploadScreenshotSchema,
+  listScreenshotsSchema,
+  resolveMaxViews,
+} from '@/lib/validation';
+import {
+  PROTECTED_SCREENSHOTS_BUCKET,
+  SCREENSHOTS_BUCKET,
+  deleteFile,
+  downloadFile,
+  generateImageVariants,
+  getImageDimensions,
+  moveFiles,
+  sanitizeImage,
+  uploadFile,
+  validateFileSignature,
+  type ImageMetadataKind,
+} from '@/lib/storage';
+import { getScreenshotBucket, toScreenshotResponse } from '@/lib/screenshots';
+import { getTeamRole } from '@/lib/teams';
+import { requireTeamPermission } from '@/lib/permissions';
+import { SCREENSHOT_SORT_COLUMNS, decodeCursor, encodeCursor, getKeysetFilter } from '@/lib/pagination';
+import { getDefaultExpiresAt, resolveExpiresAt } from '@/lib/expiry';
+import { getEntitlements } from '@/lib/plans';
+import {
+  ApiError,
+  ForbiddenError,
+  ValidationError,
+  PayloadTooLargeError,
+  StorageQuotaError,
+  InternalServerError,
+} from '@/lib/errors';
+import type { ScreenshotResponse, UploadScreenshotResponse } from '@/types/api';
 
 /**
  * POST /api/screenshots
- * Create screenshot metadata after successful file upload
+ * Verify the uploaded file and create screenshot metadata
+ * Size, dimensions and MIME type are read from the stored object - client values are only checked
  */
-export async function POST(request: NextRequest) {
-  try {
-    // 1. Extract and validate authentication
-    const authHeader = request.headers.get('authorization');
-    const accessToken = authHeader?.replace('Bearer ', '');
+export const POST = withAuth(
+  async (request, { userId, supabase, getPlan }) => {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validated = validateRequest(uploadScreenshotSchema, body);
 
-    if (!accessToken) {
-      throw new UnauthorizedError('Missing authorization token');
+    // 2. Verify the stored object belongs to the caller
+    const storagePath = validated.storage_path;
+    if (!storagePath.startsWith(`${userId}/`)) {
+      throw new ForbiddenError('Storage path does not belong to this user');
     }
 
-    const userId = await getUserIdFromToken(accessToken);
-    if (!userId) {
-      throw new UnauthorizedError('Invalid authorization token');
+    // Screenshots can only be shared into teams whose role allows it (viewers can't)
+    if (validated.team_id) {
+      await requireTeamPermission(supabase, validated.team_id, userId, 'screenshots:share');
     }
 
-    // 2. Parse and validate request body
-    const body = await request.json();
-    const validated = validateRequest(uploadScreenshotSchema, body);
+    let original: Buffer;
+    try {
+      original = await downloadFile(storagePath);
+    } catch {
+      throw new ValidationError('Uploaded file not found', { storage_path: storagePath });
+    }
 
-    // 3. Get user profile to determine plan and expiration
-    const supabase = createUserClient(accessToken);
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('plan')
-      .eq('id', userId)
-      .single();
+    // Bucket holding the upload (limited-view uploads move to the private one in step 5)
+    let bucket = SCREENSHOTS_BUCKET;
+
+    // Rejected uploads are removed (from whichever bucket holds them now) so they don't linger
+    // outside usage accounting
+    const rejectUpload = async (rejection: ApiError): Promise<never> => {
+      await deleteFile(storagePath, bucket).catch((deleteError) => {
+        console.error(`Failed to delete rejected upload ${storagePath}:`, deleteError);
+      });
+      throw rejection;
+    };
 
-    if (!profile) {
-      throw new UnauthorizedError('User profile not found');
+    // 3. Check magic bytes, real size and real dimensions
+    const header = new Uint8Array(original.subarray(0, 12)).buffer;
+    if (!validateFileSignature(header, validated.mime_type)) {
+      await rejectUpload(
+        new ValidationError('File content does not match declared MIME type', {
+          mime_type: validated.mime_type,
+        })
+      );
     }
 
-    // 4. Calculate expiration date (30 days for free tier, null for pro)
-    // Allow override via expires_at field for testing purposes
-    const expiresAt = validated.expires_at || (profile.plan === 'free' 
-      ? new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
-      : null);
+    // The size limit depends on the plan
+    const plan = await getPlan();
+    const { maxFileSize, storageQuota } = getEntitlements(plan);
+
+    const uploadedSize = original.length;
+    if (uploadedSize > maxFileSize) {
+      await rejectUpload(
+        new PayloadTooLargeError('File exceeds maximum size', {
+          max_size: maxFileSize,
+          file_size: uploadedSize,
+          plan,
+        })
+      );
+    }
 
-    // 5. Extract or use provided short_id
+    const dimensions = await getImageDimensions(original).catch(() =>
+      rejectUpload(new ValidationError('Unable to read image dimensions'))
+    );
+
+    if (
+      uploadedSize !== validated.file_size ||
+      dimensions.width !== validated.width ||
+      dimensions.height !== validated.height
+    ) {
+      await rejectUpload(
+        new ValidationError('Uploaded file does not match declared metadata', {
+          declared: {
+            file_size: validated.file_size,
+            width: validated.width,
+            height: validated.height,
+          },
+          actual: {
+            file_size: uploadedSize,
+            width: dimensions.width,
+            height: dimensions.height,
+          },
+        })
+      );
+    }
+
+    // 4. Strip location/device metadata before the file is publicly readable
+    // The sanitized image overwrites the original at the same path
+    let fileSize = original.length;
+    let metadataRemoved: ImageMetadataKind[] = [];
+    if (validated.strip_metadata) {
+      try {
+        const sanitized = await sanitizeImage(original);
+
+        if (sanitized.removed.length > 0) {
+          await uploadFile(storagePath, sanitized.buffer, validated.mime_type, true);
+          original = sanitized.buffer;
+          fileSize = sanitized.buffer.length;
+          metadataRemoved = sanitized.removed;
+        }
+      } catch (sanitizeError) {
+        console.error(`Metadata stripping failed for ${storagePath}:`, sanitizeError);
+        await rejectUpload(new InternalServerError('Failed to strip image metadata'));
+      }
+    }
+
+    // 5. Keep limited-view uploads in the private bucket, so their files can't be fetched
+    // directly once the last view is used
+    const maxViews = resolveMaxViews(validated) ?? null;
+    if (getScreenshotBucket({ password_hash: null, max_views: maxViews }) !== bucket) {
+      await moveFiles([storagePath], bucket, PROTECTED_SCREENSHOTS_BUCKET);
+      bucket = PROTECTED_SCREENSHOTS_BUCKET;
+    }
+
+    // 6. Calculate expiration date (requested expiry, else the end of the plan's retention)
+    const requestedExpiresAt = resolveExpiresAt(plan, validated);
+    const expiresAt =
+      requestedExpiresAt !== undefined ? requestedExpiresAt : getDefaultExpiresAt(plan);
+
+    // 7. Extract or use provided short_id
     // If short_id is provided (for testing), use it, otherwise extract from storage_path
-    const shortId = validated.short_id || validated.storage_path.split('/')[1].split('_')[1].split('.')[0];
+    const shortId = validated.short_id || storagePath.split('/')[1].split('_')[1].split('.')[0];
 
-    // 6. Insert screenshot metadata
+    // 8. Insert screenshot metadata (verified values only)
     const { data: screenshot, error } = await supabase
       .from('screenshots')
       .insert({
         user_id: userId,
         short_id: shortId,
-        storage_path: validated.storage_path,
+        storage_path: storagePath,
         original_filename: validated.filename,
-        file_size: validated.file_size,
-        width: validated.width,
-        height: validated.height,
+        file_size: fileSize,
+        width: dimensions.width,
+        height: dimensions.height,
         mime_type: validated.mime_type,
         expires_at: expiresAt,
         views: 0,
+        max_views: maxViews,
         is_public: true,
+        team_id: validated.team_id ?? null,
       })
       .select()
       .single();
 
     if (error || !screenshot) {
+      // Put a moved upload back where it was (the path may already belong to an existing row)
+      if (bucket !== SCREENSHOTS_BUCKET) {
+        await moveFiles([storagePath], bucket, SCREENSHOTS_BUCKET).catch((moveError) => {
+          console.error(`Failed to move back upload ${storagePath}:`, moveError);
+        });
+      }
       throw new ValidationError('Failed to create screenshot record', { error: error?.message });
     }
 
-    // 7. Update monthly usage - increment counters (use admin client to bypass RLS)
+    // 9. Enforce the storage quota against the stored total, which the insert trigger has already
+    // raised by this file - signed URL checks alone let parallel uploads all through
+    if (storageQuota !== null) {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('storage_bytes')
+        .eq('id', userId)
+        .single();
+
+      if (profile && profile.storage_bytes > storageQuota) {
+        await supabase.from('screenshots').delete().eq('id', screenshot.id);
+        await rejectUpload(
+          new StorageQuotaError({
+            quota_bytes: storageQuota,
+            used_bytes: profile.storage_bytes - fileSize,
+            file_size: fileSize,
+            plan,
+          })
+        );
+      }
+    }
+
+    // 10. Update monthly usage - increment counters (use admin client to bypass RLS)
     const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM
     
     // Check if monthly_usage record exists
@@ -100,7 +245,7 @@ export async function POST(request: NextRequest) {
         .from('monthly_usage')
         .update({
           screenshot_count: existingUsage.screenshot_count + 1,
-          storage_bytes: existingUsage.storage_bytes + validated.file_size,
+          storage_bytes: existingUsage.storage_bytes + fileSize,
         })
         .eq('user_id', userId)
         .eq('month', currentMonth);
@@ -112,78 +257,108 @@ export async function POST(request: NextRequest) {
           user_id: userId,
           month: currentMonth,
           screenshot_count: 1,
-          storage_bytes: validated.file_size,
+          storage_bytes: fileSize,
         });
     }
 
-    // 8. Get public storage URL
-    const storageUrl = getPublicUrl(validated.storage_path);
-    const publicUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/s/${shortId}`;
-
-    // 9. Return screenshot response
-    const response: ScreenshotResponse = {
-      id: screenshot.id,
-      short_id: screenshot.short_id,
-      original_filename: screenshot.original_filename,
-      file_size: screenshot.file_size,
-      width: screenshot.width,
-      height: screenshot.height,
-      mime_type: screenshot.mime_type,
-      public_url: publicUrl,
-      share_url: publicUrl,
-      storage_url: storageUrl,
-      expires_at: screenshot.expires_at,
-      views: screenshot.views,
-      is_public: screenshot.is_public,
-      created_at: screenshot.created_at,
-      updated_at: screenshot.updated_at,
+    // 11. Generate thumbnail and responsive variants
+    // Failures are logged only - the original upload stays usable without them
+    let result = screenshot;
+    try {
+      const { thumbnailPath, variants } = await generateImageVariants(
+        screenshot.storage_path,
+        original,
+        bucket
+      );
+
+      const { data: updated, error: variantsError } = await supabase
+        .from('screenshots')
+        .update({ thumbnail_path: thumbnailPath, variants })
+        .eq('id', screenshot.id)
+        .select()
+        .single();
+
+      if (variantsError || !updated) {
+        throw new Error(`Failed to save variants: ${variantsError?.message}`);
+      }
+
+      result = updated;
+    } catch (variantError) {
+      console.error(`Variant generation failed for ${screenshot.id}:`, variantError);
+    }
+
+    // 12. Return screenshot response
+    const response: UploadScreenshotResponse = {
+      ...(await toScreenshotResponse(result)),
+      metadata_removed: metadataRemoved,
     };
 
     return NextResponse.json(response, { status: 201 });
-  } catch (error) {
-    return handleApiError(error);
-  }
-}
+  },
+  { scope: 'screenshots:write' }
+);
 
 /**
  * GET /api/screenshots
  * List user's screenshots with pagination and optional filtering
  */
-export async function GET(request: NextRequest) {
-  try {
-    // 1. Extract and validate authentication
-    const authHeader = request.headers.get('authorization');
-    const accessToken = authHeader?.replace('Bearer ', '');
-
-    if (!accessToken) {
-      throw new UnauthorizedError('Missing authorization token');
-    }
-
-    const userId = await getUserIdFromToken(accessToken);
-    if (!userId) {
-      throw new UnauthorizedError('Invalid authorization token');
-    }
-
-    // 2. Parse query parameters
+export const GET = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Parse query parameters
     const searchParams = request.nextUrl.searchParams;
     const queryParams = {
       limit: parseInt(searchParams.get('limit') || '50'),
       offset: parseInt(searchParams.get('offset') || '0'),
+      cursor: searchParams.get('cursor') || undefined,
+      sort: searchParams.get('sort') || undefined,
+      order: searchParams.get('order') || undefined,
       search: searchParams.get('search') || undefined,
+      q: searchParams.get('q') || undefined,
       from_date: searchParams.get('from_date') || undefined,
       to_date: searchParams.get('to_date') || undefined,
+      collection_id: searchParams.get('collection_id') || undefined,
+      team_id: searchParams.get('team_id') || undefined,
+      tag: searchParams.get('tag') || undefined,
+      tags_any: searchParams.get('tags_any')?.split(',') || undefined,
+      tags_all: searchParams.get('tags_all')?.split(',') || undefined,
     };
 
     const validated = validateRequest(listScreenshotsSchema, queryParams);
 
-    // 3. Build query
-    const supabase = createUserClient(accessToken);
-    let query = supabase
-      .from('screenshots')
-      .select('*', { count: 'exact' })
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-      .range(validated.offset, validated.offset + validated.limit - 1);
+    // 2. Check team membership (a team library lists every member's screenshots)
+    if (validated.team_id) {
+      await getTeamRole(supabase, validated.team_id, userId);
+    }
+
+    // 3. Build query (full-text search returns the best matches first unless a sort is given)
+    const sort = validated.sort ?? (validated.q ? null : 'created_at');
+    const ascending = validated.order === 'asc';
+    // Cursor pages skip the exact count, which gets slow for large libraries
+    const countOption = validated.cursor ? {} : { count: 'exact' as const };
+
+    let query = (
+      validated.q
+        ? supabase.rpc('search_screenshots', { p_query: validated.q }, countOption).select('*')
+        : supabase.from('screenshots').select('*', countOption)
+    ).is('deleted_at', null);
+
+    query = validated.team_id
+      ? query.eq('team_id', validated.team_id)
+      : query.eq('user_id', userId);
+
+    if (sort) {
+      // id breaks ties so keyset pagination never skips or repeats rows
+      query = query
+        .order(SCREENSHOT_SORT_COLUMNS[sort], { ascending })
+        .order('id', { ascending });
+    }
+
+    // Cursor mode fetches one extra row to tell whether there is a next page
+    query = validated.cursor && sort
+      ? query
+          .or(getKeysetFilter(decodeCursor(validated.cursor, sort, validated.order)))
+          .limit(validated.limit + 1)
+      : query.range(validated.offset, validated.offset + validated.limit - 1);
 
     // Apply filters
     if (validated.search) {
@@ -198,6 +373,22 @@ export async function GET(request: NextRequest) {
       query = query.lte('created_at', validated.to_date);
     }
 
+    if (validated.collection_id === 'none') {
+      query = query.is('collection_id', null);
+    } else if (validated.collection_id) {
+      query = query.eq('collection_id', validated.collection_id);
+    }
+
+    // Tag filters combine: every tag in tag/tags_all and at least one in tags_any
+    const requiredTags = [...(validated.tag ? [validated.tag] : []), ...(validated.tags_all || [])];
+    if (requiredTags.length > 0) {
+      query = query.contains('tags', requiredTags);
+    }
+
+    if (validated.tags_any) {
+      query = query.overlaps('tags', validated.tags_any);
+    }
+
     // 4. Execute query
     const { data: screenshots, error, count } = await query;
 
@@ -206,42 +397,50 @@ export async function GET(request: NextRequest) {
     }
 
     // 5. Map to response format
-    const publicUrlBase = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-    const data: ScreenshotResponse[] = (screenshots || []).map((s) => {
-      const shareUrl = `${publicUrlBase}/s/${s.short_id}`;
-      return {
-        id: s.id,
-        short_id: s.short_id,
-        original_filename: s.original_filename,
-        file_size: s.file_size,
-        width: s.width,
-        height: s.height,
-        mime_type: s.mime_type,
-        public_url: shareUrl,
-        share_url: shareUrl,
-        storage_url: getPublicUrl(s.storage_path),
-        expires_at: s.expires_at,
-        views: s.views,
-        is_public: s.is_public,
-        created_at: s.created_at,
-        updated_at: s.updated_at,
-      };
-    });
-
-    // 6. Return paginated response
+    const rows = (screenshots || []).slice(0, validated.limit);
+    const hasMore = validated.cursor
+      ? (screenshots || []).length > validated.limit
+      : (validated.offset + validated.limit) < (count || 0);
+    const lastRow = rows[rows.length - 1];
+
+    let data: ScreenshotResponse[] = await Promise.all(rows.map(toScreenshotResponse));
+
+    // 6. Add rank and highlighted snippet to search results
+    if (validated.q && data.length > 0) {
+      const { data: matches, error: matchError } = await supabase.rpc('screenshot_search_snippets', {
+        p_query: validated.q,
+        p_screenshot_ids: data.map((screenshot) => screenshot.id),
+      });
+
+      if (matchError) {
+        throw new ValidationError('Failed to fetch search snippets', { error: matchError.message });
+      }
+
+      const matchesById = new Map((matches || []).map((match) => [match.id, match]));
+      data = data.map((screenshot) => {
+        const match = matchesById.get(screenshot.id);
+        return {
+          ...screenshot,
+          search: { rank: match?.rank ?? 0, snippet: match?.snippet ?? null },
+        };
+      });
+    }
+
+    // 7. Return paginated response
     const response = {
       screenshots: data,
       pagination: {
-        total: count || 0,
+        total: validated.cursor ? null : count || 0,
         limit: validated.limit,
         offset: validated.offset,
-        has_more: (validated.offset + validated.limit) < (count || 0),
+        has_more: hasMore,
+        // Relevance-ranked search results have no stable keyset to continue from
+        next_cursor: hasMore && sort && lastRow ? encodeCursor(lastRow, sort, validated.order) : null,
       },
     };
 
     return NextResponse.json(response, { status: 200 });
-  } catch (error) {
-    return handleApiError(error);
-  }
-}
+  },
+  { scope: 'screenshots:read' }
+);
 
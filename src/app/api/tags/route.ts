@@ -0,0 +1,44 @@
+/**
+ * GET /api/tags
+ * List user's tags with screenshot counts (most used first)
+ *
+ * @requires Authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { ValidationError } from '@/lib/errors';
+import type { TagResponse } from '@/types/api';
+
+type TagWithCount = {
+  name: string;
+  created_at: string;
+  screenshot_tags: Array<{ count: number }>;
+};
+
+export const GET = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Fetch tags with screenshot counts
+    const { data: tags, error } = await supabase
+      .from('tags')
+      .select('name, created_at, screenshot_tags(count)')
+      .eq('user_id', userId)
+      .returns<TagWithCount[]>();
+
+    if (error) {
+      throw new ValidationError('Failed to fetch tags', { error: error.message });
+    }
+
+    // 2. Map to response format, most used first (ties alphabetically)
+    const data: TagResponse[] = (tags || [])
+      .map((tag) => ({
+        name: tag.name,
+        screenshot_count: tag.screenshot_tags[0]?.count ?? 0,
+        created_at: tag.created_at,
+      }))
+      .sort((a, b) => b.screenshot_count - a.screenshot_count || a.name.localeCompare(b.name));
+
+    return NextResponse.json({ tags: data }, { status: 200 });
+  },
+  { scope: 'screenshots:read' }
+);
@@ -0,0 +1,111 @@
+/**
+ * POST /api/teams/[id]/invites
+ * Invite someone to a team by email (members:invite, for roles ranked below the inviter's)
+ * The invite is accepted by the account signed in with that email
+ * Pending invites take a seat on the owner's team subscription
+ *
+ * @requires Authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth } from '@/lib/auth';
+import { validateRequest, inviteTeamMemberSchema } from '@/lib/validation';
+import { getTeamInviteExpiresAt, toTeamInviteResponse } from '@/lib/teams';
+import { requireTeamPermission, assertCanManageTeamRole } from '@/lib/permissions';
+import { assertTeamSeatAvailable } from '@/lib/seats';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import type { TeamInviteResponse } from '@/types/api';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const POST = withAuth<{ id: string }>(
+  async (request, { userId, supabase, params }) => {
+    const { id } = params;
+
+    // 1. Validate UUID format
+    if (!uuidRegex.test(id)) {
+      throw new NotFoundError('Team');
+    }
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validated = validateRequest(inviteTeamMemberSchema, body);
+
+    // 3. Check the inviter's role
+    const role = await requireTeamPermission(supabase, id, userId, 'members:invite');
+    assertCanManageTeamRole(role, validated.role);
+
+    const { data: team } = await supabase
+      .from('teams')
+      .select('name')
+      .eq('id', id)
+      .single();
+
+    if (!team) {
+      throw new NotFoundError('Team');
+    }
+
+    // 4. Reject emails that already belong to a member
+    const { data: invitee } = await supabaseAdmin
+      .from('profiles')
+      .select('id')
+      .eq('email', validated.email)
+      .maybeSingle();
+
+    if (invitee) {
+      const { data: membership } = await supabaseAdmin
+        .from('team_members')
+        .select('user_id')
+        .eq('team_id', id)
+        .eq('user_id', invitee.id)
+        .maybeSingle();
+
+      if (membership) {
+        throw new ValidationError('User is already a member of this team');
+      }
+    }
+
+    // 5. One pending invite per email; expired ones are replaced
+    const { data: existing } = await supabase
+      .from('team_invites')
+      .select('id, expires_at')
+      .eq('team_id', id)
+      .eq('email', validated.email)
+      .maybeSingle();
+
+    if (existing) {
+      if (new Date(existing.expires_at) > new Date()) {
+        throw new ValidationError('An invite is already pending for this email');
+      }
+
+      await supabaseAdmin.from('team_invites').delete().eq('id', existing.id);
+    }
+
+    // 6. Reserve a seat on the owner's subscription
+    await assertTeamSeatAvailable(id);
+
+    // 7. Insert invite (clients can't insert invites themselves, so the checks above can't be skipped)
+    const { data: invite, error } = await supabaseAdmin
+      .from('team_invites')
+      .insert({
+        team_id: id,
+        email: validated.email,
+        role: validated.role,
+        invited_by: userId,
+        expires_at: getTeamInviteExpiresAt(),
+      })
+      .select()
+      .single();
+
+    if (error || !invite) {
+      throw new ValidationError('Failed to create invite', { error: error?.message });
+    }
+
+    // 8. Return created invite
+    const response: TeamInviteResponse = toTeamInviteResponse(invite, team.name);
+
+    return NextResponse.json(response, { status: 201 });
+  },
+  { scope: 'account:write' }
+);
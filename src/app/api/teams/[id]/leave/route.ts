@@ -0,0 +1,49 @@
+/**
+ * POST /api/teams/[id]/leave
+ * Leave a team; the member's screenshots are taken out of the team library
+ * The owner can't leave their own team; the member's seat is released
+ *
+ * @requires Authentication
+ */
+
+import { withAuth } from '@/lib/auth';
+import { getTeamRole } from '@/lib/teams';
+import { syncTeamSeats } from '@/lib/seats';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const POST = withAuth<{ id: string }>(
+  async (request, { userId, supabase, params }) => {
+    const { id } = params;
+
+    // 1. Validate UUID format
+    if (!uuidRegex.test(id)) {
+      throw new NotFoundError('Team');
+    }
+
+    // 2. Check membership
+    const role = await getTeamRole(supabase, id, userId);
+
+    if (role === 'owner') {
+      throw new ValidationError('The team owner cannot leave the team');
+    }
+
+    // 3. Remove membership (a trigger unshares the member's screenshots)
+    const { error } = await supabase
+      .from('team_members')
+      .delete()
+      .eq('team_id', id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new ValidationError('Failed to leave team', { error: error.message });
+    }
+
+    // 4. Release the seat
+    await syncTeamSeats(id, 'removed');
+
+    return new Response(null, { status: 204 });
+  },
+  { scope: 'account:write' }
+);
@@ -0,0 +1,139 @@
+/**
+ * PATCH /api/teams/[id]/members/[userId]
+ * Change a member's role
+ *
+ * DELETE /api/teams/[id]/members/[userId]
+ * Remove a member; their screenshots are taken out of the team library and their seat is released
+ *
+ * Both need members:manage, and only act on (and assign) roles ranked below the caller's
+ *
+ * @requires Authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth, type AuthContext } from '@/lib/auth';
+import { validateRequest, updateTeamMemberSchema } from '@/lib/validation';
+import { toTeamMemberResponse, type TeamMemberRow } from '@/lib/teams';
+import { requireTeamPermission, assertCanManageTeamRole } from '@/lib/permissions';
+import { syncTeamSeats } from '@/lib/seats';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import type { TeamMemberResponse } from '@/types/api';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check the caller may manage the target member
+ *
+ * @returns Caller's role and the target membership
+ * @throws NotFoundError if either isn't a member
+ * @throws ForbiddenError if the caller lacks members:manage or the target's role isn't below theirs
+ */
+const getManagedMember = async (
+  supabase: AuthContext['supabase'],
+  teamId: string,
+  userId: string,
+  memberId: string
+): Promise<{ role: TeamMemberRow['role']; member: TeamMemberRow }> => {
+  if (!uuidRegex.test(teamId)) {
+    throw new NotFoundError('Team');
+  }
+
+  const role = await requireTeamPermission(supabase, teamId, userId, 'members:manage');
+
+  if (!uuidRegex.test(memberId)) {
+    throw new NotFoundError('Member');
+  }
+
+  const { data: member } = await supabase
+    .from('team_members')
+    .select('*')
+    .eq('team_id', teamId)
+    .eq('user_id', memberId)
+    .single();
+
+  if (!member) {
+    throw new NotFoundError('Member');
+  }
+
+  assertCanManageTeamRole(role, member.role);
+
+  return { role, member };
+};
+
+/**
+ * PATCH /api/teams/[id]/members/[userId]
+ * Promote or demote a member
+ */
+export const PATCH = withAuth<{ id: string; userId: string }>(
+  async (request, { userId, supabase, params }) => {
+    const { id, userId: memberId } = params;
+
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validated = validateRequest(updateTeamMemberSchema, body);
+
+    // 2. Check the caller can manage the member and assign the new role
+    const { role } = await getManagedMember(supabase, id, userId, memberId);
+    assertCanManageTeamRole(role, validated.role);
+
+    // 3. Update role
+    const { data: member, error } = await supabase
+      .from('team_members')
+      .update({ role: validated.role })
+      .eq('team_id', id)
+      .eq('user_id', memberId)
+      .select()
+      .single();
+
+    if (error || !member) {
+      throw new ValidationError('Failed to update member', { error: error?.message });
+    }
+
+    // 4. Return updated member
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('email, full_name')
+      .eq('id', memberId)
+      .single();
+
+    if (!profile) {
+      throw new NotFoundError('Member');
+    }
+
+    const response: TeamMemberResponse = toTeamMemberResponse(member, profile);
+
+    return NextResponse.json(response, { status: 200 });
+  },
+  { scope: 'account:write' }
+);
+
+/**
+ * DELETE /api/teams/[id]/members/[userId]
+ * Remove a member (members leave with POST /api/teams/[id]/leave)
+ */
+export const DELETE = withAuth<{ id: string; userId: string }>(
+  async (request, { userId, supabase, params }) => {
+    const { id, userId: memberId } = params;
+
+    // 1. Check the caller can manage the member
+    await getManagedMember(supabase, id, userId, memberId);
+
+    // 2. Remove membership (a trigger unshares the member's screenshots)
+    const { error } = await supabase
+      .from('team_members')
+      .delete()
+      .eq('team_id', id)
+      .eq('user_id', memberId);
+
+    if (error) {
+      throw new ValidationError('Failed to remove member', { error: error.message });
+    }
+
+    // 3. Release the seat
+    await syncTeamSeats(id, 'removed');
+
+    return new Response(null, { status: 204 });
+  },
+  { scope: 'account:write' }
+);
@@ -0,0 +1,60 @@
+/**
+ * GET /api/teams/[id]/members
+ * List a team's members and their roles (any member)
+ *
+ * @requires Authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth } from '@/lib/auth';
+import { getTeamRole, toTeamMemberResponse } from '@/lib/teams';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import type { TeamMemberResponse } from '@/types/api';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const GET = withAuth<{ id: string }>(
+  async (request, { userId, supabase, params }) => {
+    const { id } = params;
+
+    // 1. Validate UUID format
+    if (!uuidRegex.test(id)) {
+      throw new NotFoundError('Team');
+    }
+
+    // 2. Check membership
+    await getTeamRole(supabase, id, userId);
+
+    // 3. Fetch members (oldest first)
+    const { data: members, error } = await supabase
+      .from('team_members')
+      .select('*')
+      .eq('team_id', id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new ValidationError('Failed to fetch members', { error: error.message });
+    }
+
+    // 4. Fetch their profiles (service role: RLS only shows a user their own profile)
+    const { data: profiles, error: profilesError } = await supabaseAdmin
+      .from('profiles')
+      .select('id, email, full_name')
+      .in('id', (members || []).map((member) => member.user_id));
+
+    if (profilesError) {
+      throw new ValidationError('Failed to fetch members', { error: profilesError.message });
+    }
+
+    // 5. Map to response format
+    const profilesById = new Map((profiles || []).map((profile) => [profile.id, profile]));
+    const data: TeamMemberResponse[] = (members || []).flatMap((member) => {
+      const profile = profilesById.get(member.user_id);
+      return profile ? [toTeamMemberResponse(member, profile)] : [];
+    });
+
+    return NextResponse.json({ members: data }, { status: 200 });
+  },
+  { scope: 'account:read' }
+);
@@ -0,0 +1,92 @@
+/**
+ * POST /api/teams/invites/[id]/accept
+ * Join a team by accepting an invite addressed to the user's email
+ *
+ * @requires Authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth } from '@/lib/auth';
+import {
+  getTeamRole,
+  toTeamResponse,
+  TEAM_WITH_COUNT_SELECT,
+  type TeamWithCount,
+} from '@/lib/teams';
+import { syncTeamSeats } from '@/lib/seats';
+import { GoneError, NotFoundError, ValidationError } from '@/lib/errors';
+import type { TeamResponse } from '@/types/api';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const POST = withAuth<{ id: string }>(
+  async (request, { userId, supabase, params }) => {
+    const { id } = params;
+
+    // 1. Validate UUID format
+    if (!uuidRegex.test(id)) {
+      throw new NotFoundError('Invite');
+    }
+
+    // 2. Fetch the user's email
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('email')
+      .eq('id', userId)
+      .single();
+
+    if (!profile) {
+      throw new NotFoundError('Profile');
+    }
+
+    // 3. Fetch invite - only the invited email can accept it
+    const { data: invite } = await supabaseAdmin
+      .from('team_invites')
+      .select('id, team_id, email, role, expires_at')
+      .eq('id', id)
+      .single();
+
+    if (!invite || invite.email !== profile.email.toLowerCase()) {
+      throw new NotFoundError('Invite');
+    }
+
+    if (new Date(invite.expires_at) <= new Date()) {
+      throw new GoneError('Invite has expired');
+    }
+
+    // 4. Add membership with the invited role
+    // (already being a member keeps the current role; the invite is used up either way)
+    const { error: memberError } = await supabaseAdmin
+      .from('team_members')
+      .upsert(
+        { team_id: invite.team_id, user_id: userId, role: invite.role },
+        { onConflict: 'team_id,user_id', ignoreDuplicates: true }
+      );
+
+    if (memberError) {
+      throw new ValidationError('Failed to join team', { error: memberError.message });
+    }
+
+    await supabaseAdmin.from('team_invites').delete().eq('id', invite.id);
+    await syncTeamSeats(invite.team_id, 'added');
+
+    // 5. Return the joined team
+    const { data: team } = await supabase
+      .from('teams')
+      .select(TEAM_WITH_COUNT_SELECT)
+      .eq('id', invite.team_id)
+      .returns<TeamWithCount[]>()
+      .single();
+
+    if (!team) {
+      throw new NotFoundError('Team');
+    }
+
+    const role = await getTeamRole(supabase, invite.team_id, userId);
+    const response: TeamResponse = toTeamResponse(team, role);
+
+    return NextResponse.json(response, { status: 200 });
+  },
+  { scope: 'account:write' }
+);
@@ -0,0 +1,49 @@
+/**
+ * GET /api/teams/invites
+ * List pending invites addressed to the user's email
+ *
+ * @requires Authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth } from '@/lib/auth';
+import { toTeamInviteResponse, type TeamInviteRow } from '@/lib/teams';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import type { TeamInviteResponse } from '@/types/api';
+
+export const GET = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Fetch the user's email
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('email')
+      .eq('id', userId)
+      .single();
+
+    if (!profile) {
+      throw new NotFoundError('Profile');
+    }
+
+    // 2. Fetch unexpired invites (service role: RLS only shows invites to existing members)
+    const { data: invites, error } = await supabaseAdmin
+      .from('team_invites')
+      .select('*, teams(name)')
+      .eq('email', profile.email.toLowerCase())
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false })
+      .returns<Array<TeamInviteRow & { teams: { name: string } | null }>>();
+
+    if (error) {
+      throw new ValidationError('Failed to fetch invites', { error: error.message });
+    }
+
+    // 3. Map to response format
+    const data: TeamInviteResponse[] = (invites || []).map((invite) =>
+      toTeamInviteResponse(invite, invite.teams?.name ?? '')
+    );
+
+    return NextResponse.json({ invites: data }, { status: 200 });
+  },
+  { scope: 'account:read' }
+);
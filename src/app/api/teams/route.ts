@@ -0,0 +1,100 @@
+/**
+ * GET /api/teams
+ * List the teams the user belongs to
+ *
+ * POST /api/teams
+ * Create a team (team plan); the creator becomes its owner
+ *
+ * @requires Authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth } from '@/lib/auth';
+import { validateRequest, createTeamSchema } from '@/lib/validation';
+import { toTeamResponse, TEAM_WITH_COUNT_SELECT, type TeamWithCount } from '@/lib/teams';
+import { getEntitlements } from '@/lib/plans';
+import { ForbiddenError, ValidationError } from '@/lib/errors';
+import type { TeamResponse } from '@/types/api';
+
+/**
+ * GET /api/teams
+ * List teams (oldest membership first)
+ */
+export const GET = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Fetch the user's memberships
+    const { data: memberships, error: membershipError } = await supabase
+      .from('team_members')
+      .select('team_id, role')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (membershipError) {
+      throw new ValidationError('Failed to fetch teams', { error: membershipError.message });
+    }
+
+    if (!memberships || memberships.length === 0) {
+      return NextResponse.json({ teams: [] }, { status: 200 });
+    }
+
+    // 2. Fetch the teams with member counts
+    const { data: teams, error } = await supabase
+      .from('teams')
+      .select(TEAM_WITH_COUNT_SELECT)
+      .in('id', memberships.map((membership) => membership.team_id))
+      .returns<TeamWithCount[]>();
+
+    if (error) {
+      throw new ValidationError('Failed to fetch teams', { error: error.message });
+    }
+
+    // 3. Map to response format (in membership order)
+    const teamsById = new Map((teams || []).map((team) => [team.id, team]));
+    const data: TeamResponse[] = memberships.flatMap((membership) => {
+      const team = teamsById.get(membership.team_id);
+      return team ? [toTeamResponse(team, membership.role)] : [];
+    });
+
+    return NextResponse.json({ teams: data }, { status: 200 });
+  },
+  { scope: 'account:read' }
+);
+
+/**
+ * POST /api/teams
+ * Create a team
+ */
+export const POST = withAuth(
+  async (request, { userId, getPlan }) => {
+    // 1. Parse and validate request body
+    const body = await request.json();
+    const validated = validateRequest(createTeamSchema, body);
+
+    // 2. Teams are a team plan feature (members can be on any plan)
+    if (!getEntitlements(await getPlan()).features.teams) {
+      throw new ForbiddenError('Creating a team requires the team plan');
+    }
+
+    // 3. Insert team (a trigger adds the owner as its first member)
+    // Clients can't insert teams themselves, so the plan check above can't be skipped
+    const { data: team, error } = await supabaseAdmin
+      .from('teams')
+      .insert({
+        owner_id: userId,
+        name: validated.name,
+      })
+      .select()
+      .single();
+
+    if (error || !team) {
+      throw new ValidationError('Failed to create team', { error: error?.message });
+    }
+
+    // 4. Return created team
+    const response: TeamResponse = toTeamResponse({ ...team, team_members: [{ count: 1 }] }, 'owner');
+
+    return NextResponse.json(response, { status: 201 });
+  },
+  { scope: 'account:write' }
+);
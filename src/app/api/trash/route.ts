@@ -0,0 +1,125 @@
+/**
+ * GET /api/trash
+ * List user's trashed screenshots (most recently deleted first)
+ *
+ * DELETE /api/trash
+ * Empty the trash - permanently deletes trashed screenshots and their storage files
+ *
+ * Trashed screenshots are purged automatically TRASH_RETENTION_DAYS after deletion
+ * (see GET /api/cron/cleanup-expired)
+ *
+ * @requires Authentication
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { validateRequest, listTrashSchema } from '@/lib/validation';
+import {
+  toTrashedScreenshotResponse,
+  deleteScreenshotFiles,
+  type ScreenshotRow,
+} from '@/lib/screenshots';
+import { ValidationError } from '@/lib/errors';
+import type { EmptyTrashResponse } from '@/types/api';
+
+/**
+ * Screenshots purged per DELETE request (keeps the storage removal to a single request)
+ */
+const EMPTY_TRASH_BATCH_SIZE = 100;
+
+/**
+ * GET /api/trash
+ * List trashed screenshots with pagination
+ */
+export const GET = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const queryParams = {
+      limit: parseInt(searchParams.get('limit') || '50'),
+      offset: parseInt(searchParams.get('offset') || '0'),
+    };
+
+    const validated = validateRequest(listTrashSchema, queryParams);
+
+    // 2. Fetch trashed screenshots
+    const { data: screenshots, error, count } = await supabase
+      .from('screenshots')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
+      .range(validated.offset, validated.offset + validated.limit - 1)
+      .returns<Array<ScreenshotRow & { deleted_at: string }>>();
+
+    if (error) {
+      throw new ValidationError('Failed to fetch trash', { error: error.message });
+    }
+
+    // 3. Return paginated response
+    const response = {
+      screenshots: await Promise.all((screenshots || []).map(toTrashedScreenshotResponse)),
+      pagination: {
+        total: count || 0,
+        limit: validated.limit,
+        offset: validated.offset,
+        has_more: (validated.offset + validated.limit) < (count || 0),
+      },
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  },
+  { scope: 'screenshots:read' }
+);
+
+/**
+ * DELETE /api/trash
+ * Permanently delete trashed screenshots, oldest first
+ * Purges up to EMPTY_TRASH_BATCH_SIZE screenshots per request - repeat while has_more is true
+ */
+export const DELETE = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Fetch a batch of trashed screenshots to get storage paths
+    const { data: trashed, error: fetchError } = await supabase
+      .from('screenshots')
+      .select('id, storage_path, thumbnail_path, variants, password_hash, max_views')
+      .eq('user_id', userId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: true })
+      .limit(EMPTY_TRASH_BATCH_SIZE);
+
+    if (fetchError) {
+      throw new ValidationError('Failed to fetch trash', { error: fetchError.message });
+    }
+
+    if (trashed && trashed.length > 0) {
+      // 2. Delete storage files (original, thumbnail and variants)
+      try {
+        await deleteScreenshotFiles(trashed);
+      } catch (storageError) {
+        console.error('Failed to delete storage files:', storageError);
+        // Continue with database deletion even if storage fails
+      }
+
+      // 3. Delete database records
+      const { error: deleteError } = await supabase
+        .from('screenshots')
+        .delete()
+        .in('id', trashed.map((screenshot) => screenshot.id))
+        .eq('user_id', userId);
+
+      if (deleteError) {
+        throw new ValidationError('Failed to empty trash', { error: deleteError.message });
+      }
+    }
+
+    // 4. Report how many were purged
+    const response: EmptyTrashResponse = {
+      purged: trashed?.length ?? 0,
+      has_more: trashed?.length === EMPTY_TRASH_BATCH_SIZE,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  },
+  { scope: 'screenshots:write' }
+);
@@ -6,51 +6,45 @@
  * @rateLimit 10 uploads per minute per user
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { createUserClient, getUserIdFromToken } from '@/lib/supabase';
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { withAuth } from '@/lib/auth';
 import { validateRequest, signedUrlSchema } from '@/lib/validation';
 import { generateSignedUploadUrl, generateStoragePath, validateMimeType } from '@/lib/storage';
 import { generateUniqueShortId } from '@/lib/short-id';
-import { handleApiError, UnauthorizedError, ValidationError, RateLimitError } from '@/lib/errors';
+import { getEntitlements } from '@/lib/plans';
+import {
+  UnauthorizedError,
+  ValidationError,
+  RateLimitError,
+  PayloadTooLargeError,
+  StorageQuotaError,
+} from '@/lib/errors';
 import { checkRateLimit, uploadRateLimit, addRateLimitHeaders } from '@/lib/rate-limit';
 
-export async function POST(request: NextRequest) {
-  try {
-    // 1. Extract and validate authentication
-    const authHeader = request.headers.get('authorization');
-    const accessToken = authHeader?.replace('Bearer ', '');
-
-    if (!accessToken) {
-      throw new UnauthorizedError('Missing authorization token');
-    }
-
-    const userId = await getUserIdFromToken(accessToken);
-    if (!userId) {
-      throw new UnauthorizedError('Invalid authorization token');
-    }
-
-    // 2. Check rate limit (10 uploads per minute)
+export const POST = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Check rate limit (10 uploads per minute)
     const rateLimitResult = await checkRateLimit(uploadRateLimit, userId);
     if (!rateLimitResult.success) {
       throw new RateLimitError(rateLimitResult.reset);
     }
 
-    // 3. Parse and validate request body
+    // 2. Parse and validate request body
     const body = await request.json();
     const validated = validateRequest(signedUrlSchema, body);
 
-    // 4. Validate MIME type
+    // 3. Validate MIME type
     if (!validateMimeType(validated.mime_type)) {
       throw new ValidationError('Invalid MIME type', {
         allowed_types: ['image/png', 'image/jpeg', 'image/gif', 'image/webp'],
       });
     }
 
-    // 5. Check monthly upload limit for free tier
-    const supabase = createUserClient(accessToken);
+    // 4. Check plan limits (file size, storage quota and monthly uploads)
     const { data: profile, error: profileError } = await supabase
       .from('profiles')
-      .select('plan, downgraded_at')
+      .select('plan, downgraded_at, storage_bytes')
       .eq('id', userId)
       .single();
 
@@ -58,8 +52,32 @@ export async function POST(request: NextRequest) {
       throw new UnauthorizedError('User profile not found');
     }
 
-    // Check monthly limit for free tier
-    if (profile.plan === 'free') {
+    const entitlements = getEntitlements(profile.plan);
+
+    if (validated.file_size > entitlements.maxFileSize) {
+      throw new PayloadTooLargeError('File exceeds maximum size', {
+        max_size: entitlements.maxFileSize,
+        file_size: validated.file_size,
+        plan: profile.plan,
+      });
+    }
+
+    // Storage counts everything the user keeps (including the trash), not just this month's uploads
+    if (
+      entitlements.storageQuota !== null &&
+      profile.storage_bytes + validated.file_size > entitlements.storageQuota
+    ) {
+      throw new StorageQuotaError({
+        quota_bytes: entitlements.storageQuota,
+        used_bytes: profile.storage_bytes,
+        file_size: validated.file_size,
+        plan: profile.plan,
+      });
+    }
+
+    // Check monthly limit for plans that cap uploads
+    const uploadLimit = entitlements.uploadsPerMonth;
+    if (uploadLimit !== null) {
       const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM
       
       // Count screenshots uploaded this month (after downgrade if applicable)
@@ -70,14 +88,14 @@ export async function POST(request: NextRequest) {
         .gte('created_at', (profile.downgraded_at || '1970-01-01') as string)
         .gte('created_at', `${currentMonth}-01`);
 
-      if (count && count >= 10) {
+      if (count && count >= uploadLimit) {
         return NextResponse.json(
           {
             error: {
-              message: 'Monthly upload limit reached (10 screenshots per month on free tier)',
+              message: `Monthly upload limit reached (${uploadLimit} screenshots per month on ${entitlements.name} plan)`,
               code: 'MONTHLY_LIMIT_EXCEEDED',
               details: {
-                limit: 10,
+                limit: uploadLimit,
                 current: count,
                 resets_at: `${currentMonth}-01T00:00:00Z`,
               },
@@ -88,9 +106,9 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // 6. Generate unique short ID
+    // 5. Generate unique short ID (checked across all users - RLS only shows the caller's rows)
     const shortId = await generateUniqueShortId(async (id) => {
-      const { data } = await supabase
+      const { data } = await supabaseAdmin
         .from('screenshots')
         .select('id')
         .eq('short_id', id as string)
@@ -98,13 +116,13 @@ export async function POST(request: NextRequest) {
       return data !== null;
     });
 
-    // 7. Generate storage path
+    // 6. Generate storage path
     const storagePath = generateStoragePath(userId, validated.filename, shortId);
 
-    // 8. Generate signed upload URL (5-minute expiration)
+    // 7. Generate signed upload URL (5-minute expiration)
     const uploadUrl = await generateSignedUploadUrl(storagePath, 300);
 
-    // 9. Return signed URL and metadata
+    // 8. Return signed URL and metadata
     const response = NextResponse.json(
       {
         upload_url: uploadUrl,
@@ -119,8 +137,7 @@ export async function POST(request: NextRequest) {
     addRateLimitHeaders(response.headers, rateLimitResult);
 
     return response;
-  } catch (error) {
-    return handleApiError(error);
-  }
-}
+  },
+  { scope: 'screenshots:write' }
+);
 
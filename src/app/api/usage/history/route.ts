@@ -6,28 +6,14 @@
  * @requires Authentication
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { createUserClient, getUserIdFromToken } from '@/lib/supabase';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
 import { validateRequest, usageHistorySchema } from '@/lib/validation';
-import { handleApiError, UnauthorizedError } from '@/lib/errors';
 import type { UsageHistoryResponse } from '@/types/api';
 
-export async function GET(request: NextRequest) {
-  try {
-    // 1. Extract and validate authentication
-    const authHeader = request.headers.get('authorization');
-    const accessToken = authHeader?.replace('Bearer ', '');
-
-    if (!accessToken) {
-      throw new UnauthorizedError('Missing authorization token');
-    }
-
-    const userId = await getUserIdFromToken(accessToken);
-    if (!userId) {
-      throw new UnauthorizedError('Invalid authorization token');
-    }
-
-    // 2. Parse query parameters
+export const GET = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Parse query parameters
     const searchParams = request.nextUrl.searchParams;
     const queryParams = {
       months: parseInt(searchParams.get('months') || '6'),
@@ -35,7 +21,7 @@ export async function GET(request: NextRequest) {
 
     const validated = validateRequest(usageHistorySchema, queryParams);
 
-    // 3. Generate month range (last N months)
+    // 2. Generate month range (last N months)
     const months: string[] = [];
     const currentDate = new Date();
     
@@ -45,8 +31,7 @@ export async function GET(request: NextRequest) {
       months.push(month.toISOString().slice(0, 7)); // YYYY-MM
     }
 
-    // 4. Fetch usage data for all months
-    const supabase = createUserClient(accessToken);
+    // 3. Fetch usage data for all months
     const { data: usageData } = await supabase
       .from('monthly_usage')
       .select('month, screenshot_count, storage_bytes, bandwidth_bytes')
@@ -54,7 +39,7 @@ export async function GET(request: NextRequest) {
       .in('month', months)
       .order('month', { ascending: false });
 
-    // 5. Create monthly data array (fill missing months with zeros)
+    // 4. Create monthly data array (fill missing months with zeros)
     const monthlyData = months.map((month) => {
       const usage = usageData?.find((u) => u.month === month);
       return {
@@ -65,7 +50,7 @@ export async function GET(request: NextRequest) {
       };
     });
 
-    // 6. Calculate totals
+    // 5. Calculate totals
     const totals = monthlyData.reduce(
       (acc, month) => ({
         screenshots: acc.screenshots + month.screenshot_count,
@@ -75,7 +60,7 @@ export async function GET(request: NextRequest) {
       { screenshots: 0, storage_mb: 0, bandwidth_mb: 0 }
     );
 
-    // 7. Return usage history response
+    // 6. Return usage history response
     const response: UsageHistoryResponse = {
       months: monthlyData,
       total: {
@@ -86,8 +71,7 @@ export async function GET(request: NextRequest) {
     };
 
     return NextResponse.json(response, { status: 200 });
-  } catch (error) {
-    return handleApiError(error);
-  }
-}
+  },
+  { scope: 'account:read' }
+);
 
@@ -1,36 +1,23 @@
 /**
  * GET /api/usage
- * Get current month usage statistics
- * Includes upgrade prompts and limit status
+ * Get current month usage statistics and total storage
+ * Includes upgrade prompts, limit status and storage quota status
  * 
  * @requires Authentication
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { createUserClient, getUserIdFromToken } from '@/lib/supabase';
-import { handleApiError, UnauthorizedError } from '@/lib/errors';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { UnauthorizedError } from '@/lib/errors';
+import { getEntitlements, getUpgradeCta } from '@/lib/plans';
 import type { UsageResponse } from '@/types/api';
 
-export async function GET(request: NextRequest) {
-  try {
-    // 1. Extract and validate authentication
-    const authHeader = request.headers.get('authorization');
-    const accessToken = authHeader?.replace('Bearer ', '');
-
-    if (!accessToken) {
-      throw new UnauthorizedError('Missing authorization token');
-    }
-
-    const userId = await getUserIdFromToken(accessToken);
-    if (!userId) {
-      throw new UnauthorizedError('Invalid authorization token');
-    }
-
-    // 2. Get user profile
-    const supabase = createUserClient(accessToken);
+export const GET = withAuth(
+  async (request, { userId, supabase }) => {
+    // 1. Get user profile
     const { data: profile } = await supabase
       .from('profiles')
-      .select('plan, downgraded_at')
+      .select('plan, downgraded_at, storage_bytes')
       .eq('id', userId)
       .single();
 
@@ -38,7 +25,7 @@ export async function GET(request: NextRequest) {
       throw new UnauthorizedError('User profile not found');
     }
 
-    // 3. Get current month usage
+    // 2. Get current month usage
     const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM
     
     // Count screenshots uploaded this month (after downgrade if applicable)
@@ -57,56 +44,61 @@ export async function GET(request: NextRequest) {
       .eq('month', currentMonth)
       .single();
 
-    // 4. Calculate limits and status
+    // 3. Calculate limits and status
     const plan = profile.plan;
-    const screenshotLimit = plan === 'free' ? 10 : Infinity;
+    const entitlements = getEntitlements(plan);
+    const screenshotLimit = entitlements.uploadsPerMonth ?? Infinity;
     const currentCount = screenshotCount || 0;
-    const remaining = plan === 'free' ? Math.max(0, screenshotLimit - currentCount) : Infinity;
-    const atLimit = plan === 'free' && currentCount >= screenshotLimit;
+    const remaining = Math.max(0, screenshotLimit - currentCount);
+    const atLimit = currentCount >= screenshotLimit;
+
+    // Storage is a running total across all months (screenshots in the trash still count)
+    const storageQuota = entitlements.storageQuota;
+    const storageUsed = profile.storage_bytes;
 
     // Calculate next reset date (1st of next month)
     const nextMonth = new Date(currentMonth);
     nextMonth.setMonth(nextMonth.getMonth() + 1);
     const resetsAt = `${nextMonth.toISOString().slice(0, 7)}-01T00:00:00Z`;
 
-    // 5. Generate upgrade prompt
+    // 4. Generate upgrade prompt
     let upgradePrompt: UsageResponse['upgrade_prompt'];
     
-    if (plan === 'free') {
+    if (screenshotLimit !== Infinity) {
       const usagePercent = (currentCount / screenshotLimit) * 100;
       
       if (usagePercent >= 100) {
         upgradePrompt = {
           show_prompt: true,
           message: `You've used all ${screenshotLimit} free screenshots this month. Upgrade to Pro for unlimited uploads!`,
-          cta_text: 'Upgrade to Pro - $9/month',
+          cta_text: getUpgradeCta(),
           urgency_level: 'high',
         };
       } else if (usagePercent >= 80) {
         upgradePrompt = {
           show_prompt: true,
           message: `You've used ${currentCount} of ${screenshotLimit} free screenshots this month. Upgrade to Pro for unlimited uploads!`,
-          cta_text: 'Upgrade to Pro - $9/month',
+          cta_text: getUpgradeCta(),
           urgency_level: 'high',
         };
       } else {
         upgradePrompt = {
           show_prompt: false,
           message: `You've used ${currentCount} of ${screenshotLimit} free screenshots this month.`,
-          cta_text: 'Upgrade to Pro - $9/month',
+          cta_text: getUpgradeCta(),
           urgency_level: 'low',
         };
       }
     } else {
       upgradePrompt = {
         show_prompt: false,
-        message: 'You have unlimited uploads on Pro plan!',
+        message: `You have unlimited uploads on ${entitlements.name} plan!`,
         cta_text: '',
         urgency_level: 'low',
       };
     }
 
-    // 6. Return usage response
+    // 5. Return usage response
     const response: UsageResponse = {
       month: currentMonth,
       screenshot_count: currentCount,
@@ -121,12 +113,18 @@ export async function GET(request: NextRequest) {
         remaining: remaining === Infinity ? -1 : remaining,
         resets_at: resetsAt,
       },
+      storage_status: {
+        used_bytes: storageUsed,
+        used_mb: Math.round(storageUsed / (1024 * 1024) * 100) / 100,
+        quota_bytes: storageQuota ?? -1,
+        remaining_bytes: storageQuota === null ? -1 : Math.max(0, storageQuota - storageUsed),
+        at_quota: storageQuota !== null && storageUsed >= storageQuota,
+      },
       upgrade_prompt: upgradePrompt,
     };
 
     return NextResponse.json(response, { status: 200 });
-  } catch (error) {
-    return handleApiError(error);
-  }
-}
+  },
+  { scope: 'account:read' }
+);
 
@@ -0,0 +1,16 @@
+import { ImageOff } from 'lucide-react';
+
+/**
+ * Shown for unknown, malformed or private gallery links
+ */
+export default function CollectionNotFound() {
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center gap-3 p-8 text-center">
+      <ImageOff className="size-10 text-muted-foreground" aria-hidden />
+      <h1 className="text-xl font-semibold">Collection not found</h1>
+      <p className="text-sm text-muted-foreground">
+        This link may be mistyped, or the collection is no longer shared.
+      </p>
+    </main>
+  );
+}
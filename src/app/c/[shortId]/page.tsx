@@ -0,0 +1,143 @@
+/**
+ * /c/[shortId]
+ * Public collection gallery page
+ * Server-rendered so gallery links unfurl with Open Graph / Twitter Card previews
+ * Each tile links to the screenshot's own share page, where its view is counted
+ *
+ * @public No authentication required
+ */
+
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { cache } from 'react';
+import { Images } from 'lucide-react';
+import { NotFoundError } from '@/lib/errors';
+import {
+  getCollectionShareUrl,
+  getPublicCollection,
+  getPublicCollectionScreenshots,
+  toPublicCollectionResponse,
+} from '@/lib/collections';
+import type { PublicCollectionResponse } from '@/types/api';
+
+// Visibility and expiry can change at any time
+export const dynamic = 'force-dynamic';
+
+type PageProps = {
+  params: Promise<{ shortId: string }>;
+};
+
+/**
+ * Resolve a gallery link once per request
+ * Shared by generateMetadata and the page component via React cache()
+ */
+const lookupCollection = cache(async (shortId: string): Promise<PublicCollectionResponse | null> => {
+  try {
+    const collection = await getPublicCollection(shortId);
+    return toPublicCollectionResponse(collection, await getPublicCollectionScreenshots(collection));
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+});
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { shortId } = await params;
+  const collection = await lookupCollection(shortId);
+
+  if (!collection) {
+    return {
+      title: 'Collection not found - snappd',
+      robots: { index: false, follow: false },
+    };
+  }
+
+  const title = `${collection.name} - snappd`;
+  const description =
+    collection.description ||
+    `${collection.screenshots.length} ${collection.screenshots.length === 1 ? 'screenshot' : 'screenshots'} shared via snappd`;
+  const cover = collection.screenshots[0];
+  const shareUrl = getCollectionShareUrl(shortId);
+
+  return {
+    title,
+    description,
+    alternates: { canonical: shareUrl },
+    openGraph: {
+      type: 'website',
+      siteName: 'snappd',
+      url: shareUrl,
+      title,
+      description,
+      images: cover
+        ? [{ url: cover.storage_url, width: cover.width, height: cover.height, alt: cover.original_filename }]
+        : [],
+    },
+    twitter: {
+      card: cover ? 'summary_large_image' : 'summary',
+      title,
+      description,
+      images: cover ? [cover.storage_url] : [],
+    },
+  };
+}
+
+export default async function PublicCollectionPage({ params }: PageProps) {
+  const { shortId } = await params;
+  const collection = await lookupCollection(shortId);
+
+  if (!collection) {
+    notFound();
+  }
+
+  return (
+    <main className="min-h-screen flex flex-col items-center gap-6 p-4 sm:p-8">
+      <header className="w-full max-w-6xl flex flex-col gap-1">
+        <h1 className="text-xl font-semibold break-words">{collection.name}</h1>
+        {collection.description && (
+          <p className="text-sm text-muted-foreground">{collection.description}</p>
+        )}
+        <p className="text-sm text-muted-foreground">
+          {collection.screenshots.length.toLocaleString('en-US')}{' '}
+          {collection.screenshots.length === 1 ? 'screenshot' : 'screenshots'}
+        </p>
+      </header>
+
+      {collection.screenshots.length === 0 ? (
+        <div className="flex flex-1 flex-col items-center justify-center gap-3 text-center">
+          <Images className="size-10 text-muted-foreground" aria-hidden />
+          <p className="text-sm text-muted-foreground">This collection has no shared screenshots yet.</p>
+        </div>
+      ) : (
+        <ul className="w-full max-w-6xl grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4">
+          {collection.screenshots.map((screenshot) => (
+            <li key={screenshot.short_id}>
+              <Link
+                href={`/s/${screenshot.short_id}`}
+                className="group flex flex-col gap-2 overflow-hidden rounded-lg border bg-card"
+              >
+                <Image
+                  src={screenshot.thumbnail_url ?? screenshot.storage_url}
+                  alt={screenshot.original_filename}
+                  width={screenshot.width}
+                  height={screenshot.height}
+                  sizes="(min-width: 1024px) 25vw, (min-width: 640px) 33vw, 50vw"
+                  className="aspect-[4/3] w-full object-cover"
+                />
+                <span className="truncate px-3 pb-2 text-sm group-hover:underline">
+                  {screenshot.original_filename}
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <footer className="text-xs text-muted-foreground">Shared via snappd</footer>
+    </main>
+  );
+}
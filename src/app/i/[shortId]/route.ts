@@ -0,0 +1,111 @@
+/**
+ * GET /i/[shortId]
+ * Raw image endpoint for direct embedding (Markdown, GitHub issues, <img> tags)
+ * Accepts an optional file extension: /i/abc123 or /i/abc123.png
+ * Serves the stored file with Content-Type, caching headers and ETag support
+ * Counts views and bandwidth like the share page
+ * Password-protected screenshots require ?token= and are never cached publicly
+ * Limited-view screenshots are never cached, so every fetch counts against max_views
+ *
+ * @public No authentication required
+ */
+
+import { NextRequest } from 'next/server';
+import { createHash } from 'crypto';
+import { downloadFile } from '@/lib/storage';
+import { handleApiError } from '@/lib/errors';
+import { countScreenshotView, getPublicScreenshot, getScreenshotBucket } from '@/lib/screenshots';
+import { assertShareAccess } from '@/lib/share-access';
+
+/**
+ * Optional file extension accepted after the short ID
+ */
+const IMAGE_EXTENSION_PATTERN = /\.(png|jpe?g|gif|webp)$/i;
+
+/**
+ * Browser/CDN cache lifetime in seconds (kept short so views and expiry stay accurate)
+ */
+const MAX_CACHE_AGE = 300;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ shortId: string }> }
+) {
+  try {
+    const { shortId: shortIdParam } = await params;
+
+    // 1. Strip optional file extension (/i/abc123.png -> abc123)
+    const shortId = shortIdParam.replace(IMAGE_EXTENSION_PATTERN, '');
+
+    // 2. Fetch screenshot (validates short ID, visibility and expiration)
+    const screenshot = await getPublicScreenshot(shortId);
+    const isProtected = assertShareAccess(screenshot, request.nextUrl.searchParams.get('token'));
+
+    // 3. Build caching headers
+    // Storage objects are never overwritten, so the path identifies the content
+    const etag = `"${createHash('sha1').update(screenshot.storage_path).digest('hex')}"`;
+    const maxAge = screenshot.expires_at
+      ? Math.max(
+          0,
+          Math.min(
+            MAX_CACHE_AGE,
+            Math.floor((new Date(screenshot.expires_at).getTime() - Date.now()) / 1000)
+          )
+        )
+      : MAX_CACHE_AGE;
+
+    const headers = new Headers({
+      'Content-Type': screenshot.mime_type,
+      'Cache-Control':
+        screenshot.max_views !== null
+          ? 'no-store'
+          : `${isProtected ? 'private' : 'public'}, max-age=${maxAge}`,
+      ETag: etag,
+      'Content-Disposition': contentDisposition(screenshot.original_filename),
+      'X-Content-Type-Options': 'nosniff',
+    });
+
+    // 4. Conditional request - client already has this version
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch && matchesEtag(ifNoneMatch, etag)) {
+      await countScreenshotView(screenshot, 0);
+
+      return new Response(null, { status: 304, headers });
+    }
+
+    // 5. Download file from storage
+    const file = await downloadFile(screenshot.storage_path, getScreenshotBucket(screenshot));
+    headers.set('Content-Length', file.length.toString());
+
+    // 6. Increment view count and bandwidth (awaited only for limited-view screenshots)
+    await countScreenshotView(screenshot, file.length);
+
+    return new Response(new Uint8Array(file), { status: 200, headers });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * Check an If-None-Match header (may contain several ETags or "*")
+ */
+function matchesEtag(ifNoneMatch: string, etag: string): boolean {
+  return ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim())
+    .some((tag) => tag === '*' || tag === etag || tag === `W/${etag}`);
+}
+
+/**
+ * Inline Content-Disposition with an ASCII fallback filename and the exact name as filename*
+ * (RFC 6266 / RFC 5987), so clients that save the image keep non-ASCII names readable
+ */
+function contentDisposition(filename: string): string {
+  const asciiFilename = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encodedFilename = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+  return `inline; filename="${asciiFilename}"; filename*=UTF-8''${encodedFilename}`;
+}
@@ -0,0 +1,16 @@
+import { ImageOff } from 'lucide-react';
+
+/**
+ * Shown for unknown, malformed or private share links
+ */
+export default function ScreenshotNotFound() {
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center gap-3 p-8 text-center">
+      <ImageOff className="size-10 text-muted-foreground" aria-hidden />
+      <h1 className="text-xl font-semibold">Screenshot not found</h1>
+      <p className="text-sm text-muted-foreground">
+        This link may be mistyped, or the screenshot is no longer shared.
+      </p>
+    </main>
+  );
+}
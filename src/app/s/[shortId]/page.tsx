@@ -0,0 +1,330 @@
+/**
+ * /s/[shortId]
+ * Public screenshot viewer page
+ * Server-rendered so share links unfurl with Open Graph / Twitter Card previews
+ * Password-protected screenshots show a password form and render once unlocked (?token=)
+ * Limited-view screenshots show an interstitial instead, so link unfurlers don't use up views
+ * Expired and burned links get 410 Gone from src/middleware.ts
+ *
+ * @public No authentication required
+ */
+
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import { headers } from 'next/headers';
+import { notFound, redirect } from 'next/navigation';
+import { cache } from 'react';
+import { Calendar, Clock, Eye, Flame, Lock } from 'lucide-react';
+import { GoneError, NotFoundError } from '@/lib/errors';
+import {
+  getPublicScreenshot,
+  getShareUrl,
+  countScreenshotView,
+  getViewerStorageUrl,
+  toPublicScreenshotResponse,
+  type PublicScreenshotRow,
+} from '@/lib/screenshots';
+import {
+  createShareAccessToken,
+  verifyShareAccessToken,
+  verifySharePassword,
+} from '@/lib/share-access';
+import { checkRateLimit, getClientIp, unlockRateLimit } from '@/lib/rate-limit';
+
+// Every request must hit the database so views are counted and expiry is enforced
+export const dynamic = 'force-dynamic';
+
+type PageProps = {
+  params: Promise<{ shortId: string }>;
+  searchParams: Promise<{ token?: string; error?: string }>;
+};
+
+type ScreenshotLookup =
+  | { status: 'found'; screenshot: PublicScreenshotRow }
+  | { status: 'expired' }
+  | { status: 'not_found' };
+
+/**
+ * Resolve a share link once per request
+ * Shared by generateMetadata and the page component via React cache()
+ */
+const lookupScreenshot = cache(async (shortId: string): Promise<ScreenshotLookup> => {
+  try {
+    return { status: 'found', screenshot: await getPublicScreenshot(shortId) };
+  } catch (error) {
+    if (error instanceof GoneError) {
+      return { status: 'expired' };
+    }
+    if (error instanceof NotFoundError) {
+      return { status: 'not_found' };
+    }
+    throw error;
+  }
+});
+
+/**
+ * Server action for the password form
+ * Redirects back to the page with an unlock token, or with ?error= on failure
+ */
+async function unlockScreenshot(formData: FormData) {
+  'use server';
+
+  const shortId = String(formData.get('shortId') ?? '');
+  const password = String(formData.get('password') ?? '');
+
+  const { success } = await checkRateLimit(
+    unlockRateLimit,
+    `${shortId}:${getClientIp(await headers())}`
+  );
+  if (!success) {
+    redirect(`/s/${shortId}?error=rate_limited`);
+  }
+
+  const lookup = await lookupScreenshot(shortId);
+  if (lookup.status !== 'found' || !lookup.screenshot.password_hash) {
+    redirect(`/s/${shortId}`);
+  }
+
+  const { screenshot } = lookup;
+  if (!password || !(await verifySharePassword(password, screenshot.password_hash!))) {
+    redirect(`/s/${shortId}?error=invalid_password`);
+  }
+
+  redirect(`/s/${shortId}?token=${encodeURIComponent(createShareAccessToken(screenshot))}`);
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { shortId } = await params;
+  const lookup = await lookupScreenshot(shortId);
+
+  if (lookup.status !== 'found') {
+    return {
+      title: lookup.status === 'expired' ? 'Screenshot expired - snappd' : 'Screenshot not found - snappd',
+      robots: { index: false, follow: false },
+    };
+  }
+
+  // Never leak protected images into link previews
+  if (lookup.screenshot.password_hash) {
+    return {
+      title: 'Password protected screenshot - snappd',
+      robots: { index: false, follow: false },
+    };
+  }
+
+  if (lookup.screenshot.max_views !== null) {
+    return {
+      title: 'Self-destructing screenshot - snappd',
+      robots: { index: false, follow: false },
+    };
+  }
+
+  const { original_filename, width, height, seo_metadata } = toPublicScreenshotResponse(
+    lookup.screenshot
+  );
+  const shareUrl = getShareUrl(shortId);
+
+  return {
+    title: seo_metadata.title,
+    description: seo_metadata.description,
+    alternates: { canonical: shareUrl },
+    openGraph: {
+      type: 'website',
+      siteName: 'snappd',
+      url: shareUrl,
+      title: seo_metadata.title,
+      description: seo_metadata.description,
+      images: [{ url: seo_metadata.image, width, height, alt: original_filename }],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: seo_metadata.title,
+      description: seo_metadata.description,
+      images: [seo_metadata.image],
+    },
+  };
+}
+
+export default async function PublicScreenshotPage({ params, searchParams }: PageProps) {
+  const { shortId } = await params;
+  const { token, error } = await searchParams;
+  const lookup = await lookupScreenshot(shortId);
+
+  if (lookup.status === 'not_found') {
+    notFound();
+  }
+
+  if (lookup.status === 'expired') {
+    return <ExpiredScreenshot />;
+  }
+
+  const { screenshot } = lookup;
+
+  if (screenshot.password_hash && !(token && verifyShareAccessToken(screenshot, token))) {
+    return <PasswordPrompt shortId={shortId} error={error} />;
+  }
+
+  // Views are only counted when the viewer opens the raw image (/i/[shortId])
+  if (screenshot.max_views !== null) {
+    return (
+      <LimitedViewNotice
+        shortId={shortId}
+        token={token}
+        remaining={Math.max(screenshot.max_views - screenshot.views, 0)}
+      />
+    );
+  }
+
+  // Increment view count (background - unlimited screenshots never block rendering)
+  const views = await countScreenshotView(screenshot);
+
+  const publicScreenshot = toPublicScreenshotResponse(
+    screenshot,
+    views,
+    await getViewerStorageUrl(screenshot)
+  );
+  const uploadedAt = new Date(publicScreenshot.created_at).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+  return (
+    <main className="min-h-screen flex flex-col items-center gap-6 p-4 sm:p-8">
+      <figure className="w-full max-w-5xl overflow-hidden rounded-lg border bg-card">
+        <Image
+          src={publicScreenshot.storage_url}
+          alt={publicScreenshot.original_filename}
+          width={publicScreenshot.width}
+          height={publicScreenshot.height}
+          className="h-auto w-full"
+          priority
+        />
+      </figure>
+
+      <div className="w-full max-w-5xl flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <h1 className="font-medium break-all">{publicScreenshot.original_filename}</h1>
+
+        <div className="flex items-center gap-4 text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Eye className="size-4" aria-hidden />
+            {publicScreenshot.views.toLocaleString('en-US')}{' '}
+            {publicScreenshot.views === 1 ? 'view' : 'views'}
+          </span>
+          <span className="flex items-center gap-1">
+            <Calendar className="size-4" aria-hidden />
+            {uploadedAt}
+          </span>
+          <a
+            href={publicScreenshot.storage_url}
+            className="underline-offset-4 hover:underline"
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            Open original
+          </a>
+        </div>
+      </div>
+
+      <footer className="text-xs text-muted-foreground">Shared via snappd</footer>
+    </main>
+  );
+}
+
+/**
+ * Shown instead of the image once a share link has expired
+ * Normally src/middleware.ts has already answered with 410 Gone; this covers links that
+ * expire or burn between the middleware check and rendering
+ */
+function ExpiredScreenshot() {
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center gap-3 p-8 text-center">
+      <Clock className="size-10 text-muted-foreground" aria-hidden />
+      <h1 className="text-xl font-semibold">This screenshot has expired</h1>
+      <p className="text-sm text-muted-foreground">
+        The owner&apos;s share link is no longer available.
+      </p>
+    </main>
+  );
+}
+
+/**
+ * Password form for protected share links
+ * Submits to the unlockScreenshot server action (works without client JavaScript)
+ */
+function PasswordPrompt({ shortId, error }: { shortId: string; error?: string }) {
+  const message =
+    error === 'invalid_password'
+      ? 'Incorrect password. Please try again.'
+      : error === 'rate_limited'
+        ? 'Too many attempts. Please wait a minute and try again.'
+        : null;
+
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center gap-3 p-8 text-center">
+      <Lock className="size-10 text-muted-foreground" aria-hidden />
+      <h1 className="text-xl font-semibold">This screenshot is password protected</h1>
+      <p className="text-sm text-muted-foreground">Enter the password to view it.</p>
+
+      <form action={unlockScreenshot} className="mt-2 flex w-full max-w-xs flex-col gap-2">
+        <input type="hidden" name="shortId" value={shortId} />
+        <input
+          type="password"
+          name="password"
+          required
+          autoFocus
+          autoComplete="off"
+          aria-label="Password"
+          placeholder="Password"
+          className="rounded-md border bg-background px-3 py-2 text-sm"
+        />
+        <button
+          type="submit"
+          className="rounded-md bg-foreground px-3 py-2 text-sm font-medium text-background"
+        >
+          View screenshot
+        </button>
+        {message && (
+          <p role="alert" className="text-sm text-destructive">
+            {message}
+          </p>
+        )}
+      </form>
+    </main>
+  );
+}
+
+/**
+ * Interstitial for limited-view (burn-after-reading) screenshots
+ * The image is opened via /i/[shortId], which counts the view atomically
+ */
+function LimitedViewNotice({
+  shortId,
+  token,
+  remaining,
+}: {
+  shortId: string;
+  token?: string;
+  remaining: number;
+}) {
+  const imageUrl = token ? `/i/${shortId}?token=${encodeURIComponent(token)}` : `/i/${shortId}`;
+
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center gap-3 p-8 text-center">
+      <Flame className="size-10 text-muted-foreground" aria-hidden />
+      <h1 className="text-xl font-semibold">This screenshot self-destructs</h1>
+      <p className="text-sm text-muted-foreground">
+        {remaining === 1
+          ? 'It can be viewed one more time. After that it is deleted.'
+          : `It can be viewed ${remaining} more times. After that it is deleted.`}
+      </p>
+      <a
+        href={imageUrl}
+        rel="nofollow"
+        className="mt-2 rounded-md bg-foreground px-3 py-2 text-sm font-medium text-background"
+      >
+        View screenshot
+      </a>
+    </main>
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * Personal API keys (POST /api/auth/api-keys)
+ * Keys are accepted wherever a Supabase access token is: resolveApiKey looks them up and mints a
+ * short-lived access token for the key's owner, which withAuth hands to createUserClient, so RLS
+ * applies to API key requests exactly as it does to session requests
+ */
+
+import { createHash, createHmac, randomBytes } from 'crypto';
+import type { Database } from '@/types/database';
+import type { ApiKeyResponse } from '@/types/api';
+
+type ApiKeyRow = Database['public']['Tables']['api_keys']['Row'];
+
+/**
+ * Prefix of every API key (lets clients and secret scanners recognize keys)
+ */
+export const API_KEY_PREFIX = 'snappd_sk_';
+
+/**
+ * Characters of the key kept in key_prefix for listings (e.g. "snappd_sk_Xk3f9Q")
+ */
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+
+/**
+ * Scopes an API key can be limited to (keys without scopes have full access)
+ */
+export const API_KEY_SCOPES = [
+  'screenshots:read',
+  'screenshots:write',
+  'collections:read',
+  'collections:write',
+  'account:read',
+  'account:write',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * Max active API keys per user
+ */
+export const MAX_API_KEYS_PER_USER = 25;
+
+/**
+ * Lifetime in seconds of the access token minted for an API key request
+ */
+export const API_KEY_ACCESS_TOKEN_TTL = 300;
+
+/**
+ * Check whether a bearer token is an API key (rather than a Supabase JWT)
+ *
+ * @param token - Bearer token from the Authorization header
+ * @returns true for API keys
+ */
+export const isApiKey = (token: string): boolean => token.startsWith(API_KEY_PREFIX);
+
+/**
+ * Hash an API key for storage and lookup
+ * Keys are 192-bit random values, so a fast unsalted hash is sufficient
+ *
+ * @param key - Full API key
+ * @returns SHA-256 hex digest
+ */
+export const hashApiKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+/**
+ * Generate a new API key
+ *
+ * @returns The key (shown to the user once), its display prefix and its hash
+ */
+export const generateApiKey = (): { key: string; prefix: string; hash: string } => {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    hash: hashApiKey(key),
+  };
+};
+
+/**
+ * Check whether a key's scopes allow an operation
+ *
+ * @param scopes - Scopes of the key (null = full access)
+ * @param required - Scope the route needs; routes without a scope only accept full-access keys
+ * @returns true if the key may be used
+ */
+export const hasApiKeyScope = (scopes: string[] | null, required?: ApiKeyScope): boolean => {
+  if (scopes === null) {
+    return true;
+  }
+
+  return required !== undefined && scopes.includes(required);
+};
+
+/**
+ * Mint a Supabase access token for the owner of an API key
+ * Signed with the project's JWT secret so PostgREST applies the user's RLS policies
+ *
+ * @param userId - Owner of the API key
+ * @returns Signed HS256 JWT valid for API_KEY_ACCESS_TOKEN_TTL seconds
+ */
+export const mintAccessToken = (userId: string): string => {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+
+  if (!secret) {
+    throw new Error('SUPABASE_JWT_SECRET is not configured');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({
+    sub: userId,
+    role: 'authenticated',
+    aud: 'authenticated',
+    iat: now,
+    exp: now + API_KEY_ACCESS_TOKEN_TTL,
+  })}`;
+
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+};
+
+/**
+ * Map an api_keys row to the listing response shape (never includes the hash)
+ *
+ * @param apiKey - API key row
+ * @returns API key response
+ */
+export const toApiKeyResponse = (
+  apiKey: Pick<ApiKeyRow, 'id' | 'name' | 'key_prefix' | 'scopes' | 'last_used_at' | 'created_at'>
+): ApiKeyResponse => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.key_prefix,
+  scopes: apiKey.scopes,
+  last_used_at: apiKey.last_used_at,
+  created_at: apiKey.created_at,
+});
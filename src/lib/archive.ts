@@ -0,0 +1,153 @@
+/**
+ * Zip archives of screenshot originals (POST /api/screenshots/archive)
+ * Archives are streamed: each original is downloaded only when the client is ready for more data
+ */
+
+import { Zip, ZipPassThrough } from 'fflate';
+import { downloadFile } from './storage';
+import { getScreenshotBucket } from './screenshots';
+import type { ALLOWED_MIME_TYPES } from './validation';
+import type { Database } from '@/types/database';
+
+type ArchiveScreenshot = Pick<
+  Database['public']['Tables']['screenshots']['Row'],
+  'original_filename' | 'storage_path' | 'password_hash' | 'max_views' | 'mime_type' | 'created_at'
+>;
+
+/**
+ * Max screenshots in one archive
+ */
+export const MAX_ARCHIVE_FILES = 500;
+
+/**
+ * Filename length cap inside the archive (before de-duplication suffixes)
+ */
+const MAX_ENTRY_NAME_LENGTH = 200;
+
+/**
+ * Accepted extensions per stored MIME type (first one is appended when missing)
+ */
+const MIME_EXTENSIONS: Record<(typeof ALLOWED_MIME_TYPES)[number], string[]> = {
+  'image/png': ['png'],
+  'image/jpeg': ['jpg', 'jpeg'],
+  'image/gif': ['gif'],
+  'image/webp': ['webp'],
+};
+
+/**
+ * Turn an uploaded filename into a safe zip entry name
+ * Strips directories and characters that are invalid on common filesystems and makes sure
+ * the extension matches the stored image
+ *
+ * @param filename - original_filename of the screenshot
+ * @param mimeType - Stored MIME type
+ * @returns Entry name (e.g. "Checkout bug.png")
+ */
+export const sanitizeArchiveFilename = (filename: string, mimeType: string): string => {
+  const baseName = filename.slice(Math.max(filename.lastIndexOf('/'), filename.lastIndexOf('\\')) + 1);
+  let name = Array.from(baseName, (char) =>
+    char.charCodeAt(0) < 0x20 || char.charCodeAt(0) === 0x7f || '<>:"|?*'.includes(char) ? '_' : char
+  )
+    .join('')
+    .replace(/^[\s.]+|[\s.]+$/g, '')
+    .slice(0, MAX_ENTRY_NAME_LENGTH)
+    .trim();
+
+  if (!name) {
+    name = 'screenshot';
+  }
+
+  const extensions = MIME_EXTENSIONS[mimeType as keyof typeof MIME_EXTENSIONS];
+  const dot = name.lastIndexOf('.');
+  const extension = dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+
+  if (extensions && !extensions.includes(extension)) {
+    name = `${name}.${extensions[0]}`;
+  }
+
+  return name;
+};
+
+/**
+ * Assign unique entry names ("shot.png", "shot (2).png", ...)
+ * Comparison is case-insensitive so archives extract cleanly on macOS and Windows
+ *
+ * @param screenshots - Screenshots in archive order
+ * @returns Entry name for each screenshot (same order)
+ */
+export const getArchiveEntryNames = (
+  screenshots: Array<Pick<ArchiveScreenshot, 'original_filename' | 'mime_type'>>
+): string[] => {
+  const used = new Set<string>();
+
+  return screenshots.map((screenshot) => {
+    const name = sanitizeArchiveFilename(screenshot.original_filename, screenshot.mime_type);
+    const dot = name.lastIndexOf('.');
+    const stem = dot > 0 ? name.slice(0, dot) : name;
+    const extension = dot > 0 ? name.slice(dot) : '';
+
+    let candidate = name;
+    for (let copy = 2; used.has(candidate.toLowerCase()); copy++) {
+      candidate = `${stem} (${copy})${extension}`;
+    }
+
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
+
+/**
+ * Stream a zip of screenshot originals
+ * Images are already compressed, so entries are stored without deflate
+ * A failed download aborts the stream (the client sees a truncated download)
+ *
+ * @param screenshots - Screenshots in archive order
+ * @returns Zip byte stream
+ *
+ * @example
+ * return new Response(createArchiveStream(screenshots), {
+ *   headers: { 'Content-Type': 'application/zip' },
+ * });
+ */
+export const createArchiveStream = (screenshots: ArchiveScreenshot[]): ReadableStream<Uint8Array> => {
+  const names = getArchiveEntryNames(screenshots);
+  let zip: Zip;
+  let next = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip = new Zip((error, chunk, final) => {
+        if (error) {
+          controller.error(error);
+          return;
+        }
+
+        controller.enqueue(chunk);
+        if (final) {
+          controller.close();
+        }
+      });
+    },
+
+    // Called whenever the client has room for more data - one original per pull
+    async pull() {
+      if (next >= screenshots.length) {
+        zip.end();
+        return;
+      }
+
+      const screenshot = screenshots[next];
+      const data = await downloadFile(screenshot.storage_path, getScreenshotBucket(screenshot));
+      const entry = new ZipPassThrough(names[next]);
+      entry.mtime = new Date(screenshot.created_at);
+      next++;
+
+      zip.add(entry);
+      entry.push(new Uint8Array(data), true);
+    },
+
+    cancel() {
+      zip.terminate();
+    },
+  });
+};
@@ -0,0 +1,163 @@
+/**
+ * Authentication wrapper for API route handlers
+ * Resolves the caller once per request (Supabase session JWT or API key), applies the general API
+ * rate limit and hands the handler a user-scoped Supabase client
+ */
+
+import type { NextRequest } from 'next/server';
+import { createUserClient, getUserIdFromToken, resolveApiKey } from './supabase';
+import { isApiKey, type ApiKeyScope } from './api-keys';
+import { apiRateLimit, checkRateLimit, addRateLimitHeaders } from './rate-limit';
+import {
+  handleApiError,
+  UnauthorizedError,
+  ForbiddenError,
+  RateLimitError,
+} from './errors';
+import type { Database } from '@/types/database';
+
+export type Plan = Database['public']['Tables']['profiles']['Row']['plan'];
+
+/**
+ * Authenticated caller passed to route handlers
+ */
+export type AuthContext = {
+  userId: string;
+  /** How the caller authenticated */
+  authMethod: 'session' | 'api_key';
+  /** Supabase client acting as the caller (RLS applies) */
+  supabase: ReturnType<typeof createUserClient>;
+  /** Caller's plan (loaded on first use, then cached for the request) */
+  getPlan: () => Promise<Plan>;
+};
+
+export type WithAuthOptions = {
+  /** Scope an API key needs (omit to require a full-access key) */
+  scope?: ApiKeyScope;
+  /** Accept API keys at all (default: true) */
+  allowApiKeys?: boolean;
+};
+
+/**
+ * Extract the bearer token from the Authorization header
+ *
+ * @param request - Incoming request
+ * @returns Token
+ * @throws UnauthorizedError if the header is missing or not "Bearer <token>"
+ */
+export const getBearerToken = (request: Request): string => {
+  const header = request.headers.get('authorization');
+
+  if (!header) {
+    throw new UnauthorizedError('Missing authorization token');
+  }
+
+  const match = /^Bearer ([^\s]+)$/i.exec(header.trim());
+  if (!match) {
+    throw new UnauthorizedError('Malformed authorization header');
+  }
+
+  return match[1];
+};
+
+/**
+ * Resolve the caller of a request
+ *
+ * @param request - Incoming request
+ * @param options - API key scope and whether API keys are accepted
+ * @returns Authenticated caller
+ * @throws UnauthorizedError for missing, malformed or invalid credentials
+ * @throws ForbiddenError if an API key is not allowed here or lacks the scope
+ */
+export const authenticate = async (
+  request: Request,
+  options: WithAuthOptions = {}
+): Promise<AuthContext> => {
+  const accessToken = getBearerToken(request);
+  const authMethod = isApiKey(accessToken) ? 'api_key' : 'session';
+
+  if (authMethod === 'api_key' && options.allowApiKeys === false) {
+    throw new ForbiddenError('This endpoint cannot be used with an API key');
+  }
+
+  // API keys act through an access token minted for the key's owner
+  const caller =
+    authMethod === 'api_key'
+      ? await resolveApiKey(accessToken, options.scope)
+      : { userId: await getUserIdFromToken(accessToken, options.scope), accessToken };
+
+  if (!caller?.userId) {
+    throw new UnauthorizedError('Invalid authorization token');
+  }
+
+  const { userId } = caller;
+  const supabase = createUserClient(caller.accessToken);
+  let plan: Promise<Plan> | undefined;
+
+  const getPlan = () => {
+    plan ??= (async () => {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('plan')
+        .eq('id', userId)
+        .single();
+
+      if (!profile) {
+        throw new UnauthorizedError('User profile not found');
+      }
+
+      return profile.plan;
+    })();
+
+    return plan;
+  };
+
+  return { userId, authMethod, supabase, getPlan };
+};
+
+/**
+ * Wrap a route handler with authentication, rate limiting and error handling
+ * Route params are awaited before the handler runs; errors thrown by the handler are
+ * converted with handleApiError
+ *
+ * @param handler - Route handler receiving the caller and route params
+ * @param options - API key scope and whether API keys are accepted
+ * @returns Next.js route handler
+ *
+ * @example
+ * export const GET = withAuth<{ id: string }>(
+ *   async (request, { userId, supabase, params }) => {
+ *     const { data } = await supabase.from('screenshots').select('*').eq('id', params.id);
+ *     return NextResponse.json(data);
+ *   },
+ *   { scope: 'screenshots:read' }
+ * );
+ */
+export const withAuth = <P extends Record<string, string> = Record<string, never>>(
+  handler: (request: NextRequest, context: AuthContext & { params: P }) => Promise<Response>,
+  options: WithAuthOptions = {}
+) => {
+  return async (request: NextRequest, context?: { params: Promise<P> }): Promise<Response> => {
+    try {
+      const auth = await authenticate(request, options);
+
+      // 100 requests per minute per user (shared by sessions and API keys)
+      const rateLimitResult = await checkRateLimit(apiRateLimit, auth.userId);
+      if (!rateLimitResult.success) {
+        throw new RateLimitError(rateLimitResult.reset);
+      }
+
+      const params = ((await context?.params) ?? {}) as P;
+      const response = await handler(request, { ...auth, params });
+
+      // Routes with a stricter limit of their own (uploads) report that one instead
+      if (apiRateLimit && !response.headers.has('X-RateLimit-Limit')) {
+        addRateLimitHeaders(response.headers, rateLimitResult);
+      }
+
+      return response;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  };
+};
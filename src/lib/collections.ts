@@ -0,0 +1,157 @@
+/**
+ * Shared collection helpers
+ * Response mapping for authenticated routes and lookups for public galleries
+ * (/api/c/[shortId], /c/[shortId])
+ */
+
+import { supabaseAdmin } from './supabase';
+import { getPublicUrl } from './storage';
+import { isValidShortId } from './short-id';
+import { getAppUrl, getShareUrl } from './screenshots';
+import { NotFoundError } from './errors';
+import type { Database } from '@/types/database';
+import type {
+  CollectionResponse,
+  PublicCollectionResponse,
+  PublicCollectionScreenshot,
+} from '@/types/api';
+
+/**
+ * Collection database row
+ */
+export type CollectionRow = Database['public']['Tables']['collections']['Row'];
+
+/**
+ * Select clause for collections with their screenshot count
+ * Add .is('screenshots.deleted_at', null) so trashed screenshots aren't counted
+ */
+export const COLLECTION_WITH_COUNT_SELECT = '*, screenshots(count)';
+
+/**
+ * Collection row with an embedded screenshot count (see COLLECTION_WITH_COUNT_SELECT)
+ */
+export type CollectionWithCount = CollectionRow & {
+  screenshots: Array<{ count: number }>;
+};
+
+/**
+ * Max screenshots shown in a public gallery
+ */
+export const MAX_GALLERY_SCREENSHOTS = 200;
+
+/**
+ * Build the public gallery URL for a collection
+ *
+ * @param shortId - Collection short ID
+ * @returns Gallery URL (e.g., "https://snappd.app/c/abc123")
+ */
+export const getCollectionShareUrl = (shortId: string): string => `${getAppUrl()}/c/${shortId}`;
+
+/**
+ * Map a collection row to the authenticated API response shape
+ *
+ * @param collection - Collection row (with or without an embedded count)
+ * @param screenshotCount - Screenshot count (default: embedded count, else 0)
+ * @returns Collection response
+ */
+export const toCollectionResponse = (
+  collection: CollectionRow | CollectionWithCount,
+  screenshotCount: number = 'screenshots' in collection
+    ? (collection.screenshots[0]?.count ?? 0)
+    : 0
+): CollectionResponse => ({
+  id: collection.id,
+  short_id: collection.short_id,
+  name: collection.name,
+  description: collection.description,
+  is_public: collection.is_public,
+  share_url: getCollectionShareUrl(collection.short_id),
+  screenshot_count: screenshotCount,
+  created_at: collection.created_at,
+  updated_at: collection.updated_at,
+});
+
+/**
+ * Look up a publicly shared collection by short ID
+ *
+ * @param shortId - Collection short ID from the gallery URL
+ * @returns Collection row
+ * @throws NotFoundError if the ID is malformed, unknown or the collection is private
+ */
+export const getPublicCollection = async (shortId: string): Promise<CollectionRow> => {
+  // 1. Validate short ID format
+  if (!isValidShortId(shortId)) {
+    throw new NotFoundError('Collection');
+  }
+
+  // 2. Fetch collection by short_id (use admin client for public access)
+  const { data: collection, error } = await supabaseAdmin
+    .from('collections')
+    .select('*')
+    .eq('short_id', shortId)
+    .single();
+
+  if (error || !collection || !collection.is_public) {
+    throw new NotFoundError('Collection');
+  }
+
+  return collection;
+};
+
+/**
+ * Fetch the screenshots shown in a public gallery (newest first)
+ * Only public, unexpired screenshots without a password or view limit (and not in the trash) are listed -
+ * protected links keep their own gate, and listing limited ones would use up views
+ *
+ * @param collection - Public collection
+ * @returns Gallery screenshots
+ */
+export const getPublicCollectionScreenshots = async (
+  collection: Pick<CollectionRow, 'id'>
+): Promise<PublicCollectionScreenshot[]> => {
+  const { data: screenshots, error } = await supabaseAdmin
+    .from('screenshots')
+    .select('short_id, original_filename, width, height, storage_path, thumbnail_path, created_at')
+    .eq('collection_id', collection.id)
+    .eq('is_public', true)
+    .is('deleted_at', null)
+    .is('password_hash', null)
+    .is('max_views', null)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .order('created_at', { ascending: false })
+    .limit(MAX_GALLERY_SCREENSHOTS);
+
+  if (error) {
+    throw new Error(`Failed to fetch collection screenshots: ${error.message}`);
+  }
+
+  return (screenshots || []).map((screenshot) => ({
+    short_id: screenshot.short_id,
+    original_filename: screenshot.original_filename,
+    width: screenshot.width,
+    height: screenshot.height,
+    share_url: getShareUrl(screenshot.short_id),
+    storage_url: getPublicUrl(screenshot.storage_path),
+    thumbnail_url: screenshot.thumbnail_path ? getPublicUrl(screenshot.thumbnail_path) : null,
+    created_at: screenshot.created_at,
+  }));
+};
+
+/**
+ * Build the public gallery response for a collection
+ *
+ * @param collection - Public collection
+ * @param screenshots - Gallery screenshots (see getPublicCollectionScreenshots)
+ * @returns Public collection response
+ */
+export const toPublicCollectionResponse = (
+  collection: CollectionRow,
+  screenshots: PublicCollectionScreenshot[]
+): PublicCollectionResponse => ({
+  short_id: collection.short_id,
+  name: collection.name,
+  description: collection.description,
+  share_url: getCollectionShareUrl(collection.short_id),
+  screenshots,
+  created_at: collection.created_at,
+});
@@ -0,0 +1,41 @@
+/**
+ * Vercel Cron helpers
+ * Authenticates scheduled job requests sent by Vercel Cron
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { UnauthorizedError } from './errors';
+
+/**
+ * Verify that a request was sent by Vercel Cron
+ * Vercel sends `Authorization: Bearer <CRON_SECRET>` with every scheduled invocation
+ *
+ * @param request - Incoming request
+ * @throws UnauthorizedError if CRON_SECRET is not configured or the header does not match
+ *
+ * @example
+ * export async function GET(request: NextRequest) {
+ *   try {
+ *     verifyCronRequest(request);
+ *     // ... job logic
+ *   } catch (error) {
+ *     return handleApiError(error);
+ *   }
+ * }
+ */
+export const verifyCronRequest = (request: Request): void => {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    console.error('CRON_SECRET is not configured - refusing to run cron job');
+    throw new UnauthorizedError('Cron jobs are not configured');
+  }
+
+  const provided = Buffer.from(request.headers.get('authorization') ?? '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+
+  // Constant-time comparison to avoid leaking the secret through timing
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    throw new UnauthorizedError('Invalid cron secret');
+  }
+};
@@ -26,6 +26,11 @@ const ENV_VARS: EnvVar[] = [
     required: true,
     description: 'Supabase service role key (secret)',
   },
+  {
+    key: 'SUPABASE_JWT_SECRET',
+    required: false,
+    description: 'Supabase JWT secret (signs access tokens for API key requests)',
+  },
 
   // Stripe
   {
@@ -43,6 +48,11 @@ const ENV_VARS: EnvVar[] = [
     required: true,
     description: 'Stripe Pro plan price ID',
   },
+  {
+    key: 'STRIPE_TEAM_PRICE_ID',
+    required: false,
+    description: 'Stripe Team plan per-seat price ID (required to sell the Team plan)',
+  },
   {
     key: 'NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY',
     required: false,
@@ -67,6 +77,27 @@ const ENV_VARS: EnvVar[] = [
     required: true,
     description: 'Public application URL',
   },
+
+  // Vercel Cron
+  {
+    key: 'CRON_SECRET',
+    required: false,
+    description: 'Shared secret sent by Vercel Cron in the Authorization header',
+  },
+
+  // Share links
+  {
+    key: 'SHARE_TOKEN_SECRET',
+    required: false,
+    description: 'Signs unlock tokens for password-protected share links (defaults to the service role key)',
+  },
+
+  // OCR
+  {
+    key: 'OCR_LANG_PATH',
+    required: false,
+    description: 'Base URL or directory with Tesseract language data (eng.traineddata.gz; required for OCR)',
+  },
 ];
 
 /**
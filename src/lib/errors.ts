@@ -58,6 +58,27 @@ export class UnauthorizedError extends ApiError {
   }
 }
 
+/**
+ * 401 Unauthorized - Share link is password protected and no valid unlock token was provided
+ */
+export class PasswordRequiredError extends ApiError {
+  constructor(message = 'This screenshot is password protected') {
+    super(message, 401, 'PASSWORD_REQUIRED');
+  }
+}
+
+/**
+ * 402 Payment Required - Every seat on the team subscription is taken
+ */
+export class SeatLimitError extends ApiError {
+  constructor(seats: number, seatsUsed: number) {
+    super('All seats on the team subscription are in use', 402, 'SEAT_LIMIT_REACHED', {
+      seats,
+      seats_used: seatsUsed,
+    });
+  }
+}
+
 /**
  * 403 Forbidden - User lacks permission for resource
  */
@@ -94,6 +115,15 @@ export class PayloadTooLargeError extends ApiError {
   }
 }
 
+/**
+ * 413 Payload Too Large - Upload would take the user past their plan's storage quota
+ */
+export class StorageQuotaError extends ApiError {
+  constructor(details: { quota_bytes: number; used_bytes: number; file_size: number; plan: string }) {
+    super('Storage quota exceeded', 413, 'STORAGE_QUOTA_EXCEEDED', details);
+  }
+}
+
 /**
  * 429 Too Many Requests - Rate limit exceeded
  */
@@ -0,0 +1,94 @@
+/**
+ * Screenshot expiry and retention
+ * Resolves user-chosen expiry (expires_in / expires_at) against plan retention limits
+ */
+
+import { ForbiddenError } from './errors';
+import { getEntitlements, PLANS } from './plans';
+import type { EXPIRES_IN_OPTIONS } from './validation';
+import type { Database } from '@/types/database';
+
+type Plan = Database['public']['Tables']['profiles']['Row']['plan'];
+
+export type ExpiresIn = (typeof EXPIRES_IN_OPTIONS)[number];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Duration for each expires_in option (null = never expires)
+ */
+export const EXPIRES_IN_DURATIONS: Record<ExpiresIn, number | null> = {
+  '1h': HOUR_MS,
+  '1d': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  never: null,
+};
+
+/**
+ * Longest a screenshot may live after upload (null = unlimited)
+ *
+ * @param plan - User plan
+ * @returns Retention in milliseconds
+ */
+export const getMaxRetention = (plan: Plan): number | null => {
+  const { retentionDays } = getEntitlements(plan);
+
+  return retentionDays === null ? null : retentionDays * DAY_MS;
+};
+
+/**
+ * Default expiry for new uploads: end of the plan's retention, or never
+ *
+ * @param plan - User plan
+ * @param createdAt - Upload time (default: now)
+ * @returns ISO expiry or null
+ */
+export const getDefaultExpiresAt = (plan: Plan, createdAt: Date = new Date()): string | null => {
+  const maxRetention = getMaxRetention(plan);
+
+  return maxRetention === null ? null : new Date(createdAt.getTime() + maxRetention).toISOString();
+};
+
+/**
+ * Resolve a requested expiry to an absolute timestamp
+ * expires_in is relative to now; the plan limit is relative to the upload time,
+ * so free screenshots can't be kept alive indefinitely by repeatedly extending them
+ *
+ * @param plan - User plan
+ * @param request - Validated expires_in / expires_at (validation guarantees at most one)
+ * @param createdAt - Upload time of the screenshot (default: now, for new uploads)
+ * @returns ISO expiry, null for never, or undefined if no expiry was requested
+ * @throws ForbiddenError if the expiry exceeds the plan's retention
+ */
+export const resolveExpiresAt = (
+  plan: Plan,
+  request: { expires_in?: ExpiresIn; expires_at?: string | null },
+  createdAt?: Date
+): string | null | undefined => {
+  const now = Date.now();
+  let expiresAt: Date | null;
+
+  if (request.expires_in !== undefined) {
+    const duration = EXPIRES_IN_DURATIONS[request.expires_in];
+    expiresAt = duration === null ? null : new Date(now + duration);
+  } else if (request.expires_at !== undefined) {
+    expiresAt = request.expires_at === null ? null : new Date(request.expires_at);
+  } else {
+    return undefined;
+  }
+
+  const maxRetention = getMaxRetention(plan);
+  if (maxRetention !== null) {
+    const latest = (createdAt?.getTime() ?? now) + maxRetention;
+
+    if (expiresAt === null || expiresAt.getTime() > latest) {
+      throw new ForbiddenError(
+        `${PLANS[plan].name} plan screenshots can be kept for at most ${PLANS[plan].retentionDays} days after upload. Upgrade to ${PLANS.pro.name} to keep them longer.`
+      );
+    }
+  }
+
+  return expiresAt === null ? null : expiresAt.toISOString();
+};
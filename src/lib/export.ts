@@ -0,0 +1,232 @@
+/**
+ * GDPR data exports (POST /api/auth/export)
+ * Builds a zip of everything we store about a user: a machine-readable manifest.json plus the
+ * original image files. Exports are built by the process-exports cron job, stored in the private
+ * exports bucket and downloaded through short-lived signed URLs
+ */
+
+import { Zip, ZipDeflate, ZipPassThrough, strToU8 } from 'fflate';
+import { supabaseAdmin } from './supabase';
+import { downloadFile } from './storage';
+import { getArchiveEntryNames } from './archive';
+import { getScreenshotBucket } from './screenshots';
+import type { Database } from '@/types/database';
+import type { DataExportResponse } from '@/types/api';
+
+export type DataExportRow = Database['public']['Tables']['data_exports']['Row'];
+
+type ExportScreenshot = Pick<
+  Database['public']['Tables']['screenshots']['Row'],
+  | 'id'
+  | 'short_id'
+  | 'storage_path'
+  | 'original_filename'
+  | 'file_size'
+  | 'width'
+  | 'height'
+  | 'mime_type'
+  | 'expires_at'
+  | 'views'
+  | 'is_public'
+  | 'password_hash'
+  | 'max_views'
+  | 'collection_id'
+  | 'team_id'
+  | 'tags'
+  | 'ocr_text'
+  | 'deleted_at'
+  | 'created_at'
+  | 'updated_at'
+>;
+
+/**
+ * Manifest format version (bump when the manifest shape changes)
+ */
+export const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * Days a finished export can be downloaded before the archive is deleted
+ */
+export const EXPORT_RETENTION_DAYS = 7;
+
+/**
+ * Lifetime of a download link in seconds (a new link is issued on every status request)
+ */
+export const EXPORT_DOWNLOAD_URL_TTL = 3600;
+
+/**
+ * Attempts before an export is marked as failed
+ */
+export const MAX_EXPORT_ATTEMPTS = 3;
+
+/**
+ * Hours between export requests
+ */
+export const EXPORT_COOLDOWN_HOURS = 24;
+
+/**
+ * Storage path of an export archive in the exports bucket
+ * Format: {userId}/{exportId}.zip
+ *
+ * @param userId - Owner of the export
+ * @param exportId - data_exports row ID
+ * @returns Storage path
+ */
+export const getExportStoragePath = (userId: string, exportId: string): string =>
+  `${userId}/${exportId}.zip`;
+
+/**
+ * When a finished export stops being downloadable
+ *
+ * @param completedAt - Time the archive was uploaded
+ * @returns ISO timestamp
+ */
+export const getExportExpiresAt = (completedAt: string): string =>
+  new Date(new Date(completedAt).getTime() + EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+/**
+ * Map a data_exports row to the export status response shape
+ *
+ * @param dataExport - Export row
+ * @param downloadUrl - Signed download URL (completed exports only)
+ * @returns Export status response
+ */
+export const toDataExportResponse = (
+  dataExport: DataExportRow,
+  downloadUrl: string | null = null
+): DataExportResponse => ({
+  id: dataExport.id,
+  status: dataExport.status,
+  file_size: dataExport.file_size,
+  error: dataExport.status === 'failed' ? dataExport.error : null,
+  download_url: downloadUrl,
+  download_url_expires_in: downloadUrl ? EXPORT_DOWNLOAD_URL_TTL : null,
+  created_at: dataExport.created_at,
+  completed_at: dataExport.completed_at,
+  expires_at: dataExport.expires_at,
+});
+
+/**
+ * Stream the export archive for a user
+ * Includes trashed screenshots (they are still stored); internal fields such as password
+ * hashes, storage paths and search vectors are left out of the manifest
+ * Originals are downloaded one at a time as the stream is read, so the archive is never
+ * held in memory; a failed download errors the stream (the job is retried)
+ *
+ * @param userId - User to export
+ * @returns Zip byte stream
+ * @throws Error if a query fails
+ *
+ * @example
+ * await uploadFileStream(storagePath, await createDataExportStream(userId), 'application/zip', true, EXPORTS_BUCKET);
+ */
+export const createDataExportStream = async (userId: string): Promise<ReadableStream<Uint8Array>> => {
+  // 1. Collect database records
+  const [profileResult, screenshotsResult, collectionsResult, usageResult] = await Promise.all([
+    supabaseAdmin.from('profiles').select('*').eq('id', userId).single(),
+    supabaseAdmin
+      .from('screenshots')
+      .select(
+        'id, short_id, storage_path, original_filename, file_size, width, height, mime_type, ' +
+          'expires_at, views, is_public, password_hash, max_views, collection_id, team_id, tags, ' +
+          'ocr_text, deleted_at, created_at, updated_at'
+      )
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .returns<ExportScreenshot[]>(),
+    supabaseAdmin
+      .from('collections')
+      .select('id, short_id, name, description, is_public, created_at, updated_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true }),
+    supabaseAdmin
+      .from('monthly_usage')
+      .select('month, screenshot_count, storage_bytes, bandwidth_bytes, created_at')
+      .eq('user_id', userId)
+      .order('month', { ascending: true }),
+  ]);
+
+  for (const { error } of [profileResult, screenshotsResult, collectionsResult, usageResult]) {
+    if (error) {
+      throw new Error(`Failed to load export data: ${error.message}`);
+    }
+  }
+
+  const screenshots = screenshotsResult.data ?? [];
+  const fileNames = getArchiveEntryNames(screenshots).map((name) => `screenshots/${name}`);
+
+  const manifest = {
+    format_version: EXPORT_FORMAT_VERSION,
+    exported_at: new Date().toISOString(),
+    profile: profileResult.data,
+    screenshots: screenshots.map((screenshot, index) => ({
+      id: screenshot.id,
+      short_id: screenshot.short_id,
+      file: fileNames[index],
+      original_filename: screenshot.original_filename,
+      file_size: screenshot.file_size,
+      width: screenshot.width,
+      height: screenshot.height,
+      mime_type: screenshot.mime_type,
+      expires_at: screenshot.expires_at,
+      views: screenshot.views,
+      is_public: screenshot.is_public,
+      password_protected: screenshot.password_hash !== null,
+      max_views: screenshot.max_views,
+      collection_id: screenshot.collection_id,
+      team_id: screenshot.team_id,
+      tags: screenshot.tags,
+      ocr_text: screenshot.ocr_text,
+      deleted_at: screenshot.deleted_at,
+      created_at: screenshot.created_at,
+      updated_at: screenshot.updated_at,
+    })),
+    collections: collectionsResult.data ?? [],
+    monthly_usage: usageResult.data ?? [],
+  };
+
+  // 2. Stream the zip (manifest first so it can be read without scanning the images)
+  let zip: Zip;
+  let next = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip = new Zip((error, chunk, final) => {
+        if (error) {
+          controller.error(error);
+          return;
+        }
+
+        controller.enqueue(chunk);
+        if (final) {
+          controller.close();
+        }
+      });
+
+      const manifestEntry = new ZipDeflate('manifest.json', { level: 6 });
+      zip.add(manifestEntry);
+      manifestEntry.push(strToU8(JSON.stringify(manifest, null, 2)), true);
+    },
+
+    // Originals are stored without deflate (images are already compressed) - one per pull
+    async pull() {
+      if (next >= screenshots.length) {
+        zip.end();
+        return;
+      }
+
+      const screenshot = screenshots[next];
+      const data = await downloadFile(screenshot.storage_path, getScreenshotBucket(screenshot));
+      const entry = new ZipPassThrough(fileNames[next]);
+      entry.mtime = new Date(screenshot.created_at);
+      next++;
+
+      zip.add(entry);
+      entry.push(new Uint8Array(data), true);
+    },
+
+    cancel() {
+      zip.terminate();
+    },
+  });
+};
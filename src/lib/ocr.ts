@@ -0,0 +1,114 @@
+/**
+ * OCR text extraction for screenshot search
+ * Runs Tesseract locally (WebAssembly via tesseract.js) - images never leave our infrastructure
+ */
+
+import { tmpdir } from 'os';
+import sharp from 'sharp';
+import { createWorker, type Worker } from 'tesseract.js';
+
+/**
+ * Tesseract language model
+ */
+export const OCR_LANGUAGE = 'eng';
+
+/**
+ * Attempts before a screenshot is marked as failed
+ */
+export const MAX_OCR_ATTEMPTS = 3;
+
+/**
+ * Max stored text per screenshot (characters)
+ */
+export const MAX_OCR_TEXT_LENGTH = 20000;
+
+/**
+ * Longest edge passed to Tesseract - larger images are downscaled to bound time and memory
+ */
+const MAX_OCR_DIMENSION = 4000;
+
+/**
+ * Where Tesseract loads language data (eng.traineddata.gz) from
+ * Required instead of falling back to the tesseract.js CDN, so OCR never fetches model data
+ * from a third party at run time
+ *
+ * @returns Directory or URL from OCR_LANG_PATH
+ * @throws Error if OCR_LANG_PATH is not set
+ */
+export const getOcrLangPath = (): string => {
+  if (!process.env.OCR_LANG_PATH) {
+    throw new Error('Missing OCR_LANG_PATH environment variable');
+  }
+
+  return process.env.OCR_LANG_PATH;
+};
+
+/**
+ * Create a Tesseract worker
+ * Language data is cached in the temp directory
+ * Call worker.terminate() when done
+ *
+ * @param langPath - Language data location (default: OCR_LANG_PATH)
+ */
+export const createOcrWorker = (langPath: string = getOcrLangPath()): Promise<Worker> =>
+  createWorker(OCR_LANGUAGE, undefined, {
+    cachePath: tmpdir(),
+    langPath,
+  });
+
+/**
+ * Prepare an image for OCR
+ * Applies EXIF orientation, uses the first frame of animations, bounds the size and converts to grayscale
+ *
+ * @param buffer - Original image
+ * @returns PNG buffer
+ */
+export const prepareImageForOcr = (buffer: Buffer): Promise<Buffer> =>
+  sharp(buffer, { pages: 1 })
+    .rotate()
+    .resize({
+      width: MAX_OCR_DIMENSION,
+      height: MAX_OCR_DIMENSION,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .grayscale()
+    .toColourspace('b-w')
+    .png()
+    .toBuffer();
+
+/**
+ * Normalize recognized text for storage and indexing
+ * Collapses runs of spaces and blank lines and caps the length
+ *
+ * @param text - Raw Tesseract output
+ * @returns Normalized text (empty string if nothing was recognized)
+ */
+export const normalizeOcrText = (text: string): string =>
+  text
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .slice(0, MAX_OCR_TEXT_LENGTH);
+
+/**
+ * Extract text from an image
+ *
+ * @param worker - Worker from createOcrWorker (reused across images)
+ * @param buffer - Image file contents
+ * @returns Normalized text
+ *
+ * @example
+ * const worker = await createOcrWorker();
+ * try {
+ *   const text = await extractText(worker, await downloadFile(storagePath));
+ * } finally {
+ *   await worker.terminate();
+ * }
+ */
+export const extractText = async (worker: Worker, buffer: Buffer): Promise<string> => {
+  const { data } = await worker.recognize(await prepareImageForOcr(buffer));
+
+  return normalizeOcrText(data.text);
+};
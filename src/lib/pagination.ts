@@ -0,0 +1,118 @@
+/**
+ * Keyset (cursor) pagination for screenshot listings
+ * Cursors are opaque to clients: base64url-encoded JSON holding the sort and the last row's position
+ */
+
+import { ValidationError } from './errors';
+import type { SCREENSHOT_SORT_OPTIONS } from './validation';
+import type { Database } from '@/types/database';
+
+type ScreenshotRow = Database['public']['Tables']['screenshots']['Row'];
+
+export type ScreenshotSort = (typeof SCREENSHOT_SORT_OPTIONS)[number];
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Column behind each sort option (id breaks ties so the order is total)
+ */
+export const SCREENSHOT_SORT_COLUMNS = {
+  created_at: 'created_at',
+  views: 'views',
+  file_size: 'file_size',
+  filename: 'original_filename',
+} as const satisfies Record<ScreenshotSort, keyof ScreenshotRow>;
+
+/**
+ * Position of the last row on a page
+ */
+export interface ScreenshotCursor {
+  sort: ScreenshotSort;
+  order: SortOrder;
+  value: string | number;
+  id: string;
+}
+
+/**
+ * Build the cursor pointing after a row
+ *
+ * @param screenshot - Last row of the current page
+ * @param sort - Sort option of the listing
+ * @param order - Sort direction of the listing
+ * @returns Opaque cursor string
+ */
+export const encodeCursor = (
+  screenshot: ScreenshotRow,
+  sort: ScreenshotSort,
+  order: SortOrder
+): string => {
+  const cursor: ScreenshotCursor = {
+    sort,
+    order,
+    value: screenshot[SCREENSHOT_SORT_COLUMNS[sort]],
+    id: screenshot.id,
+  };
+
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+/**
+ * Decode a cursor from the query string
+ * The sort and order must match the request - a cursor only makes sense in the listing that issued it
+ *
+ * @param value - Cursor from a previous response
+ * @param sort - Requested sort option
+ * @param order - Requested sort direction
+ * @returns Decoded cursor
+ * @throws ValidationError if the cursor is malformed or was issued for a different sort
+ */
+export const decodeCursor = (value: string, sort: ScreenshotSort, order: SortOrder): ScreenshotCursor => {
+  let cursor: Partial<ScreenshotCursor>;
+
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  if (
+    !cursor ||
+    typeof cursor.id !== 'string' ||
+    (typeof cursor.value !== 'string' && typeof cursor.value !== 'number')
+  ) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  if (cursor.sort !== sort || cursor.order !== order) {
+    throw new ValidationError('Cursor was issued for a different sort order', {
+      cursor_sort: cursor.sort,
+      cursor_order: cursor.order,
+    });
+  }
+
+  return cursor as ScreenshotCursor;
+};
+
+/**
+ * Quote a value for a PostgREST filter (filenames may contain commas or parentheses)
+ */
+const quoteFilterValue = (value: string | number): string =>
+  typeof value === 'number' ? String(value) : `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * PostgREST or() filter selecting the rows after a cursor
+ * (sort column past the cursor value, or equal to it with a later id)
+ *
+ * @param cursor - Decoded cursor
+ * @returns Filter for query.or()
+ *
+ * @example
+ * query = query.or(getKeysetFilter(decodeCursor(validated.cursor, validated.sort, validated.order)));
+ */
+export const getKeysetFilter = (cursor: ScreenshotCursor): string => {
+  const column = SCREENSHOT_SORT_COLUMNS[cursor.sort];
+  const operator = cursor.order === 'asc' ? 'gt' : 'lt';
+  const value = quoteFilterValue(cursor.value);
+
+  return `${column}.${operator}.${value},and(${column}.eq.${value},id.${operator}.${quoteFilterValue(cursor.id)})`;
+};
@@ -0,0 +1,119 @@
+/**
+ * Team role permissions
+ * What each team role can do. The database mirrors this matrix in team_role_has_permission()
+ * (supabase/migrations/20251103000014_add_team_roles.sql) so the user client can't bypass it;
+ * change both together
+ */
+
+import { ForbiddenError } from './errors';
+import { getTeamRole, type TeamRole } from './teams';
+import type { AuthContext } from './auth';
+
+export type TeamPermission =
+  | 'screenshots:share' // share own screenshots into the team library
+  | 'screenshots:visibility' // make other members' screenshots public or private
+  | 'screenshots:delete' // move other members' screenshots to their trash
+  | 'members:invite'
+  | 'members:manage' // change roles and remove members
+  | 'billing:manage';
+
+export const TEAM_ROLE_PERMISSIONS: Record<TeamRole, readonly TeamPermission[]> = {
+  owner: [
+    'screenshots:share',
+    'screenshots:visibility',
+    'screenshots:delete',
+    'members:invite',
+    'members:manage',
+    'billing:manage',
+  ],
+  admin: [
+    'screenshots:share',
+    'screenshots:visibility',
+    'screenshots:delete',
+    'members:invite',
+    'members:manage',
+    'billing:manage',
+  ],
+  member: ['screenshots:share'],
+  viewer: [],
+};
+
+/**
+ * Members can only invite, promote, demote or remove roles ranked below their own
+ */
+const TEAM_ROLE_RANK: Record<TeamRole, number> = {
+  owner: 3,
+  admin: 2,
+  member: 1,
+  viewer: 0,
+};
+
+/**
+ * What a denied permission would have allowed (used as the 403 reason)
+ */
+const PERMISSION_DESCRIPTIONS: Record<TeamPermission, string> = {
+  'screenshots:share': 'share screenshots with this team',
+  'screenshots:visibility': "change the visibility of other members' screenshots",
+  'screenshots:delete': "delete other members' screenshots",
+  'members:invite': 'invite members',
+  'members:manage': 'manage members',
+  'billing:manage': "manage this team's billing",
+};
+
+/**
+ * Check whether a role grants a permission
+ *
+ * @param role - Team role
+ * @param permission - Permission to check
+ * @returns True if the role has the permission
+ */
+export const hasTeamPermission = (role: TeamRole, permission: TeamPermission): boolean =>
+  TEAM_ROLE_PERMISSIONS[role].includes(permission);
+
+/**
+ * Require a permission
+ *
+ * @param role - Team role
+ * @param permission - Permission to require
+ * @throws ForbiddenError with the reason if the role lacks the permission
+ */
+export const assertTeamPermission = (role: TeamRole, permission: TeamPermission): void => {
+  if (!hasTeamPermission(role, permission)) {
+    throw new ForbiddenError(`Team ${role}s cannot ${PERMISSION_DESCRIPTIONS[permission]}`);
+  }
+};
+
+/**
+ * Look up the caller's role in a team and require a permission
+ *
+ * @param supabase - Caller's Supabase client
+ * @param teamId - Team ID
+ * @param userId - Caller
+ * @param permission - Permission to require
+ * @returns Caller's role
+ * @throws NotFoundError if the caller isn't a member
+ * @throws ForbiddenError if their role lacks the permission
+ */
+export const requireTeamPermission = async (
+  supabase: AuthContext['supabase'],
+  teamId: string,
+  userId: string,
+  permission: TeamPermission
+): Promise<TeamRole> => {
+  const role = await getTeamRole(supabase, teamId, userId);
+  assertTeamPermission(role, permission);
+  return role;
+};
+
+/**
+ * Require that a role ranks above another (to invite with, assign, or act on it)
+ *
+ * @param role - Acting member's role
+ * @param targetRole - Role being invited, assigned, changed or removed
+ * @throws ForbiddenError if targetRole isn't ranked below role
+ */
+export const assertCanManageTeamRole = (role: TeamRole, targetRole: TeamRole): void => {
+  if (TEAM_ROLE_RANK[targetRole] >= TEAM_ROLE_RANK[role]) {
+    throw new ForbiddenError(`Team ${role}s cannot manage ${targetRole}s`);
+  }
+};
@@ -0,0 +1,136 @@
+/**
+ * Plan entitlements
+ * The single definition of what each plan includes. Routes read limits from here instead of
+ * hard-coding them, and GET /api/plans exposes the same data to the pricing page.
+ */
+
+import type { Database } from '@/types/database';
+import type { PlanResponse } from '@/types/api';
+
+type Plan = Database['public']['Tables']['profiles']['Row']['plan'];
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+/**
+ * What a plan includes (null = unlimited)
+ */
+export type PlanEntitlements = {
+  /** Display name */
+  name: string;
+  /** Monthly price in USD (team: per seat) */
+  priceMonthly: number;
+  /** Uploads per calendar month */
+  uploadsPerMonth: number | null;
+  /** Largest single upload in bytes */
+  maxFileSize: number;
+  /** Total bytes stored across all screenshots */
+  storageQuota: number | null;
+  /** Days a screenshot can be kept after upload */
+  retentionDays: number | null;
+  /** Bytes served per calendar month (reported in usage, not enforced) */
+  bandwidthPerMonth: number | null;
+  /** Largest zip archive of originals in bytes (POST /api/screenshots/archive) */
+  maxArchiveBytes: number;
+  features: {
+    /** Password-protected share links */
+    passwordLinks: boolean;
+    /** Share links on your own domain (not launched yet) */
+    customDomains: boolean;
+    /** Creating team workspaces */
+    teams: boolean;
+  };
+};
+
+/**
+ * Entitlements per plan
+ */
+export const PLANS: Record<Plan, PlanEntitlements> = {
+  free: {
+    name: 'Free',
+    priceMonthly: 0,
+    uploadsPerMonth: 10,
+    maxFileSize: 10 * MB,
+    storageQuota: 1 * GB,
+    retentionDays: 30,
+    bandwidthPerMonth: 5 * GB,
+    maxArchiveBytes: 100 * MB,
+    features: { passwordLinks: true, customDomains: false, teams: false },
+  },
+  pro: {
+    name: 'Pro',
+    priceMonthly: 9,
+    uploadsPerMonth: null,
+    maxFileSize: 25 * MB,
+    storageQuota: 50 * GB,
+    retentionDays: null,
+    bandwidthPerMonth: 100 * GB,
+    maxArchiveBytes: 1 * GB,
+    features: { passwordLinks: true, customDomains: false, teams: false },
+  },
+  team: {
+    name: 'Team',
+    priceMonthly: 12,
+    uploadsPerMonth: null,
+    maxFileSize: 50 * MB,
+    storageQuota: 200 * GB,
+    retentionDays: null,
+    bandwidthPerMonth: 500 * GB,
+    maxArchiveBytes: 2 * GB,
+    features: { passwordLinks: true, customDomains: false, teams: true },
+  },
+};
+
+/**
+ * Plans in pricing order
+ */
+export const PLAN_ORDER: Plan[] = ['free', 'pro', 'team'];
+
+/**
+ * Largest upload any plan allows (request schemas cap file_size at this; routes apply the plan's own limit)
+ */
+export const MAX_UPLOAD_FILE_SIZE = Math.max(...PLAN_ORDER.map((plan) => PLANS[plan].maxFileSize));
+
+/**
+ * Look up a plan's entitlements
+ *
+ * @param plan - User plan
+ * @returns Plan entitlements
+ */
+export const getEntitlements = (plan: Plan): PlanEntitlements => PLANS[plan];
+
+/**
+ * Upgrade call to action shown when a free limit is close or reached
+ *
+ * @returns e.g. "Upgrade to Pro - $9/month"
+ */
+export const getUpgradeCta = (): string =>
+  `Upgrade to ${PLANS.pro.name} - $${PLANS.pro.priceMonthly}/month`;
+
+/**
+ * Map a plan to the public API response shape
+ *
+ * @param plan - Plan ID
+ * @returns Plan response
+ */
+export const toPlanResponse = (plan: Plan): PlanResponse => {
+  const entitlements = PLANS[plan];
+
+  return {
+    id: plan,
+    name: entitlements.name,
+    price_monthly: entitlements.priceMonthly,
+    billed_per_seat: plan === 'team',
+    uploads_per_month: entitlements.uploadsPerMonth,
+    max_file_size: entitlements.maxFileSize,
+    storage_quota: entitlements.storageQuota,
+    retention_days: entitlements.retentionDays,
+    bandwidth_per_month: entitlements.bandwidthPerMonth,
+    max_archive_bytes: entitlements.maxArchiveBytes,
+    features: {
+      password_links: entitlements.features.passwordLinks,
+      custom_domains: entitlements.features.customDomains,
+      teams: entitlements.features.teams,
+    },
+  };
+};
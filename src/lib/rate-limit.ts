@@ -49,6 +49,57 @@ export const apiRateLimit = redis
     })
   : null;
 
+/**
+ * Rate limiter for share link unlock attempts
+ * Limit: 10 password attempts per minute per link and client
+ */
+export const unlockRateLimit = redis
+  ? new Ratelimit({
+      redis,
+      limiter: Ratelimit.slidingWindow(10, '1 m'),
+      analytics: true,
+      prefix: 'ratelimit:unlock',
+    })
+  : null;
+
+/**
+ * Rate limiter for sign-in and token refresh requests per client IP
+ * Limit: 20 requests per minute per IP
+ */
+export const authRateLimit = redis
+  ? new Ratelimit({
+      redis,
+      limiter: Ratelimit.slidingWindow(20, '1 m'),
+      analytics: true,
+      prefix: 'ratelimit:auth',
+    })
+  : null;
+
+/**
+ * Rate limiter for sign-in attempts per account
+ * Limit: 10 attempts per 15 minutes per email
+ */
+export const loginRateLimit = redis
+  ? new Ratelimit({
+      redis,
+      limiter: Ratelimit.slidingWindow(10, '15 m'),
+      analytics: true,
+      prefix: 'ratelimit:login',
+    })
+  : null;
+
+/**
+ * Best-effort client IP for rate limiting unauthenticated requests
+ * Uses the first x-forwarded-for hop (set by Vercel)
+ *
+ * @param headers - Request headers
+ * @returns Client IP or "unknown"
+ */
+export const getClientIp = (headers: Headers): string =>
+  headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+  headers.get('x-real-ip') ||
+  'unknown';
+
 /**
  * Check rate limit for a user
  * 
@@ -0,0 +1,379 @@
+/**
+ * Shared screenshot helpers
+ * Response mapping for authenticated routes, trash retention and lookups for public share links
+ * (/api/s/[shortId], /s/[shortId], /i/[shortId])
+ */
+
+import { supabaseAdmin } from './supabase';
+import {
+  PROTECTED_SCREENSHOTS_BUCKET,
+  SCREENSHOTS_BUCKET,
+  deleteFiles,
+  generateSignedDownloadUrl,
+  generateSignedDownloadUrls,
+  getPublicUrl,
+  type ImageVariant,
+} from './storage';
+import { isValidShortId } from './short-id';
+import { NotFoundError, GoneError } from './errors';
+import { SHARE_TOKEN_TTL } from './share-access';
+import type { Database } from '@/types/database';
+import type {
+  PublicScreenshotResponse,
+  ScreenshotResponse,
+  TrashedScreenshotResponse,
+} from '@/types/api';
+
+/**
+ * Screenshot database row
+ */
+export type ScreenshotRow = Database['public']['Tables']['screenshots']['Row'];
+
+/**
+ * Screenshot row as loaded for public share links
+ * Extracted text (and the search document built from it) is only readable by the owner and their teams
+ */
+export type PublicScreenshotRow = Omit<ScreenshotRow, 'ocr_text' | 'search_vector'>;
+
+/**
+ * Columns of PublicScreenshotRow
+ */
+const PUBLIC_SCREENSHOT_COLUMNS =
+  'id, user_id, short_id, storage_path, original_filename, file_size, width, height, mime_type, ' +
+  'expires_at, views, is_public, thumbnail_path, variants, password_hash, max_views, collection_id, ' +
+  'team_id, tags, ocr_status, ocr_attempts, ocr_started_at, ocr_completed_at, deleted_at, ' +
+  'created_at, updated_at';
+
+/**
+ * Days a deleted screenshot stays in the trash before the cleanup-expired cron job purges it
+ */
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Lifetime in seconds of the signed image URLs in authenticated responses (private bucket only)
+ */
+const PROTECTED_URL_TTL = 3600;
+
+/**
+ * Public application URL (share links are built on top of it)
+ */
+export const getAppUrl = (): string =>
+  process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+/**
+ * Build the public share URL for a screenshot
+ *
+ * @param shortId - Screenshot short ID
+ * @returns Share URL (e.g., "https://snappd.app/s/abc123")
+ */
+export const getShareUrl = (shortId: string): string => `${getAppUrl()}/s/${shortId}`;
+
+/**
+ * Read generated variants from a screenshot row
+ * Rows created before variant generation (or where it failed) have none
+ */
+export const getImageVariants = (
+  screenshot: Pick<ScreenshotRow, 'variants'>
+): ImageVariant[] =>
+  Array.isArray(screenshot.variants) ? (screenshot.variants as ImageVariant[]) : [];
+
+/**
+ * All storage objects belonging to a screenshot (original, thumbnail, variants)
+ * Use when deleting a screenshot so no derived files are orphaned
+ */
+export const getScreenshotStoragePaths = (
+  screenshot: Pick<ScreenshotRow, 'storage_path' | 'thumbnail_path' | 'variants'>
+): string[] => [
+  screenshot.storage_path,
+  ...(screenshot.thumbnail_path ? [screenshot.thumbnail_path] : []),
+  ...getImageVariants(screenshot).map((variant) => variant.path),
+];
+
+/**
+ * Storage bucket holding a screenshot's files
+ * Password-protected and limited-view screenshots live in the private bucket, so their files
+ * can't be fetched without the share link (or after its last view); everything else is public
+ */
+export const getScreenshotBucket = (
+  screenshot: Pick<ScreenshotRow, 'password_hash' | 'max_views'>
+): string =>
+  screenshot.password_hash || screenshot.max_views !== null
+    ? PROTECTED_SCREENSHOTS_BUCKET
+    : SCREENSHOTS_BUCKET;
+
+/**
+ * Delete all storage objects of the given screenshots from the buckets holding them
+ *
+ * @param screenshots - Screenshots whose files should be removed
+ */
+export const deleteScreenshotFiles = async (
+  screenshots: Array<
+    Pick<
+      ScreenshotRow,
+      'storage_path' | 'thumbnail_path' | 'variants' | 'password_hash' | 'max_views'
+    >
+  >
+): Promise<void> => {
+  await Promise.all(
+    [SCREENSHOTS_BUCKET, PROTECTED_SCREENSHOTS_BUCKET].map((bucket) =>
+      deleteFiles(
+        screenshots
+          .filter((screenshot) => getScreenshotBucket(screenshot) === bucket)
+          .flatMap(getScreenshotStoragePaths),
+        bucket
+      )
+    )
+  );
+};
+
+/**
+ * Image URLs for a screenshot's original, thumbnail and variants
+ * Files in the private bucket get signed URLs, so this needs a storage request for them
+ */
+const getScreenshotUrls = async (
+  screenshot: ScreenshotRow
+): Promise<{ storageUrl: string; thumbnailUrl: string | null; variantUrls: string[] }> => {
+  const bucket = getScreenshotBucket(screenshot);
+  const paths = getScreenshotStoragePaths(screenshot);
+  const urls =
+    bucket === SCREENSHOTS_BUCKET
+      ? paths.map(getPublicUrl)
+      : await generateSignedDownloadUrls(paths, PROTECTED_URL_TTL, bucket);
+
+  const [storageUrl, ...rest] = urls;
+  const thumbnailUrl = screenshot.thumbnail_path ? rest.shift()! : null;
+
+  return { storageUrl, thumbnailUrl, variantUrls: rest };
+};
+
+/**
+ * Map a screenshot row to the authenticated API response shape
+ *
+ * @param screenshot - Screenshot row
+ * @returns Screenshot response
+ */
+export const toScreenshotResponse = async (
+  screenshot: ScreenshotRow
+): Promise<ScreenshotResponse> => {
+  const shareUrl = getShareUrl(screenshot.short_id);
+  const { storageUrl, thumbnailUrl, variantUrls } = await getScreenshotUrls(screenshot);
+
+  return {
+    id: screenshot.id,
+    short_id: screenshot.short_id,
+    original_filename: screenshot.original_filename,
+    file_size: screenshot.file_size,
+    width: screenshot.width,
+    height: screenshot.height,
+    mime_type: screenshot.mime_type,
+    public_url: shareUrl,
+    share_url: shareUrl,
+    storage_url: storageUrl,
+    thumbnail_url: thumbnailUrl,
+    variants: getImageVariants(screenshot).map((variant, index) => ({
+      width: variant.width,
+      height: variant.height,
+      format: variant.format,
+      url: variantUrls[index],
+    })),
+    expires_at: screenshot.expires_at,
+    views: screenshot.views,
+    is_public: screenshot.is_public,
+    password_protected: screenshot.password_hash !== null,
+    max_views: screenshot.max_views,
+    collection_id: screenshot.collection_id,
+    team_id: screenshot.team_id,
+    tags: screenshot.tags,
+    ocr_status: screenshot.ocr_status,
+    created_at: screenshot.created_at,
+    updated_at: screenshot.updated_at,
+  };
+};
+
+/**
+ * When a trashed screenshot becomes eligible for permanent deletion
+ *
+ * @param deletedAt - Time the screenshot was moved to the trash
+ * @returns ISO timestamp
+ */
+export const getTrashPurgeAt = (deletedAt: string): string =>
+  new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+/**
+ * Map a trashed screenshot row to the trash listing response shape
+ *
+ * @param screenshot - Screenshot row with deleted_at set
+ * @returns Trashed screenshot response
+ */
+export const toTrashedScreenshotResponse = async (
+  screenshot: ScreenshotRow & { deleted_at: string }
+): Promise<TrashedScreenshotResponse> => ({
+  ...(await toScreenshotResponse(screenshot)),
+  deleted_at: screenshot.deleted_at,
+  purge_at: getTrashPurgeAt(screenshot.deleted_at),
+});
+
+/**
+ * Look up a publicly shared screenshot by short ID
+ * Applies the same visibility rules everywhere a share link is resolved
+ *
+ * @param shortId - Screenshot short ID from the share URL
+ * @returns Screenshot row
+ * @throws NotFoundError if the ID is malformed, unknown, private or in the trash
+ * @throws GoneError if the screenshot has expired
+ */
+export const getPublicScreenshot = async (shortId: string): Promise<PublicScreenshotRow> => {
+  // 1. Validate short ID format
+  if (!isValidShortId(shortId)) {
+    throw new NotFoundError('Screenshot');
+  }
+
+  // 2. Fetch screenshot by short_id (use admin client for public access, without extracted text)
+  const { data: screenshot, error } = await supabaseAdmin
+    .from('screenshots')
+    .select(PUBLIC_SCREENSHOT_COLUMNS)
+    .eq('short_id', shortId)
+    .single<PublicScreenshotRow>();
+
+  if (error || !screenshot) {
+    throw new NotFoundError('Screenshot');
+  }
+
+  // 3. Check if screenshot is public (trashed screenshots are no longer shared)
+  if (!screenshot.is_public || screenshot.deleted_at) {
+    throw new NotFoundError('Screenshot');
+  }
+
+  // 4. Check if screenshot has expired
+  if (screenshot.expires_at && new Date() > new Date(screenshot.expires_at)) {
+    throw new GoneError('Screenshot has expired');
+  }
+
+  return screenshot;
+};
+
+/**
+ * Record a view of a public screenshot
+ * Atomically increments the view count (enforcing max_views) and tracks bandwidth in monthly_usage
+ * The final allowed view tombstones the screenshot so later lookups throw GoneError
+ * Prefer countScreenshotView in routes - it only blocks on limited-view screenshots
+ *
+ * @param screenshot - Screenshot that was viewed
+ * @param bytes - Bytes served (default: full file size, 0 skips bandwidth tracking)
+ * @returns View count including this view
+ * @throws GoneError if the view limit was already reached
+ */
+export const recordScreenshotView = async (
+  screenshot: Pick<ScreenshotRow, 'id' | 'user_id' | 'file_size'>,
+  bytes: number = screenshot.file_size
+): Promise<number> => {
+  const { data: views, error: viewError } = await supabaseAdmin.rpc('record_screenshot_view', {
+    p_screenshot_id: screenshot.id,
+  });
+
+  if (viewError) {
+    throw new Error(`Failed to increment view count: ${viewError.message}`);
+  }
+
+  // Another request consumed the last view (or the screenshot expired) since the lookup
+  if (views === null) {
+    throw new GoneError('Screenshot has reached its view limit');
+  }
+
+  // Nothing was transferred (e.g. 304 Not Modified)
+  if (bytes <= 0) {
+    return views;
+  }
+
+  // Update bandwidth tracking in monthly_usage
+  const currentMonth = new Date().toISOString().slice(0, 7);
+  const { error: bandwidthError } = await supabaseAdmin.rpc('increment_bandwidth', {
+    p_user_id: screenshot.user_id,
+    p_month: currentMonth,
+    p_bytes: bytes,
+  });
+
+  if (bandwidthError) {
+    throw new Error(`Failed to increment bandwidth: ${bandwidthError.message}`);
+  }
+
+  return views;
+};
+
+/**
+ * Count a view before serving a share link
+ * Limited-view screenshots are counted before anything is returned so the limit can't be exceeded;
+ * other screenshots are counted in the background so the response isn't blocked
+ *
+ * @param screenshot - Screenshot being viewed
+ * @param bytes - Bytes served (default: full file size, 0 skips bandwidth tracking)
+ * @returns View count including this view
+ * @throws GoneError if a limited-view screenshot has no views left
+ *
+ * @example
+ * const views = await countScreenshotView(screenshot);
+ */
+export const countScreenshotView = async (
+  screenshot: Pick<ScreenshotRow, 'id' | 'user_id' | 'views' | 'file_size' | 'max_views'>,
+  bytes: number = screenshot.file_size
+): Promise<number> => {
+  if (screenshot.max_views !== null) {
+    return recordScreenshotView(screenshot, bytes);
+  }
+
+  recordScreenshotView(screenshot, bytes).catch((err) => {
+    console.error('Failed to increment view count:', err);
+  });
+
+  return screenshot.views + 1;
+};
+
+/**
+ * Image URL handed to share link viewers
+ * Password-protected and limited-view screenshots get a short-lived signed URL
+ * instead of the permanent public one
+ *
+ * @param screenshot - Screenshot row
+ * @returns Storage URL for the viewer
+ */
+export const getViewerStorageUrl = async (
+  screenshot: Pick<ScreenshotRow, 'storage_path' | 'password_hash' | 'max_views'>
+): Promise<string> =>
+  getScreenshotBucket(screenshot) === PROTECTED_SCREENSHOTS_BUCKET
+    ? generateSignedDownloadUrl(
+        screenshot.storage_path,
+        SHARE_TOKEN_TTL,
+        PROTECTED_SCREENSHOTS_BUCKET
+      )
+    : getPublicUrl(screenshot.storage_path);
+
+/**
+ * Build the public response for a screenshot share link
+ * Includes SEO metadata for Open Graph / Twitter Card previews
+ *
+ * @param screenshot - Screenshot row
+ * @param views - View count to report (usually including the current view)
+ * @param storageUrl - Image URL to expose (default: public storage URL, see getViewerStorageUrl)
+ * @returns Public screenshot response
+ */
+export const toPublicScreenshotResponse = (
+  screenshot: PublicScreenshotRow,
+  views: number = screenshot.views,
+  storageUrl: string = getPublicUrl(screenshot.storage_path)
+): PublicScreenshotResponse => {
+  return {
+    short_id: screenshot.short_id,
+    original_filename: screenshot.original_filename,
+    width: screenshot.width,
+    height: screenshot.height,
+    storage_url: storageUrl,
+    views,
+    max_views: screenshot.max_views,
+    created_at: screenshot.created_at,
+    seo_metadata: {
+      title: `Screenshot - ${screenshot.original_filename}`,
+      description: 'Shared via snappd',
+      image: storageUrl,
+    },
+  };
+};
@@ -0,0 +1,108 @@
+/**
+ * Team plan seats
+ * The owner's team subscription is billed per seat (the Stripe quantity, mirrored in
+ * profiles.team_seats by the billing webhook). Seats in use are the owner, every distinct
+ * member across the owner's teams and every pending invite, so invites fail once seats
+ * run out and membership changes adjust the quantity with proration.
+ */
+
+import { supabaseAdmin } from './supabase';
+import { updateSubscriptionSeats } from './stripe';
+import { NotFoundError, SeatLimitError } from './errors';
+
+/**
+ * Count the seats an owner's teams use
+ *
+ * @param ownerId - Team owner's user ID
+ * @returns Seats in use (at least 1: the owner)
+ */
+export const countTeamSeatsUsed = async (ownerId: string): Promise<number> => {
+  const { data, error } = await supabaseAdmin.rpc('count_team_seats_used', {
+    p_owner_id: ownerId,
+  });
+
+  if (error || data === null) {
+    throw new Error(`Failed to count team seats: ${error?.message}`);
+  }
+
+  return data;
+};
+
+/**
+ * Fetch the billing side of a team: its owner's plan, seats and subscription
+ * (service role: RLS only shows a user their own profile)
+ */
+const getTeamBilling = async (teamId: string) => {
+  const { data: team } = await supabaseAdmin
+    .from('teams')
+    .select('owner_id')
+    .eq('id', teamId)
+    .single();
+
+  if (!team) {
+    throw new NotFoundError('Team');
+  }
+
+  const { data: owner } = await supabaseAdmin
+    .from('profiles')
+    .select('id, plan, team_seats, stripe_subscription_id')
+    .eq('id', team.owner_id)
+    .single();
+
+  if (!owner) {
+    throw new NotFoundError('Team');
+  }
+
+  return owner;
+};
+
+/**
+ * Check the team owner has a free seat for another invite
+ *
+ * @param teamId - Team being invited to
+ * @throws SeatLimitError if every paid seat is in use (or the owner is no longer on the team plan)
+ */
+export const assertTeamSeatAvailable = async (teamId: string): Promise<void> => {
+  const owner = await getTeamBilling(teamId);
+  const seats = owner.plan === 'team' ? (owner.team_seats ?? 0) : 0;
+  const seatsUsed = await countTeamSeatsUsed(owner.id);
+
+  if (seatsUsed >= seats) {
+    throw new SeatLimitError(seats, seatsUsed);
+  }
+};
+
+/**
+ * Update the subscription quantity after someone joins or leaves a team
+ * Joining only buys a seat when none was free; leaving releases one seat.
+ * The membership change has already happened, so Stripe failures are logged
+ * rather than thrown (the owner can still adjust seats in the billing portal).
+ *
+ * @param teamId - Team whose membership changed
+ * @param change - Whether a member was added or removed
+ */
+export const syncTeamSeats = async (
+  teamId: string,
+  change: 'added' | 'removed'
+): Promise<void> => {
+  try {
+    const owner = await getTeamBilling(teamId);
+
+    if (owner.plan !== 'team' || !owner.stripe_subscription_id || owner.team_seats === null) {
+      return;
+    }
+
+    const seatsUsed = await countTeamSeatsUsed(owner.id);
+    const seats =
+      change === 'added'
+        ? Math.max(owner.team_seats, seatsUsed)
+        : Math.max(owner.team_seats - 1, seatsUsed);
+
+    if (seats === owner.team_seats) return;
+
+    await updateSubscriptionSeats(owner.stripe_subscription_id, seats);
+    await supabaseAdmin.from('profiles').update({ team_seats: seats }).eq('id', owner.id);
+  } catch (error) {
+    console.error(`Failed to sync seats for team ${teamId}:`, error);
+  }
+};
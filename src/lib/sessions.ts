@@ -0,0 +1,52 @@
+/**
+ * Supabase Auth sessions for the signup, login, refresh and logout endpoints
+ * Sessions are created with the anon key, exactly as a client-side sign-in would be
+ */
+
+import { createClient, type Session, type User } from '@supabase/supabase-js';
+import type { AuthSessionResponse } from '@/types/api';
+
+/**
+ * Create a Supabase client for session operations (sign-in, token refresh)
+ * The session is returned to the caller, never stored or refreshed on the server
+ *
+ * @returns Anon-key Supabase client
+ */
+export const createAuthClient = () => {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+    throw new Error('Missing NEXT_PUBLIC_SUPABASE_ANON_KEY environment variable');
+  }
+
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+};
+
+/**
+ * Map a Supabase session to the auth session response shape
+ *
+ * @param user - Signed-in user
+ * @param session - Session issued by Supabase Auth
+ * @returns Auth session response
+ */
+export const toAuthSessionResponse = (
+  user: Pick<User, 'id' | 'email'>,
+  session: Pick<Session, 'access_token' | 'refresh_token' | 'expires_in'>
+): AuthSessionResponse => ({
+  user: {
+    id: user.id,
+    email: user.email!,
+  },
+  session: {
+    access_token: session.access_token,
+    refresh_token: session.refresh_token,
+    expires_in: session.expires_in || 3600,
+  },
+});
@@ -0,0 +1,153 @@
+/**
+ * Password protection for share links
+ * Hashes share passwords and issues short-lived unlock tokens
+ */
+
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { PasswordRequiredError } from './errors';
+import type { Database } from '@/types/database';
+
+type ProtectedScreenshot = Pick<
+  Database['public']['Tables']['screenshots']['Row'],
+  'id' | 'password_hash'
+>;
+
+/**
+ * Unlock token lifetime in seconds (also used for the signed image URL)
+ */
+export const SHARE_TOKEN_TTL = 600;
+
+/**
+ * scrypt derived key length in bytes
+ */
+const KEY_LENGTH = 64;
+
+/**
+ * Derive an scrypt key (promisified manually so the overload types stay intact)
+ */
+const deriveKey = (password: string, salt: Buffer, keyLength: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+
+/**
+ * Secret used to sign unlock tokens
+ */
+const getTokenSecret = (): string => {
+  const secret = process.env.SHARE_TOKEN_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!secret) {
+    throw new Error('SHARE_TOKEN_SECRET is not configured');
+  }
+
+  return secret;
+};
+
+/**
+ * Hash a share link password for storage
+ *
+ * @param password - Plain text password
+ * @returns Hash in the form "scrypt$<salt>$<key>" (base64)
+ */
+export const hashSharePassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, KEY_LENGTH);
+
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+};
+
+/**
+ * Check a password against a stored share link hash
+ *
+ * @param password - Password entered by the viewer
+ * @param passwordHash - Stored hash from hashSharePassword
+ * @returns true if the password matches
+ */
+export const verifySharePassword = async (
+  password: string,
+  passwordHash: string
+): Promise<boolean> => {
+  const [scheme, salt, key] = passwordHash.split('$');
+
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+
+  const expected = Buffer.from(key, 'base64');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64'), expected.length);
+
+  return timingSafeEqual(actual, expected);
+};
+
+/**
+ * Sign a screenshot/expiry pair
+ * The password hash is part of the payload so changing the password revokes old tokens
+ */
+const signToken = (screenshot: ProtectedScreenshot, expiresAt: number): string =>
+  createHmac('sha256', getTokenSecret())
+    .update(`${screenshot.id}:${screenshot.password_hash}:${expiresAt}`)
+    .digest('base64url');
+
+/**
+ * Issue an unlock token for a password-protected screenshot
+ *
+ * @param screenshot - Screenshot that was unlocked
+ * @param expiresIn - Token lifetime in seconds (default: SHARE_TOKEN_TTL)
+ * @returns Token in the form "<expires_at>.<signature>"
+ */
+export const createShareAccessToken = (
+  screenshot: ProtectedScreenshot,
+  expiresIn = SHARE_TOKEN_TTL
+): string => {
+  const expiresAt = Math.floor(Date.now() / 1000) + expiresIn;
+
+  return `${expiresAt}.${signToken(screenshot, expiresAt)}`;
+};
+
+/**
+ * Verify an unlock token for a screenshot
+ *
+ * @param screenshot - Screenshot being viewed
+ * @param token - Token from createShareAccessToken
+ * @returns true if the token was issued for this screenshot and has not expired
+ */
+export const verifyShareAccessToken = (
+  screenshot: ProtectedScreenshot,
+  token: string
+): boolean => {
+  const [expiresAtPart, signature] = token.split('.');
+  const expiresAt = Number(expiresAtPart);
+
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) {
+    return false;
+  }
+
+  const provided = Buffer.from(signature);
+  const expected = Buffer.from(signToken(screenshot, expiresAt));
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
+
+/**
+ * Require a valid unlock token for password-protected screenshots
+ * Unprotected screenshots always pass
+ *
+ * @param screenshot - Screenshot being viewed
+ * @param token - Unlock token from the request (e.g. ?token=)
+ * @returns true if the screenshot is password protected (and the token is valid)
+ * @throws PasswordRequiredError if the screenshot is protected and the token is missing or invalid
+ */
+export const assertShareAccess = (
+  screenshot: ProtectedScreenshot,
+  token: string | null | undefined
+): boolean => {
+  if (!screenshot.password_hash) {
+    return false;
+  }
+
+  if (!token || !verifyShareAccessToken(screenshot, token)) {
+    throw new PasswordRequiredError();
+  }
+
+  return true;
+};
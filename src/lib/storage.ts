@@ -22,6 +22,75 @@ const FILE_SIGNATURES: Record<string, number[]> = {
  */
 export const SCREENSHOTS_BUCKET = 'screenshots';
 
+/**
+ * Private bucket for password-protected and limited-view screenshots (served through signed URLs only)
+ */
+export const PROTECTED_SCREENSHOTS_BUCKET = 'protected-screenshots';
+
+/**
+ * Private bucket for GDPR data export archives
+ */
+export const EXPORTS_BUCKET = 'exports';
+
+/**
+ * Chunk size for resumable uploads (Supabase Storage expects 6MB chunks; only the last may be smaller)
+ */
+export const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024;
+
+/**
+ * Tries per chunk before a resumable upload gives up
+ */
+const RESUMABLE_UPLOAD_ATTEMPTS = 3;
+
+/**
+ * Thumbnail dimensions in pixels (dashboard grid tiles, 4:3)
+ */
+export const THUMBNAIL_WIDTH = 320;
+export const THUMBNAIL_HEIGHT = 240;
+
+/**
+ * Responsive variant widths in pixels
+ * Widths at or above the original width are skipped (never upscale)
+ */
+export const VARIANT_WIDTHS = [640, 1280] as const;
+
+/**
+ * Responsive variant output formats
+ */
+export const VARIANT_FORMATS = ['webp', 'avif'] as const;
+
+export type ImageVariantFormat = (typeof VARIANT_FORMATS)[number];
+
+/**
+ * Generated image variant (persisted in screenshots.variants)
+ */
+export type ImageVariant = {
+  width: number;
+  height: number;
+  format: ImageVariantFormat;
+  path: string;
+  size: number;
+};
+
+/**
+ * Content types for generated variant formats
+ */
+const VARIANT_MIME_TYPES: Record<ImageVariantFormat, string> = {
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+/**
+ * Metadata blocks that sanitizeImage can remove
+ * gps is reported separately because it is the most sensitive part of EXIF
+ */
+export type ImageMetadataKind = 'exif' | 'gps' | 'xmp' | 'iptc';
+
+/**
+ * EXIF tag pointing at the GPS IFD
+ */
+const EXIF_GPS_IFD_TAG = 0x8825;
+
 /**
  * Validate MIME type against allowed list
  * 
@@ -125,6 +194,7 @@ export const optimizeImage = async (buffer: Buffer): Promise<Buffer> => {
 
 /**
  * Get image dimensions from buffer
+ * Reports displayed dimensions, so EXIF orientations 5-8 (90° rotations) swap width and height
  * 
  * @param buffer - Image buffer
  * @returns { width: number, height: number }
@@ -138,12 +208,160 @@ export const getImageDimensions = async (
     throw new Error('Failed to extract image dimensions');
   }
   
+  const rotated = (metadata.orientation ?? 1) >= 5;
+
   return {
-    width: metadata.width,
-    height: metadata.height,
+    width: rotated ? metadata.height : metadata.width,
+    height: rotated ? metadata.width : metadata.height,
   };
 };
 
+/**
+ * Check whether an EXIF block contains a GPS IFD pointer
+ *
+ * @param exif - Raw EXIF block as returned by sharp ("Exif\0\0" + TIFF structure)
+ * @returns true if IFD0 references GPS data
+ */
+const hasGpsData = (exif: Buffer): boolean => {
+  const tiff = exif.subarray(0, 6).toString('latin1') === 'Exif\0\0' ? exif.subarray(6) : exif;
+
+  if (tiff.length < 8) {
+    return false;
+  }
+
+  const byteOrder = tiff.toString('latin1', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    return false;
+  }
+
+  const littleEndian = byteOrder === 'II';
+  const readUInt16 = (offset: number) =>
+    littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+  const readUInt32 = (offset: number) =>
+    littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+
+  const ifdOffset = readUInt32(4);
+  if (ifdOffset + 2 > tiff.length) {
+    return false;
+  }
+
+  const entryCount = readUInt16(ifdOffset);
+  for (let i = 0; i < entryCount; i++) {
+    const entryOffset = ifdOffset + 2 + i * 12;
+    if (entryOffset + 2 > tiff.length) {
+      return false;
+    }
+    if (readUInt16(entryOffset) === EXIF_GPS_IFD_TAG) {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Strip EXIF (including GPS), XMP and IPTC metadata from an image
+ * EXIF orientation is applied to the pixels first so the image still displays upright;
+ * the ICC profile is kept so colours don't shift
+ * Images without such metadata, GIFs and animated images are returned unchanged
+ *
+ * @param buffer - Original image buffer
+ * @returns Sanitized buffer and the metadata kinds that were removed
+ */
+export const sanitizeImage = async (
+  buffer: Buffer
+): Promise<{ buffer: Buffer; removed: ImageMetadataKind[] }> => {
+  const metadata = await sharp(buffer).metadata();
+
+  if (metadata.format === 'gif' || (metadata.pages ?? 1) > 1) {
+    return { buffer, removed: [] };
+  }
+
+  const removed: ImageMetadataKind[] = [];
+  if (metadata.exif) {
+    removed.push('exif');
+    if (hasGpsData(metadata.exif)) {
+      removed.push('gps');
+    }
+  }
+  if (metadata.xmp) removed.push('xmp');
+  if (metadata.iptc) removed.push('iptc');
+
+  if (removed.length === 0) {
+    return { buffer, removed };
+  }
+
+  // Re-encode in the original format (sharp drops metadata unless told to keep it)
+  const pipeline = sharp(buffer).rotate().keepIccProfile();
+  const sanitized = await (metadata.format === 'jpeg'
+    ? pipeline.jpeg({ quality: 92, mozjpeg: true })
+    : metadata.format === 'webp'
+      ? pipeline.webp({ quality: 92 })
+      : pipeline.png()
+  ).toBuffer();
+
+  return { buffer: sanitized, removed };
+};
+
+/**
+ * Generate thumbnail and width-bounded WebP/AVIF variants for an uploaded image
+ * Uploads each output next to the original: {base}_thumb.webp, {base}_w640.avif, ...
+ *
+ * @param storagePath - Storage path of the original image
+ * @param buffer - Original image buffer
+ * @param bucket - Storage bucket holding the original (default: screenshots)
+ * @returns Thumbnail path and generated variants
+ */
+export const generateImageVariants = async (
+  storagePath: string,
+  buffer: Buffer,
+  bucket = SCREENSHOTS_BUCKET
+): Promise<{ thumbnailPath: string; variants: ImageVariant[] }> => {
+  const { width: originalWidth } = await getImageDimensions(buffer);
+  const basePath = storagePath.replace(/\.[^./]+$/, '');
+
+  // 1. Thumbnail - crop tall screenshots from the top so tiles show the header
+  const thumbnail = await sharp(buffer)
+    .resize({
+      width: THUMBNAIL_WIDTH,
+      height: THUMBNAIL_HEIGHT,
+      fit: 'cover',
+      position: 'top',
+      withoutEnlargement: true,
+    })
+    .webp({ quality: 75 })
+    .toBuffer();
+
+  const thumbnailPath = `${basePath}_thumb.webp`;
+  await uploadFile(thumbnailPath, thumbnail, 'image/webp', false, bucket);
+
+  // 2. Responsive variants (only widths smaller than the original)
+  const variants: ImageVariant[] = [];
+
+  for (const width of VARIANT_WIDTHS.filter((w) => w < originalWidth)) {
+    for (const format of VARIANT_FORMATS) {
+      const resized = sharp(buffer).resize({ width });
+      const { data, info } = await (format === 'avif'
+        ? resized.avif({ quality: 50, effort: 2 })
+        : resized.webp({ quality: 80 })
+      ).toBuffer({ resolveWithObject: true });
+
+      const path = `${basePath}_w${width}.${format}`;
+      await uploadFile(path, data, VARIANT_MIME_TYPES[format], false, bucket);
+
+      variants.push({
+        width: info.width,
+        height: info.height,
+        format,
+        path,
+        size: info.size,
+      });
+    }
+  }
+
+  return { thumbnailPath, variants };
+};
+
 /**
  * Generate signed upload URL for Supabase Storage
  * Allows direct browser upload without proxying through API
@@ -174,14 +392,16 @@ export const generateSignedUploadUrl = async (
  * 
  * @param storagePath - Full storage path
  * @param expiresIn - URL expiration time in seconds (default: 3600 = 1 hour)
+ * @param bucket - Storage bucket (default: screenshots)
  * @returns Signed download URL
  */
 export const generateSignedDownloadUrl = async (
   storagePath: string,
-  expiresIn = 3600
+  expiresIn = 3600,
+  bucket = SCREENSHOTS_BUCKET
 ): Promise<string> => {
   const { data, error } = await supabaseAdmin.storage
-    .from(SCREENSHOTS_BUCKET)
+    .from(bucket)
     .createSignedUrl(storagePath, expiresIn);
   
   if (error || !data?.signedUrl) {
@@ -191,6 +411,34 @@ export const generateSignedDownloadUrl = async (
   return data.signedUrl;
 };
 
+/**
+ * Generate signed download URLs for several private files in one request
+ *
+ * @param storagePaths - Full storage paths
+ * @param expiresIn - URL expiration time in seconds
+ * @param bucket - Storage bucket (default: screenshots)
+ * @returns Signed download URLs, in the order of storagePaths
+ */
+export const generateSignedDownloadUrls = async (
+  storagePaths: string[],
+  expiresIn: number,
+  bucket = SCREENSHOTS_BUCKET
+): Promise<string[]> => {
+  if (storagePaths.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseAdmin.storage
+    .from(bucket)
+    .createSignedUrls(storagePaths, expiresIn);
+
+  if (error || !data || data.some((file) => !file.signedUrl)) {
+    throw new Error(`Failed to generate signed download URLs: ${error?.message}`);
+  }
+
+  return data.map((file) => file.signedUrl);
+};
+
 /**
  * Get public URL for a file in Supabase Storage
  * 
@@ -205,14 +453,185 @@ export const getPublicUrl = (storagePath: string): string => {
   return data.publicUrl;
 };
 
+/**
+ * Upload file contents to Supabase Storage
+ *
+ * @param storagePath - Full storage path
+ * @param buffer - File contents
+ * @param contentType - MIME type stored with the object
+ * @param upsert - Overwrite an existing object (default: false)
+ * @param bucket - Storage bucket (default: screenshots)
+ */
+export const uploadFile = async (
+  storagePath: string,
+  buffer: Buffer,
+  contentType: string,
+  upsert = false,
+  bucket = SCREENSHOTS_BUCKET
+): Promise<void> => {
+  const { error } = await supabaseAdmin.storage
+    .from(bucket)
+    .upload(storagePath, buffer, {
+      contentType,
+      upsert,
+    });
+
+  if (error) {
+    throw new Error(`Failed to upload file: ${error.message}`);
+  }
+};
+
+/**
+ * Stream file contents to Supabase Storage through the resumable (TUS) upload endpoint
+ * Only one chunk is held in memory; the total size is sent with the last chunk, so the
+ * stream's length doesn't need to be known up front. A failed chunk is resumed from the
+ * offset the server reports
+ *
+ * @param storagePath - Full storage path
+ * @param stream - File contents
+ * @param contentType - MIME type stored with the object
+ * @param upsert - Overwrite an existing object (default: false)
+ * @param bucket - Storage bucket (default: screenshots)
+ * @returns Number of bytes uploaded
+ */
+export const uploadFileStream = async (
+  storagePath: string,
+  stream: ReadableStream<Uint8Array>,
+  contentType: string,
+  upsert = false,
+  bucket = SCREENSHOTS_BUCKET
+): Promise<number> => {
+  const headers = {
+    Authorization: `Bearer ${process.env.SUPABASE_SERVICE_ROLE_KEY}`,
+    'Tus-Resumable': '1.0.0',
+  };
+  const encode = (value: string) => Buffer.from(value).toString('base64');
+
+  // 1. Create the upload
+  const created = await fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'Upload-Defer-Length': '1',
+      'Upload-Metadata': [
+        `bucketName ${encode(bucket)}`,
+        `objectName ${encode(storagePath)}`,
+        `contentType ${encode(contentType)}`,
+      ].join(','),
+      'x-upsert': String(upsert),
+    },
+  });
+  const uploadUrl = created.headers.get('location');
+
+  if (!created.ok || !uploadUrl) {
+    throw new Error(`Failed to upload file: ${created.status} ${await created.text()}`);
+  }
+
+  // 2. Send the stream in fixed-size chunks, resuming from the server's offset on failure
+  const sendChunk = async (chunk: Uint8Array<ArrayBuffer>, offset: number, final: boolean) => {
+    let sent = 0;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response | null = null;
+      try {
+        response = await fetch(uploadUrl, {
+          method: 'PATCH',
+          headers: {
+            ...headers,
+            'Content-Type': 'application/offset+octet-stream',
+            'Upload-Offset': String(offset + sent),
+            ...(final && { 'Upload-Length': String(offset + chunk.length) }),
+          },
+          body: chunk.subarray(sent),
+        });
+      } catch (error) {
+        // Network error - the server may have stored part of the chunk
+        if (attempt >= RESUMABLE_UPLOAD_ATTEMPTS) {
+          throw error;
+        }
+      }
+
+      if (response?.ok) {
+        return;
+      }
+      if (response && (attempt >= RESUMABLE_UPLOAD_ATTEMPTS || response.status < 500)) {
+        throw new Error(`${response.status} ${await response.text()}`);
+      }
+
+      const head = await fetch(uploadUrl, { method: 'HEAD', headers });
+      sent = Math.min(chunk.length, Math.max(0, Number(head.headers.get('upload-offset') ?? offset) - offset));
+    }
+  };
+
+  const reader = stream.getReader();
+  const chunk = new Uint8Array(RESUMABLE_CHUNK_SIZE);
+  let filled = 0;
+  let offset = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        await sendChunk(chunk.subarray(0, filled), offset, true);
+        return offset + filled;
+      }
+
+      for (let read = 0; read < value.length; ) {
+        const length = Math.min(value.length - read, RESUMABLE_CHUNK_SIZE - filled);
+        chunk.set(value.subarray(read, read + length), filled);
+        filled += length;
+        read += length;
+
+        if (filled === RESUMABLE_CHUNK_SIZE) {
+          await sendChunk(chunk, offset, false);
+          offset += filled;
+          filled = 0;
+        }
+      }
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => {});
+    // Drop the partial upload (unfinished uploads also expire on their own)
+    await fetch(uploadUrl, { method: 'DELETE', headers }).catch(() => {});
+    throw new Error(`Failed to upload file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * Download file contents from Supabase Storage
+ *
+ * @param storagePath - Full storage path
+ * @param bucket - Storage bucket (default: screenshots)
+ * @returns File contents
+ */
+export const downloadFile = async (
+  storagePath: string,
+  bucket = SCREENSHOTS_BUCKET
+): Promise<Buffer> => {
+  const { data, error } = await supabaseAdmin.storage
+    .from(bucket)
+    .download(storagePath);
+
+  if (error || !data) {
+    throw new Error(`Failed to download file: ${error?.message}`);
+  }
+
+  return Buffer.from(await data.arrayBuffer());
+};
+
 /**
  * Delete file from Supabase Storage
  * 
  * @param storagePath - Full storage path
+ * @param bucket - Storage bucket (default: screenshots)
  */
-export const deleteFile = async (storagePath: string): Promise<void> => {
+export const deleteFile = async (
+  storagePath: string,
+  bucket = SCREENSHOTS_BUCKET
+): Promise<void> => {
   const { error } = await supabaseAdmin.storage
-    .from(SCREENSHOTS_BUCKET)
+    .from(bucket)
     .remove([storagePath]);
   
   if (error) {
@@ -220,6 +639,70 @@ export const deleteFile = async (storagePath: string): Promise<void> => {
   }
 };
 
+/**
+ * Delete multiple files from Supabase Storage in one request
+ *
+ * @param storagePaths - Full storage paths
+ * @param bucket - Storage bucket (default: screenshots)
+ */
+export const deleteFiles = async (
+  storagePaths: string[],
+  bucket = SCREENSHOTS_BUCKET
+): Promise<void> => {
+  if (storagePaths.length === 0) {
+    return;
+  }
+
+  const { error } = await supabaseAdmin.storage
+    .from(bucket)
+    .remove(storagePaths);
+
+  if (error) {
+    throw new Error(`Failed to delete files: ${error.message}`);
+  }
+};
+
+/**
+ * Move files to another bucket, keeping their paths
+ * All or nothing: if any move fails, the files that did move are moved back before throwing
+ *
+ * @param storagePaths - Full storage paths
+ * @param fromBucket - Bucket currently holding the files
+ * @param toBucket - Destination bucket
+ */
+export const moveFiles = async (
+  storagePaths: string[],
+  fromBucket: string,
+  toBucket: string
+): Promise<void> => {
+  const move = async (storagePath: string, from: string, to: string) => {
+    const { error } = await supabaseAdmin.storage
+      .from(from)
+      .move(storagePath, storagePath, { destinationBucket: to });
+
+    if (error) {
+      throw new Error(`Failed to move file: ${error.message}`);
+    }
+  };
+
+  const results = await Promise.allSettled(
+    storagePaths.map((storagePath) => move(storagePath, fromBucket, toBucket))
+  );
+  const failure = results.find((result) => result.status === 'rejected');
+
+  if (failure) {
+    const moved = storagePaths.filter((_, index) => results[index].status === 'fulfilled');
+    await Promise.all(
+      moved.map((storagePath) =>
+        move(storagePath, toBucket, fromBucket).catch((moveError) => {
+          console.error(`Failed to move back ${storagePath}:`, moveError);
+        })
+      )
+    );
+    throw failure.reason;
+  }
+};
+
 /**
  * Generate storage path for new upload
  * Format: {userId}/{timestamp}_{nanoid}.{ext}
@@ -33,10 +33,36 @@ export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
 export const STRIPE_PRO_PRICE_ID = process.env.STRIPE_PRICE_ID;
 
 /**
- * Stripe Team tier price ID (monthly subscription)
- * Falls back to Pro price ID if not set
+ * Stripe Team tier price ID (monthly subscription, billed per seat)
+ * Optional: deploys that don't sell the Team plan leave it unset
  */
-export const STRIPE_TEAM_PRICE_ID = process.env.STRIPE_TEAM_PRICE_ID || process.env.STRIPE_PRICE_ID;
+export const STRIPE_TEAM_PRICE_ID = process.env.STRIPE_TEAM_PRICE_ID;
+
+/**
+ * Team price ID for operations that bill seats
+ *
+ * @returns Stripe Team tier price ID
+ * @throws Error if STRIPE_TEAM_PRICE_ID is not configured
+ */
+const getTeamPriceId = (): string => {
+  if (!STRIPE_TEAM_PRICE_ID) {
+    throw new Error('Missing STRIPE_TEAM_PRICE_ID environment variable');
+  }
+
+  return STRIPE_TEAM_PRICE_ID;
+};
+
+/**
+ * Map a subscription price back to the plan it sells
+ *
+ * @param priceId - Stripe price ID from a subscription item
+ * @returns 'pro', 'team', or null for prices this app doesn't sell
+ */
+export const getPlanForPrice = (priceId: string): 'pro' | 'team' | null => {
+  if (STRIPE_TEAM_PRICE_ID && priceId === STRIPE_TEAM_PRICE_ID) return 'team';
+  if (priceId === STRIPE_PRO_PRICE_ID) return 'pro';
+  return null;
+};
 
 /**
  * Verify Stripe webhook signature
@@ -97,15 +123,17 @@ export const createCustomer = async (
  * @param plan - Plan to upgrade to ('pro' or 'team')
  * @param successUrl - URL to redirect after successful payment
  * @param cancelUrl - URL to redirect if user cancels
+ * @param seats - Seats to buy (team plan only; Pro is always one seat)
  * @returns Checkout session URL
  */
 export const createCheckoutSession = async (
   customerId: string,
   plan: 'pro' | 'team',
   successUrl: string,
-  cancelUrl: string
+  cancelUrl: string,
+  seats = 1
 ): Promise<string> => {
-  const priceId = plan === 'team' ? STRIPE_TEAM_PRICE_ID : STRIPE_PRO_PRICE_ID;
+  const priceId = plan === 'team' ? getTeamPriceId() : STRIPE_PRO_PRICE_ID;
   
   const session = await stripe.checkout.sessions.create({
     customer: customerId,
@@ -114,7 +142,7 @@ export const createCheckoutSession = async (
     line_items: [
       {
         price: priceId,
-        quantity: 1,
+        quantity: plan === 'team' ? seats : 1,
       },
     ],
     success_url: successUrl,
@@ -152,3 +180,29 @@ export const createPortalSession = async (
   return session.url;
 };
 
+/**
+ * Change the number of seats on a team subscription
+ * Stripe prorates the difference on the next invoice
+ *
+ * @param subscriptionId - Stripe subscription ID
+ * @param seats - New seat count (the subscription item quantity)
+ */
+export const updateSubscriptionSeats = async (
+  subscriptionId: string,
+  seats: number
+): Promise<void> => {
+  const teamPriceId = getTeamPriceId();
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  const item = subscription.items.data.find((item) => item.price.id === teamPriceId);
+
+  if (!item) {
+    throw new Error(`Subscription ${subscriptionId} has no team seats`);
+  }
+
+  if (item.quantity === seats) return;
+
+  await stripe.subscriptionItems.update(item.id, {
+    quantity: seats,
+    proration_behavior: 'create_prorations',
+  });
+};
@@ -5,6 +5,14 @@
 
 import { createClient as createSupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '@/types/database';
+import {
+  isApiKey,
+  hashApiKey,
+  hasApiKeyScope,
+  mintAccessToken,
+  type ApiKeyScope,
+} from './api-keys';
+import { ForbiddenError } from './errors';
 
 // Environment validation
 if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
@@ -31,11 +39,18 @@ export const supabaseAdmin = createSupabaseClient<Database>(
   }
 );
 
+/**
+ * How often last_used_at is written for a busy API key (ms)
+ */
+const API_KEY_LAST_USED_INTERVAL = 60 * 1000;
+
 /**
  * Create user-context Supabase client for API routes
  * Respects RLS policies based on JWT token
+ * API keys are never sent to PostgREST: pass the access token resolveApiKey minted for the key
+ * (a raw key gets an anonymous client)
  * 
- * @param accessToken - User's JWT access token from Authorization header
+ * @param accessToken - User's JWT access token (session or minted for an API key)
  * @returns Supabase client with user context
  * 
  * @example
@@ -48,14 +63,16 @@ export const createUserClient = (accessToken?: string) => {
     throw new Error('Missing NEXT_PUBLIC_SUPABASE_ANON_KEY environment variable');
   }
 
+  const bearerToken = accessToken && !isApiKey(accessToken) ? accessToken : undefined;
+
   const client = createSupabaseClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
     {
       global: {
-        headers: accessToken
+        headers: bearerToken
           ? {
-              Authorization: `Bearer ${accessToken}`,
+              Authorization: `Bearer ${bearerToken}`,
             }
           : {},
       },
@@ -66,13 +83,76 @@ export const createUserClient = (accessToken?: string) => {
 };
 
 /**
- * Extract user ID from Supabase JWT token
+ * Owner of a resolved API key and the access token to act as them
+ */
+export type ApiKeyCaller = {
+  userId: string;
+  /** Short-lived JWT for createUserClient (valid for API_KEY_ACCESS_TOKEN_TTL seconds) */
+  accessToken: string;
+};
+
+/**
+ * Resolve an API key to its owner and mint the access token for createUserClient
+ *
+ * @param key - API key from the Authorization header
+ * @param scope - Scope the route needs (omit to require a full-access key)
+ * @returns Key owner and access token, or null if the key is unknown or revoked
+ * @throws ForbiddenError if the key lacks the scope
+ */
+export const resolveApiKey = async (
+  key: string,
+  scope?: ApiKeyScope
+): Promise<ApiKeyCaller | null> => {
+  const { data: apiKey } = await supabaseAdmin
+    .from('api_keys')
+    .select('id, user_id, scopes, last_used_at')
+    .eq('key_hash', hashApiKey(key))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (!apiKey) {
+    return null;
+  }
+
+  if (!hasApiKeyScope(apiKey.scopes, scope)) {
+    throw new ForbiddenError(
+      scope ? `API key is missing the ${scope} scope` : 'This endpoint requires a full-access API key'
+    );
+  }
+
+  const lastUsedAt = apiKey.last_used_at ? new Date(apiKey.last_used_at).getTime() : 0;
+
+  if (Date.now() - lastUsedAt > API_KEY_LAST_USED_INTERVAL) {
+    const { error } = await supabaseAdmin
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', apiKey.id);
+
+    if (error) {
+      console.error('Failed to record API key use:', error);
+    }
+  }
+
+  return { userId: apiKey.user_id, accessToken: mintAccessToken(apiKey.user_id) };
+};
+
+/**
+ * Extract user ID from Supabase JWT token or API key
  * Used for user-specific operations
  * 
- * @param accessToken - User's JWT access token
+ * @param accessToken - User's JWT access token or API key
+ * @param scope - Scope an API key needs for this operation (omit to require a full-access key)
  * @returns User ID (UUID) or null if invalid
+ * @throws ForbiddenError if an API key lacks the scope
  */
-export const getUserIdFromToken = async (accessToken: string): Promise<string | null> => {
+export const getUserIdFromToken = async (
+  accessToken: string,
+  scope?: ApiKeyScope
+): Promise<string | null> => {
+  if (isApiKey(accessToken)) {
+    return (await resolveApiKey(accessToken, scope))?.userId ?? null;
+  }
+
   try {
     const { data: { user } } = await createUserClient(accessToken).auth.getUser();
     return user?.id ?? null;
@@ -0,0 +1,123 @@
+/**
+ * Team workspaces (team plan)
+ * Members share a screenshot library: screenshots with a team_id are visible to every member
+ * through RLS. Invites are addressed to an email and accepted by the account signed in with it.
+ * What each role can do is defined in ./permissions
+ */
+
+import { NotFoundError } from './errors';
+import type { AuthContext } from './auth';
+import type { Database } from '@/types/database';
+import type { TeamInviteResponse, TeamMemberResponse, TeamResponse } from '@/types/api';
+
+export type TeamRow = Database['public']['Tables']['teams']['Row'];
+export type TeamInviteRow = Database['public']['Tables']['team_invites']['Row'];
+export type TeamMemberRow = Database['public']['Tables']['team_members']['Row'];
+export type TeamRole = Database['public']['Tables']['team_members']['Row']['role'];
+
+/**
+ * Select clause for teams with their member count
+ */
+export const TEAM_WITH_COUNT_SELECT = '*, team_members(count)';
+
+/**
+ * Team row with an embedded member count (see TEAM_WITH_COUNT_SELECT)
+ */
+export type TeamWithCount = TeamRow & {
+  team_members: Array<{ count: number }>;
+};
+
+/**
+ * Days an invite can be accepted
+ */
+export const TEAM_INVITE_TTL_DAYS = 7;
+
+/**
+ * When a new invite stops being valid
+ *
+ * @returns ISO timestamp
+ */
+export const getTeamInviteExpiresAt = (): string =>
+  new Date(Date.now() + TEAM_INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+/**
+ * Look up the caller's role in a team
+ *
+ * @param supabase - Caller's Supabase client (RLS only shows teams they belong to)
+ * @param teamId - Team ID
+ * @param userId - Caller
+ * @returns Role
+ * @throws NotFoundError if the team doesn't exist or the caller isn't a member
+ */
+export const getTeamRole = async (
+  supabase: AuthContext['supabase'],
+  teamId: string,
+  userId: string
+): Promise<TeamRole> => {
+  const { data: membership } = await supabase
+    .from('team_members')
+    .select('role')
+    .eq('team_id', teamId)
+    .eq('user_id', userId)
+    .single();
+
+  if (!membership) {
+    throw new NotFoundError('Team');
+  }
+
+  return membership.role;
+};
+
+/**
+ * Map a team row to the API response shape
+ *
+ * @param team - Team row with an embedded member count
+ * @param role - Caller's role in the team
+ * @returns Team response
+ */
+export const toTeamResponse = (team: TeamWithCount, role: TeamRole): TeamResponse => ({
+  id: team.id,
+  name: team.name,
+  role,
+  member_count: team.team_members[0]?.count ?? 0,
+  created_at: team.created_at,
+  updated_at: team.updated_at,
+});
+
+/**
+ * Map an invite row to the API response shape
+ *
+ * @param invite - Invite row
+ * @param teamName - Name of the team the invite is for
+ * @returns Invite response
+ */
+export const toTeamInviteResponse = (
+  invite: TeamInviteRow,
+  teamName: string
+): TeamInviteResponse => ({
+  id: invite.id,
+  team_id: invite.team_id,
+  team_name: teamName,
+  email: invite.email,
+  role: invite.role,
+  expires_at: invite.expires_at,
+  created_at: invite.created_at,
+});
+
+/**
+ * Map a membership row to the API response shape
+ *
+ * @param member - Membership row
+ * @param profile - Member's profile (email and name)
+ * @returns Member response
+ */
+export const toTeamMemberResponse = (
+  member: TeamMemberRow,
+  profile: { email: string; full_name: string | null }
+): TeamMemberResponse => ({
+  user_id: member.user_id,
+  email: profile.email,
+  full_name: profile.full_name,
+  role: member.role,
+  joined_at: member.created_at,
+});
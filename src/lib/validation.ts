@@ -5,6 +5,8 @@
 
 import { z } from 'zod';
 import { ValidationError } from './errors';
+import { API_KEY_SCOPES } from './api-keys';
+import { MAX_UPLOAD_FILE_SIZE } from './plans';
 
 /**
  * Allowed image MIME types
@@ -17,9 +19,9 @@ export const ALLOWED_MIME_TYPES = [
 ] as const;
 
 /**
- * Max file size: 10MB in bytes
+ * Max file size in bytes: the largest any plan allows (each plan's limit is in lib/plans.ts)
  */
-export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+export const MAX_FILE_SIZE = MAX_UPLOAD_FILE_SIZE;
 
 /**
  * Max filename length
@@ -37,6 +39,67 @@ export const signedUrlSchema = z.object({
 
 export type SignedUrlRequest = z.infer<typeof signedUrlSchema>;
 
+/**
+ * Supported relative expiry options for screenshots (durations live in lib/expiry.ts)
+ */
+export const EXPIRES_IN_OPTIONS = ['1h', '1d', '7d', '30d', 'never'] as const;
+
+/**
+ * Absolute expiry: ISO 8601 datetime that must be in the future
+ */
+const futureDatetime = z
+  .string()
+  .datetime({ offset: true, message: 'expires_at must be an ISO 8601 datetime' })
+  .refine((value) => new Date(value).getTime() > Date.now(), {
+    message: 'expires_at must be in the future',
+  });
+
+const hasSingleExpiryField = (data: { expires_in?: string; expires_at?: string | null }) =>
+  data.expires_in === undefined || data.expires_at === undefined;
+
+const singleExpiryFieldError = {
+  message: 'Specify either expires_in or expires_at, not both',
+  path: ['expires_at'],
+};
+
+/**
+ * Maximum view limit for self-destructing share links
+ */
+export const MAX_VIEW_LIMIT = 1000;
+
+/**
+ * View limit fields shared by screenshot create and update
+ * burn_after_reading: true is shorthand for max_views: 1, false removes the limit
+ */
+const viewLimitFields = {
+  max_views: z.number().int().positive().max(MAX_VIEW_LIMIT).nullable().optional(),
+  burn_after_reading: z.boolean().optional(),
+};
+
+const hasSingleViewLimitField = (data: { max_views?: number | null; burn_after_reading?: boolean }) =>
+  data.max_views === undefined || data.burn_after_reading === undefined;
+
+const singleViewLimitFieldError = {
+  message: 'Specify either max_views or burn_after_reading, not both',
+  path: ['burn_after_reading'],
+};
+
+/**
+ * Resolve the requested view limit
+ *
+ * @returns View limit, null to remove the limit, or undefined if not specified
+ */
+export const resolveMaxViews = (data: {
+  max_views?: number | null;
+  burn_after_reading?: boolean;
+}): number | null | undefined => {
+  if (data.burn_after_reading !== undefined) {
+    return data.burn_after_reading ? 1 : null;
+  }
+
+  return data.max_views;
+};
+
 /**
  * Schema for screenshot upload (metadata creation)
  */
@@ -47,10 +110,19 @@ export const uploadScreenshotSchema = z.object({
   width: z.number().int().positive(),
   height: z.number().int().positive(),
   storage_path: z.string().min(1),
+  // Strip EXIF/GPS, XMP and IPTC metadata before the file is shared (opt out with false)
+  strip_metadata: z.boolean().default(true),
+  ...viewLimitFields,
+  // Expiry (default: plan retention - 30 days on free, never on paid plans)
+  expires_in: z.enum(EXPIRES_IN_OPTIONS).optional(),
+  expires_at: futureDatetime.optional(),
+  // Share into a team library (caller must be a member)
+  team_id: z.string().uuid().optional(),
   // Optional fields for testing purposes
   short_id: z.string().optional(),
-  expires_at: z.string().optional(),
-}).passthrough(); // Allow extra fields for flexibility
+}).passthrough() // Allow extra fields for flexibility
+  .refine(hasSingleViewLimitField, singleViewLimitFieldError)
+  .refine(hasSingleExpiryField, singleExpiryFieldError);
 
 export type UploadScreenshotRequest = z.infer<typeof uploadScreenshotSchema>;
 
@@ -66,14 +138,45 @@ export const signupSchema = z.object({
 export type SignupRequest = z.infer<typeof signupSchema>;
 
 /**
- * Schema for checkout session request
+ * Schema for login
  */
-export const checkoutSessionSchema = z.object({
-  plan: z.enum(['pro', 'team'], {
-    errorMap: () => ({ message: 'Plan must be either "pro" or "team"' }),
-  }),
+export const loginSchema = z.object({
+  email: z.string().trim().email().toLowerCase(),
+  password: z.string().min(1).max(128),
 });
 
+export type LoginRequest = z.infer<typeof loginSchema>;
+
+/**
+ * Schema for session refresh
+ */
+export const refreshSessionSchema = z.object({
+  refresh_token: z.string().min(1).max(1024),
+});
+
+export type RefreshSessionRequest = z.infer<typeof refreshSessionSchema>;
+
+/**
+ * Most seats a team subscription can buy at checkout
+ */
+export const MAX_TEAM_SEATS = 100;
+
+/**
+ * Schema for checkout session request
+ * seats only applies to the team plan (defaults to the seats already in use)
+ */
+export const checkoutSessionSchema = z
+  .object({
+    plan: z.enum(['pro', 'team'], {
+      errorMap: () => ({ message: 'Plan must be either "pro" or "team"' }),
+    }),
+    seats: z.number().int().min(1).max(MAX_TEAM_SEATS).optional(),
+  })
+  .refine((data) => data.seats === undefined || data.plan === 'team', {
+    message: 'Seats can only be chosen for the team plan',
+    path: ['seats'],
+  });
+
 export type CheckoutSessionRequest = z.infer<typeof checkoutSessionSchema>;
 
 /**
@@ -88,30 +191,292 @@ export const updateProfileSchema = z.object({
 
 export type UpdateProfileRequest = z.infer<typeof updateProfileSchema>;
 
+/**
+ * Max API key name length
+ */
+export const MAX_API_KEY_NAME_LENGTH = 100;
+
+/**
+ * Schema for API key creation
+ */
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(MAX_API_KEY_NAME_LENGTH),
+  // Omitted = full access
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES))
+    .min(1)
+    .transform((scopes) => [...new Set(scopes)])
+    .optional(),
+});
+
+export type CreateApiKeyRequest = z.infer<typeof createApiKeySchema>;
+
+/**
+ * Max tag name length
+ */
+export const MAX_TAG_LENGTH = 50;
+
+/**
+ * Max tags per screenshot (also the max tags per list filter)
+ */
+export const MAX_TAGS_PER_SCREENSHOT = 20;
+
+/**
+ * Tag name: trimmed and lowercased so "Bug" and "bug " are the same tag
+ * Commas are reserved as the separator in tags_any / tags_all filters
+ */
+const tagName = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1)
+  .max(MAX_TAG_LENGTH)
+  .refine((value) => !value.includes(','), { message: 'Tags cannot contain commas' });
+
+const tagList = z.array(tagName).max(MAX_TAGS_PER_SCREENSHOT);
+
 /**
  * Schema for screenshot metadata update
  */
 export const updateScreenshotSchema = z.object({
   original_filename: z.string().min(1).max(MAX_FILENAME_LENGTH).optional(),
   is_public: z.boolean().optional(),
-}).passthrough(); // Allow extra fields but ignore immutable ones
+  // Share link password (null removes protection)
+  password: z.string().min(4).max(128).nullable().optional(),
+  ...viewLimitFields,
+  // Extend, shorten or clear expiry (expires_at: null = never)
+  expires_in: z.enum(EXPIRES_IN_OPTIONS).optional(),
+  expires_at: futureDatetime.nullable().optional(),
+  // Move into a collection (null removes it from its collection)
+  collection_id: z.string().uuid().nullable().optional(),
+  // Share into a team library (null takes it out of its team)
+  team_id: z.string().uuid().nullable().optional(),
+  // Replace the screenshot's tags ([] removes all)
+  tags: tagList.optional(),
+}).passthrough() // Allow extra fields but ignore immutable ones
+  .refine(hasSingleViewLimitField, singleViewLimitFieldError)
+  .refine(hasSingleExpiryField, singleExpiryFieldError);
 
 export type UpdateScreenshotRequest = z.infer<typeof updateScreenshotSchema>;
 
+/**
+ * Schema for unlocking a password-protected share link
+ */
+export const unlockScreenshotSchema = z.object({
+  password: z.string().min(1).max(128),
+});
+
+export type UnlockScreenshotRequest = z.infer<typeof unlockScreenshotSchema>;
+
+/**
+ * Sort options for screenshot listings (columns live in lib/pagination.ts)
+ */
+export const SCREENSHOT_SORT_OPTIONS = ['created_at', 'views', 'file_size', 'filename'] as const;
+
 /**
  * Schema for screenshot list query params
  */
 export const listScreenshotsSchema = z.object({
   limit: z.number().int().positive().max(100).default(50),
   offset: z.number().int().nonnegative().default(0),
+  // Opaque pagination.next_cursor from the previous page (keyset pagination, replaces offset)
+  cursor: z.string().min(1).optional(),
+  // Default: created_at, or relevance for full-text search
+  sort: z.enum(SCREENSHOT_SORT_OPTIONS).optional(),
+  order: z.enum(['asc', 'desc']).default('desc'),
   search: z.string().optional(),
+  // Full-text search over filenames and text extracted from the image (results ranked by match)
+  q: z.string().trim().min(1).max(200).optional(),
   // Accept date strings in YYYY-MM-DD or ISO datetime format
   from_date: z.string().min(10).optional(), // Allow both date and datetime
   to_date: z.string().min(10).optional(),
-});
+  // Collection UUID, or "none" for screenshots that aren't in a collection
+  collection_id: z.union([z.string().uuid(), z.literal('none')]).optional(),
+  // Team library to list instead of the caller's own screenshots
+  team_id: z.string().uuid().optional(),
+  // Tag filters: tag = has this tag, tags_any = has at least one, tags_all = has every one
+  tag: tagName.optional(),
+  tags_any: tagList.min(1).optional(),
+  tags_all: tagList.min(1).optional(),
+})
+  .refine((data) => data.cursor === undefined || data.offset === 0, {
+    message: 'Specify either cursor or offset, not both',
+    path: ['cursor'],
+  })
+  .refine((data) => data.cursor === undefined || data.q === undefined || data.sort !== undefined, {
+    message: 'Search results ranked by relevance only support offset pagination - pass sort to use a cursor',
+    path: ['cursor'],
+  });
 
 export type ListScreenshotsQuery = z.infer<typeof listScreenshotsSchema>;
 
+/**
+ * Schema for trash listing query parameters
+ */
+export const listTrashSchema = z.object({
+  limit: z.number().int().positive().max(100).default(50),
+  offset: z.number().int().nonnegative().default(0),
+});
+
+export type ListTrashQuery = z.infer<typeof listTrashSchema>;
+
+/**
+ * Max collection name length
+ */
+export const MAX_COLLECTION_NAME_LENGTH = 100;
+
+/**
+ * Max collection description length
+ */
+export const MAX_COLLECTION_DESCRIPTION_LENGTH = 500;
+
+/**
+ * Max screenshots per bulk request
+ */
+export const MAX_BULK_SCREENSHOTS = 100;
+
+/**
+ * Schema for collection creation
+ */
+export const createCollectionSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_COLLECTION_NAME_LENGTH),
+  description: z.string().trim().max(MAX_COLLECTION_DESCRIPTION_LENGTH).nullable().optional(),
+  // Public collections are shared as a gallery at /c/[short_id]
+  is_public: z.boolean().default(false),
+});
+
+export type CreateCollectionRequest = z.infer<typeof createCollectionSchema>;
+
+/**
+ * Schema for collection update
+ */
+export const updateCollectionSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_COLLECTION_NAME_LENGTH).optional(),
+  description: z.string().trim().max(MAX_COLLECTION_DESCRIPTION_LENGTH).nullable().optional(),
+  is_public: z.boolean().optional(),
+});
+
+export type UpdateCollectionRequest = z.infer<typeof updateCollectionSchema>;
+
+/**
+ * Max team name length
+ */
+export const MAX_TEAM_NAME_LENGTH = 100;
+
+/**
+ * Schema for team creation
+ */
+export const createTeamSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_TEAM_NAME_LENGTH),
+});
+
+export type CreateTeamRequest = z.infer<typeof createTeamSchema>;
+
+/**
+ * Roles that can be given to members (each team has exactly one owner)
+ */
+const assignableTeamRole = z.enum(['admin', 'member', 'viewer'], {
+  errorMap: () => ({ message: 'Role must be one of: admin, member, viewer' }),
+});
+
+/**
+ * Schema for team invites
+ */
+export const inviteTeamMemberSchema = z.object({
+  email: z.string().trim().email().toLowerCase(),
+  role: assignableTeamRole.default('member'),
+});
+
+export type InviteTeamMemberRequest = z.infer<typeof inviteTeamMemberSchema>;
+
+/**
+ * Schema for changing a member's role
+ */
+export const updateTeamMemberSchema = z.object({
+  role: assignableTeamRole,
+});
+
+export type UpdateTeamMemberRequest = z.infer<typeof updateTeamMemberSchema>;
+
+/**
+ * Schema for moving screenshots between collections
+ */
+export const moveScreenshotsSchema = z.object({
+  screenshot_ids: z.array(z.string().uuid()).min(1).max(MAX_BULK_SCREENSHOTS),
+  // Target collection (null removes the screenshots from their collection)
+  collection_id: z.string().uuid().nullable(),
+});
+
+export type MoveScreenshotsRequest = z.infer<typeof moveScreenshotsSchema>;
+
+/**
+ * Schema for zip archive downloads
+ * Screenshots are selected by ID, by collection or by upload date range (exactly one)
+ */
+export const archiveScreenshotsSchema = z.object({
+  screenshot_ids: z.array(z.string().uuid()).min(1).max(MAX_BULK_SCREENSHOTS).optional(),
+  collection_id: z.string().uuid().optional(),
+  // Accept date strings in YYYY-MM-DD or ISO datetime format
+  from_date: z.string().min(10).optional(),
+  to_date: z.string().min(10).optional(),
+}).refine(
+  (data) =>
+    [data.screenshot_ids, data.collection_id, data.from_date ?? data.to_date]
+      .filter((selector) => selector !== undefined).length === 1,
+  { message: 'Specify exactly one of screenshot_ids, collection_id or a date range (from_date / to_date)' }
+);
+
+export type ArchiveScreenshotsRequest = z.infer<typeof archiveScreenshotsSchema>;
+
+/**
+ * Max screenshots per bulk action request
+ */
+export const MAX_BULK_ACTION_SCREENSHOTS = 500;
+
+const bulkScreenshotIds = z.array(z.string().uuid()).min(1).max(MAX_BULK_ACTION_SCREENSHOTS);
+
+/**
+ * Schema for bulk screenshot actions (POST /api/screenshots/bulk)
+ * The action selects which other fields are required
+ */
+export const bulkScreenshotsSchema = z
+  .discriminatedUnion('action', [
+    z.object({
+      action: z.literal('delete'),
+      screenshot_ids: bulkScreenshotIds,
+      // Skip the trash and delete storage files immediately
+      permanent: z.boolean().default(false),
+    }),
+    z.object({
+      action: z.literal('set_public'),
+      screenshot_ids: bulkScreenshotIds,
+      is_public: z.boolean(),
+    }),
+    z.object({
+      action: z.literal('set_expiry'),
+      screenshot_ids: bulkScreenshotIds,
+      expires_in: z.enum(EXPIRES_IN_OPTIONS).optional(),
+      expires_at: futureDatetime.nullable().optional(),
+    }),
+    z.object({
+      action: z.literal('move'),
+      screenshot_ids: bulkScreenshotIds,
+      collection_id: z.string().uuid().nullable(),
+    }),
+    z.object({
+      action: z.enum(['add_tags', 'remove_tags']),
+      screenshot_ids: bulkScreenshotIds,
+      tags: tagList.min(1),
+    }),
+  ])
+  .refine((data) => data.action !== 'set_expiry' || hasSingleExpiryField(data), singleExpiryFieldError)
+  .refine(
+    (data) => data.action !== 'set_expiry' || data.expires_in !== undefined || data.expires_at !== undefined,
+    { message: 'expires_in or expires_at is required', path: ['expires_in'] }
+  );
+
+export type BulkScreenshotsRequest = z.infer<typeof bulkScreenshotsSchema>;
+
 /**
  * Schema for usage history query params
  */
@@ -121,6 +486,35 @@ export const usageHistorySchema = z.object({
 
 export type UsageHistoryQuery = z.infer<typeof usageHistorySchema>;
 
+/**
+ * Schema for expired screenshot cleanup cron query params
+ */
+export const cleanupExpiredSchema = z.object({
+  dry_run: z.boolean().default(false),
+  batch_size: z.number().int().positive().max(500).default(100),
+  max_batches: z.number().int().positive().max(50).default(10),
+});
+
+export type CleanupExpiredQuery = z.infer<typeof cleanupExpiredSchema>;
+
+/**
+ * Schema for OCR processing cron query params
+ */
+export const processOcrSchema = z.object({
+  batch_size: z.number().int().positive().max(25).default(10),
+});
+
+export type ProcessOcrQuery = z.infer<typeof processOcrSchema>;
+
+/**
+ * Schema for data export processing cron query params
+ */
+export const processExportsSchema = z.object({
+  batch_size: z.number().int().positive().max(5).default(1),
+});
+
+export type ProcessExportsQuery = z.infer<typeof processExportsSchema>;
+
 /**
  * Validate and parse request body with Zod schema
  * 
@@ -133,7 +527,7 @@ export type UsageHistoryQuery = z.infer<typeof usageHistorySchema>;
  * const body = await request.json();
  * const validated = validateRequest(signupSchema, body);
  */
-export const validateRequest = <T>(schema: z.ZodSchema<T>, data: unknown): T => {
+export const validateRequest = <S extends z.ZodTypeAny>(schema: S, data: unknown): z.output<S> => {
   const result = schema.safeParse(data);
   
   if (!result.success) {
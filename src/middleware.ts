@@ -0,0 +1,55 @@
+/**
+ * Middleware for share pages (/s/[shortId])
+ * Pages can't choose their HTTP status, so expired and burned share links are answered here
+ * with 410 Gone; crawlers and link unfurlers then drop them instead of indexing an empty page
+ * (the page still renders its own expired message if the link expires in between)
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { GoneError } from '@/lib/errors';
+import { getPublicScreenshot } from '@/lib/screenshots';
+
+export const config = {
+  matcher: '/s/:shortId',
+  // The share link lookup uses the Supabase service role client
+  runtime: 'nodejs',
+};
+
+/**
+ * Body served with 410 Gone (same message as the page's expired state)
+ */
+const EXPIRED_PAGE = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <meta name="robots" content="noindex, nofollow" />
+    <title>Screenshot expired - snappd</title>
+  </head>
+  <body style="margin:0;min-height:100vh;display:flex;flex-direction:column;align-items:center;justify-content:center;gap:12px;padding:32px;box-sizing:border-box;text-align:center;font-family:system-ui,sans-serif">
+    <h1 style="margin:0;font-size:20px">This screenshot has expired</h1>
+    <p style="margin:0;font-size:14px;color:#71717a">The owner&apos;s share link is no longer available.</p>
+  </body>
+</html>
+`;
+
+export async function middleware(request: NextRequest) {
+  const shortId = request.nextUrl.pathname.split('/')[2];
+
+  try {
+    await getPublicScreenshot(shortId);
+  } catch (error) {
+    if (error instanceof GoneError) {
+      return new NextResponse(EXPIRED_PAGE, {
+        status: 410,
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+    // Unknown and private links fall through to the page's not-found handling
+  }
+
+  return NextResponse.next();
+}
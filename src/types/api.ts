@@ -37,11 +37,65 @@ export interface ScreenshotResponse {
   public_url: string;
   share_url: string;
   storage_url: string;
+  thumbnail_url: string | null;
+  variants: ScreenshotVariant[];
   expires_at: string | null;
   views: number;
   is_public: boolean;
+  password_protected: boolean;
+  max_views: number | null;
+  collection_id: string | null;
+  team_id: string | null;
+  tags: string[];
+  ocr_status: 'pending' | 'processing' | 'completed' | 'failed';
   created_at: string;
   updated_at: string;
+  // Only present in full-text search results (GET /api/screenshots?q=)
+  search?: ScreenshotSearchMatch;
+}
+
+/**
+ * Screenshot in the trash (GET /api/trash)
+ * purge_at is when the cleanup job deletes it permanently
+ */
+export interface TrashedScreenshotResponse extends ScreenshotResponse {
+  deleted_at: string;
+  purge_at: string;
+}
+
+/**
+ * Empty trash response (DELETE /api/trash)
+ */
+export interface EmptyTrashResponse {
+  purged: number;
+  has_more: boolean;
+}
+
+/**
+ * Full-text search match details
+ * snippet is HTML-escaped extracted text with matches wrapped in <mark> (null if only the filename matched)
+ */
+export interface ScreenshotSearchMatch {
+  rank: number;
+  snippet: string | null;
+}
+
+/**
+ * Resized screenshot variant (for srcset / <picture>)
+ */
+export interface ScreenshotVariant {
+  width: number;
+  height: number;
+  format: 'webp' | 'avif';
+  url: string;
+}
+
+/**
+ * Screenshot creation response (POST /api/screenshots)
+ * metadata_removed lists what sanitization stripped (empty if nothing or opted out)
+ */
+export interface UploadScreenshotResponse extends ScreenshotResponse {
+  metadata_removed: Array<'exif' | 'gps' | 'xmp' | 'iptc'>;
 }
 
 /**
@@ -54,6 +108,7 @@ export interface PublicScreenshotResponse {
   height: number;
   storage_url: string;
   views: number;
+  max_views: number | null;
   created_at: string;
   seo_metadata: {
     title: string;
@@ -62,6 +117,130 @@ export interface PublicScreenshotResponse {
   };
 }
 
+/**
+ * Share link unlock response (POST /api/s/[shortId]/unlock)
+ */
+export interface UnlockScreenshotResponse {
+  token: string;
+  expires_in: number;
+  storage_url: string;
+}
+
+/**
+ * Collection response
+ */
+export interface CollectionResponse {
+  id: string;
+  short_id: string;
+  name: string;
+  description: string | null;
+  is_public: boolean;
+  share_url: string;
+  screenshot_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Team the caller belongs to (GET/POST /api/teams)
+ */
+export interface TeamResponse {
+  id: string;
+  name: string;
+  role: 'owner' | 'admin' | 'member' | 'viewer';
+  member_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Pending team invite (POST /api/teams/[id]/invites, GET /api/teams/invites)
+ */
+export interface TeamInviteResponse {
+  id: string;
+  team_id: string;
+  team_name: string;
+  email: string;
+  role: 'admin' | 'member' | 'viewer';
+  expires_at: string;
+  created_at: string;
+}
+
+/**
+ * Team member (GET /api/teams/[id]/members, PATCH /api/teams/[id]/members/[userId])
+ */
+export interface TeamMemberResponse {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  role: 'owner' | 'admin' | 'member' | 'viewer';
+  joined_at: string;
+}
+
+/**
+ * Tag with usage count (GET /api/tags)
+ */
+export interface TagResponse {
+  name: string;
+  screenshot_count: number;
+  created_at: string;
+}
+
+/**
+ * Screenshot move response (POST /api/screenshots/move)
+ * not_found lists IDs that don't exist or belong to another user
+ */
+export interface MoveScreenshotsResponse {
+  collection_id: string | null;
+  moved: string[];
+  not_found: string[];
+}
+
+/**
+ * Outcome of a bulk action for one screenshot
+ * Failures carry the same error object as regular API error responses
+ */
+export type BulkScreenshotResult =
+  | { id: string; success: true }
+  | ({ id: string; success: false } & ApiErrorResponse);
+
+/**
+ * Bulk action response (POST /api/screenshots/bulk)
+ * results follow the order of the requested IDs
+ */
+export interface BulkScreenshotsResponse {
+  action: 'delete' | 'set_public' | 'set_expiry' | 'move' | 'add_tags' | 'remove_tags';
+  succeeded: number;
+  failed: number;
+  results: BulkScreenshotResult[];
+}
+
+/**
+ * Screenshot in a public collection gallery
+ */
+export interface PublicCollectionScreenshot {
+  short_id: string;
+  original_filename: string;
+  width: number;
+  height: number;
+  share_url: string;
+  storage_url: string;
+  thumbnail_url: string | null;
+  created_at: string;
+}
+
+/**
+ * Public collection gallery response (GET /api/c/[shortId])
+ */
+export interface PublicCollectionResponse {
+  short_id: string;
+  name: string;
+  description: string | null;
+  share_url: string;
+  screenshots: PublicCollectionScreenshot[];
+  created_at: string;
+}
+
 /**
  * Profile response
  */
@@ -89,6 +268,27 @@ export interface AuthSessionResponse {
   };
 }
 
+/**
+ * Plan and its entitlements (GET /api/plans); null limits are unlimited, sizes are in bytes
+ */
+export interface PlanResponse {
+  id: 'free' | 'pro' | 'team';
+  name: string;
+  price_monthly: number;
+  billed_per_seat: boolean;
+  uploads_per_month: number | null;
+  max_file_size: number;
+  storage_quota: number | null;
+  retention_days: number | null;
+  bandwidth_per_month: number | null;
+  max_archive_bytes: number;
+  features: {
+    password_links: boolean;
+    custom_domains: boolean;
+    teams: boolean;
+  };
+}
+
 /**
  * Usage response
  */
@@ -106,6 +306,14 @@ export interface UsageResponse {
     remaining: number;
     resets_at: string;
   };
+  /** Total stored across all months; quota_bytes and remaining_bytes are -1 when unlimited */
+  storage_status: {
+    used_bytes: number;
+    used_mb: number;
+    quota_bytes: number;
+    remaining_bytes: number;
+    at_quota: boolean;
+  };
   upgrade_prompt: {
     show_prompt: boolean;
     message: string;
@@ -145,16 +353,106 @@ export interface PortalSessionResponse {
   portal_url: string;
 }
 
+/**
+ * Expired screenshot cleanup report (cron job)
+ */
+export interface CleanupExpiredResponse {
+  dry_run: boolean;
+  started_at: string;
+  completed_at: string;
+  batches: number;
+  scanned: number;
+  deleted: number;
+  bytes_freed: number;
+  users_affected: number;
+  has_more: boolean;
+  failures: Array<{
+    id: string;
+    storage_path: string;
+    error: string;
+  }>;
+}
+
+/**
+ * OCR processing report (cron job)
+ */
+export interface ProcessOcrResponse {
+  started_at: string;
+  completed_at: string;
+  claimed: number;
+  completed: number;
+  retrying: number;
+  failed: number;
+  failures: Array<{
+    id: string;
+    error: string;
+  }>;
+}
+
+/**
+ * API key (listing; the secret is never returned after creation)
+ */
+export interface ApiKeyResponse {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[] | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Newly created API key (the only response that includes the full key)
+ */
+export interface CreatedApiKeyResponse extends ApiKeyResponse {
+  key: string;
+}
+
+/**
+ * GDPR data export status (POST/GET /api/auth/export)
+ * download_url is a fresh signed link while a completed export is still available
+ */
+export interface DataExportResponse {
+  id: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+  file_size: number | null;
+  error: string | null;
+  download_url: string | null;
+  download_url_expires_in: number | null;
+  created_at: string;
+  completed_at: string | null;
+  expires_at: string | null;
+}
+
+/**
+ * Data export processing report (cron job)
+ */
+export interface ProcessExportsResponse {
+  started_at: string;
+  completed_at: string;
+  claimed: number;
+  completed: number;
+  retrying: number;
+  failed: number;
+  expired: number;
+  failures: Array<{
+    id: string;
+    error: string;
+  }>;
+}
+
 /**
  * Paginated list response
+ * total is null for cursor pages (not counted); next_cursor continues from the last item
  */
 export interface PaginatedResponse<T> {
   data: T[];
   pagination: {
-    total: number;
+    total: number | null;
     limit: number;
     offset: number;
     has_more: boolean;
+    next_cursor: string | null;
   };
 }
 
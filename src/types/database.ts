@@ -23,6 +23,8 @@ export type Database = {
           stripe_customer_id: string | null;
           stripe_subscription_id: string | null;
           downgraded_at: string | null;
+          team_seats: number | null;
+          storage_bytes: number;
           created_at: string;
           updated_at: string;
         };
@@ -34,6 +36,8 @@ export type Database = {
           stripe_customer_id?: string | null;
           stripe_subscription_id?: string | null;
           downgraded_at?: string | null;
+          team_seats?: number | null;
+          storage_bytes?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -45,6 +49,8 @@ export type Database = {
           stripe_customer_id?: string | null;
           stripe_subscription_id?: string | null;
           downgraded_at?: string | null;
+          team_seats?: number | null;
+          storage_bytes?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -71,6 +77,20 @@ export type Database = {
           expires_at: string | null;
           views: number;
           is_public: boolean;
+          thumbnail_path: string | null;
+          variants: Json;
+          password_hash: string | null;
+          max_views: number | null;
+          collection_id: string | null;
+          team_id: string | null;
+          tags: string[];
+          ocr_status: 'pending' | 'processing' | 'completed' | 'failed';
+          ocr_text: string | null;
+          ocr_attempts: number;
+          ocr_started_at: string | null;
+          ocr_completed_at: string | null;
+          search_vector: unknown;
+          deleted_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -87,6 +107,19 @@ export type Database = {
           expires_at?: string | null;
           views?: number;
           is_public?: boolean;
+          thumbnail_path?: string | null;
+          variants?: Json;
+          password_hash?: string | null;
+          max_views?: number | null;
+          collection_id?: string | null;
+          team_id?: string | null;
+          tags?: string[];
+          ocr_status?: 'pending' | 'processing' | 'completed' | 'failed';
+          ocr_text?: string | null;
+          ocr_attempts?: number;
+          ocr_started_at?: string | null;
+          ocr_completed_at?: string | null;
+          deleted_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -103,6 +136,19 @@ export type Database = {
           expires_at?: string | null;
           views?: number;
           is_public?: boolean;
+          thumbnail_path?: string | null;
+          variants?: Json;
+          password_hash?: string | null;
+          max_views?: number | null;
+          collection_id?: string | null;
+          team_id?: string | null;
+          tags?: string[];
+          ocr_status?: 'pending' | 'processing' | 'completed' | 'failed';
+          ocr_text?: string | null;
+          ocr_attempts?: number;
+          ocr_started_at?: string | null;
+          ocr_completed_at?: string | null;
+          deleted_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -112,6 +158,117 @@ export type Database = {
             columns: ['user_id'];
             referencedRelation: 'profiles';
             referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'screenshots_collection_id_fkey';
+            columns: ['collection_id'];
+            referencedRelation: 'collections';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'screenshots_team_id_fkey';
+            columns: ['team_id'];
+            referencedRelation: 'teams';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      collections: {
+        Row: {
+          id: string;
+          user_id: string;
+          short_id: string;
+          name: string;
+          description: string | null;
+          is_public: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          short_id: string;
+          name: string;
+          description?: string | null;
+          is_public?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          short_id?: string;
+          name?: string;
+          description?: string | null;
+          is_public?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'collections_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      tags: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'tags_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      screenshot_tags: {
+        Row: {
+          screenshot_id: string;
+          tag_id: string;
+          created_at: string;
+        };
+        Insert: {
+          screenshot_id: string;
+          tag_id: string;
+          created_at?: string;
+        };
+        Update: {
+          screenshot_id?: string;
+          tag_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'screenshot_tags_screenshot_id_fkey';
+            columns: ['screenshot_id'];
+            referencedRelation: 'screenshots';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'screenshot_tags_tag_id_fkey';
+            columns: ['tag_id'];
+            referencedRelation: 'tags';
+            referencedColumns: ['id'];
           }
         ];
       };
@@ -152,6 +309,206 @@ export type Database = {
           }
         ];
       };
+      data_exports: {
+        Row: {
+          id: string;
+          user_id: string;
+          status: 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+          storage_path: string | null;
+          file_size: number | null;
+          error: string | null;
+          attempts: number;
+          started_at: string | null;
+          completed_at: string | null;
+          expires_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          status?: 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+          storage_path?: string | null;
+          file_size?: number | null;
+          error?: string | null;
+          attempts?: number;
+          started_at?: string | null;
+          completed_at?: string | null;
+          expires_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          status?: 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+          storage_path?: string | null;
+          file_size?: number | null;
+          error?: string | null;
+          attempts?: number;
+          started_at?: string | null;
+          completed_at?: string | null;
+          expires_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'data_exports_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      api_keys: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          key_prefix: string;
+          key_hash: string;
+          scopes: string[] | null;
+          last_used_at: string | null;
+          revoked_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          key_prefix: string;
+          key_hash: string;
+          scopes?: string[] | null;
+          last_used_at?: string | null;
+          revoked_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          key_prefix?: string;
+          key_hash?: string;
+          scopes?: string[] | null;
+          last_used_at?: string | null;
+          revoked_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'api_keys_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      teams: {
+        Row: {
+          id: string;
+          owner_id: string;
+          name: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          owner_id: string;
+          name: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          owner_id?: string;
+          name?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'teams_owner_id_fkey';
+            columns: ['owner_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      team_members: {
+        Row: {
+          team_id: string;
+          user_id: string;
+          role: 'owner' | 'admin' | 'member' | 'viewer';
+          created_at: string;
+        };
+        Insert: {
+          team_id: string;
+          user_id: string;
+          role?: 'owner' | 'admin' | 'member' | 'viewer';
+          created_at?: string;
+        };
+        Update: {
+          team_id?: string;
+          user_id?: string;
+          role?: 'owner' | 'admin' | 'member' | 'viewer';
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'team_members_team_id_fkey';
+            columns: ['team_id'];
+            referencedRelation: 'teams';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'team_members_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      team_invites: {
+        Row: {
+          id: string;
+          team_id: string;
+          email: string;
+          role: 'admin' | 'member' | 'viewer';
+          invited_by: string | null;
+          expires_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          team_id: string;
+          email: string;
+          role?: 'admin' | 'member' | 'viewer';
+          invited_by?: string | null;
+          expires_at: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          team_id?: string;
+          email?: string;
+          role?: 'admin' | 'member' | 'viewer';
+          invited_by?: string | null;
+          expires_at?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'team_invites_team_id_fkey';
+            columns: ['team_id'];
+            referencedRelation: 'teams';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'team_invites_invited_by_fkey';
+            columns: ['invited_by'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
       stripe_events: {
         Row: {
           id: string;
@@ -172,7 +529,126 @@ export type Database = {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      increment_bandwidth: {
+        Args: {
+          p_user_id: string;
+          p_month: string;
+          p_bytes: number;
+        };
+        Returns: undefined;
+      };
+      record_screenshot_view: {
+        Args: {
+          p_screenshot_id: string;
+        };
+        Returns: number | null;
+      };
+      set_screenshot_tags: {
+        Args: {
+          p_user_id: string;
+          p_screenshot_id: string;
+          p_tags: string[];
+        };
+        Returns: string[];
+      };
+      add_screenshot_tags: {
+        Args: {
+          p_user_id: string;
+          p_screenshot_ids: string[];
+          p_tags: string[];
+        };
+        Returns: undefined;
+      };
+      remove_screenshot_tags: {
+        Args: {
+          p_user_id: string;
+          p_screenshot_ids: string[];
+          p_tags: string[];
+        };
+        Returns: undefined;
+      };
+      claim_ocr_batch: {
+        Args: {
+          p_limit: number;
+          p_max_attempts: number;
+          p_stale_after?: string;
+        };
+        Returns: {
+          id: string;
+          storage_path: string;
+          password_hash: string | null;
+          max_views: number | null;
+          ocr_attempts: number;
+        }[];
+      };
+      claim_data_export_batch: {
+        Args: {
+          p_limit: number;
+          p_max_attempts: number;
+          p_stale_after?: string;
+        };
+        Returns: {
+          id: string;
+          user_id: string;
+          attempts: number;
+        }[];
+      };
+      search_screenshots: {
+        Args: {
+          p_query: string;
+        };
+        Returns: Database['public']['Tables']['screenshots']['Row'][];
+        SetofOptions: {
+          from: '*';
+          to: 'screenshots';
+          isOneToOne: false;
+          isSetofReturn: true;
+        };
+      };
+      screenshot_search_snippets: {
+        Args: {
+          p_query: string;
+          p_screenshot_ids: string[];
+        };
+        Returns: {
+          id: string;
+          rank: number;
+          snippet: string | null;
+        }[];
+      };
+      is_team_member: {
+        Args: {
+          p_team_id: string;
+        };
+        Returns: boolean;
+      };
+      get_team_role: {
+        Args: {
+          p_team_id: string;
+        };
+        Returns: string | null;
+      };
+      has_team_permission: {
+        Args: {
+          p_team_id: string;
+          p_permission: string;
+        };
+        Returns: boolean;
+      };
+      decrement_storage_usage: {
+        Args: {
+          p_user_id: string;
+          p_month: string;
+          p_bytes: number;
+        };
+        Returns: undefined;
+      };
+      count_team_seats_used: {
+        Args: {
+          p_owner_id: string;
+        };
+        Returns: number;
+      };
     };
     Enums: {
       [_ in never]: never;
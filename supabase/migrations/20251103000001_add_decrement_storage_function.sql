@@ -0,0 +1,22 @@
+-- Function to atomically decrement storage usage
+-- Called when screenshots are removed by the expiry cleanup job
+CREATE OR REPLACE FUNCTION decrement_storage_usage(
+  p_user_id UUID,
+  p_month TEXT,
+  p_bytes BIGINT
+)
+RETURNS void AS $$
+BEGIN
+  -- Never let storage_bytes drop below zero
+  UPDATE monthly_usage
+  SET storage_bytes = GREATEST(storage_bytes - p_bytes, 0)
+  WHERE user_id = p_user_id
+    AND month = p_month;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+-- Only the service role (cron jobs) may release storage
+REVOKE EXECUTE ON FUNCTION decrement_storage_usage(UUID, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION decrement_storage_usage(UUID, TEXT, BIGINT) TO service_role;
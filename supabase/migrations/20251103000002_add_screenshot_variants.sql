@@ -0,0 +1,10 @@
+-- Thumbnail and responsive image variants generated after upload
+-- variants: [{ "width": 640, "height": 360, "format": "webp", "path": "...", "size": 12345 }]
+ALTER TABLE screenshots
+  ADD COLUMN thumbnail_path TEXT,
+  ADD COLUMN variants JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Allow AVIF variants in the screenshots bucket
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['image/png', 'image/jpeg', 'image/jpg', 'image/webp', 'image/gif', 'image/avif']
+WHERE id = 'screenshots';
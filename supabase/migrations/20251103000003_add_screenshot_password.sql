@@ -0,0 +1,28 @@
+-- Optional password protection for share links
+-- Stores an scrypt hash ("scrypt$<salt>$<key>"), never the password itself
+ALTER TABLE screenshots
+  ADD COLUMN password_hash TEXT;
+
+-- Share links are resolved by the API with the service role, so clients only ever read their
+-- own rows; other users' public screenshots would otherwise expose password_hash and storage_path
+DROP POLICY "Users can view own screenshots" ON screenshots;
+CREATE POLICY "Users can view own screenshots" ON screenshots FOR SELECT
+  USING ((select auth.uid()) = user_id);
+
+-- Listing the public bucket would reveal every object path; public URLs don't need this policy
+DROP POLICY "Public can view screenshots" ON storage.objects;
+
+-- Private bucket for password-protected screenshots (original, thumbnail and variants)
+-- Objects are moved here when a password is set and only served through short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'protected-screenshots',
+  'protected-screenshots',
+  false,
+  NULL, -- project upload limit
+  ARRAY['image/png', 'image/jpeg', 'image/jpg', 'image/webp', 'image/gif', 'image/avif']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
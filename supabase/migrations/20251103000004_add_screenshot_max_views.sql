@@ -0,0 +1,39 @@
+-- Self-destructing share links (burn-after-reading = max_views 1)
+-- Their files are kept in the private protected-screenshots bucket (like password-protected ones),
+-- so the original, thumbnail and variants can't be fetched directly after the last view
+ALTER TABLE screenshots
+  ADD COLUMN max_views INTEGER CHECK (max_views IS NULL OR max_views > 0);
+
+-- Function to atomically record a view of a public screenshot
+-- Replaces the read-then-write "views + 1" update, which could exceed max_views under concurrency
+-- Returns the new view count, or NULL if the screenshot is missing, expired or out of views
+-- The final allowed view tombstones the row (expires_at = now()) so later requests get 410 Gone
+-- and the cleanup-expired cron job removes the row and its storage objects
+CREATE OR REPLACE FUNCTION record_screenshot_view(
+  p_screenshot_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_views INTEGER;
+BEGIN
+  UPDATE screenshots
+  SET
+    views = views + 1,
+    expires_at = CASE
+      WHEN max_views IS NOT NULL AND views + 1 >= max_views THEN now()
+      ELSE expires_at
+    END
+  WHERE id = p_screenshot_id
+    AND (max_views IS NULL OR views < max_views)
+    AND (expires_at IS NULL OR expires_at > now())
+  RETURNING views INTO v_views;
+
+  RETURN v_views;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+-- Only the service role (public viewer routes) may record views
+REVOKE EXECUTE ON FUNCTION record_screenshot_view(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_screenshot_view(UUID) TO service_role;
@@ -0,0 +1,31 @@
+-- Collections (folders) for organizing screenshots
+-- Public collections are shared as a gallery at /c/[short_id]
+CREATE TABLE collections (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  short_id TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  description TEXT CHECK (description IS NULL OR char_length(description) <= 500),
+  is_public BOOLEAN DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- A screenshot belongs to at most one collection; deleting the collection keeps its screenshots
+ALTER TABLE screenshots
+  ADD COLUMN collection_id UUID REFERENCES collections(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_collections_user_created ON collections(user_id, created_at DESC);
+CREATE INDEX idx_screenshots_collection_created ON screenshots(collection_id, created_at DESC)
+  WHERE collection_id IS NOT NULL;
+
+-- Owners manage their collections; public galleries are served with the service role
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own collections" ON collections FOR SELECT USING ((select auth.uid()) = user_id);
+CREATE POLICY "Users can insert own collections" ON collections FOR INSERT WITH CHECK ((select auth.uid()) = user_id);
+CREATE POLICY "Users can update own collections" ON collections FOR UPDATE USING ((select auth.uid()) = user_id);
+CREATE POLICY "Users can delete own collections" ON collections FOR DELETE USING ((select auth.uid()) = user_id);
+
+CREATE TRIGGER update_collections_updated_at BEFORE UPDATE ON collections
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,113 @@
+-- Free-form tags on screenshots
+-- Tag names are normalized (trimmed, lowercase) by the API and unique per user
+CREATE TABLE tags (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+CREATE TABLE screenshot_tags (
+  screenshot_id UUID REFERENCES screenshots(id) ON DELETE CASCADE NOT NULL,
+  tag_id UUID REFERENCES tags(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (screenshot_id, tag_id)
+);
+
+CREATE INDEX idx_screenshot_tags_tag ON screenshot_tags(tag_id);
+
+-- Denormalized tag names for list responses and tag filters (tags @> / && with a GIN index)
+-- Maintained by the screenshot_tags trigger below - never written directly
+ALTER TABLE screenshots
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_screenshots_tags ON screenshots USING GIN (tags);
+
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE screenshot_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tags" ON tags FOR SELECT USING ((select auth.uid()) = user_id);
+CREATE POLICY "Users can delete own tags" ON tags FOR DELETE USING ((select auth.uid()) = user_id);
+
+CREATE POLICY "Users can view own screenshot tags" ON screenshot_tags FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM screenshots
+    WHERE screenshots.id = screenshot_tags.screenshot_id
+      AND screenshots.user_id = (select auth.uid())
+  )
+);
+
+-- Keep screenshots.tags in sync and drop tags that are no longer used
+CREATE OR REPLACE FUNCTION sync_screenshot_tags()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_screenshot_id UUID := COALESCE(NEW.screenshot_id, OLD.screenshot_id);
+BEGIN
+  UPDATE screenshots
+  SET tags = COALESCE(
+    (
+      SELECT array_agg(t.name ORDER BY t.name)
+      FROM screenshot_tags st
+      JOIN tags t ON t.id = st.tag_id
+      WHERE st.screenshot_id = v_screenshot_id
+    ),
+    '{}'
+  )
+  WHERE id = v_screenshot_id;
+
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM tags
+    WHERE id = OLD.tag_id
+      AND NOT EXISTS (SELECT 1 FROM screenshot_tags WHERE tag_id = OLD.tag_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+CREATE TRIGGER sync_screenshot_tags AFTER INSERT OR DELETE ON screenshot_tags
+  FOR EACH ROW EXECUTE FUNCTION sync_screenshot_tags();
+
+-- Function to atomically replace a screenshot's tags
+-- Creates missing tags for the user, links/unlinks the screenshot and returns the resulting tag names
+-- Callers must verify the screenshot belongs to p_user_id
+CREATE OR REPLACE FUNCTION set_screenshot_tags(
+  p_user_id UUID,
+  p_screenshot_id UUID,
+  p_tags TEXT[]
+)
+RETURNS TEXT[] AS $$
+DECLARE
+  v_tags TEXT[];
+BEGIN
+  INSERT INTO tags (user_id, name)
+  SELECT p_user_id, name FROM unnest(p_tags) AS name
+  ON CONFLICT (user_id, name) DO NOTHING;
+
+  DELETE FROM screenshot_tags st
+  USING tags t
+  WHERE st.tag_id = t.id
+    AND st.screenshot_id = p_screenshot_id
+    AND NOT (t.name = ANY(p_tags));
+
+  INSERT INTO screenshot_tags (screenshot_id, tag_id)
+  SELECT p_screenshot_id, t.id
+  FROM tags t
+  WHERE t.user_id = p_user_id
+    AND t.name = ANY(p_tags)
+  ON CONFLICT DO NOTHING;
+
+  SELECT tags INTO v_tags FROM screenshots WHERE id = p_screenshot_id;
+
+  RETURN v_tags;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+-- Only the service role (API routes, after checking ownership) may set tags
+REVOKE EXECUTE ON FUNCTION set_screenshot_tags(UUID, UUID, TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_screenshot_tags(UUID, UUID, TEXT[]) TO service_role;
@@ -0,0 +1,110 @@
+-- OCR text extraction and full-text search over screenshot contents
+-- New (and existing) screenshots start as 'pending' and are processed by the process-ocr cron job
+-- ocr_text can hold anything visible in the image, so only the owner and their teams can read it:
+-- RLS has no public read on screenshots and share links are resolved without it (or search_vector)
+ALTER TABLE screenshots
+  ADD COLUMN ocr_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (ocr_status IN ('pending', 'processing', 'completed', 'failed')),
+  ADD COLUMN ocr_text TEXT,
+  ADD COLUMN ocr_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN ocr_started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN ocr_completed_at TIMESTAMP WITH TIME ZONE;
+
+-- Search document: filename (weight A) and extracted text (weight B)
+ALTER TABLE screenshots
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(original_filename, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(ocr_text, '')), 'B')
+  ) STORED;
+
+CREATE INDEX idx_screenshots_search ON screenshots USING GIN (search_vector);
+CREATE INDEX idx_screenshots_ocr_queue ON screenshots(created_at)
+  WHERE ocr_status IN ('pending', 'processing');
+
+-- Function to claim a batch of screenshots for OCR
+-- Rows locked by a concurrent run are skipped; rows stuck in 'processing' (crashed run) are
+-- retried after p_stale_after, or marked failed once they have used all their attempts
+CREATE OR REPLACE FUNCTION claim_ocr_batch(
+  p_limit INTEGER,
+  p_max_attempts INTEGER,
+  p_stale_after INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS TABLE (
+  id UUID,
+  storage_path TEXT,
+  password_hash TEXT,
+  max_views INTEGER,
+  ocr_attempts INTEGER
+) AS $$
+#variable_conflict use_column
+BEGIN
+  UPDATE screenshots
+  SET ocr_status = 'failed'
+  WHERE ocr_status = 'processing'
+    AND ocr_started_at < now() - p_stale_after
+    AND ocr_attempts >= p_max_attempts;
+
+  RETURN QUERY
+  UPDATE screenshots s
+  SET
+    ocr_status = 'processing',
+    ocr_started_at = now(),
+    ocr_attempts = s.ocr_attempts + 1
+  WHERE s.id IN (
+    SELECT c.id
+    FROM screenshots c
+    WHERE c.ocr_status = 'pending'
+       OR (c.ocr_status = 'processing' AND c.ocr_started_at < now() - p_stale_after)
+    ORDER BY c.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING s.id, s.storage_path, s.password_hash, s.max_views, s.ocr_attempts;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+-- Only the service role (cron jobs) may claim OCR work
+REVOKE EXECUTE ON FUNCTION claim_ocr_batch(INTEGER, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_ocr_batch(INTEGER, INTEGER, INTERVAL) TO service_role;
+
+-- Full-text search over the caller's screenshots, best match first
+-- Runs with the caller's permissions (RLS applies); PostgREST filters, count and range
+-- can be chained onto the result like a regular screenshots query
+CREATE OR REPLACE FUNCTION search_screenshots(
+  p_query TEXT
+)
+RETURNS SETOF screenshots AS $$
+  SELECT s.*
+  FROM screenshots s, websearch_to_tsquery('english', p_query) q
+  WHERE s.search_vector @@ q
+  ORDER BY ts_rank_cd(s.search_vector, q) DESC, s.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_screenshots(TEXT) TO authenticated;
+
+-- Rank and highlighted snippet for a page of search results
+-- The text is HTML-escaped before highlighting, so snippets are safe to render with their <mark> tags
+CREATE OR REPLACE FUNCTION screenshot_search_snippets(
+  p_query TEXT,
+  p_screenshot_ids UUID[]
+)
+RETURNS TABLE (id UUID, rank REAL, snippet TEXT) AS $$
+  SELECT
+    s.id,
+    ts_rank_cd(s.search_vector, q),
+    NULLIF(
+      ts_headline(
+        'english',
+        replace(replace(replace(coalesce(s.ocr_text, ''), '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+        q,
+        'StartSel=<mark>, StopSel=</mark>, MinWords=5, MaxWords=20, MaxFragments=2, FragmentDelimiter=" … "'
+      ),
+      ''
+    )
+  FROM screenshots s, websearch_to_tsquery('english', p_query) q
+  WHERE s.id = ANY(p_screenshot_ids);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION screenshot_search_snippets(TEXT, UUID[]) TO authenticated;
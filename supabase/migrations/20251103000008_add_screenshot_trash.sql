@@ -0,0 +1,81 @@
+-- Restorable trash for deleted screenshots
+-- DELETE /api/screenshots/[id] sets deleted_at instead of removing the row; trashed screenshots are
+-- hidden from listings and share links until restored, and the cleanup-expired cron job purges
+-- them (storage objects + row) once the retention window has passed
+ALTER TABLE screenshots
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_screenshots_trash ON screenshots(user_id, deleted_at DESC)
+  WHERE deleted_at IS NOT NULL;
+
+-- Trashed screenshots can't be viewed, so they don't count views either
+CREATE OR REPLACE FUNCTION record_screenshot_view(
+  p_screenshot_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_views INTEGER;
+BEGIN
+  UPDATE screenshots
+  SET
+    views = views + 1,
+    expires_at = CASE
+      WHEN max_views IS NOT NULL AND views + 1 >= max_views THEN now()
+      ELSE expires_at
+    END
+  WHERE id = p_screenshot_id
+    AND deleted_at IS NULL
+    AND (max_views IS NULL OR views < max_views)
+    AND (expires_at IS NULL OR expires_at > now())
+  RETURNING views INTO v_views;
+
+  RETURN v_views;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+-- Trashed screenshots don't need text extraction until they are restored
+CREATE OR REPLACE FUNCTION claim_ocr_batch(
+  p_limit INTEGER,
+  p_max_attempts INTEGER,
+  p_stale_after INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS TABLE (
+  id UUID,
+  storage_path TEXT,
+  password_hash TEXT,
+  max_views INTEGER,
+  ocr_attempts INTEGER
+) AS $$
+#variable_conflict use_column
+BEGIN
+  UPDATE screenshots
+  SET ocr_status = 'failed'
+  WHERE ocr_status = 'processing'
+    AND ocr_started_at < now() - p_stale_after
+    AND ocr_attempts >= p_max_attempts;
+
+  RETURN QUERY
+  UPDATE screenshots s
+  SET
+    ocr_status = 'processing',
+    ocr_started_at = now(),
+    ocr_attempts = s.ocr_attempts + 1
+  WHERE s.id IN (
+    SELECT c.id
+    FROM screenshots c
+    WHERE c.deleted_at IS NULL
+      AND (
+        c.ocr_status = 'pending'
+        OR (c.ocr_status = 'processing' AND c.ocr_started_at < now() - p_stale_after)
+      )
+    ORDER BY c.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING s.id, s.storage_path, s.password_hash, s.max_views, s.ocr_attempts;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
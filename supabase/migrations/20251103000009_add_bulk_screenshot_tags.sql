@@ -0,0 +1,52 @@
+-- Add or remove tags on many screenshots at once (POST /api/screenshots/bulk)
+-- screenshots.tags and unused tag cleanup are handled by the sync_screenshot_tags trigger
+-- Screenshots that don't belong to p_user_id are skipped
+
+CREATE OR REPLACE FUNCTION add_screenshot_tags(
+  p_user_id UUID,
+  p_screenshot_ids UUID[],
+  p_tags TEXT[]
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO tags (user_id, name)
+  SELECT p_user_id, name FROM unnest(p_tags) AS name
+  ON CONFLICT (user_id, name) DO NOTHING;
+
+  INSERT INTO screenshot_tags (screenshot_id, tag_id)
+  SELECT s.id, t.id
+  FROM screenshots s
+  JOIN tags t ON t.user_id = p_user_id AND t.name = ANY(p_tags)
+  WHERE s.id = ANY(p_screenshot_ids)
+    AND s.user_id = p_user_id
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+CREATE OR REPLACE FUNCTION remove_screenshot_tags(
+  p_user_id UUID,
+  p_screenshot_ids UUID[],
+  p_tags TEXT[]
+)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM screenshot_tags st
+  USING tags t, screenshots s
+  WHERE st.tag_id = t.id
+    AND st.screenshot_id = s.id
+    AND s.id = ANY(p_screenshot_ids)
+    AND s.user_id = p_user_id
+    AND t.user_id = p_user_id
+    AND t.name = ANY(p_tags);
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+-- Only the service role (API routes) may change tags
+REVOKE EXECUTE ON FUNCTION add_screenshot_tags(UUID, UUID[], TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION add_screenshot_tags(UUID, UUID[], TEXT[]) TO service_role;
+REVOKE EXECUTE ON FUNCTION remove_screenshot_tags(UUID, UUID[], TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION remove_screenshot_tags(UUID, UUID[], TEXT[]) TO service_role;
@@ -0,0 +1,8 @@
+-- Keyset pagination for GET /api/screenshots: every sort option is (sort column, id) per user
+-- B-tree indexes are scanned backwards for descending order
+DROP INDEX IF EXISTS idx_screenshots_user_created;
+CREATE INDEX idx_screenshots_user_created ON screenshots(user_id, created_at DESC, id DESC);
+
+CREATE INDEX idx_screenshots_user_views ON screenshots(user_id, views, id);
+CREATE INDEX idx_screenshots_user_file_size ON screenshots(user_id, file_size, id);
+CREATE INDEX idx_screenshots_user_filename ON screenshots(user_id, original_filename, id);
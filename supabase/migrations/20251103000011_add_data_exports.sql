@@ -0,0 +1,87 @@
+-- GDPR data exports (right of access / data portability)
+-- Requested with POST /api/auth/export and built by the process-exports cron job
+CREATE TABLE data_exports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'expired')),
+  storage_path TEXT,
+  file_size BIGINT,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_data_exports_user_created ON data_exports(user_id, created_at DESC);
+CREATE INDEX idx_data_exports_queue ON data_exports(created_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX idx_data_exports_expires ON data_exports(expires_at)
+  WHERE status = 'completed';
+
+-- At most one export in progress per user
+CREATE UNIQUE INDEX idx_data_exports_one_active ON data_exports(user_id)
+  WHERE status IN ('pending', 'processing');
+
+-- Users can see their exports; requests and processing go through the service role
+ALTER TABLE data_exports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own exports" ON data_exports FOR SELECT USING ((select auth.uid()) = user_id);
+
+-- Private bucket for export archives (downloaded through signed URLs only)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'exports',
+  'exports',
+  false,
+  NULL, -- project upload limit
+  ARRAY['application/zip']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Function to claim a batch of exports for processing
+-- Same queue semantics as claim_ocr_batch: locked rows are skipped and exports stuck in
+-- 'processing' are retried after p_stale_after or failed once they have used all their attempts
+CREATE OR REPLACE FUNCTION claim_data_export_batch(
+  p_limit INTEGER,
+  p_max_attempts INTEGER,
+  p_stale_after INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS TABLE (id UUID, user_id UUID, attempts INTEGER) AS $$
+#variable_conflict use_column
+BEGIN
+  UPDATE data_exports
+  SET status = 'failed', error = 'Export timed out'
+  WHERE status = 'processing'
+    AND started_at < now() - p_stale_after
+    AND attempts >= p_max_attempts;
+
+  RETURN QUERY
+  UPDATE data_exports e
+  SET
+    status = 'processing',
+    started_at = now(),
+    attempts = e.attempts + 1
+  WHERE e.id IN (
+    SELECT c.id
+    FROM data_exports c
+    WHERE c.status = 'pending'
+       OR (c.status = 'processing' AND c.started_at < now() - p_stale_after)
+    ORDER BY c.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING e.id, e.user_id, e.attempts;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+-- Only the service role (cron jobs) may claim export work
+REVOKE EXECUTE ON FUNCTION claim_data_export_batch(INTEGER, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_data_export_batch(INTEGER, INTEGER, INTERVAL) TO service_role;
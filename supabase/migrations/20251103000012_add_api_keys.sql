@@ -0,0 +1,23 @@
+-- Personal API keys for scripts and CI (Authorization: Bearer snappd_sk_...)
+-- Only a SHA-256 hash of the key is stored; key_prefix identifies the key in listings
+CREATE TABLE api_keys (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT UNIQUE NOT NULL,
+  scopes TEXT[], -- NULL = full access
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_api_keys_user_created ON api_keys(user_id, created_at DESC)
+  WHERE revoked_at IS NULL;
+
+-- Owners create, list and revoke their keys; keys are resolved with the service role
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own api keys" ON api_keys FOR SELECT USING ((select auth.uid()) = user_id);
+CREATE POLICY "Users can insert own api keys" ON api_keys FOR INSERT WITH CHECK ((select auth.uid()) = user_id);
+CREATE POLICY "Users can update own api keys" ON api_keys FOR UPDATE USING ((select auth.uid()) = user_id);
@@ -0,0 +1,121 @@
+-- Team workspaces (team plan)
+-- A team has one owner (the member who created it) and a shared screenshot library:
+-- screenshots with a team_id are visible to every member of that team
+CREATE TABLE teams (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE team_members (
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (team_id, user_id)
+);
+
+-- Pending invites (deleted once accepted); the invitee accepts while signed in with the invited email
+CREATE TABLE team_invites (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL,
+  invited_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (team_id, email)
+);
+
+-- Shared into a team library; deleting the team returns screenshots to their uploader's library
+ALTER TABLE screenshots
+  ADD COLUMN team_id UUID REFERENCES teams(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_teams_owner ON teams(owner_id);
+CREATE INDEX idx_team_members_user ON team_members(user_id);
+CREATE INDEX idx_team_invites_email ON team_invites(email);
+CREATE INDEX idx_screenshots_team_created ON screenshots(team_id, created_at DESC)
+  WHERE team_id IS NOT NULL;
+
+CREATE TRIGGER update_teams_updated_at BEFORE UPDATE ON teams
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The creator becomes the owner member in the same transaction
+CREATE OR REPLACE FUNCTION add_team_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO team_members (team_id, user_id, role)
+  VALUES (NEW.id, NEW.owner_id, 'owner');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+CREATE TRIGGER add_team_owner_after_insert AFTER INSERT ON teams
+  FOR EACH ROW EXECUTE FUNCTION add_team_owner();
+
+-- Screenshots stay with their uploader: leaving a team takes them out of its library
+CREATE OR REPLACE FUNCTION remove_member_screenshots_from_team()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE screenshots
+  SET team_id = NULL
+  WHERE team_id = OLD.team_id AND user_id = OLD.user_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+CREATE TRIGGER remove_member_screenshots_after_delete AFTER DELETE ON team_members
+  FOR EACH ROW EXECUTE FUNCTION remove_member_screenshots_from_team();
+
+-- Membership check for RLS policies
+-- SECURITY DEFINER so policies on team_members can use it without recursing into themselves
+CREATE OR REPLACE FUNCTION is_team_member(p_team_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM team_members
+    WHERE team_id = p_team_id AND user_id = (select auth.uid())
+  );
+$$ LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_team_member(UUID) TO authenticated;
+
+-- Members see their teams, each other and pending invites.
+-- Creating teams, inviting and joining (accepting an invite) go through the service role, after the
+-- API has checked the plan, the inviter and the invited email
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their teams" ON teams FOR SELECT
+  USING ((select auth.uid()) = owner_id OR is_team_member(id));
+CREATE POLICY "Owners can update their teams" ON teams FOR UPDATE
+  USING ((select auth.uid()) = owner_id);
+
+CREATE POLICY "Members can view team members" ON team_members FOR SELECT
+  USING (is_team_member(team_id));
+CREATE POLICY "Members can leave teams" ON team_members FOR DELETE
+  USING ((select auth.uid()) = user_id AND role <> 'owner');
+
+CREATE POLICY "Members can view team invites" ON team_invites FOR SELECT
+  USING (is_team_member(team_id));
+
+-- Team libraries: members can view team screenshots; uploaders keep managing their own
+-- and can only share into teams they belong to
+CREATE POLICY "Members can view team screenshots" ON screenshots FOR SELECT
+  USING (team_id IS NOT NULL AND is_team_member(team_id));
+
+DROP POLICY "Users can insert own screenshots" ON screenshots;
+CREATE POLICY "Users can insert own screenshots" ON screenshots FOR INSERT
+  WITH CHECK ((select auth.uid()) = user_id AND (team_id IS NULL OR is_team_member(team_id)));
+
+DROP POLICY "Users can update own screenshots" ON screenshots;
+CREATE POLICY "Users can update own screenshots" ON screenshots FOR UPDATE
+  USING ((select auth.uid()) = user_id)
+  WITH CHECK ((select auth.uid()) = user_id AND (team_id IS NULL OR is_team_member(team_id)));
@@ -0,0 +1,130 @@
+-- Team roles: owner > admin > member > viewer
+-- Mirrors src/lib/permissions.ts so the user client can't do more than the API allows
+ALTER TABLE team_members DROP CONSTRAINT team_members_role_check;
+ALTER TABLE team_members
+  ADD CONSTRAINT team_members_role_check CHECK (role IN ('owner', 'admin', 'member', 'viewer'));
+
+-- Role the invitee joins with (there is only ever one owner)
+ALTER TABLE team_invites
+  ADD COLUMN role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member', 'viewer'));
+
+-- Permission matrix (keep in sync with TEAM_ROLE_PERMISSIONS)
+CREATE OR REPLACE FUNCTION team_role_has_permission(p_role TEXT, p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT CASE p_permission
+    WHEN 'screenshots:share' THEN p_role IN ('owner', 'admin', 'member')
+    WHEN 'screenshots:visibility' THEN p_role IN ('owner', 'admin')
+    WHEN 'screenshots:delete' THEN p_role IN ('owner', 'admin')
+    WHEN 'members:invite' THEN p_role IN ('owner', 'admin')
+    WHEN 'members:manage' THEN p_role IN ('owner', 'admin')
+    WHEN 'billing:manage' THEN p_role IN ('owner', 'admin')
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Members can only invite, promote, demote or remove roles ranked below their own
+CREATE OR REPLACE FUNCTION team_role_rank(p_role TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE p_role
+    WHEN 'owner' THEN 3
+    WHEN 'admin' THEN 2
+    WHEN 'member' THEN 1
+    WHEN 'viewer' THEN 0
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Caller's role in a team (NULL if not a member)
+CREATE OR REPLACE FUNCTION get_team_role(p_team_id UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM team_members
+  WHERE team_id = p_team_id AND user_id = (select auth.uid());
+$$ LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_team_permission(p_team_id UUID, p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT coalesce(team_role_has_permission(get_team_role(p_team_id), p_permission), false);
+$$ LANGUAGE sql STABLE
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_team_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION has_team_permission(UUID, TEXT) TO authenticated;
+
+-- Membership changes (invites are created by the API with the service role, after the seat check)
+CREATE POLICY "Managers can change lower roles" ON team_members FOR UPDATE
+  USING (
+    has_team_permission(team_id, 'members:manage')
+    AND team_role_rank(role) < team_role_rank(get_team_role(team_id))
+  )
+  WITH CHECK (
+    has_team_permission(team_id, 'members:manage')
+    AND team_role_rank(role) < team_role_rank(get_team_role(team_id))
+  );
+CREATE POLICY "Managers can remove lower roles" ON team_members FOR DELETE
+  USING (
+    has_team_permission(team_id, 'members:manage')
+    AND team_role_rank(role) < team_role_rank(get_team_role(team_id))
+  );
+
+-- Team screenshots: uploading into a team needs screenshots:share; managers can change the
+-- visibility of other members' screenshots or move them to the uploader's trash
+DROP POLICY "Users can insert own screenshots" ON screenshots;
+CREATE POLICY "Users can insert own screenshots" ON screenshots FOR INSERT
+  WITH CHECK (
+    (select auth.uid()) = user_id
+    AND (team_id IS NULL OR has_team_permission(team_id, 'screenshots:share'))
+  );
+
+CREATE POLICY "Managers can moderate team screenshots" ON screenshots FOR UPDATE
+  USING (
+    team_id IS NOT NULL
+    AND (
+      has_team_permission(team_id, 'screenshots:visibility')
+      OR has_team_permission(team_id, 'screenshots:delete')
+    )
+  );
+
+-- RLS can't compare old and new values, so column-level rules for updates live in a trigger
+CREATE OR REPLACE FUNCTION enforce_team_screenshot_permissions()
+RETURNS TRIGGER AS $$
+DECLARE
+  moderated_columns TEXT[] := ARRAY['is_public', 'deleted_at', 'updated_at', 'search_vector'];
+BEGIN
+  -- The service role and SECURITY DEFINER cleanup (e.g. removing a member) are trusted
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Sharing into a team (a member demoted to viewer can still edit screenshots already shared)
+  IF NEW.team_id IS DISTINCT FROM OLD.team_id AND NEW.team_id IS NOT NULL
+     AND NOT has_team_permission(NEW.team_id, 'screenshots:share') THEN
+    RAISE EXCEPTION 'Not allowed to share screenshots with this team' USING ERRCODE = '42501';
+  END IF;
+
+  IF (select auth.uid()) = OLD.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  -- Another member's screenshot: only visibility and trashing, each with its own permission
+  IF (to_jsonb(NEW) - moderated_columns) IS DISTINCT FROM (to_jsonb(OLD) - moderated_columns) THEN
+    RAISE EXCEPTION 'Only the uploader can edit this screenshot' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.is_public IS DISTINCT FROM OLD.is_public
+     AND NOT has_team_permission(OLD.team_id, 'screenshots:visibility') THEN
+    RAISE EXCEPTION 'Not allowed to change the visibility of this screenshot' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+     AND (NEW.deleted_at IS NULL OR NOT has_team_permission(OLD.team_id, 'screenshots:delete')) THEN
+    RAISE EXCEPTION 'Not allowed to delete this screenshot' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+CREATE TRIGGER enforce_team_screenshot_permissions BEFORE UPDATE ON screenshots
+  FOR EACH ROW EXECUTE FUNCTION enforce_team_screenshot_permissions();
@@ -0,0 +1,61 @@
+-- Seats paid for on the owner's team subscription (the Stripe quantity)
+-- NULL unless the owner is on the team plan; kept in sync by the billing webhook
+ALTER TABLE profiles
+  ADD COLUMN team_seats INTEGER CHECK (team_seats > 0);
+
+-- Rejects client (authenticated role) updates to the columns passed as trigger arguments,
+-- for columns that owner UPDATE policies would otherwise let users write
+CREATE OR REPLACE FUNCTION prevent_client_column_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_column TEXT;
+BEGIN
+  -- The service role and SECURITY DEFINER functions (webhooks, usage triggers) are trusted
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  FOREACH v_column IN ARRAY TG_ARGV LOOP
+    IF to_jsonb(NEW) -> v_column IS DISTINCT FROM to_jsonb(OLD) -> v_column THEN
+      RAISE EXCEPTION 'Column % cannot be changed', v_column USING ERRCODE = '42501';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+-- "Users can update own profile" covers every column; the plan, its seats and the Stripe link
+-- only change through billing (a writable plan would make the seat limit meaningless)
+CREATE TRIGGER protect_profile_billing_columns BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION prevent_client_column_changes(
+    'plan', 'team_seats', 'stripe_customer_id', 'stripe_subscription_id', 'downgraded_at'
+  );
+
+-- Seats an owner's teams use: the owner, every distinct member across their teams
+-- and every unexpired invite (pending invites reserve a seat)
+CREATE OR REPLACE FUNCTION count_team_seats_used(p_owner_id UUID)
+RETURNS INTEGER AS $$
+  SELECT 1
+    + (
+      SELECT count(DISTINCT tm.user_id)::INTEGER
+      FROM team_members tm
+      JOIN teams t ON t.id = tm.team_id
+      WHERE t.owner_id = p_owner_id
+        AND tm.user_id <> p_owner_id
+    )
+    + (
+      SELECT count(*)::INTEGER
+      FROM team_invites ti
+      JOIN teams t ON t.id = ti.team_id
+      WHERE t.owner_id = p_owner_id
+        AND ti.expires_at > now()
+    );
+$$ LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public;
+
+-- Only the service role (invites and billing) counts seats
+REVOKE EXECUTE ON FUNCTION count_team_seats_used(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION count_team_seats_used(UUID) TO service_role;
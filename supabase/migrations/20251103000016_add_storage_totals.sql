@@ -0,0 +1,48 @@
+-- Total bytes a user currently stores (originals, including screenshots in the trash)
+-- monthly_usage.storage_bytes only records what was uploaded each month; this is the running total
+-- checked against the plan's storage quota
+ALTER TABLE profiles
+  ADD COLUMN storage_bytes BIGINT NOT NULL DEFAULT 0 CHECK (storage_bytes >= 0);
+
+UPDATE profiles
+SET storage_bytes = (
+  SELECT coalesce(sum(file_size), 0) FROM screenshots WHERE screenshots.user_id = profiles.id
+);
+
+-- Kept in sync on every insert and delete, so uploads, permanent deletes, trash purges and
+-- expiry cleanup all count without each route having to remember
+CREATE OR REPLACE FUNCTION update_profile_storage_bytes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('DELETE', 'UPDATE') THEN
+    UPDATE profiles
+    SET storage_bytes = GREATEST(storage_bytes - OLD.file_size, 0)
+    WHERE id = OLD.user_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE profiles
+    SET storage_bytes = storage_bytes + NEW.file_size
+    WHERE id = NEW.user_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+CREATE TRIGGER update_profile_storage_bytes_after_change
+  AFTER INSERT OR DELETE OR UPDATE OF file_size, user_id ON screenshots
+  FOR EACH ROW EXECUTE FUNCTION update_profile_storage_bytes();
+
+-- Clients can't rewrite the total or the sizes it is built from (both feed the quota check)
+DROP TRIGGER protect_profile_billing_columns ON profiles;
+CREATE TRIGGER protect_profile_columns BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION prevent_client_column_changes(
+    'plan', 'team_seats', 'stripe_customer_id', 'stripe_subscription_id', 'downgraded_at',
+    'storage_bytes'
+  );
+
+CREATE TRIGGER protect_screenshot_file_size BEFORE UPDATE ON screenshots
+  FOR EACH ROW EXECUTE FUNCTION prevent_client_column_changes('file_size');
@@ -0,0 +1,206 @@
+/**
+ * API tests for personal API keys
+ * Tests: GET/POST /api/auth/api-keys, DELETE /api/auth/api-keys/[id]
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRequest, createAuthRequest } from '../helpers/request-builder';
+import { mockSupabaseQueryResponse, mockQueryBuilder } from '../helpers/supabase-mocks';
+import { resetAllMocks } from '../helpers/test-utils';
+
+// Mock all external dependencies BEFORE importing route handlers
+
+// Mock Supabase
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+  createUserClient: vi.fn(),
+  getUserIdFromToken: vi.fn(async (token: string) => {
+    if (token === 'invalid-token') return null;
+    return 'test-user-id-123';
+  }),
+}));
+
+// Now import route handlers AFTER mocks are defined
+import { GET as apiKeysGET, POST as apiKeysPOST } from '@/app/api/auth/api-keys/route';
+import { DELETE as apiKeyDELETE } from '@/app/api/auth/api-keys/[id]/route';
+import { hashApiKey } from '@/lib/api-keys';
+
+const KEY_ID = '423e4567-e89b-12d3-a456-426614174000';
+
+const storedKey = {
+  id: KEY_ID,
+  name: 'Playwright CI',
+  key_prefix: 'snappd_sk_Xk3f9Q',
+  scopes: ['screenshots:write'],
+  last_used_at: null,
+  created_at: new Date().toISOString(),
+};
+
+/**
+ * Route createUserClient().from('api_keys') to the given query mock
+ */
+async function mockApiKeysQuery(apiKeys: ReturnType<typeof mockQueryBuilder>) {
+  const { createUserClient } = await import('@/lib/supabase');
+  vi.mocked(createUserClient).mockReturnValue({ from: vi.fn(() => apiKeys) } as any);
+}
+
+const apiKeysRequest = (method: 'GET' | 'POST', body?: unknown, token?: string) =>
+  createAuthRequest({
+    method,
+    url: 'http://localhost:3000/api/auth/api-keys',
+    body,
+    token,
+  });
+
+const revokeRequest = (id: string, token?: string) =>
+  apiKeyDELETE(
+    createAuthRequest({
+      method: 'DELETE',
+      url: `http://localhost:3000/api/auth/api-keys/${id}`,
+      token,
+    }),
+    { params: Promise.resolve({ id }) }
+  );
+
+describe('POST /api/auth/api-keys', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should return 401 when no auth token provided', async () => {
+    const request = createMockRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/auth/api-keys',
+      body: { name: 'CI' },
+    });
+
+    const response = await apiKeysPOST(request);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should create a key and only store its hash', async () => {
+    const apiKeys = mockQueryBuilder(
+      { data: null, error: null, count: 2 },
+      mockSupabaseQueryResponse(storedKey)
+    );
+    await mockApiKeysQuery(apiKeys);
+
+    const response = await apiKeysPOST(
+      apiKeysRequest('POST', { name: 'Playwright CI', scopes: ['screenshots:write', 'screenshots:write'] })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.key).toMatch(/^snappd_sk_/);
+    expect(body).toMatchObject({ id: KEY_ID, name: 'Playwright CI', scopes: ['screenshots:write'] });
+    expect(body).not.toHaveProperty('key_hash');
+
+    const inserted = apiKeys.insert.mock.calls[0][0];
+    expect(inserted).toMatchObject({
+      user_id: 'test-user-id-123',
+      name: 'Playwright CI',
+      scopes: ['screenshots:write'],
+      key_hash: hashApiKey(body.key),
+    });
+    expect(body.key.startsWith(inserted.key_prefix)).toBe(true);
+  });
+
+  it('should create full-access keys when no scopes are given', async () => {
+    const apiKeys = mockQueryBuilder(
+      { data: null, error: null, count: 0 },
+      mockSupabaseQueryResponse({ ...storedKey, scopes: null })
+    );
+    await mockApiKeysQuery(apiKeys);
+
+    const response = await apiKeysPOST(apiKeysRequest('POST', { name: 'Deploy script' }));
+
+    expect(response.status).toBe(201);
+    expect(apiKeys.insert).toHaveBeenCalledWith(expect.objectContaining({ scopes: null }));
+  });
+
+  it('should reject unknown scopes', async () => {
+    const response = await apiKeysPOST(apiKeysRequest('POST', { name: 'CI', scopes: ['billing:write'] }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should enforce the active key limit', async () => {
+    const apiKeys = mockQueryBuilder({ data: null, error: null, count: 25 });
+    await mockApiKeysQuery(apiKeys);
+
+    const response = await apiKeysPOST(apiKeysRequest('POST', { name: 'CI' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.details).toEqual({ max_keys: 25 });
+    expect(apiKeys.insert).not.toHaveBeenCalled();
+  });
+
+  it('should not let an API key create more keys', async () => {
+    const response = await apiKeysPOST(apiKeysRequest('POST', { name: 'CI' }, 'snappd_sk_abcdef'));
+
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('GET /api/auth/api-keys', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should list active keys without secrets', async () => {
+    const apiKeys = mockQueryBuilder(mockSupabaseQueryResponse([storedKey]));
+    await mockApiKeysQuery(apiKeys);
+
+    const response = await apiKeysGET(apiKeysRequest('GET'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(apiKeys.is).toHaveBeenCalledWith('revoked_at', null);
+    expect(body.api_keys).toEqual([
+      {
+        id: KEY_ID,
+        name: 'Playwright CI',
+        prefix: 'snappd_sk_Xk3f9Q',
+        scopes: ['screenshots:write'],
+        last_used_at: null,
+        created_at: storedKey.created_at,
+      },
+    ]);
+  });
+});
+
+describe('DELETE /api/auth/api-keys/[id]', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should revoke the key', async () => {
+    const apiKeys = mockQueryBuilder(mockSupabaseQueryResponse([{ id: KEY_ID }]));
+    await mockApiKeysQuery(apiKeys);
+
+    const response = await revokeRequest(KEY_ID);
+
+    expect(response.status).toBe(204);
+    expect(apiKeys.update).toHaveBeenCalledWith({ revoked_at: expect.any(String) });
+    expect(apiKeys.eq).toHaveBeenCalledWith('user_id', 'test-user-id-123');
+  });
+
+  it('should return 404 for unknown or already revoked keys', async () => {
+    await mockApiKeysQuery(mockQueryBuilder(mockSupabaseQueryResponse([])));
+
+    const response = await revokeRequest(KEY_ID);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 404 for malformed IDs', async () => {
+    const response = await revokeRequest('not-a-uuid');
+
+    expect(response.status).toBe(404);
+  });
+});
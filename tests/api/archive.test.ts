@@ -0,0 +1,194 @@
+/**
+ * API tests for zip archive downloads
+ * Tests: POST /api/screenshots/archive
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { unzipSync, strFromU8 } from 'fflate';
+import { createMockRequest, createAuthRequest } from '../helpers/request-builder';
+import {
+  mockSupabaseQueryResponse,
+  mockQueryBuilder,
+  mockScreenshot,
+  mockProfile,
+} from '../helpers/supabase-mocks';
+import { resetAllMocks } from '../helpers/test-utils';
+
+// Mock all external dependencies BEFORE importing route handlers
+
+// Mock Supabase
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+  createUserClient: vi.fn(),
+  getUserIdFromToken: vi.fn(async (token: string) => {
+    if (token === 'invalid-token') return null;
+    return 'test-user-id-123';
+  }),
+}));
+
+// Mock storage operations
+vi.mock('@/lib/storage', () => ({
+  SCREENSHOTS_BUCKET: 'screenshots',
+  PROTECTED_SCREENSHOTS_BUCKET: 'protected-screenshots',
+  downloadFile: vi.fn(async (path: string) => Buffer.from(`contents of ${path}`)),
+}));
+
+// Now import route handlers AFTER mocks are defined
+import { POST as archivePOST } from '@/app/api/screenshots/archive/route';
+
+const FIRST_ID = '123e4567-e89b-12d3-a456-426614174000';
+const SECOND_ID = '123e4567-e89b-12d3-a456-426614174001';
+const MISSING_ID = '123e4567-e89b-12d3-a456-426614174002';
+const COLLECTION_ID = '223e4567-e89b-12d3-a456-426614174000';
+
+/**
+ * Route every createUserClient().from(table) call to a per-table query mock
+ */
+async function mockUserClient(tables: Record<string, ReturnType<typeof mockQueryBuilder>>) {
+  const { createUserClient } = await import('@/lib/supabase');
+
+  vi.mocked(createUserClient).mockReturnValue({
+    from: vi.fn((table: string) => tables[table]),
+  } as any);
+}
+
+const archiveRequest = (body: unknown) =>
+  archivePOST(
+    createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots/archive',
+      body,
+    })
+  );
+
+const storedScreenshots = [
+  mockScreenshot({ id: FIRST_ID, original_filename: 'shot.png', storage_path: 'test-user-id-123/a.png' }),
+  mockScreenshot({ id: SECOND_ID, original_filename: 'shot.png', storage_path: 'test-user-id-123/b.png' }),
+];
+
+describe('POST /api/screenshots/archive', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should return 401 when no auth token provided', async () => {
+    const request = createMockRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots/archive',
+      body: { screenshot_ids: [FIRST_ID] },
+    });
+
+    const response = await archivePOST(request);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should require exactly one selector', async () => {
+    const none = await archiveRequest({});
+    const both = await archiveRequest({ screenshot_ids: [FIRST_ID], collection_id: COLLECTION_ID });
+
+    expect(none.status).toBe(400);
+    expect(both.status).toBe(400);
+  });
+
+  it('should stream the selected screenshots as a zip', async () => {
+    const screenshots = mockQueryBuilder(mockSupabaseQueryResponse(storedScreenshots));
+    await mockUserClient({
+      profiles: mockQueryBuilder(mockSupabaseQueryResponse(mockProfile())),
+      screenshots,
+    });
+
+    const response = await archiveRequest({ screenshot_ids: [FIRST_ID, SECOND_ID] });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/zip');
+    expect(response.headers.get('Content-Disposition')).toMatch(
+      /^attachment; filename="snappd-screenshots-\d{4}-\d{2}-\d{2}\.zip"$/
+    );
+    expect(screenshots.in).toHaveBeenCalledWith('id', [FIRST_ID, SECOND_ID]);
+    expect(screenshots.is).toHaveBeenCalledWith('deleted_at', null);
+
+    const files = unzipSync(new Uint8Array(await response.arrayBuffer()));
+    expect(Object.keys(files)).toEqual(['shot.png', 'shot (2).png']);
+    expect(strFromU8(files['shot (2).png'])).toBe('contents of test-user-id-123/b.png');
+  });
+
+  it('should list screenshot ids that were not found', async () => {
+    await mockUserClient({
+      profiles: mockQueryBuilder(mockSupabaseQueryResponse(mockProfile())),
+      screenshots: mockQueryBuilder(mockSupabaseQueryResponse([storedScreenshots[0]])),
+    });
+
+    const response = await archiveRequest({ screenshot_ids: [FIRST_ID, MISSING_ID] });
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.details).toEqual({ not_found: [MISSING_ID] });
+  });
+
+  it('should return 404 for a collection the user does not own', async () => {
+    await mockUserClient({
+      profiles: mockQueryBuilder(mockSupabaseQueryResponse(mockProfile())),
+      collections: mockQueryBuilder(mockSupabaseQueryResponse(null)),
+    });
+
+    const response = await archiveRequest({ collection_id: COLLECTION_ID });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should filter by upload date range', async () => {
+    const screenshots = mockQueryBuilder(mockSupabaseQueryResponse(storedScreenshots));
+    await mockUserClient({
+      profiles: mockQueryBuilder(mockSupabaseQueryResponse(mockProfile())),
+      screenshots,
+    });
+
+    const response = await archiveRequest({
+      from_date: '2025-11-01T00:00:00Z',
+      to_date: '2025-11-30T23:59:59Z',
+    });
+
+    expect(response.status).toBe(200);
+    expect(screenshots.gte).toHaveBeenCalledWith('created_at', '2025-11-01T00:00:00Z');
+    expect(screenshots.lte).toHaveBeenCalledWith('created_at', '2025-11-30T23:59:59Z');
+  });
+
+  it('should return 400 when nothing matches the selection', async () => {
+    await mockUserClient({
+      profiles: mockQueryBuilder(mockSupabaseQueryResponse(mockProfile())),
+      screenshots: mockQueryBuilder(mockSupabaseQueryResponse([])),
+    });
+
+    const response = await archiveRequest({ from_date: '2025-11-01T00:00:00Z' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 413 when the originals exceed the plan limit', async () => {
+    const { downloadFile } = await import('@/lib/storage');
+    await mockUserClient({
+      profiles: mockQueryBuilder(mockSupabaseQueryResponse(mockProfile({ plan: 'free' }))),
+      screenshots: mockQueryBuilder(
+        mockSupabaseQueryResponse([
+          mockScreenshot({ id: FIRST_ID, file_size: 60 * 1024 * 1024 }),
+          mockScreenshot({ id: SECOND_ID, file_size: 60 * 1024 * 1024 }),
+        ])
+      ),
+    });
+
+    const response = await archiveRequest({ screenshot_ids: [FIRST_ID, SECOND_ID] });
+    const body = await response.json();
+
+    expect(response.status).toBe(413);
+    expect(body.error.details).toEqual({
+      total_bytes: 120 * 1024 * 1024,
+      max_bytes: 100 * 1024 * 1024,
+      plan: 'free',
+    });
+    expect(downloadFile).not.toHaveBeenCalled();
+  });
+});
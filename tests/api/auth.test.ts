@@ -90,8 +90,10 @@ vi.mock('@supabase/supabase-js', () => ({
 
 // Mock storage operations
 vi.mock('@/lib/storage', () => ({
+  SCREENSHOTS_BUCKET: 'screenshots',
+  PROTECTED_SCREENSHOTS_BUCKET: 'protected-screenshots',
   deleteAllUserFiles: vi.fn(async () => {}),
-  deleteFile: vi.fn(async () => {}),
+  deleteFiles: vi.fn(async () => {}),
 }));
 
 // Now import route handlers AFTER mocks are defined
@@ -9,7 +9,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createMockRequest, createAuthRequest } from '../helpers/request-builder';
-import { mockSupabaseQueryResponse, mockProfile } from '../helpers/supabase-mocks';
+import { mockSupabaseQueryResponse, mockQueryBuilder, mockProfile } from '../helpers/supabase-mocks';
 import { resetAllMocks } from '../helpers/test-utils';
 
 // Mock Supabase
@@ -55,11 +55,20 @@ vi.mock('@/lib/stripe', () => ({
     },
   },
   constructWebhookEvent: vi.fn(),
+  createCheckoutSession: vi.fn(async () => 'https://checkout.stripe.com/test'),
+}));
+
+// Mock seat counting
+vi.mock('@/lib/seats', () => ({
+  countTeamSeatsUsed: vi.fn(async () => 1),
 }));
 
 // Import route handlers AFTER mocks
 import { POST as checkoutPOST } from '@/app/api/billing/checkout/route';
 import { GET as portalGET } from '@/app/api/billing/portal/route';
+import { createUserClient } from '@/lib/supabase';
+import { createCheckoutSession } from '@/lib/stripe';
+import { countTeamSeatsUsed } from '@/lib/seats';
 
 describe('POST /api/billing/checkout', () => {
   beforeEach(() => {
@@ -88,6 +97,68 @@ describe('POST /api/billing/checkout', () => {
   it.skip('should reject invalid plan type', async () => {
     // Requires validation logic testing
   });
+
+  describe('team seats', () => {
+    const checkoutRequest = (body: unknown) => {
+      vi.mocked(createUserClient).mockReturnValue({
+        from: vi.fn(() =>
+          mockQueryBuilder(
+            mockSupabaseQueryResponse(mockProfile({ stripe_customer_id: 'cus_123', plan: 'free' }))
+          )
+        ),
+      } as any);
+
+      return checkoutPOST(
+        createAuthRequest({ method: 'POST', url: 'http://localhost:3000/api/billing/checkout', body })
+      );
+    };
+
+    it('should buy the requested number of seats', async () => {
+      const response = await checkoutRequest({ plan: 'team', seats: 5 });
+
+      expect(response.status).toBe(200);
+      expect(createCheckoutSession).toHaveBeenCalledWith(
+        'cus_123',
+        'team',
+        expect.any(String),
+        expect.any(String),
+        5
+      );
+    });
+
+    it('should default to the seats already in use', async () => {
+      vi.mocked(countTeamSeatsUsed).mockResolvedValueOnce(3);
+
+      const response = await checkoutRequest({ plan: 'team' });
+
+      expect(response.status).toBe(200);
+      expect(createCheckoutSession).toHaveBeenCalledWith(
+        'cus_123',
+        'team',
+        expect.any(String),
+        expect.any(String),
+        3
+      );
+    });
+
+    it('should reject fewer seats than the teams already use', async () => {
+      vi.mocked(countTeamSeatsUsed).mockResolvedValueOnce(4);
+
+      const response = await checkoutRequest({ plan: 'team', seats: 2 });
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.error.details).toEqual({ seats: 2, seats_used: 4 });
+      expect(createCheckoutSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject seats for the pro plan', async () => {
+      const response = await checkoutRequest({ plan: 'pro', seats: 2 });
+
+      expect(response.status).toBe(400);
+      expect(createCheckoutSession).not.toHaveBeenCalled();
+    });
+  });
 });
 
 describe('GET /api/billing/portal', () => {
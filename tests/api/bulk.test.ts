@@ -0,0 +1,345 @@
+/**
+ * API tests for bulk screenshot actions
+ * Tests: POST /api/screenshots/bulk
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRequest, createAuthRequest } from '../helpers/request-builder';
+import {
+  mockSupabaseQueryResponse,
+  mockQueryBuilder,
+  mockScreenshot,
+  mockProfile,
+} from '../helpers/supabase-mocks';
+import { resetAllMocks } from '../helpers/test-utils';
+
+// Mock all external dependencies BEFORE importing route handlers
+
+// Mock Supabase
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+  createUserClient: vi.fn(),
+  getUserIdFromToken: vi.fn(async (token: string) => {
+    if (token === 'invalid-token') return null;
+    return 'test-user-id-123';
+  }),
+}));
+
+// Mock storage operations
+vi.mock('@/lib/storage', () => ({
+  SCREENSHOTS_BUCKET: 'screenshots',
+  PROTECTED_SCREENSHOTS_BUCKET: 'protected-screenshots',
+  getPublicUrl: vi.fn((path: string) => `https://test-storage.supabase.co/public/${path}`),
+  deleteFiles: vi.fn(async () => {}),
+}));
+
+// Now import route handlers AFTER mocks are defined
+import { POST as bulkPOST } from '@/app/api/screenshots/bulk/route';
+
+const FIRST_ID = '123e4567-e89b-12d3-a456-426614174000';
+const SECOND_ID = '123e4567-e89b-12d3-a456-426614174001';
+const MISSING_ID = '123e4567-e89b-12d3-a456-426614174002';
+const COLLECTION_ID = '223e4567-e89b-12d3-a456-426614174000';
+
+/**
+ * Route every createUserClient().from(table) call to a per-table query mock
+ */
+async function mockUserClient(tables: Record<string, ReturnType<typeof mockQueryBuilder>>) {
+  const { createUserClient } = await import('@/lib/supabase');
+
+  vi.mocked(createUserClient).mockReturnValue({
+    from: vi.fn((table: string) => tables[table]),
+  } as any);
+}
+
+const bulkRequest = (body: unknown) =>
+  bulkPOST(
+    createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots/bulk',
+      body,
+    })
+  );
+
+describe('POST /api/screenshots/bulk', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should return 401 when no auth token provided', async () => {
+    const request = createMockRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots/bulk',
+      body: { action: 'set_public', screenshot_ids: [FIRST_ID], is_public: true },
+    });
+
+    const response = await bulkPOST(request);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should apply the action and report unknown screenshots per item', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse([mockScreenshot({ id: FIRST_ID }), mockScreenshot({ id: SECOND_ID })]),
+      mockSupabaseQueryResponse([{ id: FIRST_ID }, { id: SECOND_ID }])
+    );
+    await mockUserClient({ screenshots });
+
+    const response = await bulkRequest({
+      action: 'set_public',
+      screenshot_ids: [FIRST_ID, MISSING_ID, SECOND_ID, FIRST_ID],
+      is_public: false,
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(screenshots.eq).toHaveBeenCalledWith('user_id', 'test-user-id-123');
+    expect(screenshots.update).toHaveBeenCalledWith({ is_public: false });
+    expect(screenshots.in).toHaveBeenLastCalledWith('id', [FIRST_ID, SECOND_ID]);
+    expect(body.succeeded).toBe(2);
+    expect(body.failed).toBe(1);
+    expect(body.results).toEqual([
+      { id: FIRST_ID, success: true },
+      {
+        id: MISSING_ID,
+        success: false,
+        error: { message: 'Screenshot not found', code: 'NOT_FOUND' },
+      },
+      { id: SECOND_ID, success: true },
+    ]);
+  });
+
+  it('should not change screenshots in the trash', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse([mockScreenshot({ id: FIRST_ID, deleted_at: new Date().toISOString() })])
+    );
+    await mockUserClient({ screenshots });
+
+    const response = await bulkRequest({
+      action: 'move',
+      screenshot_ids: [FIRST_ID],
+      collection_id: null,
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(screenshots.update).not.toHaveBeenCalled();
+    expect(body.results[0].error.code).toBe('NOT_FOUND');
+  });
+
+  it('should move screenshots to the trash by default', async () => {
+    const { deleteFiles } = await import('@/lib/storage');
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse([
+        mockScreenshot({ id: FIRST_ID }),
+        mockScreenshot({ id: SECOND_ID, deleted_at: '2025-11-01T12:00:00.000Z' }),
+      ]),
+      mockSupabaseQueryResponse([{ id: FIRST_ID }])
+    );
+    await mockUserClient({ screenshots });
+
+    const response = await bulkRequest({ action: 'delete', screenshot_ids: [FIRST_ID, SECOND_ID] });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(screenshots.update).toHaveBeenCalledWith({ deleted_at: expect.any(String) });
+    // Already trashed screenshots keep their deletion time
+    expect(screenshots.in).toHaveBeenLastCalledWith('id', [FIRST_ID]);
+    expect(deleteFiles).not.toHaveBeenCalled();
+    expect(body.succeeded).toBe(2);
+  });
+
+  it('should delete rows and storage files with permanent: true', async () => {
+    const { deleteFiles } = await import('@/lib/storage');
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse([
+        mockScreenshot({ id: FIRST_ID, storage_path: 'user-1/a.png' }),
+        mockScreenshot({ id: SECOND_ID, storage_path: 'user-1/b.png' }),
+      ]),
+      mockSupabaseQueryResponse(null)
+    );
+    await mockUserClient({ screenshots });
+
+    const response = await bulkRequest({
+      action: 'delete',
+      screenshot_ids: [FIRST_ID, SECOND_ID],
+      permanent: true,
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(deleteFiles).toHaveBeenCalledWith(['user-1/a.png', 'user-1/b.png'], 'screenshots');
+    expect(screenshots.delete).toHaveBeenCalled();
+    expect(body.failed).toBe(0);
+  });
+
+  it('should report screenshots the update did not change as not found', async () => {
+    // SECOND_ID was filtered out by RLS or a trigger between the lookup and the update
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse([mockScreenshot({ id: FIRST_ID }), mockScreenshot({ id: SECOND_ID })]),
+      mockSupabaseQueryResponse([{ id: FIRST_ID }])
+    );
+    await mockUserClient({ screenshots });
+
+    const response = await bulkRequest({
+      action: 'set_public',
+      screenshot_ids: [FIRST_ID, SECOND_ID],
+      is_public: true,
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(screenshots.select).toHaveBeenLastCalledWith('id');
+    expect(body.succeeded).toBe(1);
+    expect(body.results).toEqual([
+      { id: FIRST_ID, success: true },
+      {
+        id: SECOND_ID,
+        success: false,
+        error: { message: 'Screenshot not found', code: 'NOT_FOUND' },
+      },
+    ]);
+  });
+
+  it('should report database failures for every screenshot in the batch', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse([mockScreenshot({ id: FIRST_ID })]),
+      { data: null, error: { message: 'connection reset' } }
+    );
+    await mockUserClient({ screenshots });
+
+    const response = await bulkRequest({
+      action: 'set_public',
+      screenshot_ids: [FIRST_ID],
+      is_public: true,
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.failed).toBe(1);
+    expect(body.results[0].error).toEqual({
+      message: 'Failed to update screenshot',
+      code: 'VALIDATION_ERROR',
+      details: { error: 'connection reset' },
+    });
+  });
+
+  it('should check plan retention for each screenshot when setting expiry', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse([
+        mockScreenshot({ id: FIRST_ID, created_at: new Date(Date.now() - 28 * 24 * 60 * 60 * 1000).toISOString() }),
+        mockScreenshot({ id: SECOND_ID }),
+      ]),
+      mockSupabaseQueryResponse([{ id: SECOND_ID }])
+    );
+    await mockUserClient({
+      screenshots,
+      profiles: mockQueryBuilder(mockSupabaseQueryResponse(mockProfile({ plan: 'free' }))),
+    });
+
+    const response = await bulkRequest({
+      action: 'set_expiry',
+      screenshot_ids: [FIRST_ID, SECOND_ID],
+      expires_in: '7d',
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.results[0].success).toBe(false);
+    expect(body.results[0].error.code).toBe('FORBIDDEN');
+    expect(body.results[1]).toEqual({ id: SECOND_ID, success: true });
+    expect(screenshots.in).toHaveBeenLastCalledWith('id', [SECOND_ID]);
+  });
+
+  it('should return 404 when moving into another user collection', async () => {
+    await mockUserClient({
+      screenshots: mockQueryBuilder(mockSupabaseQueryResponse([mockScreenshot({ id: FIRST_ID })])),
+      collections: mockQueryBuilder({ data: null, error: { code: 'PGRST116' } }),
+    });
+
+    const response = await bulkRequest({
+      action: 'move',
+      screenshot_ids: [FIRST_ID],
+      collection_id: COLLECTION_ID,
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should add tags without exceeding the per-screenshot limit', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    vi.mocked(supabaseAdmin.rpc).mockResolvedValue({ data: null, error: null } as any);
+    await mockUserClient({
+      screenshots: mockQueryBuilder(
+        mockSupabaseQueryResponse([
+          mockScreenshot({ id: FIRST_ID, tags: Array.from({ length: 20 }, (_, i) => `tag-${i}`) }),
+          mockScreenshot({ id: SECOND_ID, tags: ['bug'] }),
+        ])
+      ),
+    });
+
+    const response = await bulkRequest({
+      action: 'add_tags',
+      screenshot_ids: [FIRST_ID, SECOND_ID],
+      tags: ['Bug', 'release'],
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(supabaseAdmin.rpc).toHaveBeenCalledWith('add_screenshot_tags', {
+      p_user_id: 'test-user-id-123',
+      p_screenshot_ids: [SECOND_ID],
+      p_tags: ['bug', 'release'],
+    });
+    expect(body.results[0].error.code).toBe('VALIDATION_ERROR');
+    expect(body.results[1].success).toBe(true);
+  });
+
+  it('should remove tags', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    vi.mocked(supabaseAdmin.rpc).mockResolvedValue({ data: null, error: null } as any);
+    await mockUserClient({
+      screenshots: mockQueryBuilder(
+        mockSupabaseQueryResponse([mockScreenshot({ id: FIRST_ID, tags: ['bug'] })])
+      ),
+    });
+
+    const response = await bulkRequest({
+      action: 'remove_tags',
+      screenshot_ids: [FIRST_ID],
+      tags: ['bug'],
+    });
+
+    expect(response.status).toBe(200);
+    expect(supabaseAdmin.rpc).toHaveBeenCalledWith('remove_screenshot_tags', {
+      p_user_id: 'test-user-id-123',
+      p_screenshot_ids: [FIRST_ID],
+      p_tags: ['bug'],
+    });
+  });
+
+  it('should reject set_expiry without an expiry', async () => {
+    const response = await bulkRequest({ action: 'set_expiry', screenshot_ids: [FIRST_ID] });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject unknown actions', async () => {
+    const response = await bulkRequest({ action: 'archive', screenshot_ids: [FIRST_ID] });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject more than 500 screenshots', async () => {
+    const response = await bulkRequest({
+      action: 'set_public',
+      screenshot_ids: Array.from({ length: 501 }, () => FIRST_ID),
+      is_public: true,
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
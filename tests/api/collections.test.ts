@@ -0,0 +1,497 @@
+/**
+ * API tests for collections
+ * Tests: GET/POST /api/collections, GET/PATCH/DELETE /api/collections/[id],
+ * POST /api/screenshots/move, collection_id on PATCH /api/screenshots/[id] and GET /api/screenshots,
+ * and the public gallery endpoint GET /api/c/[shortId]
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRequest, createAuthRequest } from '../helpers/request-builder';
+import {
+  mockSupabaseQueryResponse,
+  mockQueryBuilder,
+  mockCollection,
+  mockScreenshot,
+} from '../helpers/supabase-mocks';
+import { resetAllMocks } from '../helpers/test-utils';
+
+// Mock all external dependencies BEFORE importing route handlers
+
+// Mock Supabase
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+  },
+  createUserClient: vi.fn(),
+  getUserIdFromToken: vi.fn(async (token: string) => {
+    if (token === 'invalid-token') return null;
+    return 'test-user-id-123';
+  }),
+}));
+
+// Mock storage operations
+vi.mock('@/lib/storage', () => ({
+  SCREENSHOTS_BUCKET: 'screenshots',
+  PROTECTED_SCREENSHOTS_BUCKET: 'protected-screenshots',
+  getPublicUrl: vi.fn((path: string) => `https://test-storage.supabase.co/public/${path}`),
+  deleteFiles: vi.fn(async () => {}),
+}));
+
+// Now import route handlers AFTER mocks are defined
+import { GET as collectionsGET, POST as collectionsPOST } from '@/app/api/collections/route';
+import {
+  GET as collectionGET,
+  PATCH as collectionPATCH,
+  DELETE as collectionDELETE,
+} from '@/app/api/collections/[id]/route';
+import { POST as moveScreenshotsPOST } from '@/app/api/screenshots/move/route';
+import { PATCH as screenshotPATCH } from '@/app/api/screenshots/[id]/route';
+import { GET as screenshotsListGET } from '@/app/api/screenshots/route';
+import { GET as publicCollectionGET } from '@/app/api/c/[shortId]/route';
+
+const COLLECTION_ID = '223e4567-e89b-12d3-a456-426614174000';
+const SCREENSHOT_ID = '123e4567-e89b-12d3-a456-426614174000';
+const OTHER_SCREENSHOT_ID = '123e4567-e89b-12d3-a456-426614174001';
+
+/**
+ * Route every createUserClient().from(table) call to a per-table query mock
+ */
+async function mockUserClient(tables: Record<string, ReturnType<typeof mockQueryBuilder>>) {
+  const { createUserClient } = await import('@/lib/supabase');
+
+  vi.mocked(createUserClient).mockReturnValue({
+    from: vi.fn((table: string) => tables[table]),
+  } as any);
+}
+
+const notFound = { data: null, error: { code: 'PGRST116' } };
+
+describe('POST /api/collections', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should return 401 when no auth token provided', async () => {
+    const request = createMockRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/collections',
+      body: { name: 'Design reviews' },
+    });
+
+    const response = await collectionsPOST(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(401);
+    expect(body.error.code).toBe('UNAUTHORIZED');
+  });
+
+  it('should reject an empty name', async () => {
+    const request = createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/collections',
+      body: { name: '   ' },
+    });
+
+    const response = await collectionsPOST(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should create a private collection with a gallery short ID', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    vi.mocked(supabaseAdmin.from).mockReturnValue(mockQueryBuilder(notFound) as any);
+
+    const collections = mockQueryBuilder(mockSupabaseQueryResponse(mockCollection()));
+    await mockUserClient({ collections });
+
+    const request = createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/collections',
+      body: { name: ' Design reviews ' },
+    });
+
+    const response = await collectionsPOST(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(collections.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        user_id: 'test-user-id-123',
+        name: 'Design reviews',
+        description: null,
+        is_public: false,
+        short_id: expect.stringMatching(/^[A-Za-z0-9_-]{6}$/),
+      })
+    );
+    expect(body.share_url).toBe('http://localhost:3000/c/col123');
+    expect(body.screenshot_count).toBe(0);
+  });
+});
+
+describe('GET /api/collections', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should list collections with screenshot counts', async () => {
+    await mockUserClient({
+      collections: mockQueryBuilder(
+        mockSupabaseQueryResponse([{ ...mockCollection(), screenshots: [{ count: 12 }] }])
+      ),
+    });
+
+    const request = createAuthRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/collections',
+    });
+
+    const response = await collectionsGET(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.collections).toHaveLength(1);
+    expect(body.collections[0]).toMatchObject({
+      id: COLLECTION_ID,
+      name: 'Design reviews',
+      screenshot_count: 12,
+    });
+    expect(body.collections[0]).not.toHaveProperty('screenshots');
+  });
+});
+
+describe('GET/PATCH/DELETE /api/collections/[id]', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should return 404 for another user collection', async () => {
+    await mockUserClient({ collections: mockQueryBuilder(notFound) });
+
+    const request = createAuthRequest({
+      method: 'GET',
+      url: `http://localhost:3000/api/collections/${COLLECTION_ID}`,
+    });
+
+    const response = await collectionGET(request, {
+      params: Promise.resolve({ id: COLLECTION_ID }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should share a collection', async () => {
+    const collections = mockQueryBuilder(
+      mockSupabaseQueryResponse({ ...mockCollection({ is_public: true }), screenshots: [{ count: 3 }] })
+    );
+    await mockUserClient({ collections });
+
+    const request = createAuthRequest({
+      method: 'PATCH',
+      url: `http://localhost:3000/api/collections/${COLLECTION_ID}`,
+      body: { is_public: true },
+    });
+
+    const response = await collectionPATCH(request, {
+      params: Promise.resolve({ id: COLLECTION_ID }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(collections.update).toHaveBeenCalledWith({ is_public: true });
+    expect(body.is_public).toBe(true);
+    expect(body.screenshot_count).toBe(3);
+  });
+
+  it('should return 404 when updating a missing collection', async () => {
+    await mockUserClient({ collections: mockQueryBuilder({ data: null, error: null }) });
+
+    const request = createAuthRequest({
+      method: 'PATCH',
+      url: `http://localhost:3000/api/collections/${COLLECTION_ID}`,
+      body: { name: 'Renamed' },
+    });
+
+    const response = await collectionPATCH(request, {
+      params: Promise.resolve({ id: COLLECTION_ID }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should delete a collection', async () => {
+    await mockUserClient({
+      collections: mockQueryBuilder(mockSupabaseQueryResponse([{ id: COLLECTION_ID }])),
+    });
+
+    const request = createAuthRequest({
+      method: 'DELETE',
+      url: `http://localhost:3000/api/collections/${COLLECTION_ID}`,
+    });
+
+    const response = await collectionDELETE(request, {
+      params: Promise.resolve({ id: COLLECTION_ID }),
+    });
+
+    expect(response.status).toBe(204);
+  });
+
+  it('should return 404 when deleting a missing collection', async () => {
+    await mockUserClient({ collections: mockQueryBuilder(mockSupabaseQueryResponse([])) });
+
+    const request = createAuthRequest({
+      method: 'DELETE',
+      url: `http://localhost:3000/api/collections/${COLLECTION_ID}`,
+    });
+
+    const response = await collectionDELETE(request, {
+      params: Promise.resolve({ id: COLLECTION_ID }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('POST /api/screenshots/move', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should return 404 when the target collection is not owned', async () => {
+    const screenshots = mockQueryBuilder();
+    await mockUserClient({ collections: mockQueryBuilder(notFound), screenshots });
+
+    const request = createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots/move',
+      body: { screenshot_ids: [SCREENSHOT_ID], collection_id: COLLECTION_ID },
+    });
+
+    const response = await moveScreenshotsPOST(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(body.error.message).toBe('Collection not found');
+    expect(screenshots.update).not.toHaveBeenCalled();
+  });
+
+  it('should move owned screenshots and report the rest as not found', async () => {
+    const screenshots = mockQueryBuilder(mockSupabaseQueryResponse([{ id: SCREENSHOT_ID }]));
+    await mockUserClient({
+      collections: mockQueryBuilder(mockSupabaseQueryResponse({ id: COLLECTION_ID })),
+      screenshots,
+    });
+
+    const request = createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots/move',
+      body: {
+        screenshot_ids: [SCREENSHOT_ID, OTHER_SCREENSHOT_ID, SCREENSHOT_ID],
+        collection_id: COLLECTION_ID,
+      },
+    });
+
+    const response = await moveScreenshotsPOST(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(screenshots.update).toHaveBeenCalledWith({ collection_id: COLLECTION_ID });
+    expect(screenshots.in).toHaveBeenCalledWith('id', [SCREENSHOT_ID, OTHER_SCREENSHOT_ID]);
+    expect(screenshots.eq).toHaveBeenCalledWith('user_id', 'test-user-id-123');
+    expect(body).toEqual({
+      collection_id: COLLECTION_ID,
+      moved: [SCREENSHOT_ID],
+      not_found: [OTHER_SCREENSHOT_ID],
+    });
+  });
+
+  it('should remove screenshots from their collection with collection_id null', async () => {
+    const collections = mockQueryBuilder();
+    const screenshots = mockQueryBuilder(mockSupabaseQueryResponse([{ id: SCREENSHOT_ID }]));
+    await mockUserClient({ collections, screenshots });
+
+    const request = createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots/move',
+      body: { screenshot_ids: [SCREENSHOT_ID], collection_id: null },
+    });
+
+    const response = await moveScreenshotsPOST(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(collections.select).not.toHaveBeenCalled();
+    expect(screenshots.update).toHaveBeenCalledWith({ collection_id: null });
+    expect(body.moved).toEqual([SCREENSHOT_ID]);
+  });
+
+  it('should reject an empty screenshot list', async () => {
+    const request = createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots/move',
+      body: { screenshot_ids: [], collection_id: null },
+    });
+
+    const response = await moveScreenshotsPOST(request);
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('collection_id on screenshot routes', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should not file a screenshot into another user collection', async () => {
+    const screenshots = mockQueryBuilder(mockSupabaseQueryResponse(mockScreenshot({ id: SCREENSHOT_ID })));
+    await mockUserClient({ collections: mockQueryBuilder(notFound), screenshots });
+
+    const request = createAuthRequest({
+      method: 'PATCH',
+      url: `http://localhost:3000/api/screenshots/${SCREENSHOT_ID}`,
+      body: { collection_id: COLLECTION_ID },
+    });
+
+    const response = await screenshotPATCH(request, {
+      params: Promise.resolve({ id: SCREENSHOT_ID }),
+    });
+
+    expect(response.status).toBe(404);
+    expect(screenshots.update).not.toHaveBeenCalled();
+  });
+
+  it('should file a screenshot into an owned collection', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse(mockScreenshot({ id: SCREENSHOT_ID })),
+      mockSupabaseQueryResponse(mockScreenshot({ id: SCREENSHOT_ID, collection_id: COLLECTION_ID }))
+    );
+    await mockUserClient({
+      collections: mockQueryBuilder(mockSupabaseQueryResponse({ id: COLLECTION_ID })),
+      screenshots,
+    });
+
+    const request = createAuthRequest({
+      method: 'PATCH',
+      url: `http://localhost:3000/api/screenshots/${SCREENSHOT_ID}`,
+      body: { collection_id: COLLECTION_ID },
+    });
+
+    const response = await screenshotPATCH(request, {
+      params: Promise.resolve({ id: SCREENSHOT_ID }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(screenshots.update).toHaveBeenCalledWith({ collection_id: COLLECTION_ID });
+    expect(body.collection_id).toBe(COLLECTION_ID);
+  });
+
+  it('should filter the list by collection', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse([mockScreenshot({ collection_id: COLLECTION_ID })])
+    );
+    await mockUserClient({ screenshots });
+
+    const request = createAuthRequest({
+      method: 'GET',
+      url: `http://localhost:3000/api/screenshots?collection_id=${COLLECTION_ID}`,
+    });
+
+    const response = await screenshotsListGET(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(screenshots.eq).toHaveBeenCalledWith('collection_id', COLLECTION_ID);
+    expect(body.screenshots[0].collection_id).toBe(COLLECTION_ID);
+  });
+
+  it('should list unfiled screenshots with collection_id=none', async () => {
+    const screenshots = mockQueryBuilder(mockSupabaseQueryResponse([]));
+    await mockUserClient({ screenshots });
+
+    const request = createAuthRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/screenshots?collection_id=none',
+    });
+
+    const response = await screenshotsListGET(request);
+
+    expect(response.status).toBe(200);
+    expect(screenshots.is).toHaveBeenCalledWith('collection_id', null);
+  });
+
+  it('should reject a malformed collection_id filter', async () => {
+    const request = createAuthRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/screenshots?collection_id=abc',
+    });
+
+    const response = await screenshotsListGET(request);
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('GET /api/c/[shortId] (public gallery)', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should return 404 for a private collection', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    vi.mocked(supabaseAdmin.from).mockReturnValue(
+      mockQueryBuilder(mockSupabaseQueryResponse(mockCollection({ is_public: false }))) as any
+    );
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/c/col123',
+    });
+
+    const response = await publicCollectionGET(request, {
+      params: Promise.resolve({ shortId: 'col123' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should list only openly shared screenshots', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    const collections = mockQueryBuilder(mockSupabaseQueryResponse(mockCollection({ is_public: true })));
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse([
+        mockScreenshot({ short_id: 'abc123', thumbnail_path: 'user-123/thumb.webp' }),
+      ])
+    );
+    vi.mocked(supabaseAdmin.from).mockImplementation(
+      ((table: string) => (table === 'collections' ? collections : screenshots)) as any
+    );
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/c/col123',
+    });
+
+    const response = await publicCollectionGET(request, {
+      params: Promise.resolve({ shortId: 'col123' }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(screenshots.eq).toHaveBeenCalledWith('collection_id', COLLECTION_ID);
+    expect(screenshots.eq).toHaveBeenCalledWith('is_public', true);
+    expect(screenshots.is).toHaveBeenCalledWith('password_hash', null);
+    expect(screenshots.is).toHaveBeenCalledWith('max_views', null);
+    expect(body.name).toBe('Design reviews');
+    expect(body.share_url).toBe('http://localhost:3000/c/col123');
+    expect(body.screenshots).toEqual([
+      expect.objectContaining({
+        short_id: 'abc123',
+        share_url: 'http://localhost:3000/s/abc123',
+        thumbnail_url: 'https://test-storage.supabase.co/public/user-123/thumb.webp',
+      }),
+    ]);
+  });
+});
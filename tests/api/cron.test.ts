@@ -0,0 +1,463 @@
+/**
+ * API tests for scheduled cron jobs
+ * Tests: GET /api/cron/cleanup-expired, GET /api/cron/process-ocr, GET /api/cron/process-exports
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRequest } from '../helpers/request-builder';
+import { mockScreenshot, mockQueryBuilder, mockDataExport } from '../helpers/supabase-mocks';
+import { resetAllMocks } from '../helpers/test-utils';
+
+// Mock Supabase
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+}));
+
+// Mock storage operations
+vi.mock('@/lib/storage', () => ({
+  SCREENSHOTS_BUCKET: 'screenshots',
+  PROTECTED_SCREENSHOTS_BUCKET: 'protected-screenshots',
+  EXPORTS_BUCKET: 'exports',
+  deleteFiles: vi.fn(async () => {}),
+  downloadFile: vi.fn(async () => Buffer.from('image')),
+  uploadFileStream: vi.fn(async () => 3),
+}));
+
+// Mock OCR engine (Tesseract needs language data)
+const terminateWorker = vi.fn(async () => {});
+vi.mock('@/lib/ocr', () => ({
+  MAX_OCR_ATTEMPTS: 3,
+  getOcrLangPath: vi.fn(() => '/var/task/tessdata'),
+  createOcrWorker: vi.fn(async () => ({ terminate: terminateWorker })),
+  extractText: vi.fn(async () => 'Error: payment failed'),
+}));
+
+// Mock export archive builder (queries and downloads are covered by the unit tests)
+vi.mock('@/lib/export', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/export')>()),
+  createDataExportStream: vi.fn(async () => new Blob(['zip']).stream()),
+}));
+
+// Import route handlers AFTER mocks
+import { GET as cleanupExpiredGET } from '@/app/api/cron/cleanup-expired/route';
+import { GET as processOcrGET } from '@/app/api/cron/process-ocr/route';
+import { GET as processExportsGET } from '@/app/api/cron/process-exports/route';
+
+const CRON_SECRET = 'test-cron-secret';
+
+/**
+ * Build a screenshots query chain that returns the given pages in order
+ */
+function mockExpiredQuery(pages: Array<Array<ReturnType<typeof mockScreenshot>>>) {
+  const deleteIn = vi.fn().mockResolvedValue({ data: null, error: null });
+  let page = 0;
+
+  const selectChain = {
+    select: vi.fn().mockReturnThis(),
+    or: vi.fn().mockReturnThis(),
+    order: vi.fn().mockReturnThis(),
+    gt: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockReturnThis(),
+    then: (resolve: (value: unknown) => void) =>
+      resolve({ data: pages[page++] ?? [], error: null }),
+  };
+
+  const deleteChain = {
+    delete: vi.fn(() => ({ in: deleteIn })),
+  };
+
+  return { selectChain, deleteChain, deleteIn };
+}
+
+describe('GET /api/cron/cleanup-expired', () => {
+  beforeEach(() => {
+    resetAllMocks();
+    process.env.CRON_SECRET = CRON_SECRET;
+  });
+
+  it('should return 401 without the cron secret', async () => {
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/cron/cleanup-expired',
+    });
+
+    const response = await cleanupExpiredGET(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(401);
+    expect(body.error.code).toBe('UNAUTHORIZED');
+  });
+
+  it('should return 401 when CRON_SECRET is not configured', async () => {
+    delete process.env.CRON_SECRET;
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/cron/cleanup-expired',
+      headers: { Authorization: 'Bearer undefined' },
+    });
+
+    const response = await cleanupExpiredGET(request);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should report expired screenshots without deleting in dry run mode', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    const { deleteFiles } = await import('@/lib/storage');
+
+    const { selectChain } = mockExpiredQuery([
+      [
+        mockScreenshot({ id: 'a', user_id: 'user-1', file_size: 1000 }),
+        mockScreenshot({ id: 'b', user_id: 'user-2', file_size: 2000 }),
+      ],
+    ]);
+    vi.mocked(supabaseAdmin.from).mockReturnValue(selectChain as any);
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/cron/cleanup-expired',
+      headers: { Authorization: `Bearer ${CRON_SECRET}` },
+      searchParams: { dry_run: 'true' },
+    });
+
+    const response = await cleanupExpiredGET(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.dry_run).toBe(true);
+    expect(body.scanned).toBe(2);
+    expect(body.deleted).toBe(2);
+    expect(body.bytes_freed).toBe(3000);
+    expect(body.users_affected).toBe(2);
+    expect(deleteFiles).not.toHaveBeenCalled();
+    expect(supabaseAdmin.rpc).not.toHaveBeenCalled();
+  });
+
+  it('should delete expired screenshots and release storage usage', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    const { deleteFiles } = await import('@/lib/storage');
+
+    const { selectChain, deleteChain, deleteIn } = mockExpiredQuery([
+      [
+        mockScreenshot({
+          id: 'a',
+          user_id: 'user-1',
+          storage_path: 'user-1/a.png',
+          file_size: 1000,
+          created_at: '2025-09-10T00:00:00.000Z',
+        }),
+        mockScreenshot({
+          id: 'b',
+          user_id: 'user-1',
+          storage_path: 'user-1/b.png',
+          file_size: 500,
+          created_at: '2025-09-20T00:00:00.000Z',
+        }),
+      ],
+    ]);
+    vi.mocked(supabaseAdmin.from).mockImplementation(
+      () => ({ ...selectChain, ...deleteChain }) as any
+    );
+    vi.mocked(supabaseAdmin.rpc).mockResolvedValue({ data: null, error: null } as any);
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/cron/cleanup-expired',
+      headers: { Authorization: `Bearer ${CRON_SECRET}` },
+    });
+
+    const response = await cleanupExpiredGET(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.dry_run).toBe(false);
+    expect(body.deleted).toBe(2);
+    expect(body.bytes_freed).toBe(1500);
+    expect(body.failures).toEqual([]);
+    expect(deleteFiles).toHaveBeenCalledWith(['user-1/a.png'], 'screenshots');
+    expect(deleteFiles).toHaveBeenCalledWith(['user-1/b.png'], 'screenshots');
+    expect(deleteIn).toHaveBeenCalledWith('id', ['a', 'b']);
+    expect(supabaseAdmin.rpc).toHaveBeenCalledWith('decrement_storage_usage', {
+      p_user_id: 'user-1',
+      p_month: '2025-09',
+      p_bytes: 1500,
+    });
+  });
+
+  it('should keep rows whose storage object could not be deleted', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    const { deleteFiles } = await import('@/lib/storage');
+
+    const { selectChain, deleteChain, deleteIn } = mockExpiredQuery([
+      [
+        mockScreenshot({ id: 'a', storage_path: 'user-1/a.png' }),
+        mockScreenshot({ id: 'b', storage_path: 'user-1/b.png' }),
+      ],
+    ]);
+    vi.mocked(supabaseAdmin.from).mockImplementation(
+      () => ({ ...selectChain, ...deleteChain }) as any
+    );
+    vi.mocked(supabaseAdmin.rpc).mockResolvedValue({ data: null, error: null } as any);
+    vi.mocked(deleteFiles)
+      .mockRejectedValueOnce(new Error('Failed to delete file: timeout'))
+      .mockResolvedValueOnce(undefined);
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/cron/cleanup-expired',
+      headers: { Authorization: `Bearer ${CRON_SECRET}` },
+    });
+
+    const response = await cleanupExpiredGET(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.deleted).toBe(1);
+    expect(body.failures).toHaveLength(1);
+    expect(body.failures[0].id).toBe('a');
+    expect(deleteIn).toHaveBeenCalledWith('id', ['b']);
+  });
+});
+
+describe('GET /api/cron/process-ocr', () => {
+  beforeEach(() => {
+    resetAllMocks();
+    process.env.CRON_SECRET = CRON_SECRET;
+  });
+
+  const ocrRequest = () =>
+    createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/cron/process-ocr',
+      headers: { Authorization: `Bearer ${CRON_SECRET}` },
+    });
+
+  it('should return 401 without the cron secret', async () => {
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/cron/process-ocr',
+    });
+
+    const response = await processOcrGET(request);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should not start a worker when nothing is pending', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    const { createOcrWorker } = await import('@/lib/ocr');
+    vi.mocked(supabaseAdmin.rpc).mockResolvedValue({ data: [], error: null } as any);
+
+    const response = await processOcrGET(ocrRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.claimed).toBe(0);
+    expect(supabaseAdmin.rpc).toHaveBeenCalledWith('claim_ocr_batch', {
+      p_limit: 10,
+      p_max_attempts: 3,
+    });
+    expect(createOcrWorker).not.toHaveBeenCalled();
+  });
+
+  it('should fail without claiming when OCR language data is not configured', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    const { getOcrLangPath } = await import('@/lib/ocr');
+    vi.mocked(getOcrLangPath).mockImplementationOnce(() => {
+      throw new Error('Missing OCR_LANG_PATH environment variable');
+    });
+
+    const response = await processOcrGET(ocrRequest());
+
+    expect(response.status).toBe(500);
+    expect(supabaseAdmin.rpc).not.toHaveBeenCalled();
+  });
+
+  it('should store extracted text for claimed screenshots', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    const { downloadFile } = await import('@/lib/storage');
+    const screenshots = mockQueryBuilder(
+      { data: null, error: null },
+      { data: null, error: null }
+    );
+    vi.mocked(supabaseAdmin.from).mockReturnValue(screenshots as any);
+    vi.mocked(supabaseAdmin.rpc).mockResolvedValue({
+      data: [
+        { id: 'a', storage_path: 'user-1/a.png', password_hash: null, max_views: null, ocr_attempts: 1 },
+        { id: 'b', storage_path: 'user-1/b.png', password_hash: null, max_views: 1, ocr_attempts: 1 },
+      ],
+      error: null,
+    } as any);
+
+    const response = await processOcrGET(ocrRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ claimed: 2, completed: 2, retrying: 0, failed: 0 });
+    expect(downloadFile).toHaveBeenCalledWith('user-1/a.png', 'screenshots');
+    expect(downloadFile).toHaveBeenCalledWith('user-1/b.png', 'protected-screenshots');
+    expect(screenshots.update).toHaveBeenCalledWith(
+      expect.objectContaining({ ocr_status: 'completed', ocr_text: 'Error: payment failed' })
+    );
+    expect(terminateWorker).toHaveBeenCalledTimes(1);
+  });
+
+  it('should requeue failures until the last attempt', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    const { extractText } = await import('@/lib/ocr');
+    const screenshots = mockQueryBuilder(
+      { data: null, error: null },
+      { data: null, error: null }
+    );
+    vi.mocked(supabaseAdmin.from).mockReturnValue(screenshots as any);
+    vi.mocked(supabaseAdmin.rpc).mockResolvedValue({
+      data: [
+        { id: 'a', storage_path: 'user-1/a.png', password_hash: null, max_views: null, ocr_attempts: 1 },
+        { id: 'b', storage_path: 'user-1/b.png', password_hash: null, max_views: null, ocr_attempts: 3 },
+      ],
+      error: null,
+    } as any);
+    vi.mocked(extractText)
+      .mockRejectedValueOnce(new Error('Unsupported image'))
+      .mockRejectedValueOnce(new Error('Unsupported image'));
+
+    const response = await processOcrGET(ocrRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ claimed: 2, completed: 0, retrying: 1, failed: 1 });
+    expect(body.failures).toEqual([
+      { id: 'a', error: 'Unsupported image' },
+      { id: 'b', error: 'Unsupported image' },
+    ]);
+    expect(screenshots.update).toHaveBeenNthCalledWith(1, { ocr_status: 'pending' });
+    expect(screenshots.update).toHaveBeenNthCalledWith(2, { ocr_status: 'failed' });
+    expect(terminateWorker).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('GET /api/cron/process-exports', () => {
+  beforeEach(() => {
+    resetAllMocks();
+    process.env.CRON_SECRET = CRON_SECRET;
+  });
+
+  const exportsRequest = () =>
+    createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/cron/process-exports',
+      headers: { Authorization: `Bearer ${CRON_SECRET}` },
+    });
+
+  it('should return 401 without the cron secret', async () => {
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/cron/process-exports',
+    });
+
+    const response = await processExportsGET(request);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should build, upload and complete claimed exports', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    const { uploadFileStream } = await import('@/lib/storage');
+    const { createDataExportStream } = await import('@/lib/export');
+    const dataExports = mockQueryBuilder(
+      { data: [], error: null },
+      { data: null, error: null }
+    );
+    vi.mocked(supabaseAdmin.from).mockReturnValue(dataExports as any);
+    vi.mocked(supabaseAdmin.rpc).mockResolvedValue({
+      data: [{ id: 'export-1', user_id: 'user-1', attempts: 1 }],
+      error: null,
+    } as any);
+
+    const response = await processExportsGET(exportsRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ claimed: 1, completed: 1, retrying: 0, failed: 0, expired: 0 });
+    expect(supabaseAdmin.rpc).toHaveBeenCalledWith('claim_data_export_batch', {
+      p_limit: 1,
+      p_max_attempts: 3,
+    });
+    expect(createDataExportStream).toHaveBeenCalledWith('user-1');
+    expect(uploadFileStream).toHaveBeenCalledWith(
+      'user-1/export-1.zip',
+      expect.any(ReadableStream),
+      'application/zip',
+      true,
+      'exports'
+    );
+    expect(dataExports.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'completed', storage_path: 'user-1/export-1.zip', file_size: 3 })
+    );
+  });
+
+  it('should delete archives past their retention period', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    const { deleteFiles } = await import('@/lib/storage');
+    const dataExports = mockQueryBuilder(
+      {
+        data: [
+          mockDataExport({ id: 'export-1', storage_path: 'user-1/export-1.zip' }),
+          mockDataExport({ id: 'export-2', storage_path: 'user-2/export-2.zip' }),
+        ],
+        error: null,
+      },
+      { data: null, error: null }
+    );
+    vi.mocked(supabaseAdmin.from).mockReturnValue(dataExports as any);
+    vi.mocked(supabaseAdmin.rpc).mockResolvedValue({ data: [], error: null } as any);
+
+    const response = await processExportsGET(exportsRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ claimed: 0, expired: 2 });
+    expect(deleteFiles).toHaveBeenCalledWith(['user-1/export-1.zip', 'user-2/export-2.zip'], 'exports');
+    expect(dataExports.update).toHaveBeenCalledWith({ status: 'expired', storage_path: null });
+    expect(dataExports.in).toHaveBeenCalledWith('id', ['export-1', 'export-2']);
+  });
+
+  it('should requeue failures until the last attempt', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    const { createDataExportStream } = await import('@/lib/export');
+    const dataExports = mockQueryBuilder(
+      { data: [], error: null },
+      { data: null, error: null },
+      { data: null, error: null }
+    );
+    vi.mocked(supabaseAdmin.from).mockReturnValue(dataExports as any);
+    vi.mocked(supabaseAdmin.rpc).mockResolvedValue({
+      data: [
+        { id: 'export-1', user_id: 'user-1', attempts: 1 },
+        { id: 'export-2', user_id: 'user-2', attempts: 3 },
+      ],
+      error: null,
+    } as any);
+    vi.mocked(createDataExportStream)
+      .mockRejectedValueOnce(new Error('Failed to load export data: timeout'))
+      .mockRejectedValueOnce(new Error('Failed to load export data: timeout'));
+
+    const response = await processExportsGET(exportsRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ claimed: 2, completed: 0, retrying: 1, failed: 1 });
+    expect(dataExports.update).toHaveBeenNthCalledWith(1, {
+      status: 'pending',
+      error: 'Failed to load export data: timeout',
+    });
+    expect(dataExports.update).toHaveBeenNthCalledWith(2, {
+      status: 'failed',
+      error: 'Failed to load export data: timeout',
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * API tests for GDPR data exports
+ * Tests: POST /api/auth/export, GET /api/auth/export
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRequest, createAuthRequest } from '../helpers/request-builder';
+import {
+  mockSupabaseQueryResponse,
+  mockQueryBuilder,
+  mockDataExport,
+} from '../helpers/supabase-mocks';
+import { resetAllMocks } from '../helpers/test-utils';
+
+// Mock all external dependencies BEFORE importing route handlers
+
+// Mock Supabase
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+  createUserClient: vi.fn(),
+  getUserIdFromToken: vi.fn(async (token: string) => {
+    if (token === 'invalid-token') return null;
+    return 'test-user-id-123';
+  }),
+}));
+
+// Mock storage operations
+vi.mock('@/lib/storage', () => ({
+  SCREENSHOTS_BUCKET: 'screenshots',
+  PROTECTED_SCREENSHOTS_BUCKET: 'protected-screenshots',
+  EXPORTS_BUCKET: 'exports',
+  generateSignedDownloadUrl: vi.fn(async (path: string) => `https://test-storage.supabase.co/sign/${path}`),
+  downloadFile: vi.fn(),
+}));
+
+// Now import route handlers AFTER mocks are defined
+import { POST as exportPOST, GET as exportGET } from '@/app/api/auth/export/route';
+
+const HOUR = 60 * 60 * 1000;
+
+const exportRequest = (method: 'GET' | 'POST') =>
+  createAuthRequest({
+    method,
+    url: 'http://localhost:3000/api/auth/export',
+  });
+
+/**
+ * Route supabaseAdmin.from('data_exports') to the given query mock
+ */
+async function mockExportsQuery(dataExports: ReturnType<typeof mockQueryBuilder>) {
+  const { supabaseAdmin } = await import('@/lib/supabase');
+  vi.mocked(supabaseAdmin.from).mockReturnValue(dataExports as any);
+}
+
+describe('POST /api/auth/export', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should return 401 when no auth token provided', async () => {
+    const request = createMockRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/auth/export',
+    });
+
+    const response = await exportPOST(request);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should queue a new export', async () => {
+    const queued = mockDataExport();
+    const dataExports = mockQueryBuilder(
+      mockSupabaseQueryResponse(null),
+      mockSupabaseQueryResponse(queued)
+    );
+    await mockExportsQuery(dataExports);
+
+    const response = await exportPOST(exportRequest('POST'));
+    const body = await response.json();
+
+    expect(response.status).toBe(202);
+    expect(dataExports.insert).toHaveBeenCalledWith({ user_id: 'test-user-id-123' });
+    expect(body).toMatchObject({ id: queued.id, status: 'pending', download_url: null });
+  });
+
+  it('should return the export already in progress', async () => {
+    const processing = mockDataExport({ status: 'processing' });
+    const dataExports = mockQueryBuilder(mockSupabaseQueryResponse(processing));
+    await mockExportsQuery(dataExports);
+
+    const response = await exportPOST(exportRequest('POST'));
+    const body = await response.json();
+
+    expect(response.status).toBe(202);
+    expect(body.status).toBe('processing');
+    expect(dataExports.insert).not.toHaveBeenCalled();
+  });
+
+  it('should limit exports to one per cooldown period', async () => {
+    const completed = mockDataExport({
+      status: 'completed',
+      created_at: new Date(Date.now() - 2 * HOUR).toISOString(),
+    });
+    await mockExportsQuery(mockQueryBuilder(mockSupabaseQueryResponse(completed)));
+
+    const response = await exportPOST(exportRequest('POST'));
+    const body = await response.json();
+
+    expect(response.status).toBe(429);
+    expect(body.error.details.retry_after).toBeGreaterThan(21 * 60 * 60);
+  });
+
+  it('should allow a retry right after a failed export', async () => {
+    const failed = mockDataExport({ status: 'failed', error: 'Failed to download file' });
+    const dataExports = mockQueryBuilder(
+      mockSupabaseQueryResponse(failed),
+      mockSupabaseQueryResponse(mockDataExport({ id: '323e4567-e89b-12d3-a456-426614174001' }))
+    );
+    await mockExportsQuery(dataExports);
+
+    const response = await exportPOST(exportRequest('POST'));
+
+    expect(response.status).toBe(202);
+    expect(dataExports.insert).toHaveBeenCalled();
+  });
+});
+
+describe('GET /api/auth/export', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should return 404 when no export was requested', async () => {
+    await mockExportsQuery(mockQueryBuilder(mockSupabaseQueryResponse(null)));
+
+    const response = await exportGET(exportRequest('GET'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return a signed download link for a completed export', async () => {
+    const { generateSignedDownloadUrl } = await import('@/lib/storage');
+    const completed = mockDataExport({
+      status: 'completed',
+      storage_path: 'test-user-id-123/323e4567-e89b-12d3-a456-426614174000.zip',
+      file_size: 4096,
+      completed_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + 24 * HOUR).toISOString(),
+    });
+    await mockExportsQuery(mockQueryBuilder(mockSupabaseQueryResponse(completed)));
+
+    const response = await exportGET(exportRequest('GET'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(generateSignedDownloadUrl).toHaveBeenCalledWith(completed.storage_path, 3600, 'exports');
+    expect(body).toMatchObject({
+      status: 'completed',
+      file_size: 4096,
+      download_url: `https://test-storage.supabase.co/sign/${completed.storage_path}`,
+      download_url_expires_in: 3600,
+    });
+  });
+
+  it('should report an export past its retention period as expired', async () => {
+    const { generateSignedDownloadUrl } = await import('@/lib/storage');
+    const completed = mockDataExport({
+      status: 'completed',
+      storage_path: 'test-user-id-123/323e4567-e89b-12d3-a456-426614174000.zip',
+      expires_at: new Date(Date.now() - HOUR).toISOString(),
+    });
+    await mockExportsQuery(mockQueryBuilder(mockSupabaseQueryResponse(completed)));
+
+    const response = await exportGET(exportRequest('GET'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ status: 'expired', download_url: null });
+    expect(generateSignedDownloadUrl).not.toHaveBeenCalled();
+  });
+
+  it('should include the error of a failed export', async () => {
+    const failed = mockDataExport({ status: 'failed', error: 'Failed to download file' });
+    await mockExportsQuery(mockQueryBuilder(mockSupabaseQueryResponse(failed)));
+
+    const response = await exportGET(exportRequest('GET'));
+    const body = await response.json();
+
+    expect(body).toMatchObject({ status: 'failed', error: 'Failed to download file' });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * API tests for screenshot list sorting and pagination
+ * Tests: GET /api/screenshots (sort, order, cursor and offset pagination)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createAuthRequest } from '../helpers/request-builder';
+import {
+  mockSupabaseQueryResponse,
+  mockQueryBuilder,
+  mockScreenshot,
+} from '../helpers/supabase-mocks';
+import { resetAllMocks } from '../helpers/test-utils';
+
+// Mock all external dependencies BEFORE importing route handlers
+
+// Mock Supabase
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+  createUserClient: vi.fn(),
+  getUserIdFromToken: vi.fn(async () => 'test-user-id-123'),
+}));
+
+// Mock storage operations
+vi.mock('@/lib/storage', () => ({
+  SCREENSHOTS_BUCKET: 'screenshots',
+  PROTECTED_SCREENSHOTS_BUCKET: 'protected-screenshots',
+  getPublicUrl: vi.fn((path: string) => `https://test-storage.supabase.co/public/${path}`),
+}));
+
+// Now import route handlers AFTER mocks are defined
+import { GET as screenshotsListGET } from '@/app/api/screenshots/route';
+import { encodeCursor } from '@/lib/pagination';
+
+const ids = Array.from({ length: 3 }, (_, i) => `123e4567-e89b-12d3-a456-42661417400${i}`);
+
+/**
+ * Route createUserClient().from('screenshots') to the given query mock
+ */
+async function mockScreenshotsQuery(screenshots: ReturnType<typeof mockQueryBuilder>) {
+  const { createUserClient } = await import('@/lib/supabase');
+  const from = vi.fn(() => screenshots);
+  vi.mocked(createUserClient).mockReturnValue({ from, rpc: vi.fn() } as any);
+
+  return { from };
+}
+
+const listRequest = (query: string) =>
+  screenshotsListGET(
+    createAuthRequest({
+      method: 'GET',
+      url: `http://localhost:3000/api/screenshots${query}`,
+    })
+  );
+
+describe('GET /api/screenshots (sorting and pagination)', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should keep offset pagination with a total and return a cursor for the next page', async () => {
+    const rows = ids.slice(0, 2).map((id) => mockScreenshot({ id }));
+    const screenshots = mockQueryBuilder({ ...mockSupabaseQueryResponse(rows), count: 5 });
+    const { from } = await mockScreenshotsQuery(screenshots);
+
+    const response = await listRequest('?limit=2&offset=2');
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(screenshots.select).toHaveBeenCalledWith('*', { count: 'exact' });
+    expect(screenshots.order).toHaveBeenCalledWith('created_at', { ascending: false });
+    expect(screenshots.order).toHaveBeenCalledWith('id', { ascending: false });
+    expect(screenshots.range).toHaveBeenCalledWith(2, 3);
+    expect(from).toHaveBeenCalledWith('screenshots');
+    expect(body.pagination).toMatchObject({ total: 5, limit: 2, offset: 2, has_more: true });
+    expect(body.pagination.next_cursor).toBe(encodeCursor(rows[1] as any, 'created_at', 'desc'));
+  });
+
+  it('should continue from a cursor without counting', async () => {
+    const cursorRow = mockScreenshot({ id: ids[0], file_size: 2048 });
+    const rows = ids.slice(1).map((id) => mockScreenshot({ id, file_size: 1024 }));
+    const screenshots = mockQueryBuilder(mockSupabaseQueryResponse(rows));
+    await mockScreenshotsQuery(screenshots);
+
+    const cursor = encodeCursor(cursorRow as any, 'file_size', 'asc');
+    const response = await listRequest(`?sort=file_size&order=asc&limit=2&cursor=${cursor}`);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(screenshots.select).toHaveBeenCalledWith('*', {});
+    expect(screenshots.order).toHaveBeenCalledWith('file_size', { ascending: true });
+    expect(screenshots.or).toHaveBeenCalledWith(
+      `file_size.gt.2048,and(file_size.eq.2048,id.gt."${ids[0]}")`
+    );
+    expect(screenshots.limit).toHaveBeenCalledWith(3);
+    expect(screenshots.range).not.toHaveBeenCalled();
+    expect(body.screenshots).toHaveLength(2);
+    expect(body.pagination).toEqual({
+      total: null,
+      limit: 2,
+      offset: 0,
+      has_more: false,
+      next_cursor: null,
+    });
+  });
+
+  it('should detect the next page from the extra row in cursor mode', async () => {
+    const rows = ids.map((id) => mockScreenshot({ id, views: 10 }));
+    await mockScreenshotsQuery(mockQueryBuilder(mockSupabaseQueryResponse(rows)));
+
+    const cursor = encodeCursor(mockScreenshot({ id: ids[0], views: 12 }) as any, 'views', 'desc');
+    const response = await listRequest(`?sort=views&limit=2&cursor=${cursor}`);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.screenshots.map((s: { id: string }) => s.id)).toEqual(ids.slice(0, 2));
+    expect(body.pagination.has_more).toBe(true);
+    expect(body.pagination.next_cursor).toBe(encodeCursor(rows[1] as any, 'views', 'desc'));
+  });
+
+  it('should sort by filename', async () => {
+    const screenshots = mockQueryBuilder(mockSupabaseQueryResponse([]));
+    await mockScreenshotsQuery(screenshots);
+
+    const response = await listRequest('?sort=filename&order=asc');
+
+    expect(response.status).toBe(200);
+    expect(screenshots.order).toHaveBeenCalledWith('original_filename', { ascending: true });
+  });
+
+  it('should reject a cursor from a different sort', async () => {
+    const cursor = encodeCursor(mockScreenshot({ id: ids[0] }) as any, 'created_at', 'desc');
+    await mockScreenshotsQuery(mockQueryBuilder(mockSupabaseQueryResponse([])));
+
+    const response = await listRequest(`?sort=views&cursor=${cursor}`);
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should reject cursor and offset together', async () => {
+    const response = await listRequest('?cursor=abc&offset=10');
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject cursors for relevance-ranked search', async () => {
+    const response = await listRequest('?q=invoice&cursor=abc');
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject unknown sort options', async () => {
+    const response = await listRequest('?sort=random');
+
+    expect(response.status).toBe(400);
+  });
+});
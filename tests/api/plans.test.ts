@@ -0,0 +1,41 @@
+/**
+ * API tests for plan entitlements
+ * Tests: GET /api/plans
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GET as plansGET } from '@/app/api/plans/route';
+
+describe('GET /api/plans', () => {
+  it('should list every plan with its limits and features without authentication', async () => {
+    const response = await plansGET();
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.plans.map((plan: { id: string }) => plan.id)).toEqual(['free', 'pro', 'team']);
+    expect(body.plans[0]).toEqual({
+      id: 'free',
+      name: 'Free',
+      price_monthly: 0,
+      billed_per_seat: false,
+      uploads_per_month: 10,
+      max_file_size: 10 * 1024 * 1024,
+      storage_quota: 1024 * 1024 * 1024,
+      retention_days: 30,
+      bandwidth_per_month: 5 * 1024 * 1024 * 1024,
+      max_archive_bytes: 100 * 1024 * 1024,
+      features: { password_links: true, custom_domains: false, teams: false },
+    });
+  });
+
+  it('should report unlimited paid limits as null', async () => {
+    const response = await plansGET();
+    const body = await response.json();
+    const team = body.plans[2];
+
+    expect(team.uploads_per_month).toBeNull();
+    expect(team.retention_days).toBeNull();
+    expect(team.billed_per_seat).toBe(true);
+    expect(team.features.teams).toBe(true);
+  });
+});
@@ -9,6 +9,10 @@
  * - tests/contract/screenshots-delete.test.ts
  * - tests/contract/screenshots-public.test.ts
  * - tests/contract/screenshots-download.test.ts
+ *
+ * Also covers the raw image embed route: GET /i/[shortId],
+ * the viewer page status for gone links (src/middleware.ts)
+ * and password-protected share links: POST /api/s/[shortId]/unlock
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
@@ -51,15 +55,30 @@ vi.mock('@/lib/supabase', () => ({
 
 // Mock storage operations
 vi.mock('@/lib/storage', () => ({
+  SCREENSHOTS_BUCKET: 'screenshots',
+  PROTECTED_SCREENSHOTS_BUCKET: 'protected-screenshots',
   getPublicUrl: vi.fn((path: string) => `https://test-storage.supabase.co/public/${path}`),
-  deleteFile: vi.fn(async () => {}),
+  deleteFiles: vi.fn(async () => {}),
+  downloadFile: vi.fn(async () => Buffer.from([0x89, 0x50, 0x4e, 0x47])),
+  generateSignedDownloadUrl: vi.fn(
+    async (path: string) => `https://test-storage.supabase.co/sign/${path}?token=signed`
+  ),
+  generateSignedDownloadUrls: vi.fn(async (paths: string[]) =>
+    paths.map((path) => `https://test-storage.supabase.co/sign/${path}?token=signed`)
+  ),
+  moveFiles: vi.fn(async () => {}),
 }));
 
 // Now import route handlers AFTER mocks are defined
 import { GET as screenshotGET, PATCH as screenshotPATCH, DELETE as screenshotDELETE } from '@/app/api/screenshots/[id]/route';
 import { GET as screenshotsListGET } from '@/app/api/screenshots/route';
 import { GET as publicViewGET } from '@/app/api/s/[shortId]/route';
+import { POST as unlockPOST } from '@/app/api/s/[shortId]/unlock/route';
+import { hashSharePassword, createShareAccessToken } from '@/lib/share-access';
+import { generateSignedDownloadUrl } from '@/lib/storage';
 import { GET as downloadGET } from '@/app/api/screenshots/[id]/download/route';
+import { GET as rawImageGET } from '@/app/i/[shortId]/route';
+import { middleware } from '@/middleware';
 
 describe('GET /api/screenshots/[id]', () => {
   beforeEach(() => {
@@ -138,6 +157,57 @@ describe('GET /api/screenshots/[id]', () => {
     expect(body).toHaveProperty('share_url');
     expect(body).toHaveProperty('views');
     expect(body).toHaveProperty('created_at');
+    expect(body.thumbnail_url).toBeNull();
+    expect(body.variants).toEqual([]);
+  });
+
+  it('should return thumbnail and variant URLs when generated', async () => {
+    const { createUserClient } = await import('@/lib/supabase');
+
+    const screenshot = mockScreenshot({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      thumbnail_path: 'user-123/1234567890_abc123_thumb.webp',
+      variants: [
+        {
+          width: 640,
+          height: 360,
+          format: 'webp',
+          path: 'user-123/1234567890_abc123_w640.webp',
+          size: 2048,
+        },
+      ],
+    });
+
+    vi.mocked(createUserClient).mockReturnValue({
+      from: vi.fn(() => ({
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue(mockSupabaseQueryResponse(screenshot)),
+      })),
+    } as any);
+
+    const request = createAuthRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/screenshots/123e4567-e89b-12d3-a456-426614174000',
+    });
+
+    const response = await screenshotGET(request, {
+      params: Promise.resolve({ id: '123e4567-e89b-12d3-a456-426614174000' }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.thumbnail_url).toBe(
+      'https://test-storage.supabase.co/public/user-123/1234567890_abc123_thumb.webp'
+    );
+    expect(body.variants).toEqual([
+      {
+        width: 640,
+        height: 360,
+        format: 'webp',
+        url: 'https://test-storage.supabase.co/public/user-123/1234567890_abc123_w640.webp',
+      },
+    ]);
   });
 
   it('should return 404 for non-existent screenshot', async () => {
@@ -252,10 +322,190 @@ describe('PATCH /api/screenshots/[id]', () => {
     expect(body.is_public).toBe(false);
   });
 
+  it('should move the files into the private bucket when a password is set', async () => {
+    const { createUserClient } = await import('@/lib/supabase');
+    const { moveFiles } = await import('@/lib/storage');
+
+    const passwordHash = await hashSharePassword('hunter22');
+    const singleMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockSupabaseQueryResponse(mockScreenshot()))
+      .mockResolvedValueOnce(mockSupabaseQueryResponse(mockProfile({ plan: 'pro' })))
+      .mockResolvedValueOnce(
+        mockSupabaseQueryResponse(mockScreenshot({ password_hash: passwordHash }))
+      );
+    vi.mocked(createUserClient).mockReturnValue({
+      from: vi.fn(() => ({
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: singleMock,
+      })),
+    } as any);
+
+    const request = createAuthRequest({
+      method: 'PATCH',
+      url: 'http://localhost:3000/api/screenshots/123e4567-e89b-12d3-a456-426614174000',
+      body: { password: 'hunter22' },
+    });
+
+    const response = await screenshotPATCH(request, {
+      params: Promise.resolve({ id: '123e4567-e89b-12d3-a456-426614174000' }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(moveFiles).toHaveBeenCalledWith(
+      ['user-123/1234567890_abc123.png'],
+      'screenshots',
+      'protected-screenshots'
+    );
+    expect(body.password_protected).toBe(true);
+    expect(body.storage_url).toBe(
+      'https://test-storage.supabase.co/sign/user-123/1234567890_abc123.png?token=signed'
+    );
+  });
+
+  it('should move the files back when the update fails', async () => {
+    const { createUserClient } = await import('@/lib/supabase');
+    const { moveFiles } = await import('@/lib/storage');
+
+    const singleMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        mockSupabaseQueryResponse(mockScreenshot({ password_hash: await hashSharePassword('hunter22') }))
+      )
+      .mockResolvedValueOnce({ data: null, error: { message: 'update failed' } });
+    vi.mocked(createUserClient).mockReturnValue({
+      from: vi.fn(() => ({
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: singleMock,
+      })),
+    } as any);
+
+    const request = createAuthRequest({
+      method: 'PATCH',
+      url: 'http://localhost:3000/api/screenshots/123e4567-e89b-12d3-a456-426614174000',
+      body: { password: null },
+    });
+
+    const response = await screenshotPATCH(request, {
+      params: Promise.resolve({ id: '123e4567-e89b-12d3-a456-426614174000' }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(moveFiles).toHaveBeenNthCalledWith(
+      1,
+      ['user-123/1234567890_abc123.png'],
+      'protected-screenshots',
+      'screenshots'
+    );
+    expect(moveFiles).toHaveBeenNthCalledWith(
+      2,
+      ['user-123/1234567890_abc123.png'],
+      'screenshots',
+      'protected-screenshots'
+    );
+  });
+
   // NOTE: Empty update is allowed - returns current screenshot unchanged
   it.skip('should reject empty update', async () => {
     // Route allows empty updates - returns current screenshot
   });
+
+  it('should reject a view limit at or below the current view count', async () => {
+    const { createUserClient } = await import('@/lib/supabase');
+
+    const update = vi.fn().mockReturnThis();
+    vi.mocked(createUserClient).mockReturnValue({
+      from: vi.fn(() => ({
+        update,
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue(mockSupabaseQueryResponse(mockScreenshot({ views: 3 }))),
+      })),
+    } as any);
+
+    const request = createAuthRequest({
+      method: 'PATCH',
+      url: 'http://localhost:3000/api/screenshots/123e4567-e89b-12d3-a456-426614174000',
+      body: { max_views: 3 },
+    });
+
+    const response = await screenshotPATCH(request, {
+      params: Promise.resolve({ id: '123e4567-e89b-12d3-a456-426614174000' }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.details).toEqual({ views: 3 });
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('should reject clearing expiry on the free plan', async () => {
+    const { createUserClient } = await import('@/lib/supabase');
+
+    const update = vi.fn().mockReturnThis();
+    const singleMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockSupabaseQueryResponse(mockScreenshot()))
+      .mockResolvedValueOnce(mockSupabaseQueryResponse(mockProfile({ plan: 'free' })));
+    vi.mocked(createUserClient).mockReturnValue({
+      from: vi.fn(() => ({
+        update,
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: singleMock,
+      })),
+    } as any);
+
+    const request = createAuthRequest({
+      method: 'PATCH',
+      url: 'http://localhost:3000/api/screenshots/123e4567-e89b-12d3-a456-426614174000',
+      body: { expires_in: 'never' },
+    });
+
+    const response = await screenshotPATCH(request, {
+      params: Promise.resolve({ id: '123e4567-e89b-12d3-a456-426614174000' }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(body.error.code).toBe('FORBIDDEN');
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('should reject past or malformed expires_at', async () => {
+    for (const expiresAt of [new Date(Date.now() - 60_000).toISOString(), 'next tuesday']) {
+      const request = createAuthRequest({
+        method: 'PATCH',
+        url: 'http://localhost:3000/api/screenshots/123e4567-e89b-12d3-a456-426614174000',
+        body: { expires_at: expiresAt },
+      });
+
+      const response = await screenshotPATCH(request, {
+        params: Promise.resolve({ id: '123e4567-e89b-12d3-a456-426614174000' }),
+      });
+
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it('should reject max_views combined with burn_after_reading', async () => {
+    const request = createAuthRequest({
+      method: 'PATCH',
+      url: 'http://localhost:3000/api/screenshots/123e4567-e89b-12d3-a456-426614174000',
+      body: { max_views: 5, burn_after_reading: true },
+    });
+
+    const response = await screenshotPATCH(request, {
+      params: Promise.resolve({ id: '123e4567-e89b-12d3-a456-426614174000' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
 });
 
 describe('DELETE /api/screenshots/[id]', () => {
@@ -321,26 +571,211 @@ describe('GET /api/screenshots (list)', () => {
   });
 });
 
+/**
+ * Mock the admin client: screenshot lookup by short_id + view increment
+ * record_screenshot_view returns the next view count, or null once max_views is used up
+ */
+async function mockPublicLookup(screenshot: ReturnType<typeof mockScreenshot> | null) {
+  const { supabaseAdmin } = await import('@/lib/supabase');
+
+  vi.mocked(supabaseAdmin.from).mockReturnValue({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue(
+      screenshot
+        ? mockSupabaseQueryResponse(screenshot)
+        : { data: null, error: { code: 'PGRST116' } }
+    ),
+  } as any);
+  (supabaseAdmin as any).rpc = vi.fn(async (fn: string) => {
+    if (fn !== 'record_screenshot_view' || !screenshot) {
+      return { data: null, error: null };
+    }
+    const exhausted = screenshot.max_views !== null && screenshot.views >= screenshot.max_views;
+    return { data: exhausted ? null : screenshot.views + 1, error: null };
+  });
+
+  return { supabaseAdmin };
+}
+
 describe('GET /api/s/[shortId] (public viewer)', () => {
   beforeEach(() => {
     resetAllMocks();
   });
 
-  // TODO: Add public viewer tests
-  it.skip('should return public screenshot without auth', async () => {
-    // Requires mocking public screenshot lookup
+  it('should return public screenshot without auth', async () => {
+    await mockPublicLookup(mockScreenshot({ short_id: 'abc123', views: 4 }));
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/s/abc123',
+    });
+
+    const response = await publicViewGET(request, {
+      params: Promise.resolve({ shortId: 'abc123' }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.short_id).toBe('abc123');
+    expect(body.storage_url).toContain('user-123/1234567890_abc123.png');
+    expect(body.seo_metadata.title).toBe('Screenshot - test.png');
+  });
+
+  it('should not load extracted text for share links', async () => {
+    const { supabaseAdmin } = await mockPublicLookup(mockScreenshot({ short_id: 'abc123' }));
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/s/abc123',
+    });
+
+    const response = await publicViewGET(request, {
+      params: Promise.resolve({ shortId: 'abc123' }),
+    });
+    const columns = vi.mocked(supabaseAdmin.from('screenshots').select).mock.calls[0][0] as string;
+
+    expect(response.status).toBe(200);
+    expect(columns).not.toContain('*');
+    expect(columns).not.toContain('ocr_text');
+    expect(columns).not.toContain('search_vector');
+  });
+
+  it('should increment view count', async () => {
+    const { supabaseAdmin } = await mockPublicLookup(
+      mockScreenshot({ short_id: 'abc123', views: 4 })
+    );
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/s/abc123',
+    });
+
+    const response = await publicViewGET(request, {
+      params: Promise.resolve({ shortId: 'abc123' }),
+    });
+    const body = await response.json();
+
+    expect(body.views).toBe(5);
+    expect(supabaseAdmin.rpc).toHaveBeenCalledWith('record_screenshot_view', {
+      p_screenshot_id: 'screenshot-123',
+    });
   });
 
-  it.skip('should increment view count', async () => {
-    // Requires mocking view tracking
+  it('should count limited-view screenshots before responding with a signed URL', async () => {
+    await mockPublicLookup(mockScreenshot({ short_id: 'abc123', views: 0, max_views: 1 }));
+
+    const response = await publicViewGET(
+      createMockRequest({ method: 'GET', url: 'http://localhost:3000/api/s/abc123' }),
+      { params: Promise.resolve({ shortId: 'abc123' }) }
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.views).toBe(1);
+    expect(body.max_views).toBe(1);
+    expect(body.storage_url).toContain('/sign/');
   });
 
-  it.skip('should return 410 for expired screenshot', async () => {
-    // Requires mocking expiration logic
+  it('should return 410 once the view limit has been used up concurrently', async () => {
+    // Lookup still sees one view left, but another request consumed it first
+    const { supabaseAdmin } = await mockPublicLookup(
+      mockScreenshot({ short_id: 'abc123', views: 0, max_views: 1 })
+    );
+    vi.mocked(supabaseAdmin.rpc).mockResolvedValueOnce({ data: null, error: null } as any);
+
+    const response = await publicViewGET(
+      createMockRequest({ method: 'GET', url: 'http://localhost:3000/api/s/abc123' }),
+      { params: Promise.resolve({ shortId: 'abc123' }) }
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(410);
+    expect(body.error.code).toBe('RESOURCE_GONE');
   });
 
-  it.skip('should return 404 for private screenshot', async () => {
-    // Requires mocking is_public check
+  it('should return 410 for expired screenshot', async () => {
+    await mockPublicLookup(
+      mockScreenshot({
+        short_id: 'abc123',
+        expires_at: new Date(Date.now() - 60_000).toISOString(),
+      })
+    );
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/s/abc123',
+    });
+
+    const response = await publicViewGET(request, {
+      params: Promise.resolve({ shortId: 'abc123' }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(410);
+    expect(body.error.code).toBe('RESOURCE_GONE');
+  });
+
+  it('should return 404 for private screenshot', async () => {
+    await mockPublicLookup(mockScreenshot({ short_id: 'abc123', is_public: false }));
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/s/abc123',
+    });
+
+    const response = await publicViewGET(request, {
+      params: Promise.resolve({ shortId: 'abc123' }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(body.error.code).toBe('NOT_FOUND');
+  });
+});
+
+describe('GET /s/[shortId] (viewer page status)', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  const requestPage = (shortId: string) =>
+    middleware(createMockRequest({ method: 'GET', url: `http://localhost:3000/s/${shortId}` }));
+
+  it('should return 410 Gone for an expired link', async () => {
+    await mockPublicLookup(
+      mockScreenshot({ short_id: 'abc123', expires_at: new Date(Date.now() - 60_000).toISOString() })
+    );
+
+    const response = await requestPage('abc123');
+
+    expect(response.status).toBe(410);
+    expect(response.headers.get('Content-Type')).toContain('text/html');
+    expect(await response.text()).toContain('This screenshot has expired');
+  });
+
+  it('should return 410 Gone once a burn-after-reading link used its last view', async () => {
+    // record_screenshot_view tombstones the screenshot by setting expires_at on the final view
+    await mockPublicLookup(
+      mockScreenshot({
+        short_id: 'abc123',
+        max_views: 1,
+        views: 1,
+        expires_at: new Date(Date.now() - 1_000).toISOString(),
+      })
+    );
+
+    const response = await requestPage('abc123');
+
+    expect(response.status).toBe(410);
+  });
+
+  it('should pass live and unknown links through to the page', async () => {
+    await mockPublicLookup(mockScreenshot({ short_id: 'abc123' }));
+    expect((await requestPage('abc123')).headers.get('x-middleware-next')).toBe('1');
+
+    await mockPublicLookup(null);
+    expect((await requestPage('zzz999')).headers.get('x-middleware-next')).toBe('1');
   });
 });
 
@@ -369,3 +804,251 @@ describe('GET /api/screenshots/[id]/download', () => {
     // Requires mocking Supabase Storage signed URLs
   });
 });
+
+describe('GET /i/[shortId] (raw image)', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should serve image bytes with content type and caching headers', async () => {
+    const { downloadFile } = await import('@/lib/storage');
+    const { supabaseAdmin } = await mockPublicLookup(
+      mockScreenshot({ short_id: 'abc123', mime_type: 'image/png', file_size: 4 })
+    );
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/i/abc123.png',
+    });
+
+    const response = await rawImageGET(request, {
+      params: Promise.resolve({ shortId: 'abc123.png' }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/png');
+    expect(response.headers.get('Cache-Control')).toContain('max-age=');
+    expect(response.headers.get('ETag')).toMatch(/^"[0-9a-f]+"$/);
+    expect(downloadFile).toHaveBeenCalledWith('user-123/1234567890_abc123.png', 'screenshots');
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(
+      new Uint8Array([0x89, 0x50, 0x4e, 0x47])
+    );
+    expect(supabaseAdmin.rpc).toHaveBeenCalledWith(
+      'increment_bandwidth',
+      expect.objectContaining({ p_bytes: 4 })
+    );
+  });
+
+  it('should send an ASCII filename with the original name as filename*', async () => {
+    await mockPublicLookup(
+      mockScreenshot({ short_id: 'abc123', original_filename: 'Capture d’écran "1".png' })
+    );
+
+    const response = await rawImageGET(
+      createMockRequest({ method: 'GET', url: 'http://localhost:3000/i/abc123' }),
+      { params: Promise.resolve({ shortId: 'abc123' }) }
+    );
+
+    expect(response.headers.get('Content-Disposition')).toBe(
+      `inline; filename="Capture d__cran _1_.png"; filename*=UTF-8''Capture%20d%E2%80%99%C3%A9cran%20%221%22.png`
+    );
+  });
+
+  it('should return 304 when the ETag matches', async () => {
+    const { downloadFile } = await import('@/lib/storage');
+    await mockPublicLookup(mockScreenshot({ short_id: 'abc123' }));
+
+    const first = await rawImageGET(
+      createMockRequest({ method: 'GET', url: 'http://localhost:3000/i/abc123' }),
+      { params: Promise.resolve({ shortId: 'abc123' }) }
+    );
+    const etag = first.headers.get('ETag')!;
+    vi.mocked(downloadFile).mockClear();
+
+    const response = await rawImageGET(
+      createMockRequest({
+        method: 'GET',
+        url: 'http://localhost:3000/i/abc123',
+        headers: { 'If-None-Match': etag },
+      }),
+      { params: Promise.resolve({ shortId: 'abc123' }) }
+    );
+
+    expect(response.status).toBe(304);
+    expect(downloadFile).not.toHaveBeenCalled();
+  });
+
+  it('should return 410 for expired screenshot', async () => {
+    await mockPublicLookup(
+      mockScreenshot({
+        short_id: 'abc123',
+        expires_at: new Date(Date.now() - 60_000).toISOString(),
+      })
+    );
+
+    const response = await rawImageGET(
+      createMockRequest({ method: 'GET', url: 'http://localhost:3000/i/abc123.png' }),
+      { params: Promise.resolve({ shortId: 'abc123.png' }) }
+    );
+
+    expect(response.status).toBe(410);
+  });
+
+  it('should return 404 for unsupported extensions', async () => {
+    await mockPublicLookup(mockScreenshot({ short_id: 'abc123' }));
+
+    const response = await rawImageGET(
+      createMockRequest({ method: 'GET', url: 'http://localhost:3000/i/abc123.svg' }),
+      { params: Promise.resolve({ shortId: 'abc123.svg' }) }
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Password-protected share links', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  const mockProtectedScreenshot = async () =>
+    mockScreenshot({
+      short_id: 'abc123',
+      password_hash: await hashSharePassword('hunter22'),
+    });
+
+  it('should return 401 PASSWORD_REQUIRED without an unlock token', async () => {
+    await mockPublicLookup(await mockProtectedScreenshot());
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/s/abc123',
+    });
+
+    const response = await publicViewGET(request, {
+      params: Promise.resolve({ shortId: 'abc123' }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(401);
+    expect(body.error.code).toBe('PASSWORD_REQUIRED');
+    expect(body).not.toHaveProperty('storage_url');
+  });
+
+  it('should reject an incorrect password', async () => {
+    await mockPublicLookup(await mockProtectedScreenshot());
+
+    const request = createMockRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/s/abc123/unlock',
+      body: { password: 'wrong-password' },
+    });
+
+    const response = await unlockPOST(request, {
+      params: Promise.resolve({ shortId: 'abc123' }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(401);
+    expect(body.error.code).toBe('PASSWORD_REQUIRED');
+  });
+
+  it('should issue a token that unlocks the screenshot with a signed URL', async () => {
+    const screenshot = await mockProtectedScreenshot();
+    await mockPublicLookup(screenshot);
+
+    const unlockResponse = await unlockPOST(
+      createMockRequest({
+        method: 'POST',
+        url: 'http://localhost:3000/api/s/abc123/unlock',
+        body: { password: 'hunter22' },
+      }),
+      { params: Promise.resolve({ shortId: 'abc123' }) }
+    );
+    const unlocked = await unlockResponse.json();
+
+    expect(unlockResponse.status).toBe(200);
+    expect(unlocked.expires_in).toBe(600);
+    expect(unlocked.storage_url).toContain('/sign/');
+    expect(generateSignedDownloadUrl).toHaveBeenCalledWith(
+      'user-123/1234567890_abc123.png',
+      600,
+      'protected-screenshots'
+    );
+
+    const response = await publicViewGET(
+      createMockRequest({
+        method: 'GET',
+        url: `http://localhost:3000/api/s/abc123?token=${encodeURIComponent(unlocked.token)}`,
+      }),
+      { params: Promise.resolve({ shortId: 'abc123' }) }
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.storage_url).toBe(
+      'https://test-storage.supabase.co/sign/user-123/1234567890_abc123.png?token=signed'
+    );
+  });
+
+  it('should count a view when unlocking a limited-view screenshot', async () => {
+    const { supabaseAdmin } = await mockPublicLookup({
+      ...(await mockProtectedScreenshot()),
+      views: 0,
+      max_views: 2,
+    });
+
+    const response = await unlockPOST(
+      createMockRequest({
+        method: 'POST',
+        url: 'http://localhost:3000/api/s/abc123/unlock',
+        body: { password: 'hunter22' },
+      }),
+      { params: Promise.resolve({ shortId: 'abc123' }) }
+    );
+
+    expect(response.status).toBe(200);
+    expect(supabaseAdmin.rpc).toHaveBeenCalledWith('record_screenshot_view', {
+      p_screenshot_id: 'screenshot-123',
+    });
+  });
+
+  it('should not unlock a limited-view screenshot once its views are used up', async () => {
+    // Lookup still sees a view left, but another request consumed it first
+    const { supabaseAdmin } = await mockPublicLookup({
+      ...(await mockProtectedScreenshot()),
+      views: 0,
+      max_views: 1,
+    });
+    vi.mocked(supabaseAdmin.rpc).mockResolvedValueOnce({ data: null, error: null } as any);
+
+    const response = await unlockPOST(
+      createMockRequest({
+        method: 'POST',
+        url: 'http://localhost:3000/api/s/abc123/unlock',
+        body: { password: 'hunter22' },
+      }),
+      { params: Promise.resolve({ shortId: 'abc123' }) }
+    );
+
+    expect(response.status).toBe(410);
+    expect(generateSignedDownloadUrl).not.toHaveBeenCalled();
+  });
+
+  it('should reject tokens issued before the password changed', async () => {
+    const screenshot = await mockProtectedScreenshot();
+    const staleToken = createShareAccessToken(screenshot);
+    await mockPublicLookup({ ...screenshot, password_hash: await hashSharePassword('new-pass') });
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: `http://localhost:3000/i/abc123?token=${encodeURIComponent(staleToken)}`,
+    });
+
+    const response = await rawImageGET(request, {
+      params: Promise.resolve({ shortId: 'abc123' }),
+    });
+
+    expect(response.status).toBe(401);
+  });
+});
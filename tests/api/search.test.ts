@@ -0,0 +1,162 @@
+/**
+ * API tests for full-text search
+ * Tests: GET /api/screenshots?q= (ranked OCR/filename search with highlighted snippets)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createAuthRequest } from '../helpers/request-builder';
+import {
+  mockSupabaseQueryResponse,
+  mockQueryBuilder,
+  mockScreenshot,
+} from '../helpers/supabase-mocks';
+import { resetAllMocks } from '../helpers/test-utils';
+
+// Mock all external dependencies BEFORE importing route handlers
+
+// Mock Supabase
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+  createUserClient: vi.fn(),
+  getUserIdFromToken: vi.fn(async () => 'test-user-id-123'),
+}));
+
+// Mock storage operations
+vi.mock('@/lib/storage', () => ({
+  SCREENSHOTS_BUCKET: 'screenshots',
+  PROTECTED_SCREENSHOTS_BUCKET: 'protected-screenshots',
+  getPublicUrl: vi.fn((path: string) => `https://test-storage.supabase.co/public/${path}`),
+}));
+
+// Now import route handlers AFTER mocks are defined
+import { GET as screenshotsListGET } from '@/app/api/screenshots/route';
+
+const FIRST_ID = '123e4567-e89b-12d3-a456-426614174000';
+const SECOND_ID = '123e4567-e89b-12d3-a456-426614174001';
+
+/**
+ * Mock the user client: search_screenshots returns a chainable result set,
+ * screenshot_search_snippets resolves to the given matches
+ */
+async function mockSearch(
+  results: ReturnType<typeof mockQueryBuilder>,
+  snippets: { data: unknown; error: unknown }
+) {
+  const { createUserClient } = await import('@/lib/supabase');
+  const from = vi.fn();
+  const rpc = vi.fn((fn: string) =>
+    fn === 'search_screenshots' ? results : Promise.resolve(snippets)
+  );
+
+  vi.mocked(createUserClient).mockReturnValue({ from, rpc } as any);
+
+  return { from, rpc };
+}
+
+describe('GET /api/screenshots?q= (full-text search)', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should return ranked matches with highlighted snippets', async () => {
+    const results = mockQueryBuilder({
+      ...mockSupabaseQueryResponse([
+        mockScreenshot({ id: FIRST_ID, ocr_status: 'completed' }),
+        mockScreenshot({ id: SECOND_ID, ocr_status: 'completed' }),
+      ]),
+      count: 2,
+    });
+    const { from, rpc } = await mockSearch(results, {
+      data: [
+        { id: SECOND_ID, rank: 0.2, snippet: null },
+        { id: FIRST_ID, rank: 0.8, snippet: 'Error: <mark>payment</mark> failed' },
+      ],
+      error: null,
+    });
+
+    const request = createAuthRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/screenshots?q=payment%20failed&tag=bug',
+    });
+
+    const response = await screenshotsListGET(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(from).not.toHaveBeenCalled();
+    expect(rpc).toHaveBeenCalledWith(
+      'search_screenshots',
+      { p_query: 'payment failed' },
+      { count: 'exact' }
+    );
+    expect(results.eq).toHaveBeenCalledWith('user_id', 'test-user-id-123');
+    expect(results.contains).toHaveBeenCalledWith('tags', ['bug']);
+    // Relevance order from the search function is kept
+    expect(results.order).not.toHaveBeenCalled();
+    expect(rpc).toHaveBeenCalledWith('screenshot_search_snippets', {
+      p_query: 'payment failed',
+      p_screenshot_ids: [FIRST_ID, SECOND_ID],
+    });
+    expect(body.screenshots.map((s: { id: string }) => s.id)).toEqual([FIRST_ID, SECOND_ID]);
+    expect(body.screenshots[0].search).toEqual({
+      rank: 0.8,
+      snippet: 'Error: <mark>payment</mark> failed',
+    });
+    expect(body.screenshots[1].search).toEqual({ rank: 0.2, snippet: null });
+    expect(body.screenshots[0].ocr_status).toBe('completed');
+    expect(body.pagination.total).toBe(2);
+  });
+
+  it('should skip snippet lookup when nothing matches', async () => {
+    const { rpc } = await mockSearch(
+      mockQueryBuilder({ ...mockSupabaseQueryResponse([]), count: 0 }),
+      { data: [], error: null }
+    );
+
+    const request = createAuthRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/screenshots?q=nothing',
+    });
+
+    const response = await screenshotsListGET(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.screenshots).toEqual([]);
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not include search details in regular listings', async () => {
+    const { createUserClient } = await import('@/lib/supabase');
+    const screenshots = mockQueryBuilder(mockSupabaseQueryResponse([mockScreenshot()]));
+    const rpc = vi.fn();
+    vi.mocked(createUserClient).mockReturnValue({ from: vi.fn(() => screenshots), rpc } as any);
+
+    const request = createAuthRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/screenshots',
+    });
+
+    const response = await screenshotsListGET(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(rpc).not.toHaveBeenCalled();
+    expect(screenshots.order).toHaveBeenCalledWith('created_at', { ascending: false });
+    expect(body.screenshots[0]).not.toHaveProperty('search');
+  });
+
+  it('should reject overly long queries', async () => {
+    const request = createAuthRequest({
+      method: 'GET',
+      url: `http://localhost:3000/api/screenshots?q=${'a'.repeat(201)}`,
+    });
+
+    const response = await screenshotsListGET(request);
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * API tests for session endpoints
+ * Tests: POST /api/auth/login, POST /api/auth/refresh, POST /api/auth/logout
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRequest, createAuthRequest } from '../helpers/request-builder';
+import { resetAllMocks } from '../helpers/test-utils';
+
+// Mock all external dependencies BEFORE importing route handlers
+
+const authClient = vi.hoisted(() => ({
+  auth: {
+    signInWithPassword: vi.fn(),
+    refreshSession: vi.fn(),
+  },
+}));
+
+// Mock Supabase
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    auth: {
+      admin: {
+        signOut: vi.fn(async () => ({ data: null, error: null })),
+      },
+    },
+  },
+  createUserClient: vi.fn(),
+  getUserIdFromToken: vi.fn(async (token: string) => {
+    if (token === 'invalid-token') return null;
+    return 'test-user-id-123';
+  }),
+}));
+
+// Mock Supabase client creation (for sign-in and refresh)
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => authClient),
+}));
+
+// Mock rate limiting
+vi.mock('@/lib/rate-limit', () => ({
+  checkRateLimit: vi.fn(async () => ({ success: true, limit: 20, remaining: 19, reset: Date.now() + 60000 })),
+  authRateLimit: {},
+  loginRateLimit: {},
+  apiRateLimit: null,
+  getClientIp: vi.fn(() => '203.0.113.7'),
+  addRateLimitHeaders: vi.fn(),
+}));
+
+// Now import route handlers AFTER mocks are defined
+import { POST as loginPOST } from '@/app/api/auth/login/route';
+import { POST as refreshPOST } from '@/app/api/auth/refresh/route';
+import { POST as logoutPOST } from '@/app/api/auth/logout/route';
+import { supabaseAdmin } from '@/lib/supabase';
+import { checkRateLimit, authRateLimit, loginRateLimit } from '@/lib/rate-limit';
+
+const session = {
+  user: { id: 'test-user-id-123', email: 'user@example.com' },
+  session: {
+    access_token: 'new-access-token',
+    refresh_token: 'new-refresh-token',
+    expires_in: 3600,
+  },
+};
+
+const postRequest = (path: string, body: unknown) =>
+  createMockRequest({ method: 'POST', url: `http://localhost:3000/api/auth/${path}`, body });
+
+describe('POST /api/auth/login', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should return a session for valid credentials', async () => {
+    authClient.auth.signInWithPassword.mockResolvedValueOnce({ data: session, error: null });
+
+    const response = await loginPOST(
+      postRequest('login', { email: ' User@Example.com ', password: 'SecurePass123!' })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({
+      user: { id: 'test-user-id-123', email: 'user@example.com' },
+      session: {
+        access_token: 'new-access-token',
+        refresh_token: 'new-refresh-token',
+        expires_in: 3600,
+      },
+    });
+    expect(authClient.auth.signInWithPassword).toHaveBeenCalledWith({
+      email: 'user@example.com',
+      password: 'SecurePass123!',
+    });
+  });
+
+  it('should return 401 for wrong credentials', async () => {
+    authClient.auth.signInWithPassword.mockResolvedValueOnce({
+      data: { user: null, session: null },
+      error: { message: 'Invalid login credentials', status: 400 },
+    });
+
+    const response = await loginPOST(
+      postRequest('login', { email: 'user@example.com', password: 'wrong-password' })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(401);
+    expect(data.error.message).toBe('Invalid email or password');
+  });
+
+  it('should return 400 for an invalid body', async () => {
+    const response = await loginPOST(postRequest('login', { email: 'not-an-email' }));
+
+    expect(response.status).toBe(400);
+    expect(authClient.auth.signInWithPassword).not.toHaveBeenCalled();
+  });
+
+  it('should rate limit by client IP and by email', async () => {
+    authClient.auth.signInWithPassword.mockResolvedValueOnce({ data: session, error: null });
+
+    await loginPOST(postRequest('login', { email: 'user@example.com', password: 'SecurePass123!' }));
+
+    expect(checkRateLimit).toHaveBeenCalledWith(authRateLimit, '203.0.113.7');
+    expect(checkRateLimit).toHaveBeenCalledWith(loginRateLimit, 'user@example.com');
+  });
+
+  it('should return 429 without trying the password once the account limit is hit', async () => {
+    vi.mocked(checkRateLimit)
+      .mockResolvedValueOnce({ success: true, limit: 20, remaining: 19, reset: Date.now() + 60000 })
+      .mockResolvedValueOnce({ success: false, limit: 10, remaining: 0, reset: Date.now() + 900000 });
+
+    const response = await loginPOST(
+      postRequest('login', { email: 'user@example.com', password: 'guess' })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(429);
+    expect(data.error.details.retry_after).toBeGreaterThan(0);
+    expect(authClient.auth.signInWithPassword).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/auth/refresh', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should exchange a refresh token for a new session', async () => {
+    authClient.auth.refreshSession.mockResolvedValueOnce({ data: session, error: null });
+
+    const response = await refreshPOST(postRequest('refresh', { refresh_token: 'old-refresh-token' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.session.refresh_token).toBe('new-refresh-token');
+    expect(authClient.auth.refreshSession).toHaveBeenCalledWith({ refresh_token: 'old-refresh-token' });
+  });
+
+  it('should return 401 for used or revoked refresh tokens', async () => {
+    authClient.auth.refreshSession.mockResolvedValueOnce({
+      data: { user: null, session: null },
+      error: { message: 'Invalid Refresh Token: Already Used', status: 400 },
+    });
+
+    const response = await refreshPOST(postRequest('refresh', { refresh_token: 'used-refresh-token' }));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return 400 without a refresh token', async () => {
+    const response = await refreshPOST(postRequest('refresh', {}));
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('POST /api/auth/logout', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should revoke the current session', async () => {
+    const response = await logoutPOST(
+      createAuthRequest({ method: 'POST', url: 'http://localhost:3000/api/auth/logout' })
+    );
+
+    expect(response.status).toBe(204);
+    expect(supabaseAdmin.auth.admin.signOut).toHaveBeenCalledWith('test-access-token', 'local');
+  });
+
+  it('should return 401 without a token', async () => {
+    const response = await logoutPOST(
+      createMockRequest({ method: 'POST', url: 'http://localhost:3000/api/auth/logout' })
+    );
+
+    expect(response.status).toBe(401);
+    expect(supabaseAdmin.auth.admin.signOut).not.toHaveBeenCalled();
+  });
+
+  it('should reject API keys', async () => {
+    const response = await logoutPOST(
+      createAuthRequest({
+        method: 'POST',
+        url: 'http://localhost:3000/api/auth/logout',
+        token: 'snappd_sk_abcdef',
+      })
+    );
+
+    expect(response.status).toBe(403);
+  });
+});
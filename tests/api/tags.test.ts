@@ -0,0 +1,261 @@
+/**
+ * API tests for tags
+ * Tests: GET /api/tags, tags on PATCH /api/screenshots/[id],
+ * and tag / tags_any / tags_all filters on GET /api/screenshots
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRequest, createAuthRequest } from '../helpers/request-builder';
+import {
+  mockSupabaseQueryResponse,
+  mockQueryBuilder,
+  mockScreenshot,
+} from '../helpers/supabase-mocks';
+import { resetAllMocks } from '../helpers/test-utils';
+
+// Mock all external dependencies BEFORE importing route handlers
+
+// Mock Supabase
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+  createUserClient: vi.fn(),
+  getUserIdFromToken: vi.fn(async (token: string) => {
+    if (token === 'invalid-token') return null;
+    return 'test-user-id-123';
+  }),
+}));
+
+// Mock storage operations
+vi.mock('@/lib/storage', () => ({
+  SCREENSHOTS_BUCKET: 'screenshots',
+  PROTECTED_SCREENSHOTS_BUCKET: 'protected-screenshots',
+  getPublicUrl: vi.fn((path: string) => `https://test-storage.supabase.co/public/${path}`),
+  deleteFiles: vi.fn(async () => {}),
+}));
+
+// Now import route handlers AFTER mocks are defined
+import { GET as tagsGET } from '@/app/api/tags/route';
+import { PATCH as screenshotPATCH } from '@/app/api/screenshots/[id]/route';
+import { GET as screenshotsListGET } from '@/app/api/screenshots/route';
+
+const SCREENSHOT_ID = '123e4567-e89b-12d3-a456-426614174000';
+
+/**
+ * Route every createUserClient().from(table) call to a per-table query mock
+ */
+async function mockUserClient(tables: Record<string, ReturnType<typeof mockQueryBuilder>>) {
+  const { createUserClient } = await import('@/lib/supabase');
+
+  vi.mocked(createUserClient).mockReturnValue({
+    from: vi.fn((table: string) => tables[table]),
+  } as any);
+}
+
+describe('GET /api/tags', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should return 401 when no auth token provided', async () => {
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/tags',
+    });
+
+    const response = await tagsGET(request);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should list tags with counts, most used first', async () => {
+    const createdAt = new Date().toISOString();
+    await mockUserClient({
+      tags: mockQueryBuilder(
+        mockSupabaseQueryResponse([
+          { name: 'design', created_at: createdAt, screenshot_tags: [{ count: 2 }] },
+          { name: 'bug', created_at: createdAt, screenshot_tags: [{ count: 7 }] },
+          { name: 'api', created_at: createdAt, screenshot_tags: [{ count: 2 }] },
+        ])
+      ),
+    });
+
+    const request = createAuthRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/tags',
+    });
+
+    const response = await tagsGET(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.tags).toEqual([
+      { name: 'bug', screenshot_count: 7, created_at: createdAt },
+      { name: 'api', screenshot_count: 2, created_at: createdAt },
+      { name: 'design', screenshot_count: 2, created_at: createdAt },
+    ]);
+  });
+});
+
+describe('PATCH /api/screenshots/[id] (tags)', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should normalize tags and replace them atomically', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    vi.mocked(supabaseAdmin.rpc).mockResolvedValue({ data: ['bug', 'checkout'], error: null } as any);
+
+    await mockUserClient({
+      screenshots: mockQueryBuilder(
+        mockSupabaseQueryResponse(mockScreenshot({ id: SCREENSHOT_ID })),
+        mockSupabaseQueryResponse(mockScreenshot({ id: SCREENSHOT_ID, tags: ['bug', 'checkout'] }))
+      ),
+    });
+
+    const request = createAuthRequest({
+      method: 'PATCH',
+      url: `http://localhost:3000/api/screenshots/${SCREENSHOT_ID}`,
+      body: { tags: [' Bug', 'checkout', 'bug'] },
+    });
+
+    const response = await screenshotPATCH(request, {
+      params: Promise.resolve({ id: SCREENSHOT_ID }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(supabaseAdmin.rpc).toHaveBeenCalledWith('set_screenshot_tags', {
+      p_user_id: 'test-user-id-123',
+      p_screenshot_id: SCREENSHOT_ID,
+      p_tags: ['bug', 'checkout'],
+    });
+    expect(body.tags).toEqual(['bug', 'checkout']);
+  });
+
+  it('should not tag another user screenshot', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    await mockUserClient({
+      screenshots: mockQueryBuilder({ data: null, error: { code: 'PGRST116' } }),
+    });
+
+    const request = createAuthRequest({
+      method: 'PATCH',
+      url: `http://localhost:3000/api/screenshots/${SCREENSHOT_ID}`,
+      body: { tags: ['bug'] },
+    });
+
+    const response = await screenshotPATCH(request, {
+      params: Promise.resolve({ id: SCREENSHOT_ID }),
+    });
+
+    expect(response.status).toBe(404);
+    expect(supabaseAdmin.rpc).not.toHaveBeenCalled();
+  });
+
+  it('should leave tags unchanged when the update fails', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    await mockUserClient({
+      screenshots: mockQueryBuilder(
+        mockSupabaseQueryResponse(mockScreenshot({ id: SCREENSHOT_ID })),
+        { data: null, error: { message: 'new row violates row-level security policy' } }
+      ),
+    });
+
+    const request = createAuthRequest({
+      method: 'PATCH',
+      url: `http://localhost:3000/api/screenshots/${SCREENSHOT_ID}`,
+      body: { original_filename: 'renamed.png', tags: ['bug'] },
+    });
+
+    const response = await screenshotPATCH(request, {
+      params: Promise.resolve({ id: SCREENSHOT_ID }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(supabaseAdmin.rpc).not.toHaveBeenCalled();
+  });
+
+  it('should reject tags containing commas', async () => {
+    const request = createAuthRequest({
+      method: 'PATCH',
+      url: `http://localhost:3000/api/screenshots/${SCREENSHOT_ID}`,
+      body: { tags: ['bug,ui'] },
+    });
+
+    const response = await screenshotPATCH(request, {
+      params: Promise.resolve({ id: SCREENSHOT_ID }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject more than 20 tags', async () => {
+    const request = createAuthRequest({
+      method: 'PATCH',
+      url: `http://localhost:3000/api/screenshots/${SCREENSHOT_ID}`,
+      body: { tags: Array.from({ length: 21 }, (_, i) => `tag-${i}`) },
+    });
+
+    const response = await screenshotPATCH(request, {
+      params: Promise.resolve({ id: SCREENSHOT_ID }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('GET /api/screenshots (tag filters)', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should require tag and tags_all and match any of tags_any', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse([mockScreenshot({ tags: ['bug', 'checkout', 'ios'] })])
+    );
+    await mockUserClient({ screenshots });
+
+    const request = createAuthRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/screenshots?tag=Bug&tags_all=checkout&tags_any=ios,android',
+    });
+
+    const response = await screenshotsListGET(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(screenshots.contains).toHaveBeenCalledWith('tags', ['bug', 'checkout']);
+    expect(screenshots.overlaps).toHaveBeenCalledWith('tags', ['ios', 'android']);
+    expect(body.screenshots[0].tags).toEqual(['bug', 'checkout', 'ios']);
+  });
+
+  it('should not filter by tags when none are given', async () => {
+    const screenshots = mockQueryBuilder(mockSupabaseQueryResponse([]));
+    await mockUserClient({ screenshots });
+
+    const request = createAuthRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/screenshots',
+    });
+
+    const response = await screenshotsListGET(request);
+
+    expect(response.status).toBe(200);
+    expect(screenshots.contains).not.toHaveBeenCalled();
+    expect(screenshots.overlaps).not.toHaveBeenCalled();
+  });
+
+  it('should reject empty tags in a filter list', async () => {
+    const request = createAuthRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/screenshots?tags_any=bug,,ui',
+    });
+
+    const response = await screenshotsListGET(request);
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,739 @@
+/**
+ * API tests for team workspaces
+ * Tests: GET/POST /api/teams, POST /api/teams/[id]/invites, POST /api/teams/[id]/leave,
+ * GET /api/teams/[id]/members, PATCH/DELETE /api/teams/[id]/members/[userId],
+ * GET /api/teams/invites, POST /api/teams/invites/[id]/accept,
+ * team libraries and role permissions via GET /api/screenshots?team_id= and PATCH/DELETE /api/screenshots/[id],
+ * seat checks and seat syncing on membership changes
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRequest, createAuthRequest } from '../helpers/request-builder';
+import {
+  mockSupabaseQueryResponse,
+  mockQueryBuilder,
+  mockProfile,
+  mockScreenshot,
+} from '../helpers/supabase-mocks';
+import { resetAllMocks } from '../helpers/test-utils';
+
+// Mock all external dependencies BEFORE importing route handlers
+
+// Mock Supabase
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+  createUserClient: vi.fn(),
+  getUserIdFromToken: vi.fn(async (token: string) => {
+    if (token === 'invalid-token') return null;
+    return 'test-user-id-123';
+  }),
+}));
+
+// Mock storage operations
+vi.mock('@/lib/storage', () => ({
+  SCREENSHOTS_BUCKET: 'screenshots',
+  PROTECTED_SCREENSHOTS_BUCKET: 'protected-screenshots',
+  getPublicUrl: vi.fn((path: string) => `https://test-storage.supabase.co/public/${path}`),
+}));
+
+// Mock seat billing (seat counting and Stripe sync are covered in tests/unit/seats.test.ts)
+vi.mock('@/lib/seats', () => ({
+  assertTeamSeatAvailable: vi.fn(),
+  syncTeamSeats: vi.fn(),
+}));
+
+// Now import route handlers AFTER mocks are defined
+import { GET as teamsGET, POST as teamsPOST } from '@/app/api/teams/route';
+import { POST as invitePOST } from '@/app/api/teams/[id]/invites/route';
+import { POST as leavePOST } from '@/app/api/teams/[id]/leave/route';
+import { GET as membersGET } from '@/app/api/teams/[id]/members/route';
+import { PATCH as memberPATCH, DELETE as memberDELETE } from '@/app/api/teams/[id]/members/[userId]/route';
+import { GET as invitesGET } from '@/app/api/teams/invites/route';
+import { POST as acceptPOST } from '@/app/api/teams/invites/[id]/accept/route';
+import { GET as screenshotsListGET } from '@/app/api/screenshots/route';
+import { PATCH as screenshotPATCH, DELETE as screenshotDELETE } from '@/app/api/screenshots/[id]/route';
+import { supabaseAdmin } from '@/lib/supabase';
+import { assertTeamSeatAvailable, syncTeamSeats } from '@/lib/seats';
+import { SeatLimitError } from '@/lib/errors';
+
+const TEAM_ID = '523e4567-e89b-12d3-a456-426614174000';
+const INVITE_ID = '623e4567-e89b-12d3-a456-426614174000';
+const SCREENSHOT_ID = '123e4567-e89b-12d3-a456-426614174000';
+const MEMBER_ID = '723e4567-e89b-12d3-a456-426614174000';
+
+const team = {
+  id: TEAM_ID,
+  owner_id: 'test-user-id-123',
+  name: 'Design',
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+};
+
+const invite = {
+  id: INVITE_ID,
+  team_id: TEAM_ID,
+  email: 'test@example.com',
+  role: 'member',
+  invited_by: 'owner-user-id',
+  expires_at: new Date(Date.now() + 86400000).toISOString(),
+  created_at: new Date().toISOString(),
+};
+
+/**
+ * Route every createUserClient().from(table) call to a per-table query mock
+ */
+async function mockUserClient(tables: Record<string, ReturnType<typeof mockQueryBuilder>>) {
+  const { createUserClient } = await import('@/lib/supabase');
+
+  vi.mocked(createUserClient).mockReturnValue({
+    from: vi.fn((table: string) => tables[table]),
+  } as any);
+}
+
+/**
+ * Route every supabaseAdmin.from(table) call to a per-table query mock
+ */
+function mockAdminClient(tables: Record<string, ReturnType<typeof mockQueryBuilder>>) {
+  vi.mocked(supabaseAdmin.from).mockImplementation(((table: string) => tables[table]) as any);
+}
+
+/**
+ * team_members query mock resolving the caller's role
+ */
+const callerRole = (role: string | null, ...more: Array<{ data: unknown; error: unknown }>) =>
+  mockQueryBuilder(role ? mockSupabaseQueryResponse({ role }) : { data: null, error: null }, ...more);
+
+const teamRequest = (method: 'GET' | 'POST' | 'PATCH' | 'DELETE', path: string, body?: unknown) =>
+  createAuthRequest({ method, url: `http://localhost:3000/api/teams${path}`, body });
+
+describe('POST /api/teams', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should return 401 when no auth token provided', async () => {
+    const request = createMockRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/teams',
+      body: { name: 'Design' },
+    });
+
+    const response = await teamsPOST(request);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should create a team owned by the caller on the team plan', async () => {
+    const teams = mockQueryBuilder(mockSupabaseQueryResponse(team));
+    await mockUserClient({
+      profiles: mockQueryBuilder(mockSupabaseQueryResponse(mockProfile({ plan: 'team' }))),
+    });
+    mockAdminClient({ teams });
+
+    const response = await teamsPOST(teamRequest('POST', '', { name: '  Design ' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data).toMatchObject({ id: TEAM_ID, name: 'Design', role: 'owner', member_count: 1 });
+    expect(teams.insert).toHaveBeenCalledWith({ owner_id: 'test-user-id-123', name: 'Design' });
+  });
+
+  it('should return 403 below the team plan', async () => {
+    const teams = mockQueryBuilder();
+    await mockUserClient({
+      profiles: mockQueryBuilder(mockSupabaseQueryResponse(mockProfile({ plan: 'pro' }))),
+    });
+    mockAdminClient({ teams });
+
+    const response = await teamsPOST(teamRequest('POST', '', { name: 'Design' }));
+
+    expect(response.status).toBe(403);
+    expect(teams.insert).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /api/teams', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should list teams with the caller role and member count', async () => {
+    await mockUserClient({
+      team_members: mockQueryBuilder(
+        mockSupabaseQueryResponse([{ team_id: TEAM_ID, role: 'member' }])
+      ),
+      teams: mockQueryBuilder(
+        mockSupabaseQueryResponse([{ ...team, team_members: [{ count: 3 }] }])
+      ),
+    });
+
+    const response = await teamsGET(teamRequest('GET', ''));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.teams).toEqual([
+      expect.objectContaining({ id: TEAM_ID, role: 'member', member_count: 3 }),
+    ]);
+  });
+});
+
+describe('POST /api/teams/[id]/invites', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  const inviteRequest = (body: unknown, id = TEAM_ID) =>
+    invitePOST(teamRequest('POST', `/${id}/invites`, body), { params: Promise.resolve({ id }) });
+
+  it('should invite an email with an expiry', async () => {
+    const teamInvites = mockQueryBuilder(
+      mockSupabaseQueryResponse({ ...invite, email: 'new@example.com' })
+    );
+    await mockUserClient({
+      team_members: callerRole('owner'),
+      teams: mockQueryBuilder(mockSupabaseQueryResponse(team)),
+      team_invites: mockQueryBuilder({ data: null, error: null }),
+    });
+    mockAdminClient({
+      profiles: mockQueryBuilder({ data: null, error: null }),
+      team_invites: teamInvites,
+    });
+
+    const response = await inviteRequest({ email: 'New@Example.com' });
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data).toMatchObject({
+      team_id: TEAM_ID,
+      team_name: 'Design',
+      email: 'new@example.com',
+      role: 'member',
+    });
+    expect(teamInvites.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        team_id: TEAM_ID,
+        email: 'new@example.com',
+        role: 'member',
+        invited_by: 'test-user-id-123',
+        expires_at: expect.any(String),
+      })
+    );
+    expect(assertTeamSeatAvailable).toHaveBeenCalledWith(TEAM_ID);
+  });
+
+  it('should return 402 when every seat is taken', async () => {
+    const teamInvites = mockQueryBuilder();
+    await mockUserClient({
+      team_members: callerRole('owner'),
+      teams: mockQueryBuilder(mockSupabaseQueryResponse(team)),
+      team_invites: mockQueryBuilder({ data: null, error: null }),
+    });
+    mockAdminClient({
+      profiles: mockQueryBuilder({ data: null, error: null }),
+      team_invites: teamInvites,
+    });
+    vi.mocked(assertTeamSeatAvailable).mockRejectedValueOnce(new SeatLimitError(3, 3));
+
+    const response = await inviteRequest({ email: 'new@example.com' });
+    const data = await response.json();
+
+    expect(response.status).toBe(402);
+    expect(data.error.code).toBe('SEAT_LIMIT_REACHED');
+    expect(data.error.details).toEqual({ seats: 3, seats_used: 3 });
+    expect(teamInvites.insert).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 with a reason for roles that cannot invite', async () => {
+    await mockUserClient({ team_members: callerRole('member') });
+
+    const response = await inviteRequest({ email: 'new@example.com' });
+    const data = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(data.error.message).toBe('Team members cannot invite members');
+  });
+
+  it('should only let admins invite roles below their own', async () => {
+    await mockUserClient({ team_members: callerRole('admin') });
+
+    const response = await inviteRequest({ email: 'new@example.com', role: 'admin' });
+    const data = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(data.error.message).toBe('Team admins cannot manage admins');
+  });
+
+  it('should return 400 when the email already belongs to a member', async () => {
+    await mockUserClient({
+      team_members: callerRole('admin'),
+      teams: mockQueryBuilder(mockSupabaseQueryResponse(team)),
+    });
+    mockAdminClient({
+      profiles: mockQueryBuilder(mockSupabaseQueryResponse({ id: 'member-user-id' })),
+      team_members: mockQueryBuilder(mockSupabaseQueryResponse({ user_id: 'member-user-id' })),
+    });
+
+    const response = await inviteRequest({ email: 'member@example.com' });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error.message).toBe('User is already a member of this team');
+  });
+
+  it('should return 404 for teams the caller cannot see', async () => {
+    await mockUserClient({ team_members: callerRole(null) });
+
+    const response = await inviteRequest({ email: 'new@example.com' });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('GET /api/teams/invites', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should list unexpired invites for the caller email', async () => {
+    const teamInvites = mockQueryBuilder(
+      mockSupabaseQueryResponse([{ ...invite, teams: { name: 'Design' } }])
+    );
+    await mockUserClient({ profiles: mockQueryBuilder(mockSupabaseQueryResponse(mockProfile())) });
+    mockAdminClient({ team_invites: teamInvites });
+
+    const response = await invitesGET(teamRequest('GET', '/invites'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.invites).toEqual([
+      expect.objectContaining({ id: INVITE_ID, team_name: 'Design' }),
+    ]);
+    expect(teamInvites.eq).toHaveBeenCalledWith('email', 'test@example.com');
+    expect(teamInvites.gt).toHaveBeenCalledWith('expires_at', expect.any(String));
+  });
+});
+
+describe('POST /api/teams/invites/[id]/accept', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  const acceptRequest = (id = INVITE_ID) =>
+    acceptPOST(teamRequest('POST', `/invites/${id}/accept`), { params: Promise.resolve({ id }) });
+
+  it('should join the team with the invited role and use up the invite', async () => {
+    const teamMembers = mockQueryBuilder({ data: null, error: null });
+    const teamInvites = mockQueryBuilder(
+      mockSupabaseQueryResponse({ ...invite, role: 'viewer' }),
+      { data: null, error: null }
+    );
+    await mockUserClient({
+      profiles: mockQueryBuilder(mockSupabaseQueryResponse(mockProfile())),
+      teams: mockQueryBuilder(mockSupabaseQueryResponse({ ...team, team_members: [{ count: 2 }] })),
+      team_members: callerRole('viewer'),
+    });
+    mockAdminClient({ team_invites: teamInvites, team_members: teamMembers });
+
+    const response = await acceptRequest();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({ id: TEAM_ID, role: 'viewer', member_count: 2 });
+    expect(teamMembers.upsert).toHaveBeenCalledWith(
+      { team_id: TEAM_ID, user_id: 'test-user-id-123', role: 'viewer' },
+      expect.objectContaining({ ignoreDuplicates: true })
+    );
+    expect(teamInvites.delete).toHaveBeenCalled();
+    expect(syncTeamSeats).toHaveBeenCalledWith(TEAM_ID, 'added');
+  });
+
+  it('should return 404 for invites addressed to another email', async () => {
+    await mockUserClient({ profiles: mockQueryBuilder(mockSupabaseQueryResponse(mockProfile())) });
+    mockAdminClient({
+      team_invites: mockQueryBuilder(mockSupabaseQueryResponse({ ...invite, email: 'other@example.com' })),
+    });
+
+    const response = await acceptRequest();
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 410 for expired invites', async () => {
+    const teamMembers = mockQueryBuilder();
+    await mockUserClient({ profiles: mockQueryBuilder(mockSupabaseQueryResponse(mockProfile())) });
+    mockAdminClient({
+      team_invites: mockQueryBuilder(
+        mockSupabaseQueryResponse({ ...invite, expires_at: new Date(Date.now() - 1000).toISOString() })
+      ),
+      team_members: teamMembers,
+    });
+
+    const response = await acceptRequest();
+
+    expect(response.status).toBe(410);
+    expect(teamMembers.upsert).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/teams/[id]/leave', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  const leaveRequest = (id = TEAM_ID) =>
+    leavePOST(teamRequest('POST', `/${id}/leave`), { params: Promise.resolve({ id }) });
+
+  it('should remove the caller membership', async () => {
+    const teamMembers = mockQueryBuilder(
+      mockSupabaseQueryResponse({ role: 'member' }),
+      { data: null, error: null }
+    );
+    await mockUserClient({ team_members: teamMembers });
+
+    const response = await leaveRequest();
+
+    expect(response.status).toBe(204);
+    expect(teamMembers.delete).toHaveBeenCalled();
+    expect(teamMembers.eq).toHaveBeenCalledWith('user_id', 'test-user-id-123');
+    expect(syncTeamSeats).toHaveBeenCalledWith(TEAM_ID, 'removed');
+  });
+
+  it('should not let the owner leave', async () => {
+    const teamMembers = mockQueryBuilder(mockSupabaseQueryResponse({ role: 'owner' }));
+    await mockUserClient({ team_members: teamMembers });
+
+    const response = await leaveRequest();
+
+    expect(response.status).toBe(400);
+    expect(teamMembers.delete).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the caller is not a member', async () => {
+    await mockUserClient({ team_members: mockQueryBuilder({ data: null, error: null }) });
+
+    const response = await leaveRequest();
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Team screenshot libraries', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  const patchScreenshot = (body: unknown) =>
+    screenshotPATCH(
+      createAuthRequest({
+        method: 'PATCH',
+        url: `http://localhost:3000/api/screenshots/${SCREENSHOT_ID}`,
+        body,
+      }),
+      { params: Promise.resolve({ id: SCREENSHOT_ID }) }
+    );
+
+  const deleteScreenshot = (query = '') =>
+    screenshotDELETE(
+      createAuthRequest({
+        method: 'DELETE',
+        url: `http://localhost:3000/api/screenshots/${SCREENSHOT_ID}${query}`,
+      }),
+      { params: Promise.resolve({ id: SCREENSHOT_ID }) }
+    );
+
+  it('should list the team library instead of the caller screenshots', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse([
+        mockScreenshot({ user_id: 'member-user-id', team_id: TEAM_ID }),
+      ])
+    );
+    await mockUserClient({
+      team_members: mockQueryBuilder(mockSupabaseQueryResponse({ role: 'member' })),
+      screenshots,
+    });
+
+    const response = await screenshotsListGET(
+      createAuthRequest({
+        method: 'GET',
+        url: `http://localhost:3000/api/screenshots?team_id=${TEAM_ID}`,
+      })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(screenshots.eq).toHaveBeenCalledWith('team_id', TEAM_ID);
+    expect(screenshots.eq).not.toHaveBeenCalledWith('user_id', 'test-user-id-123');
+    expect(body.screenshots[0].team_id).toBe(TEAM_ID);
+  });
+
+  it('should return 404 when listing a team the caller is not in', async () => {
+    const screenshots = mockQueryBuilder();
+    await mockUserClient({
+      team_members: mockQueryBuilder({ data: null, error: null }),
+      screenshots,
+    });
+
+    const response = await screenshotsListGET(
+      createAuthRequest({
+        method: 'GET',
+        url: `http://localhost:3000/api/screenshots?team_id=${TEAM_ID}`,
+      })
+    );
+
+    expect(response.status).toBe(404);
+    expect(screenshots.select).not.toHaveBeenCalled();
+  });
+
+  it('should share an own screenshot into a team', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse(mockScreenshot({ id: SCREENSHOT_ID })),
+      mockSupabaseQueryResponse(mockScreenshot({ id: SCREENSHOT_ID, team_id: TEAM_ID }))
+    );
+    await mockUserClient({
+      team_members: callerRole('member'),
+      screenshots,
+    });
+
+    const response = await patchScreenshot({ team_id: TEAM_ID });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(screenshots.update).toHaveBeenCalledWith({ team_id: TEAM_ID });
+    expect(body.team_id).toBe(TEAM_ID);
+  });
+
+  it('should not let viewers share screenshots into the team', async () => {
+    const screenshots = mockQueryBuilder(mockSupabaseQueryResponse(mockScreenshot({ id: SCREENSHOT_ID })));
+    await mockUserClient({ team_members: callerRole('viewer'), screenshots });
+
+    const response = await patchScreenshot({ team_id: TEAM_ID });
+    const body = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(body.error.message).toBe('Team viewers cannot share screenshots with this team');
+    expect(screenshots.update).not.toHaveBeenCalled();
+  });
+
+  it('should let admins change the visibility of other members team screenshots', async () => {
+    const teammateScreenshot = mockScreenshot({
+      id: SCREENSHOT_ID,
+      user_id: 'member-user-id',
+      team_id: TEAM_ID,
+    });
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse(teammateScreenshot),
+      mockSupabaseQueryResponse({ ...teammateScreenshot, is_public: false })
+    );
+    await mockUserClient({ team_members: callerRole('admin'), screenshots });
+
+    const response = await patchScreenshot({ is_public: false });
+
+    expect(response.status).toBe(200);
+    expect(screenshots.update).toHaveBeenCalledWith({ is_public: false });
+  });
+
+  it('should return 403 when members change the visibility of other members screenshots', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse(
+        mockScreenshot({ id: SCREENSHOT_ID, user_id: 'member-user-id', team_id: TEAM_ID })
+      )
+    );
+    await mockUserClient({ team_members: callerRole('member'), screenshots });
+
+    const response = await patchScreenshot({ is_public: false });
+    const body = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(body.error.message).toBe(
+      "Team members cannot change the visibility of other members' screenshots"
+    );
+  });
+
+  it('should only let the uploader edit anything else', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse(
+        mockScreenshot({ id: SCREENSHOT_ID, user_id: 'member-user-id', team_id: TEAM_ID })
+      )
+    );
+    await mockUserClient({ team_members: callerRole('owner'), screenshots });
+
+    const response = await patchScreenshot({ original_filename: 'renamed.png' });
+    const body = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(body.error.message).toBe('Only the uploader can edit this screenshot');
+    expect(screenshots.update).not.toHaveBeenCalled();
+  });
+
+  it('should let admins move other members team screenshots to the trash', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse(
+        mockScreenshot({ id: SCREENSHOT_ID, user_id: 'member-user-id', team_id: TEAM_ID })
+      ),
+      { data: null, error: null }
+    );
+    await mockUserClient({ team_members: callerRole('admin'), screenshots });
+
+    const response = await deleteScreenshot();
+
+    expect(response.status).toBe(204);
+    expect(screenshots.update).toHaveBeenCalledWith({ deleted_at: expect.any(String) });
+    expect(screenshots.delete).not.toHaveBeenCalled();
+  });
+
+  it('should not let anyone but the uploader delete permanently', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse(
+        mockScreenshot({ id: SCREENSHOT_ID, user_id: 'member-user-id', team_id: TEAM_ID })
+      )
+    );
+    await mockUserClient({ team_members: callerRole('owner'), screenshots });
+
+    const response = await deleteScreenshot('?permanent=true');
+
+    expect(response.status).toBe(403);
+    expect(screenshots.delete).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 when members delete other members screenshots', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse(
+        mockScreenshot({ id: SCREENSHOT_ID, user_id: 'member-user-id', team_id: TEAM_ID })
+      )
+    );
+    await mockUserClient({ team_members: callerRole('member'), screenshots });
+
+    const response = await deleteScreenshot();
+
+    expect(response.status).toBe(403);
+    expect(screenshots.update).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for other users screenshots outside a team', async () => {
+    await mockUserClient({
+      screenshots: mockQueryBuilder(
+        mockSupabaseQueryResponse(mockScreenshot({ id: SCREENSHOT_ID, user_id: 'someone-else' }))
+      ),
+    });
+
+    const response = await deleteScreenshot();
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Team member management', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  const member = {
+    team_id: TEAM_ID,
+    user_id: MEMBER_ID,
+    role: 'member',
+    created_at: new Date().toISOString(),
+  };
+
+  const memberRequest = (method: 'PATCH' | 'DELETE', body?: unknown) => {
+    const handler = method === 'PATCH' ? memberPATCH : memberDELETE;
+    return handler(teamRequest(method, `/${TEAM_ID}/members/${MEMBER_ID}`, body), {
+      params: Promise.resolve({ id: TEAM_ID, userId: MEMBER_ID }),
+    });
+  };
+
+  it('should list members with their roles', async () => {
+    await mockUserClient({
+      team_members: callerRole('viewer', mockSupabaseQueryResponse([member])),
+    });
+    mockAdminClient({
+      profiles: mockQueryBuilder(
+        mockSupabaseQueryResponse([{ id: MEMBER_ID, email: 'member@example.com', full_name: null }])
+      ),
+    });
+
+    const response = await membersGET(teamRequest('GET', `/${TEAM_ID}/members`), {
+      params: Promise.resolve({ id: TEAM_ID }),
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.members).toEqual([
+      {
+        user_id: MEMBER_ID,
+        email: 'member@example.com',
+        full_name: null,
+        role: 'member',
+        joined_at: member.created_at,
+      },
+    ]);
+  });
+
+  it('should let admins change the role of lower members', async () => {
+    const teamMembers = callerRole(
+      'admin',
+      mockSupabaseQueryResponse(member),
+      mockSupabaseQueryResponse({ ...member, role: 'viewer' })
+    );
+    await mockUserClient({ team_members: teamMembers });
+    mockAdminClient({
+      profiles: mockQueryBuilder(
+        mockSupabaseQueryResponse({ email: 'member@example.com', full_name: 'Member' })
+      ),
+    });
+
+    const response = await memberRequest('PATCH', { role: 'viewer' });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.role).toBe('viewer');
+    expect(teamMembers.update).toHaveBeenCalledWith({ role: 'viewer' });
+  });
+
+  it('should not let admins promote members to admin', async () => {
+    const teamMembers = callerRole('admin', mockSupabaseQueryResponse(member));
+    await mockUserClient({ team_members: teamMembers });
+
+    const response = await memberRequest('PATCH', { role: 'admin' });
+
+    expect(response.status).toBe(403);
+    expect(teamMembers.update).not.toHaveBeenCalled();
+  });
+
+  it('should not let admins remove other admins', async () => {
+    const teamMembers = callerRole('admin', mockSupabaseQueryResponse({ ...member, role: 'admin' }));
+    await mockUserClient({ team_members: teamMembers });
+
+    const response = await memberRequest('DELETE');
+    const data = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(data.error.message).toBe('Team admins cannot manage admins');
+    expect(teamMembers.delete).not.toHaveBeenCalled();
+  });
+
+  it('should let the owner remove members', async () => {
+    const teamMembers = callerRole('owner', mockSupabaseQueryResponse(member), {
+      data: null,
+      error: null,
+    });
+    await mockUserClient({ team_members: teamMembers });
+
+    const response = await memberRequest('DELETE');
+
+    expect(response.status).toBe(204);
+    expect(teamMembers.delete).toHaveBeenCalled();
+    expect(teamMembers.eq).toHaveBeenCalledWith('user_id', MEMBER_ID);
+    expect(syncTeamSeats).toHaveBeenCalledWith(TEAM_ID, 'removed');
+  });
+
+  it('should return 403 for members without members:manage', async () => {
+    await mockUserClient({ team_members: callerRole('member') });
+
+    const response = await memberRequest('DELETE');
+
+    expect(response.status).toBe(403);
+  });
+});
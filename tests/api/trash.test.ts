@@ -0,0 +1,316 @@
+/**
+ * API tests for the screenshot trash
+ * Tests: DELETE /api/screenshots/[id] (soft and permanent), POST /api/screenshots/[id]/restore,
+ * GET/DELETE /api/trash, and trashed screenshots on share links and the cleanup cron
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRequest, createAuthRequest } from '../helpers/request-builder';
+import {
+  mockSupabaseQueryResponse,
+  mockQueryBuilder,
+  mockScreenshot,
+} from '../helpers/supabase-mocks';
+import { resetAllMocks } from '../helpers/test-utils';
+
+// Mock all external dependencies BEFORE importing route handlers
+
+// Mock Supabase
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+  createUserClient: vi.fn(),
+  getUserIdFromToken: vi.fn(async (token: string) => {
+    if (token === 'invalid-token') return null;
+    return 'test-user-id-123';
+  }),
+}));
+
+// Mock storage operations
+vi.mock('@/lib/storage', () => ({
+  SCREENSHOTS_BUCKET: 'screenshots',
+  PROTECTED_SCREENSHOTS_BUCKET: 'protected-screenshots',
+  getPublicUrl: vi.fn((path: string) => `https://test-storage.supabase.co/public/${path}`),
+  deleteFiles: vi.fn(async () => {}),
+  generateSignedDownloadUrl: vi.fn(),
+}));
+
+// Now import route handlers AFTER mocks are defined
+import { DELETE as screenshotDELETE } from '@/app/api/screenshots/[id]/route';
+import { POST as restorePOST } from '@/app/api/screenshots/[id]/restore/route';
+import { GET as trashGET, DELETE as trashDELETE } from '@/app/api/trash/route';
+import { GET as publicViewGET } from '@/app/api/s/[shortId]/route';
+import { GET as cleanupExpiredGET } from '@/app/api/cron/cleanup-expired/route';
+
+const SCREENSHOT_ID = '123e4567-e89b-12d3-a456-426614174000';
+const DELETED_AT = '2025-11-01T12:00:00.000Z';
+
+/**
+ * Route every createUserClient().from(table) call to a per-table query mock
+ */
+async function mockUserClient(tables: Record<string, ReturnType<typeof mockQueryBuilder>>) {
+  const { createUserClient } = await import('@/lib/supabase');
+
+  vi.mocked(createUserClient).mockReturnValue({
+    from: vi.fn((table: string) => tables[table]),
+  } as any);
+}
+
+describe('DELETE /api/screenshots/[id]', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  const deleteRequest = (query = '') =>
+    screenshotDELETE(
+      createAuthRequest({
+        method: 'DELETE',
+        url: `http://localhost:3000/api/screenshots/${SCREENSHOT_ID}${query}`,
+      }),
+      { params: Promise.resolve({ id: SCREENSHOT_ID }) }
+    );
+
+  it('should move the screenshot to the trash without touching storage', async () => {
+    const { deleteFiles } = await import('@/lib/storage');
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse(mockScreenshot({ id: SCREENSHOT_ID })),
+      mockSupabaseQueryResponse(null)
+    );
+    await mockUserClient({ screenshots });
+
+    const response = await deleteRequest();
+
+    expect(response.status).toBe(204);
+    expect(screenshots.update).toHaveBeenCalledWith({ deleted_at: expect.any(String) });
+    expect(screenshots.delete).not.toHaveBeenCalled();
+    expect(deleteFiles).not.toHaveBeenCalled();
+  });
+
+  it('should keep the original deletion time when already in the trash', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse(mockScreenshot({ id: SCREENSHOT_ID, deleted_at: DELETED_AT }))
+    );
+    await mockUserClient({ screenshots });
+
+    const response = await deleteRequest();
+
+    expect(response.status).toBe(204);
+    expect(screenshots.update).not.toHaveBeenCalled();
+  });
+
+  it('should delete the row and storage files with permanent=true', async () => {
+    const { deleteFiles } = await import('@/lib/storage');
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse(
+        mockScreenshot({ id: SCREENSHOT_ID, storage_path: 'user-1/a.png', thumbnail_path: 'user-1/a_thumb.webp' })
+      ),
+      mockSupabaseQueryResponse(null)
+    );
+    await mockUserClient({ screenshots });
+
+    const response = await deleteRequest('?permanent=true');
+
+    expect(response.status).toBe(204);
+    expect(deleteFiles).toHaveBeenCalledWith(['user-1/a.png', 'user-1/a_thumb.webp'], 'screenshots');
+    expect(screenshots.delete).toHaveBeenCalled();
+    expect(screenshots.update).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for another user screenshot', async () => {
+    await mockUserClient({
+      screenshots: mockQueryBuilder({ data: null, error: { code: 'PGRST116' } }),
+    });
+
+    const response = await deleteRequest();
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('POST /api/screenshots/[id]/restore', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  const restoreRequest = (id = SCREENSHOT_ID) =>
+    restorePOST(
+      createAuthRequest({
+        method: 'POST',
+        url: `http://localhost:3000/api/screenshots/${id}/restore`,
+      }),
+      { params: Promise.resolve({ id }) }
+    );
+
+  it('should clear deleted_at and return the screenshot', async () => {
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse(mockScreenshot({ id: SCREENSHOT_ID }))
+    );
+    await mockUserClient({ screenshots });
+
+    const response = await restoreRequest();
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(screenshots.update).toHaveBeenCalledWith({ deleted_at: null });
+    expect(screenshots.not).toHaveBeenCalledWith('deleted_at', 'is', null);
+    expect(body.id).toBe(SCREENSHOT_ID);
+  });
+
+  it('should return 404 when the screenshot is not in the trash', async () => {
+    await mockUserClient({
+      screenshots: mockQueryBuilder(mockSupabaseQueryResponse(null)),
+    });
+
+    const response = await restoreRequest();
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 404 for invalid UUID format', async () => {
+    const response = await restoreRequest('invalid-id');
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('GET /api/trash', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should return 401 when no auth token provided', async () => {
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/trash',
+    });
+
+    const response = await trashGET(request);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should list trashed screenshots with their purge date', async () => {
+    const screenshots = mockQueryBuilder({
+      ...mockSupabaseQueryResponse([mockScreenshot({ id: SCREENSHOT_ID, deleted_at: DELETED_AT })]),
+      count: 1,
+    });
+    await mockUserClient({ screenshots });
+
+    const request = createAuthRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/trash?limit=10',
+    });
+
+    const response = await trashGET(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(screenshots.not).toHaveBeenCalledWith('deleted_at', 'is', null);
+    expect(screenshots.order).toHaveBeenCalledWith('deleted_at', { ascending: false });
+    expect(screenshots.range).toHaveBeenCalledWith(0, 9);
+    expect(body.screenshots[0].deleted_at).toBe(DELETED_AT);
+    expect(body.screenshots[0].purge_at).toBe('2025-12-01T12:00:00.000Z');
+    expect(body.pagination).toEqual({ total: 1, limit: 10, offset: 0, has_more: false });
+  });
+});
+
+describe('DELETE /api/trash', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should purge trashed screenshots and their storage files', async () => {
+    const { deleteFiles } = await import('@/lib/storage');
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse([
+        mockScreenshot({ id: 'a', storage_path: 'user-1/a.png' }),
+        mockScreenshot({ id: 'b', storage_path: 'user-1/b.png' }),
+      ]),
+      mockSupabaseQueryResponse(null)
+    );
+    await mockUserClient({ screenshots });
+
+    const request = createAuthRequest({
+      method: 'DELETE',
+      url: 'http://localhost:3000/api/trash',
+    });
+
+    const response = await trashDELETE(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(deleteFiles).toHaveBeenCalledWith(['user-1/a.png', 'user-1/b.png'], 'screenshots');
+    expect(screenshots.in).toHaveBeenCalledWith('id', ['a', 'b']);
+    expect(body).toEqual({ purged: 2, has_more: false });
+  });
+
+  it('should do nothing when the trash is empty', async () => {
+    const { deleteFiles } = await import('@/lib/storage');
+    const screenshots = mockQueryBuilder(mockSupabaseQueryResponse([]));
+    await mockUserClient({ screenshots });
+
+    const request = createAuthRequest({
+      method: 'DELETE',
+      url: 'http://localhost:3000/api/trash',
+    });
+
+    const response = await trashDELETE(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(deleteFiles).not.toHaveBeenCalled();
+    expect(screenshots.delete).not.toHaveBeenCalled();
+    expect(body).toEqual({ purged: 0, has_more: false });
+  });
+});
+
+describe('Trashed screenshots elsewhere', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should hide trashed screenshots from share links', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    vi.mocked(supabaseAdmin.from).mockReturnValue(
+      mockQueryBuilder(
+        mockSupabaseQueryResponse(mockScreenshot({ short_id: 'abc123', deleted_at: DELETED_AT }))
+      ) as any
+    );
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/s/abc123',
+    });
+
+    const response = await publicViewGET(request, {
+      params: Promise.resolve({ shortId: 'abc123' }),
+    });
+
+    expect(response.status).toBe(404);
+    expect(supabaseAdmin.rpc).not.toHaveBeenCalled();
+  });
+
+  it('should purge screenshots past the trash retention window in the cleanup cron', async () => {
+    const { supabaseAdmin } = await import('@/lib/supabase');
+    process.env.CRON_SECRET = 'test-cron-secret';
+    const screenshots = mockQueryBuilder(mockSupabaseQueryResponse([]));
+    vi.mocked(supabaseAdmin.from).mockReturnValue(screenshots as any);
+
+    const request = createMockRequest({
+      method: 'GET',
+      url: 'http://localhost:3000/api/cron/cleanup-expired',
+      headers: { Authorization: 'Bearer test-cron-secret' },
+    });
+
+    const response = await cleanupExpiredGET(request);
+
+    expect(response.status).toBe(200);
+    const filter = screenshots.or.mock.calls[0][0] as string;
+    const [, expiresBefore, trashedBefore] = filter.match(
+      /^expires_at\.lt\.(.+),deleted_at\.lt\.(.+)$/
+    )!;
+    expect(Date.parse(expiresBefore) - Date.parse(trashedBefore)).toBe(30 * 24 * 60 * 60 * 1000);
+  });
+});
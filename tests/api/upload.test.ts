@@ -10,7 +10,12 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createMockRequest, createAuthRequest } from '../helpers/request-builder';
-import { mockSupabaseQueryResponse, mockProfile, mockScreenshot } from '../helpers/supabase-mocks';
+import {
+  mockSupabaseQueryResponse,
+  mockQueryBuilder,
+  mockProfile,
+  mockScreenshot,
+} from '../helpers/supabase-mocks';
 import { resetAllMocks } from '../helpers/test-utils';
 
 // Mock all external dependencies BEFORE importing route handlers
@@ -40,6 +45,8 @@ vi.mock('@/lib/supabase', () => ({
 
 // Mock storage operations
 vi.mock('@/lib/storage', () => ({
+  SCREENSHOTS_BUCKET: 'screenshots',
+  PROTECTED_SCREENSHOTS_BUCKET: 'protected-screenshots',
   generateSignedUploadUrl: vi.fn(async (path: string, expiresIn: number) =>
     `https://test-storage.supabase.co/signed-upload-url?path=${path}&expires=${expiresIn}`
   ),
@@ -50,7 +57,17 @@ vi.mock('@/lib/storage', () => ({
     ['image/png', 'image/jpeg', 'image/gif', 'image/webp'].includes(mimeType)
   ),
   deleteFile: vi.fn(async () => {}),
+  downloadFile: vi.fn(async () => Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  validateFileSignature: vi.fn(() => true),
+  getImageDimensions: vi.fn(async () => ({ width: 1920, height: 1080 })),
+  sanitizeImage: vi.fn(async (buffer: Buffer) => ({ buffer, removed: [] })),
+  uploadFile: vi.fn(async () => {}),
+  generateImageVariants: vi.fn(async () => ({ thumbnailPath: null, variants: [] })),
   getPublicUrl: vi.fn((path: string) => `https://test-storage.supabase.co/public/${path}`),
+  generateSignedDownloadUrls: vi.fn(async (paths: string[]) =>
+    paths.map((path) => `https://test-storage.supabase.co/sign/${path}?token=signed`)
+  ),
+  moveFiles: vi.fn(async () => {}),
 }));
 
 // Mock short ID generation
@@ -63,6 +80,7 @@ vi.mock('@/lib/short-id', () => ({
 vi.mock('@/lib/rate-limit', () => ({
   checkRateLimit: vi.fn(async () => ({ success: true, limit: 10, remaining: 9, reset: Date.now() + 60000 })),
   uploadRateLimit: {},
+  apiRateLimit: null,
   addRateLimitHeaders: vi.fn(),
 }));
 
@@ -149,18 +167,80 @@ describe('POST /api/upload/signed-url', () => {
     expect(body.error.code).toBe('VALIDATION_ERROR');
   });
 
-  it('should reject file size exceeding 10MB', async () => {
-    const request = createAuthRequest({
-      method: 'POST',
-      url: 'http://localhost:3000/api/upload/signed-url',
-      body: {
-        filename: 'large-file.png',
-        mime_type: 'image/png',
-        file_size: 11 * 1024 * 1024, // 11MB
-      },
+  const mockPlan = async (plan: 'free' | 'pro' | 'team', storageBytes = 0) => {
+    const { createUserClient } = await import('@/lib/supabase');
+
+    const tables: Record<string, ReturnType<typeof mockQueryBuilder>> = {
+      profiles: mockQueryBuilder(
+        mockSupabaseQueryResponse(mockProfile({ plan, storage_bytes: storageBytes }))
+      ),
+      screenshots: mockQueryBuilder({ data: null, error: null }, { data: null, error: null }),
+    };
+
+    vi.mocked(createUserClient).mockReturnValueOnce({
+      from: vi.fn((table: string) => tables[table]),
+    } as any);
+  };
+
+  const signedUrlRequest = (fileSize: number) =>
+    signedUrlPOST(
+      createAuthRequest({
+        method: 'POST',
+        url: 'http://localhost:3000/api/upload/signed-url',
+        body: { filename: 'large-file.png', mime_type: 'image/png', file_size: fileSize },
+      })
+    );
+
+  it('should reject file size exceeding 10MB on the free plan', async () => {
+    await mockPlan('free');
+
+    const response = await signedUrlRequest(11 * 1024 * 1024); // 11MB
+    const body = await response.json();
+
+    expect(response.status).toBe(413);
+    expect(body.error.code).toBe('PAYLOAD_TOO_LARGE');
+    expect(body.error.details).toEqual({
+      max_size: 10 * 1024 * 1024,
+      file_size: 11 * 1024 * 1024,
+      plan: 'free',
     });
+  });
 
-    const response = await signedUrlPOST(request);
+  it('should allow larger files on paid plans', async () => {
+    await mockPlan('pro');
+
+    const response = await signedUrlRequest(20 * 1024 * 1024); // 20MB
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should reject uploads that would exceed the storage quota', async () => {
+    const used = 1024 * 1024 * 1024 - 1024; // 1KB short of the free quota
+    await mockPlan('free', used);
+
+    const response = await signedUrlRequest(2048);
+    const body = await response.json();
+
+    expect(response.status).toBe(413);
+    expect(body.error.code).toBe('STORAGE_QUOTA_EXCEEDED');
+    expect(body.error.details).toEqual({
+      quota_bytes: 1024 * 1024 * 1024,
+      used_bytes: used,
+      file_size: 2048,
+      plan: 'free',
+    });
+  });
+
+  it('should allow uploads that fit in the remaining quota', async () => {
+    await mockPlan('free', 1024 * 1024 * 1024 - 1024);
+
+    const response = await signedUrlRequest(1024);
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should reject file size exceeding the largest plan limit', async () => {
+    const response = await signedUrlRequest(51 * 1024 * 1024); // 51MB
     const body = await response.json();
 
     expect(response.status).toBe(400);
@@ -200,6 +280,270 @@ describe('POST /api/screenshots', () => {
     expect(body.error.code).toBe('UNAUTHORIZED');
   });
 
+  it('should return 403 when storage path belongs to another user', async () => {
+    const { downloadFile } = await import('@/lib/storage');
+
+    const request = createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots',
+      body: {
+        filename: 'test.png',
+        mime_type: 'image/png',
+        file_size: 8,
+        width: 1920,
+        height: 1080,
+        storage_path: 'other-user-id/123_abc123.png',
+      },
+    });
+
+    const response = await screenshotsPOST(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(body.error.code).toBe('FORBIDDEN');
+    expect(downloadFile).not.toHaveBeenCalled();
+  });
+
+  it('should reject and delete uploads whose bytes do not match the MIME type', async () => {
+    const { validateFileSignature, deleteFile } = await import('@/lib/storage');
+    vi.mocked(validateFileSignature).mockReturnValueOnce(false);
+
+    const request = createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots',
+      body: {
+        filename: 'test.png',
+        mime_type: 'image/png',
+        file_size: 8,
+        width: 1920,
+        height: 1080,
+        storage_path: 'test-user-id-123/123_abc123.png',
+      },
+    });
+
+    const response = await screenshotsPOST(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe('VALIDATION_ERROR');
+    expect(deleteFile).toHaveBeenCalledWith('test-user-id-123/123_abc123.png', 'screenshots');
+  });
+
+  it('should reject and delete uploads whose size or dimensions were spoofed', async () => {
+    const { deleteFile } = await import('@/lib/storage');
+
+    const request = createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots',
+      body: {
+        filename: 'test.png',
+        mime_type: 'image/png',
+        file_size: 1,
+        width: 10,
+        height: 10,
+        storage_path: 'test-user-id-123/123_abc123.png',
+      },
+    });
+
+    const response = await screenshotsPOST(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.details.actual).toEqual({ file_size: 8, width: 1920, height: 1080 });
+    expect(deleteFile).toHaveBeenCalledWith('test-user-id-123/123_abc123.png', 'screenshots');
+  });
+
+  it('should reject and delete uploads whose metadata cannot be stripped', async () => {
+    const { sanitizeImage, deleteFile, uploadFile } = await import('@/lib/storage');
+    vi.mocked(sanitizeImage).mockRejectedValueOnce(new Error('corrupt EXIF'));
+
+    const request = createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots',
+      body: {
+        filename: 'photo.jpg',
+        mime_type: 'image/jpeg',
+        file_size: 8,
+        width: 1920,
+        height: 1080,
+        storage_path: 'test-user-id-123/123_abc123.jpg',
+      },
+    });
+
+    const response = await screenshotsPOST(request);
+
+    expect(response.status).toBe(500);
+    expect(uploadFile).not.toHaveBeenCalled();
+    expect(deleteFile).toHaveBeenCalledWith('test-user-id-123/123_abc123.jpg', 'screenshots');
+  });
+
+  it('should reject and remove uploads that take the stored total past the quota', async () => {
+    const { createUserClient } = await import('@/lib/supabase');
+    const { deleteFile } = await import('@/lib/storage');
+    const quota = 1024 * 1024 * 1024;
+
+    // A parallel upload got in first: the total after this insert is over the free quota
+    const profiles = mockQueryBuilder(
+      mockSupabaseQueryResponse(mockProfile({ plan: 'free' })),
+      mockSupabaseQueryResponse({ storage_bytes: quota + 4 })
+    );
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse(mockScreenshot({ id: 'new-screenshot-id', file_size: 8 })),
+      { data: null, error: null }
+    );
+    vi.mocked(createUserClient).mockReturnValueOnce({
+      from: vi.fn((table: string) => (table === 'profiles' ? profiles : screenshots)),
+    } as any);
+
+    const request = createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots',
+      body: {
+        filename: 'test.png',
+        mime_type: 'image/png',
+        file_size: 8,
+        width: 1920,
+        height: 1080,
+        storage_path: 'test-user-id-123/123_abc123.png',
+      },
+    });
+
+    const response = await screenshotsPOST(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(413);
+    expect(body.error.code).toBe('STORAGE_QUOTA_EXCEEDED');
+    expect(body.error.details).toEqual({
+      quota_bytes: quota,
+      used_bytes: quota - 4,
+      file_size: 8,
+      plan: 'free',
+    });
+    expect(screenshots.delete).toHaveBeenCalled();
+    expect(screenshots.eq).toHaveBeenCalledWith('id', 'new-screenshot-id');
+    expect(deleteFile).toHaveBeenCalledWith('test-user-id-123/123_abc123.png', 'screenshots');
+  });
+
+  it('should keep limited-view uploads in the private bucket', async () => {
+    const { createUserClient, supabaseAdmin } = await import('@/lib/supabase');
+    const { generateImageVariants, moveFiles } = await import('@/lib/storage');
+    const storagePath = 'test-user-id-123/123_abc123.png';
+
+    const screenshot = mockScreenshot({ id: 'new-screenshot-id', storage_path: storagePath, max_views: 1 });
+    const profiles = mockQueryBuilder(
+      mockSupabaseQueryResponse(mockProfile({ plan: 'pro' })),
+      mockSupabaseQueryResponse({ storage_bytes: 8 })
+    );
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse(screenshot),
+      mockSupabaseQueryResponse(screenshot)
+    );
+    vi.mocked(createUserClient).mockReturnValueOnce({
+      from: vi.fn((table: string) => (table === 'profiles' ? profiles : screenshots)),
+    } as any);
+    const monthlyUsage = mockQueryBuilder({ data: null, error: null }, { data: null, error: null });
+    vi.mocked(supabaseAdmin.from)
+      .mockReturnValueOnce(monthlyUsage as any)
+      .mockReturnValueOnce(monthlyUsage as any);
+
+    const request = createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots',
+      body: {
+        filename: 'test.png',
+        mime_type: 'image/png',
+        file_size: 8,
+        width: 1920,
+        height: 1080,
+        storage_path: storagePath,
+        burn_after_reading: true,
+      },
+    });
+
+    const response = await screenshotsPOST(request);
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(moveFiles).toHaveBeenCalledWith([storagePath], 'screenshots', 'protected-screenshots');
+    expect(screenshots.insert).toHaveBeenCalledWith(expect.objectContaining({ max_views: 1 }));
+    expect(generateImageVariants).toHaveBeenCalledWith(
+      storagePath,
+      expect.any(Buffer),
+      'protected-screenshots'
+    );
+    expect(body.storage_url).toBe(`https://test-storage.supabase.co/sign/${storagePath}?token=signed`);
+  });
+
+  it('should move a limited-view upload back when the insert fails', async () => {
+    const { createUserClient } = await import('@/lib/supabase');
+    const { moveFiles, deleteFile } = await import('@/lib/storage');
+    const storagePath = 'test-user-id-123/123_abc123.png';
+
+    const profiles = mockQueryBuilder(mockSupabaseQueryResponse(mockProfile({ plan: 'pro' })));
+    const screenshots = mockQueryBuilder({ data: null, error: { message: 'duplicate key value' } });
+    vi.mocked(createUserClient).mockReturnValueOnce({
+      from: vi.fn((table: string) => (table === 'profiles' ? profiles : screenshots)),
+    } as any);
+
+    const request = createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots',
+      body: {
+        filename: 'test.png',
+        mime_type: 'image/png',
+        file_size: 8,
+        width: 1920,
+        height: 1080,
+        storage_path: storagePath,
+        max_views: 3,
+      },
+    });
+
+    const response = await screenshotsPOST(request);
+
+    expect(response.status).toBe(400);
+    expect(moveFiles).toHaveBeenNthCalledWith(1, [storagePath], 'screenshots', 'protected-screenshots');
+    expect(moveFiles).toHaveBeenNthCalledWith(2, [storagePath], 'protected-screenshots', 'screenshots');
+    expect(deleteFile).not.toHaveBeenCalled();
+  });
+
+  it('should delete a limited-view upload from the private bucket when it exceeds the quota', async () => {
+    const { createUserClient } = await import('@/lib/supabase');
+    const { deleteFile } = await import('@/lib/storage');
+    const storagePath = 'test-user-id-123/123_abc123.png';
+
+    const profiles = mockQueryBuilder(
+      mockSupabaseQueryResponse(mockProfile({ plan: 'free' })),
+      mockSupabaseQueryResponse({ storage_bytes: 10 * 1024 * 1024 * 1024 })
+    );
+    const screenshots = mockQueryBuilder(
+      mockSupabaseQueryResponse(mockScreenshot({ id: 'new-screenshot-id', storage_path: storagePath })),
+      { data: null, error: null }
+    );
+    vi.mocked(createUserClient).mockReturnValueOnce({
+      from: vi.fn((table: string) => (table === 'profiles' ? profiles : screenshots)),
+    } as any);
+
+    const request = createAuthRequest({
+      method: 'POST',
+      url: 'http://localhost:3000/api/screenshots',
+      body: {
+        filename: 'test.png',
+        mime_type: 'image/png',
+        file_size: 8,
+        width: 1920,
+        height: 1080,
+        storage_path: storagePath,
+        max_views: 3,
+      },
+    });
+
+    const response = await screenshotsPOST(request);
+
+    expect(response.status).toBe(413);
+    expect(deleteFile).toHaveBeenCalledWith(storagePath, 'protected-screenshots');
+  });
+
   // TODO: Fix complex query chain mocking for screenshot creation
   it.skip('should create screenshot metadata with valid data', async () => {
     // This test requires mocking complex Supabase query chains with table-dependent behavior
@@ -9,7 +9,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createMockRequest, createAuthRequest } from '../helpers/request-builder';
-import { mockSupabaseQueryResponse, mockProfile } from '../helpers/supabase-mocks';
+import { mockSupabaseQueryResponse, mockQueryBuilder, mockProfile } from '../helpers/supabase-mocks';
 import { resetAllMocks } from '../helpers/test-utils';
 
 // Mock Supabase
@@ -32,6 +32,7 @@ vi.mock('@/lib/supabase', () => ({
 
 // Import route handlers AFTER mocks
 import { GET as usageGET } from '@/app/api/usage/route';
+import { createUserClient } from '@/lib/supabase';
 
 describe('GET /api/usage', () => {
   beforeEach(() => {
@@ -63,6 +64,50 @@ describe('GET /api/usage', () => {
   it.skip('should show unlimited for pro tier', async () => {
     // Requires mocking pro plan response
   });
+
+  describe('storage', () => {
+    const usageRequest = (profile: ReturnType<typeof mockProfile>) => {
+      const tables: Record<string, ReturnType<typeof mockQueryBuilder>> = {
+        profiles: mockQueryBuilder(mockSupabaseQueryResponse(profile)),
+        screenshots: mockQueryBuilder({ data: null, error: null, count: 3 } as any),
+        monthly_usage: mockQueryBuilder(
+          mockSupabaseQueryResponse({ screenshot_count: 3, storage_bytes: 1024, bandwidth_bytes: 0 })
+        ),
+      };
+      vi.mocked(createUserClient).mockReturnValueOnce({
+        from: vi.fn((table: string) => tables[table]),
+      } as any);
+
+      return usageGET(createAuthRequest({ method: 'GET', url: 'http://localhost:3000/api/usage' }));
+    };
+
+    it('should report total storage against the plan quota', async () => {
+      const response = await usageRequest(
+        mockProfile({ plan: 'free', storage_bytes: 256 * 1024 * 1024 })
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.storage_bytes).toBe(1024); // this month's uploads
+      expect(body.storage_status).toEqual({
+        used_bytes: 256 * 1024 * 1024,
+        used_mb: 256,
+        quota_bytes: 1024 * 1024 * 1024,
+        remaining_bytes: 768 * 1024 * 1024,
+        at_quota: false,
+      });
+    });
+
+    it('should flag users at their quota', async () => {
+      const response = await usageRequest(
+        mockProfile({ plan: 'free', storage_bytes: 1024 * 1024 * 1024 })
+      );
+      const body = await response.json();
+
+      expect(body.storage_status.remaining_bytes).toBe(0);
+      expect(body.storage_status.at_quota).toBe(true);
+    });
+  });
 });
 
 describe('GET /api/usage/history', () => {
@@ -142,6 +142,35 @@ export function createMockSupabaseClient() {
   };
 }
 
+/**
+ * Chainable query builder mock for routes that build longer query chains
+ * single/maybeSingle and awaiting the builder itself resolve to the given results in order
+ *
+ * @example
+ * const screenshots = mockQueryBuilder(mockSupabaseQueryResponse([mockScreenshot()]));
+ * expect(screenshots.eq).toHaveBeenCalledWith('user_id', 'test-user-id-123');
+ */
+export function mockQueryBuilder(
+  ...results: Array<{ data: unknown; error: unknown; count?: number | null }>
+) {
+  const next = vi.fn();
+  results.forEach((result) => next.mockResolvedValueOnce(result));
+
+  const builder: Record<string, unknown> = {};
+  for (const method of [
+    'select', 'insert', 'update', 'delete', 'upsert', 'eq', 'neq', 'is', 'not', 'in', 'or',
+    'gt', 'gte', 'lt', 'lte', 'ilike', 'contains', 'overlaps', 'order', 'range', 'limit', 'returns',
+  ]) {
+    builder[method] = vi.fn(() => builder);
+  }
+  builder.single = next;
+  builder.maybeSingle = next;
+  builder.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+    next().then(resolve, reject);
+
+  return builder as Record<string, ReturnType<typeof vi.fn>>;
+}
+
 /**
  * Mock profile record
  */
@@ -153,6 +182,8 @@ export function mockProfile(overrides?: Partial<{
   stripe_customer_id: string | null;
   stripe_subscription_id: string | null;
   downgraded_at: string | null;
+  team_seats: number | null;
+  storage_bytes: number;
   created_at: string;
   updated_at: string;
 }>) {
@@ -164,6 +195,8 @@ export function mockProfile(overrides?: Partial<{
     stripe_customer_id: null,
     stripe_subscription_id: null,
     downgraded_at: null,
+    team_seats: null,
+    storage_bytes: 0,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
     ...overrides,
@@ -186,6 +219,16 @@ export function mockScreenshot(overrides?: Partial<{
   views: number;
   is_public: boolean;
   expires_at: string | null;
+  thumbnail_path: string | null;
+  variants: Array<{ width: number; height: number; format: string; path: string; size: number }>;
+  password_hash: string | null;
+  max_views: number | null;
+  collection_id: string | null;
+  team_id: string | null;
+  tags: string[];
+  ocr_status: 'pending' | 'processing' | 'completed' | 'failed';
+  ocr_text: string | null;
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 }>) {
@@ -202,6 +245,42 @@ export function mockScreenshot(overrides?: Partial<{
     views: 0,
     is_public: true,
     expires_at: null,
+    thumbnail_path: null,
+    variants: [],
+    password_hash: null,
+    max_views: null,
+    collection_id: null,
+    team_id: null,
+    tags: [],
+    ocr_status: 'pending' as const,
+    ocr_text: null,
+    deleted_at: null,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+/**
+ * Mock collection record
+ */
+export function mockCollection(overrides?: Partial<{
+  id: string;
+  user_id: string;
+  short_id: string;
+  name: string;
+  description: string | null;
+  is_public: boolean;
+  created_at: string;
+  updated_at: string;
+}>) {
+  return {
+    id: '223e4567-e89b-12d3-a456-426614174000',
+    user_id: 'test-user-id-123',
+    short_id: 'col123',
+    name: 'Design reviews',
+    description: null,
+    is_public: false,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
     ...overrides,
@@ -236,3 +315,35 @@ export function mockMonthlyUsage(overrides?: Partial<{
     ...overrides,
   };
 }
+
+/**
+ * Mock data export record
+ */
+export function mockDataExport(overrides?: Partial<{
+  id: string;
+  user_id: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+  storage_path: string | null;
+  file_size: number | null;
+  error: string | null;
+  attempts: number;
+  started_at: string | null;
+  completed_at: string | null;
+  expires_at: string | null;
+  created_at: string;
+}>) {
+  return {
+    id: '323e4567-e89b-12d3-a456-426614174000',
+    user_id: 'test-user-id-123',
+    status: 'pending' as const,
+    storage_path: null,
+    file_size: null,
+    error: null,
+    attempts: 0,
+    started_at: null,
+    completed_at: null,
+    expires_at: null,
+    created_at: new Date().toISOString(),
+    ...overrides,
+  };
+}
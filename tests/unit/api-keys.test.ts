@@ -0,0 +1,172 @@
+/**
+ * Unit tests for personal API keys
+ * Tests key generation, scopes, minted access tokens and key resolution (resolveApiKey)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHmac } from 'crypto';
+import { mockQueryBuilder } from '../helpers/supabase-mocks';
+
+const fakeClient = vi.hoisted(() => ({
+  from: vi.fn(),
+  auth: { getUser: vi.fn(async () => ({ data: { user: { id: 'session-user' } } })) },
+}));
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => fakeClient),
+}));
+
+import {
+  generateApiKey,
+  hashApiKey,
+  hasApiKeyScope,
+  isApiKey,
+  mintAccessToken,
+  API_KEY_PREFIX,
+} from '@/lib/api-keys';
+import { createUserClient, getUserIdFromToken, resolveApiKey } from '@/lib/supabase';
+import { createClient } from '@supabase/supabase-js';
+import { ForbiddenError } from '@/lib/errors';
+
+const JWT_SECRET = 'test-jwt-secret';
+
+/**
+ * Decode the payload of a JWT without verifying it
+ */
+const decodeJwt = (token: string) =>
+  JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+
+/**
+ * Authorization header passed to the most recent createClient call
+ */
+const lastAuthorizationHeader = () => {
+  const options = vi.mocked(createClient).mock.calls.at(-1)?.[2] as {
+    global: { headers: Record<string, string> };
+  };
+  return options.global.headers.Authorization;
+};
+
+describe('generateApiKey', () => {
+  it('should generate prefixed keys with a display prefix and a hash', () => {
+    const { key, prefix, hash } = generateApiKey();
+
+    expect(key).toMatch(/^snappd_sk_[A-Za-z0-9_-]{32}$/);
+    expect(isApiKey(key)).toBe(true);
+    expect(key.startsWith(prefix)).toBe(true);
+    expect(prefix).toHaveLength(API_KEY_PREFIX.length + 6);
+    expect(hash).toBe(hashApiKey(key));
+    expect(hash).not.toContain(key);
+  });
+
+  it('should not treat JWTs as API keys', () => {
+    expect(isApiKey('eyJhbGciOiJIUzI1NiJ9.e30.sig')).toBe(false);
+  });
+});
+
+describe('hasApiKeyScope', () => {
+  it('should give keys without scopes full access', () => {
+    expect(hasApiKeyScope(null, 'screenshots:write')).toBe(true);
+    expect(hasApiKeyScope(null)).toBe(true);
+  });
+
+  it('should limit scoped keys to their scopes', () => {
+    expect(hasApiKeyScope(['screenshots:write'], 'screenshots:write')).toBe(true);
+    expect(hasApiKeyScope(['screenshots:write'], 'screenshots:read')).toBe(false);
+  });
+
+  it('should reject scoped keys on routes that require full access', () => {
+    expect(hasApiKeyScope(['screenshots:read', 'account:write'])).toBe(false);
+  });
+});
+
+describe('mintAccessToken', () => {
+  beforeEach(() => {
+    process.env.SUPABASE_JWT_SECRET = JWT_SECRET;
+  });
+
+  it('should sign a short-lived authenticated token for the user', () => {
+    const token = mintAccessToken('user-1');
+    const [header, payload, signature] = token.split('.');
+
+    expect(signature).toBe(
+      createHmac('sha256', JWT_SECRET).update(`${header}.${payload}`).digest('base64url')
+    );
+    expect(decodeJwt(token)).toMatchObject({ sub: 'user-1', role: 'authenticated', aud: 'authenticated' });
+    expect(decodeJwt(token).exp - decodeJwt(token).iat).toBe(300);
+  });
+
+  it('should fail without a JWT secret', () => {
+    delete process.env.SUPABASE_JWT_SECRET;
+
+    expect(() => mintAccessToken('user-1')).toThrow('SUPABASE_JWT_SECRET');
+  });
+});
+
+describe('resolveApiKey', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.SUPABASE_JWT_SECRET = JWT_SECRET;
+  });
+
+  it('should resolve an active key and mint a token for createUserClient', async () => {
+    const { key, hash } = generateApiKey();
+    const apiKeys = mockQueryBuilder(
+      { data: { id: 'key-1', user_id: 'user-1', scopes: ['screenshots:write'], last_used_at: null }, error: null },
+      { data: null, error: null }
+    );
+    fakeClient.from.mockReturnValue(apiKeys);
+
+    const caller = await resolveApiKey(key, 'screenshots:write');
+
+    expect(caller?.userId).toBe('user-1');
+    expect(decodeJwt(caller!.accessToken).sub).toBe('user-1');
+    expect(apiKeys.eq).toHaveBeenCalledWith('key_hash', hash);
+    expect(apiKeys.is).toHaveBeenCalledWith('revoked_at', null);
+    expect(apiKeys.update).toHaveBeenCalledWith({ last_used_at: expect.any(String) });
+    expect(fakeClient.auth.getUser).not.toHaveBeenCalled();
+
+    createUserClient(caller!.accessToken);
+    expect(lastAuthorizationHeader()).toBe(`Bearer ${caller!.accessToken}`);
+  });
+
+  it('should not record use more than once a minute', async () => {
+    const { key } = generateApiKey();
+    const apiKeys = mockQueryBuilder({
+      data: { id: 'key-1', user_id: 'user-1', scopes: null, last_used_at: new Date().toISOString() },
+      error: null,
+    });
+    fakeClient.from.mockReturnValue(apiKeys);
+
+    await resolveApiKey(key);
+
+    expect(apiKeys.update).not.toHaveBeenCalled();
+  });
+
+  it('should return null for unknown or revoked keys', async () => {
+    const { key } = generateApiKey();
+    fakeClient.from.mockReturnValue(mockQueryBuilder({ data: null, error: null }));
+
+    expect(await resolveApiKey(key, 'screenshots:read')).toBeNull();
+
+    // Raw keys never reach PostgREST as a bearer token
+    createUserClient(key);
+    expect(lastAuthorizationHeader()).toBeUndefined();
+  });
+
+  it('should reject keys without the required scope', async () => {
+    const { key } = generateApiKey();
+    fakeClient.from.mockReturnValue(
+      mockQueryBuilder({
+        data: { id: 'key-1', user_id: 'user-1', scopes: ['screenshots:read'], last_used_at: null },
+        error: null,
+      })
+    );
+
+    await expect(resolveApiKey(key, 'screenshots:write')).rejects.toThrow(ForbiddenError);
+  });
+
+  it('should keep validating JWTs with Supabase Auth', async () => {
+    expect(await getUserIdFromToken('eyJhbGciOiJIUzI1NiJ9.e30.sig', 'screenshots:read')).toBe('session-user');
+    expect(fakeClient.from).not.toHaveBeenCalled();
+  });
+});
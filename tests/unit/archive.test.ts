@@ -0,0 +1,107 @@
+/**
+ * Unit tests for zip archives
+ * Tests entry naming and the streamed zip contents
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { unzipSync, strFromU8 } from 'fflate';
+
+vi.mock('@/lib/storage', () => ({
+  SCREENSHOTS_BUCKET: 'screenshots',
+  PROTECTED_SCREENSHOTS_BUCKET: 'protected-screenshots',
+  downloadFile: vi.fn(async (path: string) => Buffer.from(`contents of ${path}`)),
+}));
+
+import { sanitizeArchiveFilename, getArchiveEntryNames, createArchiveStream } from '@/lib/archive';
+import { downloadFile } from '@/lib/storage';
+
+/**
+ * Read a stream to completion and concatenate its chunks
+ */
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe('sanitizeArchiveFilename', () => {
+  it('should keep ordinary filenames', () => {
+    expect(sanitizeArchiveFilename('Checkout bug.png', 'image/png')).toBe('Checkout bug.png');
+    expect(sanitizeArchiveFilename('photo.JPEG', 'image/jpeg')).toBe('photo.JPEG');
+  });
+
+  it('should strip directories and reserved characters', () => {
+    expect(sanitizeArchiveFilename('../../etc/passwd.png', 'image/png')).toBe('passwd.png');
+    expect(sanitizeArchiveFilename('C:\\Users\\me\\shot.png', 'image/png')).toBe('shot.png');
+    expect(sanitizeArchiveFilename('what? <now>:\n.png', 'image/png')).toBe('what_ _now___.png');
+  });
+
+  it('should add an extension matching the stored image', () => {
+    expect(sanitizeArchiveFilename('Screenshot 2025-11-01', 'image/webp')).toBe('Screenshot 2025-11-01.webp');
+    expect(sanitizeArchiveFilename('capture.heic', 'image/jpeg')).toBe('capture.heic.jpg');
+  });
+
+  it('should fall back to a generic name', () => {
+    expect(sanitizeArchiveFilename('...', 'image/png')).toBe('screenshot.png');
+  });
+});
+
+describe('getArchiveEntryNames', () => {
+  it('should de-duplicate names case-insensitively', () => {
+    expect(
+      getArchiveEntryNames([
+        { original_filename: 'shot.png', mime_type: 'image/png' },
+        { original_filename: 'Shot.png', mime_type: 'image/png' },
+        { original_filename: 'shot.png', mime_type: 'image/png' },
+        { original_filename: 'shot (2).png', mime_type: 'image/png' },
+      ])
+    ).toEqual(['shot.png', 'Shot (2).png', 'shot (3).png', 'shot (2) (2).png']);
+  });
+});
+
+describe('createArchiveStream', () => {
+  beforeEach(() => {
+    vi.mocked(downloadFile).mockClear();
+  });
+
+  it('should stream a zip containing every original', async () => {
+    const screenshots = [
+      { original_filename: 'a.png', storage_path: 'user-1/a.png', password_hash: null, max_views: null, mime_type: 'image/png', created_at: '2025-11-01T12:00:00Z' },
+      { original_filename: 'a.png', storage_path: 'user-1/b.png', password_hash: null, max_views: null, mime_type: 'image/png', created_at: '2025-11-02T12:00:00Z' },
+    ];
+
+    const files = unzipSync(await readStream(createArchiveStream(screenshots)));
+
+    expect(Object.keys(files)).toEqual(['a.png', 'a (2).png']);
+    expect(strFromU8(files['a.png'])).toBe('contents of user-1/a.png');
+    expect(strFromU8(files['a (2).png'])).toBe('contents of user-1/b.png');
+  });
+
+  it('should only download originals as the stream is read', async () => {
+    const stream = createArchiveStream([
+      { original_filename: 'a.png', storage_path: 'user-1/a.png', password_hash: null, max_views: null, mime_type: 'image/png', created_at: '2025-11-01T12:00:00Z' },
+    ]);
+
+    expect(downloadFile).not.toHaveBeenCalled();
+    await readStream(stream);
+    expect(downloadFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read password-protected originals from the private bucket', async () => {
+    await readStream(
+      createArchiveStream([
+        { original_filename: 'a.png', storage_path: 'user-1/a.png', password_hash: 'scrypt$salt$key', max_views: null, mime_type: 'image/png', created_at: '2025-11-01T12:00:00Z' },
+      ])
+    );
+
+    expect(downloadFile).toHaveBeenCalledWith('user-1/a.png', 'protected-screenshots');
+  });
+
+  it('should abort the stream when a download fails', async () => {
+    vi.mocked(downloadFile).mockRejectedValueOnce(new Error('Failed to download file: timeout'));
+
+    const stream = createArchiveStream([
+      { original_filename: 'a.png', storage_path: 'user-1/a.png', password_hash: null, max_views: null, mime_type: 'image/png', created_at: '2025-11-01T12:00:00Z' },
+    ]);
+
+    await expect(readStream(stream)).rejects.toThrow('timeout');
+  });
+});
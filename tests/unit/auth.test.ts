@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the route authentication wrapper
+ * Tests header parsing, API key restrictions, the shared rate limit and lazy plan loading
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextResponse } from 'next/server';
+import { mockQueryBuilder, mockProfile } from '../helpers/supabase-mocks';
+import { createMockRequest } from '../helpers/request-builder';
+
+const mockSupabase = vi.hoisted(() => ({ from: vi.fn() }));
+
+vi.mock('@/lib/supabase', () => ({
+  getUserIdFromToken: vi.fn(async () => 'user-123'),
+  resolveApiKey: vi.fn(async () => ({ userId: 'key-owner-123', accessToken: 'minted-token' })),
+  createUserClient: vi.fn(() => mockSupabase),
+}));
+
+vi.mock('@/lib/rate-limit', () => ({
+  apiRateLimit: {},
+  checkRateLimit: vi.fn(async () => ({ success: true, limit: 100, remaining: 99, reset: 1700000000000 })),
+  addRateLimitHeaders: vi.fn((headers: Headers) => headers.set('X-RateLimit-Limit', '100')),
+}));
+
+import { getBearerToken, withAuth } from '@/lib/auth';
+import { createUserClient, getUserIdFromToken, resolveApiKey } from '@/lib/supabase';
+import { checkRateLimit } from '@/lib/rate-limit';
+
+const requestWithAuthorization = (authorization?: string) =>
+  createMockRequest({
+    url: 'http://localhost:3000/api/test',
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+
+describe('getBearerToken', () => {
+  it('should return the token of a bearer header', () => {
+    expect(getBearerToken(requestWithAuthorization('Bearer abc.def'))).toBe('abc.def');
+    expect(getBearerToken(requestWithAuthorization('bearer abc.def'))).toBe('abc.def');
+  });
+
+  it('should reject missing headers', () => {
+    expect(() => getBearerToken(requestWithAuthorization())).toThrow('Missing authorization token');
+  });
+
+  it('should reject malformed headers', () => {
+    for (const header of ['abc.def', 'Basic abc.def', 'Bearer', 'Bearer abc def', 'Bearer Bearer abc']) {
+      expect(() => getBearerToken(requestWithAuthorization(header))).toThrow(
+        'Malformed authorization header'
+      );
+    }
+  });
+});
+
+describe('withAuth', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should pass the caller and awaited params to the handler', async () => {
+    const handler = vi.fn(async () => NextResponse.json({ ok: true }));
+    const GET = withAuth<{ id: string }>(handler, { scope: 'screenshots:read' });
+
+    const response = await GET(requestWithAuthorization('Bearer session-token'), {
+      params: Promise.resolve({ id: 'shot-1' }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(getUserIdFromToken).toHaveBeenCalledWith('session-token', 'screenshots:read');
+    expect(createUserClient).toHaveBeenCalledWith('session-token');
+    expect(handler).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ userId: 'user-123', authMethod: 'session', params: { id: 'shot-1' } })
+    );
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('100');
+  });
+
+  it('should act as the key owner with the access token minted for an API key', async () => {
+    const handler = vi.fn(async () => NextResponse.json({ ok: true }));
+
+    await withAuth(handler, { scope: 'screenshots:read' })(
+      requestWithAuthorization('Bearer snappd_sk_abcdef')
+    );
+
+    expect(resolveApiKey).toHaveBeenCalledWith('snappd_sk_abcdef', 'screenshots:read');
+    expect(createUserClient).toHaveBeenCalledWith('minted-token');
+    expect(handler).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ userId: 'key-owner-123', authMethod: 'api_key' })
+    );
+  });
+
+  it('should return 401 for unknown API keys', async () => {
+    vi.mocked(resolveApiKey).mockResolvedValueOnce(null);
+    const handler = vi.fn();
+
+    const response = await withAuth(handler)(requestWithAuthorization('Bearer snappd_sk_unknown'));
+
+    expect(response.status).toBe(401);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 without calling the handler for invalid tokens', async () => {
+    vi.mocked(getUserIdFromToken).mockResolvedValueOnce(null);
+    const handler = vi.fn();
+
+    const response = await withAuth(handler)(requestWithAuthorization('Bearer expired'));
+
+    expect(response.status).toBe(401);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should reject API keys on session-only endpoints', async () => {
+    const handler = vi.fn();
+
+    const response = await withAuth(handler, { allowApiKeys: false })(
+      requestWithAuthorization('Bearer snappd_sk_abcdef')
+    );
+
+    expect(response.status).toBe(403);
+    expect(getUserIdFromToken).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should return 429 once the API rate limit is exhausted', async () => {
+    vi.mocked(checkRateLimit).mockResolvedValueOnce({
+      success: false,
+      limit: 100,
+      remaining: 0,
+      reset: 1700000000000,
+    });
+    const handler = vi.fn();
+
+    const response = await withAuth(handler)(requestWithAuthorization('Bearer session-token'));
+
+    expect(response.status).toBe(429);
+    expect(checkRateLimit).toHaveBeenCalledWith({}, 'user-123');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should load the plan once and only when asked', async () => {
+    mockSupabase.from.mockReturnValue(mockQueryBuilder({ data: mockProfile({ plan: 'pro' }), error: null }));
+
+    const plans: string[] = [];
+    const GET = withAuth(async (request, { getPlan }) => {
+      plans.push(await getPlan(), await getPlan());
+      return NextResponse.json({ ok: true });
+    });
+
+    await GET(requestWithAuthorization('Bearer session-token'));
+
+    expect(plans).toEqual(['pro', 'pro']);
+    expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for screenshot expiry
+ * Tests expires_in / expires_at resolution against plan retention
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getDefaultExpiresAt, resolveExpiresAt } from '@/lib/expiry';
+import { ForbiddenError } from '@/lib/errors';
+
+const NOW = new Date('2025-11-03T12:00:00.000Z');
+
+describe('getDefaultExpiresAt', () => {
+  it('should expire free screenshots after 30 days', () => {
+    expect(getDefaultExpiresAt('free', NOW)).toBe('2025-12-03T12:00:00.000Z');
+  });
+
+  it('should never expire paid screenshots', () => {
+    expect(getDefaultExpiresAt('pro', NOW)).toBeNull();
+    expect(getDefaultExpiresAt('team', NOW)).toBeNull();
+  });
+});
+
+describe('resolveExpiresAt', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return undefined when no expiry is requested', () => {
+    expect(resolveExpiresAt('free', {})).toBeUndefined();
+  });
+
+  it('should resolve expires_in relative to now', () => {
+    expect(resolveExpiresAt('free', { expires_in: '1h' })).toBe('2025-11-03T13:00:00.000Z');
+    expect(resolveExpiresAt('free', { expires_in: '30d' })).toBe('2025-12-03T12:00:00.000Z');
+  });
+
+  it('should allow never and long expiry on paid plans', () => {
+    expect(resolveExpiresAt('pro', { expires_in: 'never' })).toBeNull();
+    expect(resolveExpiresAt('pro', { expires_at: null })).toBeNull();
+    expect(resolveExpiresAt('team', { expires_at: '2030-01-01T00:00:00Z' })).toBe(
+      '2030-01-01T00:00:00.000Z'
+    );
+  });
+
+  it('should reject never on the free plan', () => {
+    expect(() => resolveExpiresAt('free', { expires_in: 'never' })).toThrow(ForbiddenError);
+    expect(() => resolveExpiresAt('free', { expires_at: null })).toThrow(ForbiddenError);
+  });
+
+  it('should measure free retention from the upload time', () => {
+    const createdAt = new Date('2025-10-20T12:00:00.000Z');
+
+    expect(resolveExpiresAt('free', { expires_in: '7d' }, createdAt)).toBe(
+      '2025-11-10T12:00:00.000Z'
+    );
+    expect(() => resolveExpiresAt('free', { expires_in: '30d' }, createdAt)).toThrow(
+      ForbiddenError
+    );
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for GDPR data exports
+ * Tests the export archive (manifest + image files)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { unzipSync, strFromU8 } from 'fflate';
+import {
+  mockQueryBuilder,
+  mockSupabaseQueryResponse,
+  mockProfile,
+  mockScreenshot,
+  mockCollection,
+  mockMonthlyUsage,
+} from '../helpers/supabase-mocks';
+
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/storage', () => ({
+  SCREENSHOTS_BUCKET: 'screenshots',
+  PROTECTED_SCREENSHOTS_BUCKET: 'protected-screenshots',
+  downloadFile: vi.fn(async (path: string) => Buffer.from(`contents of ${path}`)),
+}));
+
+import { createDataExportStream, getExportExpiresAt } from '@/lib/export';
+import { supabaseAdmin } from '@/lib/supabase';
+import { downloadFile } from '@/lib/storage';
+
+/**
+ * Route supabaseAdmin.from(table) to a query mock returning the given data
+ */
+function mockTables(tables: Record<string, unknown>) {
+  vi.mocked(supabaseAdmin.from).mockImplementation(
+    (table: string) => mockQueryBuilder(mockSupabaseQueryResponse(tables[table])) as any
+  );
+}
+
+/**
+ * Read a user's whole export archive and unzip it
+ */
+async function readExport(userId: string) {
+  const stream = await createDataExportStream(userId);
+  return unzipSync(new Uint8Array(await new Response(stream).arrayBuffer()));
+}
+
+describe('createDataExportStream', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should write a manifest and every original', async () => {
+    mockTables({
+      profiles: mockProfile(),
+      screenshots: [
+        mockScreenshot({
+          id: 'a',
+          original_filename: 'bug.png',
+          storage_path: 'test-user-id-123/a.png',
+          password_hash: '$2b$10$hash',
+          tags: ['bug'],
+        }),
+        mockScreenshot({
+          id: 'b',
+          original_filename: 'bug.png',
+          storage_path: 'test-user-id-123/b.png',
+          deleted_at: '2025-11-01T12:00:00Z',
+        }),
+      ],
+      collections: [mockCollection()],
+      monthly_usage: [mockMonthlyUsage()],
+    });
+
+    const files = await readExport('test-user-id-123');
+    const manifest = JSON.parse(strFromU8(files['manifest.json']));
+
+    expect(Object.keys(files)).toEqual(['manifest.json', 'screenshots/bug.png', 'screenshots/bug (2).png']);
+    expect(strFromU8(files['screenshots/bug (2).png'])).toBe('contents of test-user-id-123/b.png');
+
+    expect(manifest.format_version).toBe(1);
+    expect(manifest.profile.email).toBe('test@example.com');
+    expect(manifest.collections).toHaveLength(1);
+    expect(manifest.monthly_usage).toHaveLength(1);
+    expect(manifest.screenshots[0]).toMatchObject({
+      id: 'a',
+      file: 'screenshots/bug.png',
+      password_protected: true,
+      tags: ['bug'],
+    });
+    expect(manifest.screenshots[1]).toMatchObject({ id: 'b', deleted_at: '2025-11-01T12:00:00Z' });
+  });
+
+  it('should leave internal fields out of the manifest', async () => {
+    mockTables({
+      profiles: mockProfile(),
+      screenshots: [mockScreenshot({ password_hash: '$2b$10$hash' })],
+      collections: [],
+      monthly_usage: [],
+    });
+
+    const files = await readExport('test-user-id-123');
+    const [screenshot] = JSON.parse(strFromU8(files['manifest.json'])).screenshots;
+
+    expect(screenshot).not.toHaveProperty('password_hash');
+    expect(screenshot).not.toHaveProperty('storage_path');
+  });
+
+  it('should fail when a query fails', async () => {
+    vi.mocked(supabaseAdmin.from).mockImplementation(
+      () => mockQueryBuilder({ data: null, error: { message: 'connection reset' } }) as any
+    );
+
+    await expect(createDataExportStream('test-user-id-123')).rejects.toThrow('connection reset');
+  });
+
+  it('should download originals only as the archive is read', async () => {
+    mockTables({
+      profiles: mockProfile(),
+      screenshots: [
+        mockScreenshot({ id: 'a', storage_path: 'test-user-id-123/a.png' }),
+        mockScreenshot({ id: 'b', storage_path: 'test-user-id-123/b.png' }),
+      ],
+      collections: [],
+      monthly_usage: [],
+    });
+
+    const reader = (await createDataExportStream('test-user-id-123')).getReader();
+    expect(downloadFile).not.toHaveBeenCalled();
+
+    // Manifest chunks come first; keep reading until the first original is fetched
+    while (vi.mocked(downloadFile).mock.calls.length === 0) {
+      await reader.read();
+    }
+
+    expect(downloadFile).toHaveBeenCalledTimes(1);
+    await reader.cancel();
+  });
+
+  it('should error the stream when a download fails', async () => {
+    mockTables({
+      profiles: mockProfile(),
+      screenshots: [mockScreenshot()],
+      collections: [],
+      monthly_usage: [],
+    });
+    vi.mocked(downloadFile).mockRejectedValueOnce(new Error('Failed to download file: timeout'));
+
+    await expect(readExport('test-user-id-123')).rejects.toThrow('Failed to download file: timeout');
+  });
+});
+
+describe('getExportExpiresAt', () => {
+  it('should keep exports for seven days', () => {
+    expect(getExportExpiresAt('2025-11-01T12:00:00.000Z')).toBe('2025-11-08T12:00:00.000Z');
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Unit tests for OCR helpers
+ * Tests image preparation and text normalization (recognition itself needs Tesseract language data)
+ */
+
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { normalizeOcrText, prepareImageForOcr, MAX_OCR_TEXT_LENGTH } from '@/lib/ocr';
+
+describe('normalizeOcrText', () => {
+  it('should collapse whitespace and blank lines', () => {
+    expect(normalizeOcrText('  Error:\t  payment   failed  \n\n\n\n  Order #1234 \n')).toBe(
+      'Error: payment failed\n\nOrder #1234'
+    );
+  });
+
+  it('should return an empty string when nothing was recognized', () => {
+    expect(normalizeOcrText(' \n \n')).toBe('');
+  });
+
+  it('should cap the stored text length', () => {
+    expect(normalizeOcrText('a'.repeat(MAX_OCR_TEXT_LENGTH + 100))).toHaveLength(MAX_OCR_TEXT_LENGTH);
+  });
+});
+
+describe('prepareImageForOcr', () => {
+  it('should convert to a grayscale PNG', async () => {
+    const image = await sharp({
+      create: { width: 200, height: 100, channels: 3, background: { r: 200, g: 40, b: 40 } },
+    })
+      .jpeg()
+      .toBuffer();
+
+    const prepared = await prepareImageForOcr(image);
+    const metadata = await sharp(prepared).metadata();
+
+    expect(metadata.format).toBe('png');
+    expect(metadata.width).toBe(200);
+    expect(metadata.channels).toBe(1);
+  });
+
+  it('should downscale very large images', async () => {
+    const image = await sharp({
+      create: { width: 8000, height: 2000, channels: 3, background: { r: 255, g: 255, b: 255 } },
+    })
+      .png()
+      .toBuffer();
+
+    const metadata = await sharp(await prepareImageForOcr(image)).metadata();
+
+    expect(metadata.width).toBe(4000);
+    expect(metadata.height).toBe(1000);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for keyset pagination
+ * Tests cursor encoding/decoding and the PostgREST keyset filter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeCursor, decodeCursor, getKeysetFilter } from '@/lib/pagination';
+import { ValidationError } from '@/lib/errors';
+import { mockScreenshot } from '../helpers/supabase-mocks';
+
+const ID = '123e4567-e89b-12d3-a456-426614174000';
+
+describe('encodeCursor / decodeCursor', () => {
+  it('should round-trip the sort value and id of the last row', () => {
+    const screenshot = mockScreenshot({ id: ID, original_filename: 'Bug report, (final).png' }) as any;
+
+    const cursor = encodeCursor(screenshot, 'filename', 'asc');
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, 'filename', 'asc')).toEqual({
+      sort: 'filename',
+      order: 'asc',
+      value: 'Bug report, (final).png',
+      id: ID,
+    });
+  });
+
+  it('should keep numeric sort values as numbers', () => {
+    const cursor = encodeCursor(mockScreenshot({ id: ID, views: 42 }) as any, 'views', 'desc');
+
+    expect(decodeCursor(cursor, 'views', 'desc').value).toBe(42);
+  });
+
+  it('should reject a cursor issued for a different sort', () => {
+    const cursor = encodeCursor(mockScreenshot({ id: ID }) as any, 'created_at', 'desc');
+
+    expect(() => decodeCursor(cursor, 'created_at', 'asc')).toThrow(ValidationError);
+    expect(() => decodeCursor(cursor, 'views', 'desc')).toThrow(ValidationError);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => decodeCursor('not-a-cursor', 'created_at', 'desc')).toThrow('Invalid cursor');
+    expect(() =>
+      decodeCursor(Buffer.from('{"sort":"created_at","order":"desc"}').toString('base64url'), 'created_at', 'desc')
+    ).toThrow('Invalid cursor');
+  });
+});
+
+describe('getKeysetFilter', () => {
+  it('should select rows after the cursor in descending order', () => {
+    expect(
+      getKeysetFilter({ sort: 'created_at', order: 'desc', value: '2025-11-01T12:00:00.123456+00:00', id: ID })
+    ).toBe(
+      `created_at.lt."2025-11-01T12:00:00.123456+00:00",` +
+        `and(created_at.eq."2025-11-01T12:00:00.123456+00:00",id.lt."${ID}")`
+    );
+  });
+
+  it('should select rows after the cursor in ascending order', () => {
+    expect(getKeysetFilter({ sort: 'file_size', order: 'asc', value: 1024, id: ID })).toBe(
+      `file_size.gt.1024,and(file_size.eq.1024,id.gt."${ID}")`
+    );
+  });
+
+  it('should quote filenames containing reserved characters', () => {
+    expect(
+      getKeysetFilter({ sort: 'filename', order: 'asc', value: 'a "b", (c)\\d', id: ID })
+    ).toBe(
+      `original_filename.gt."a \\"b\\", (c)\\\\d",and(original_filename.eq."a \\"b\\", (c)\\\\d",id.gt."${ID}")`
+    );
+  });
+});
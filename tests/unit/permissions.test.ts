@@ -0,0 +1,88 @@
+/**
+ * Unit tests for team role permissions
+ * Tests the role matrix, 403 reasons and role ranking
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mockQueryBuilder, mockSupabaseQueryResponse } from '../helpers/supabase-mocks';
+import {
+  hasTeamPermission,
+  assertTeamPermission,
+  requireTeamPermission,
+  assertCanManageTeamRole,
+} from '@/lib/permissions';
+import { ForbiddenError, NotFoundError } from '@/lib/errors';
+
+const clientWithRole = (role: string | null) => {
+  const teamMembers = mockQueryBuilder(
+    role ? mockSupabaseQueryResponse({ role }) : { data: null, error: null }
+  );
+  return { from: () => teamMembers } as any;
+};
+
+describe('hasTeamPermission', () => {
+  it('should let owners and admins moderate, invite and manage billing', () => {
+    for (const role of ['owner', 'admin'] as const) {
+      expect(hasTeamPermission(role, 'screenshots:visibility')).toBe(true);
+      expect(hasTeamPermission(role, 'screenshots:delete')).toBe(true);
+      expect(hasTeamPermission(role, 'members:invite')).toBe(true);
+      expect(hasTeamPermission(role, 'billing:manage')).toBe(true);
+    }
+  });
+
+  it('should only let members share their own screenshots', () => {
+    expect(hasTeamPermission('member', 'screenshots:share')).toBe(true);
+    expect(hasTeamPermission('member', 'screenshots:delete')).toBe(false);
+    expect(hasTeamPermission('member', 'members:invite')).toBe(false);
+    expect(hasTeamPermission('member', 'billing:manage')).toBe(false);
+  });
+
+  it('should make viewers read-only', () => {
+    expect(hasTeamPermission('viewer', 'screenshots:share')).toBe(false);
+    expect(hasTeamPermission('viewer', 'screenshots:visibility')).toBe(false);
+  });
+});
+
+describe('assertTeamPermission', () => {
+  it('should explain what the role cannot do', () => {
+    expect(() => assertTeamPermission('viewer', 'screenshots:share')).toThrow(
+      new ForbiddenError('Team viewers cannot share screenshots with this team')
+    );
+    expect(() => assertTeamPermission('member', 'screenshots:delete')).toThrow(
+      "Team members cannot delete other members' screenshots"
+    );
+  });
+
+  it('should pass for granted permissions', () => {
+    expect(() => assertTeamPermission('admin', 'members:manage')).not.toThrow();
+  });
+});
+
+describe('requireTeamPermission', () => {
+  it('should return the caller role when it has the permission', async () => {
+    await expect(
+      requireTeamPermission(clientWithRole('admin'), 'team-1', 'user-1', 'members:invite')
+    ).resolves.toBe('admin');
+  });
+
+  it('should throw 403 for roles without the permission', async () => {
+    await expect(
+      requireTeamPermission(clientWithRole('member'), 'team-1', 'user-1', 'members:invite')
+    ).rejects.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should throw 404 for non-members', async () => {
+    await expect(
+      requireTeamPermission(clientWithRole(null), 'team-1', 'user-1', 'screenshots:share')
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
+
+describe('assertCanManageTeamRole', () => {
+  it('should allow acting on lower roles only', () => {
+    expect(() => assertCanManageTeamRole('owner', 'admin')).not.toThrow();
+    expect(() => assertCanManageTeamRole('admin', 'viewer')).not.toThrow();
+    expect(() => assertCanManageTeamRole('admin', 'admin')).toThrow('Team admins cannot manage admins');
+    expect(() => assertCanManageTeamRole('admin', 'owner')).toThrow(ForbiddenError);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit tests for team plan seats
+ * Tests seat counting, the invite seat limit and Stripe quantity syncing
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockQueryBuilder, mockSupabaseQueryResponse } from '../helpers/supabase-mocks';
+
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/stripe', () => ({
+  updateSubscriptionSeats: vi.fn(),
+}));
+
+import { countTeamSeatsUsed, assertTeamSeatAvailable, syncTeamSeats } from '@/lib/seats';
+import { supabaseAdmin } from '@/lib/supabase';
+import { updateSubscriptionSeats } from '@/lib/stripe';
+import { SeatLimitError } from '@/lib/errors';
+
+const TEAM_ID = '523e4567-e89b-12d3-a456-426614174000';
+
+/**
+ * Point the team at an owner profile and count seatsUsed seats in use
+ */
+const mockTeamBilling = (
+  owner: { plan: string; team_seats: number | null; stripe_subscription_id: string | null },
+  seatsUsed: number
+) => {
+  const profiles = mockQueryBuilder(
+    mockSupabaseQueryResponse({ id: 'owner-user-id', ...owner }),
+    { data: null, error: null }
+  );
+  const teams = mockQueryBuilder(mockSupabaseQueryResponse({ owner_id: 'owner-user-id' }));
+
+  vi.mocked(supabaseAdmin.from).mockImplementation(((table: string) =>
+    table === 'teams' ? teams : profiles) as any);
+  vi.mocked(supabaseAdmin.rpc).mockResolvedValue({ data: seatsUsed, error: null } as any);
+
+  return profiles;
+};
+
+const teamOwner = (teamSeats: number) => ({
+  plan: 'team',
+  team_seats: teamSeats,
+  stripe_subscription_id: 'sub_123',
+});
+
+describe('countTeamSeatsUsed', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should count seats for the owner', async () => {
+    vi.mocked(supabaseAdmin.rpc).mockResolvedValue({ data: 4, error: null } as any);
+
+    await expect(countTeamSeatsUsed('owner-user-id')).resolves.toBe(4);
+    expect(supabaseAdmin.rpc).toHaveBeenCalledWith('count_team_seats_used', {
+      p_owner_id: 'owner-user-id',
+    });
+  });
+
+  it('should throw when the count fails', async () => {
+    vi.mocked(supabaseAdmin.rpc).mockResolvedValue({ data: null, error: { message: 'boom' } } as any);
+
+    await expect(countTeamSeatsUsed('owner-user-id')).rejects.toThrow('Failed to count team seats');
+  });
+});
+
+describe('assertTeamSeatAvailable', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should pass while a seat is free', async () => {
+    mockTeamBilling(teamOwner(5), 4);
+
+    await expect(assertTeamSeatAvailable(TEAM_ID)).resolves.toBeUndefined();
+  });
+
+  it('should throw SeatLimitError with the seat counts when seats run out', async () => {
+    mockTeamBilling(teamOwner(3), 3);
+
+    const error = await assertTeamSeatAvailable(TEAM_ID).catch((error) => error);
+
+    expect(error).toBeInstanceOf(SeatLimitError);
+    expect(error.statusCode).toBe(402);
+    expect(error.details).toEqual({ seats: 3, seats_used: 3 });
+  });
+
+  it('should treat owners no longer on the team plan as having no seats', async () => {
+    mockTeamBilling({ plan: 'free', team_seats: null, stripe_subscription_id: null }, 1);
+
+    await expect(assertTeamSeatAvailable(TEAM_ID)).rejects.toMatchObject({
+      details: { seats: 0, seats_used: 1 },
+    });
+  });
+});
+
+describe('syncTeamSeats', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should release one seat when a member leaves', async () => {
+    const profiles = mockTeamBilling(teamOwner(5), 3);
+
+    await syncTeamSeats(TEAM_ID, 'removed');
+
+    expect(updateSubscriptionSeats).toHaveBeenCalledWith('sub_123', 4);
+    expect(profiles.update).toHaveBeenCalledWith({ team_seats: 4 });
+  });
+
+  it('should never release seats still in use', async () => {
+    mockTeamBilling(teamOwner(3), 3);
+
+    await syncTeamSeats(TEAM_ID, 'removed');
+
+    expect(updateSubscriptionSeats).not.toHaveBeenCalled();
+  });
+
+  it('should keep paid seats when a member joins and buy one only when none is free', async () => {
+    mockTeamBilling(teamOwner(5), 3);
+    await syncTeamSeats(TEAM_ID, 'added');
+    expect(updateSubscriptionSeats).not.toHaveBeenCalled();
+
+    mockTeamBilling(teamOwner(3), 4);
+    await syncTeamSeats(TEAM_ID, 'added');
+    expect(updateSubscriptionSeats).toHaveBeenCalledWith('sub_123', 4);
+  });
+
+  it('should skip owners without a team subscription', async () => {
+    mockTeamBilling({ plan: 'pro', team_seats: null, stripe_subscription_id: 'sub_123' }, 2);
+
+    await syncTeamSeats(TEAM_ID, 'removed');
+
+    expect(updateSubscriptionSeats).not.toHaveBeenCalled();
+  });
+
+  it('should log Stripe failures instead of throwing', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const profiles = mockTeamBilling(teamOwner(5), 2);
+    vi.mocked(updateSubscriptionSeats).mockRejectedValueOnce(new Error('Stripe is down'));
+
+    await expect(syncTeamSeats(TEAM_ID, 'removed')).resolves.toBeUndefined();
+    expect(consoleError).toHaveBeenCalled();
+    expect(profiles.update).not.toHaveBeenCalled();
+
+    consoleError.mockRestore();
+  });
+});
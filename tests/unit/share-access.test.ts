@@ -0,0 +1,87 @@
+/**
+ * Unit tests for share link password protection
+ * Tests password hashing and unlock token signing
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  hashSharePassword,
+  verifySharePassword,
+  createShareAccessToken,
+  verifyShareAccessToken,
+  assertShareAccess,
+} from '@/lib/share-access';
+import { PasswordRequiredError } from '@/lib/errors';
+
+describe('hashSharePassword / verifySharePassword', () => {
+  it('should verify the original password', async () => {
+    const hash = await hashSharePassword('correct horse');
+
+    expect(hash).toMatch(/^scrypt\$/);
+    expect(hash).not.toContain('correct horse');
+    expect(await verifySharePassword('correct horse', hash)).toBe(true);
+  });
+
+  it('should reject a wrong password', async () => {
+    const hash = await hashSharePassword('correct horse');
+
+    expect(await verifySharePassword('battery staple', hash)).toBe(false);
+  });
+
+  it('should salt each hash', async () => {
+    expect(await hashSharePassword('same')).not.toBe(await hashSharePassword('same'));
+  });
+
+  it('should reject malformed hashes', async () => {
+    expect(await verifySharePassword('anything', 'not-a-hash')).toBe(false);
+  });
+});
+
+describe('createShareAccessToken / verifyShareAccessToken', () => {
+  const screenshot = { id: 'screenshot-1', password_hash: 'scrypt$salt$key' };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should accept a fresh token for the same screenshot', () => {
+    const token = createShareAccessToken(screenshot);
+
+    expect(verifyShareAccessToken(screenshot, token)).toBe(true);
+  });
+
+  it('should reject tokens for another screenshot', () => {
+    const token = createShareAccessToken(screenshot);
+
+    expect(verifyShareAccessToken({ ...screenshot, id: 'screenshot-2' }, token)).toBe(false);
+  });
+
+  it('should reject expired tokens', () => {
+    vi.useFakeTimers();
+    const token = createShareAccessToken(screenshot, 60);
+
+    vi.advanceTimersByTime(61_000);
+
+    expect(verifyShareAccessToken(screenshot, token)).toBe(false);
+  });
+
+  it('should reject tampered tokens', () => {
+    const [, signature] = createShareAccessToken(screenshot).split('.');
+    const extended = `${Math.floor(Date.now() / 1000) + 86400}.${signature}`;
+
+    expect(verifyShareAccessToken(screenshot, extended)).toBe(false);
+    expect(verifyShareAccessToken(screenshot, 'garbage')).toBe(false);
+  });
+});
+
+describe('assertShareAccess', () => {
+  it('should allow unprotected screenshots without a token', () => {
+    expect(assertShareAccess({ id: 'screenshot-1', password_hash: null }, null)).toBe(false);
+  });
+
+  it('should throw PasswordRequiredError for protected screenshots without a token', () => {
+    expect(() =>
+      assertShareAccess({ id: 'screenshot-1', password_hash: 'scrypt$salt$key' }, null)
+    ).toThrow(PasswordRequiredError);
+  });
+});
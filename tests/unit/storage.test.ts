@@ -1,10 +1,54 @@
 /**
  * Unit tests for storage utilities
- * Tests MIME validation and file signature verification
+ * Tests MIME validation, file signature verification, variant generation, bucket moves and resumable uploads
  */
 
-import { describe, it, expect } from 'vitest';
-import { validateMimeType, validateFileSignature, generateStoragePath } from '@/lib/storage';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import sharp from 'sharp';
+
+const uploadMock = vi.fn(
+  async (_path: string, _body: Buffer, _options: { contentType: string; upsert: boolean }) => ({
+    data: {},
+    error: null,
+  })
+);
+
+const moveMock = vi.fn(
+  async (_fromBucket: string, _path: string, _toBucket: string): Promise<{ error: { message: string } | null }> => ({
+    error: null,
+  })
+);
+
+vi.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    storage: {
+      from: vi.fn((bucket: string) => ({
+        upload: uploadMock,
+        move: (path: string, _to: string, options: { destinationBucket: string }) =>
+          moveMock(bucket, path, options.destinationBucket),
+      })),
+    },
+  },
+}));
+
+import {
+  validateMimeType,
+  validateFileSignature,
+  generateStoragePath,
+  generateImageVariants,
+  getImageDimensions,
+  sanitizeImage,
+  uploadFileStream,
+  moveFiles,
+  RESUMABLE_CHUNK_SIZE,
+} from '@/lib/storage';
+
+const createImage = (width: number, height: number) =>
+  sharp({
+    create: { width, height, channels: 3, background: { r: 40, g: 120, b: 200 } },
+  })
+    .png()
+    .toBuffer();
 
 describe('validateMimeType', () => {
   it('should accept valid PNG MIME type', () => {
@@ -178,3 +222,203 @@ describe('generateStoragePath', () => {
   });
 });
 
+
+describe('generateImageVariants', () => {
+  beforeEach(() => {
+    uploadMock.mockClear();
+  });
+
+  it('should upload a thumbnail and webp/avif variants next to the original', async () => {
+    const original = await createImage(1600, 900);
+
+    const { thumbnailPath, variants } = await generateImageVariants(
+      'user-id/123_abc123.png',
+      original
+    );
+
+    expect(thumbnailPath).toBe('user-id/123_abc123_thumb.webp');
+    expect(variants.map((v) => v.path)).toEqual([
+      'user-id/123_abc123_w640.webp',
+      'user-id/123_abc123_w640.avif',
+      'user-id/123_abc123_w1280.webp',
+      'user-id/123_abc123_w1280.avif',
+    ]);
+    expect(variants[0]).toMatchObject({ width: 640, height: 360, format: 'webp' });
+    expect(variants[3]).toMatchObject({ width: 1280, height: 720, format: 'avif' });
+    expect(uploadMock).toHaveBeenCalledTimes(5);
+    expect(uploadMock).toHaveBeenCalledWith(
+      'user-id/123_abc123_w640.avif',
+      expect.any(Buffer),
+      { contentType: 'image/avif', upsert: false }
+    );
+
+    const thumbnail = await sharp(uploadMock.mock.calls[0][1]).metadata();
+    expect(thumbnail.width).toBe(320);
+    expect(thumbnail.height).toBe(240);
+  });
+
+  it('should never upscale small images', async () => {
+    const original = await createImage(200, 100);
+
+    const { variants } = await generateImageVariants('user-id/123_small.png', original);
+
+    expect(variants).toEqual([]);
+    expect(uploadMock).toHaveBeenCalledTimes(1);
+
+    const thumbnail = await sharp(uploadMock.mock.calls[0][1]).metadata();
+    expect(thumbnail.width).toBeLessThanOrEqual(200);
+  });
+});
+
+describe('sanitizeImage', () => {
+  const createPhoto = () =>
+    sharp({
+      create: { width: 40, height: 20, channels: 3, background: { r: 200, g: 50, b: 50 } },
+    })
+      .jpeg()
+      .withMetadata({
+        orientation: 6,
+        exif: {
+          IFD0: { Make: 'PhoneMaker', Model: 'Phone 15' },
+          IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '40/1 42/1 46/1' },
+        },
+      })
+      .toBuffer();
+
+  it('should remove EXIF and GPS metadata', async () => {
+    const { buffer, removed } = await sanitizeImage(await createPhoto());
+
+    expect(removed).toEqual(['exif', 'gps']);
+
+    const metadata = await sharp(buffer).metadata();
+    expect(metadata.format).toBe('jpeg');
+    expect(metadata.exif).toBeUndefined();
+  });
+
+  it('should apply EXIF orientation to the pixels', async () => {
+    const photo = await createPhoto();
+    expect(await getImageDimensions(photo)).toEqual({ width: 20, height: 40 });
+
+    const { buffer } = await sanitizeImage(photo);
+    const metadata = await sharp(buffer).metadata();
+
+    expect(metadata.orientation).toBeUndefined();
+    expect(metadata.width).toBe(20);
+    expect(metadata.height).toBe(40);
+  });
+
+  it('should return images without metadata unchanged', async () => {
+    const original = await createImage(40, 20);
+
+    const { buffer, removed } = await sanitizeImage(original);
+
+    expect(removed).toEqual([]);
+    expect(buffer).toBe(original);
+  });
+});
+
+describe('moveFiles', () => {
+  beforeEach(() => {
+    moveMock.mockClear();
+  });
+
+  it('should move every file to the destination bucket', async () => {
+    await moveFiles(['u/a.png', 'u/a_thumb.webp'], 'screenshots', 'protected-screenshots');
+
+    expect(moveMock).toHaveBeenCalledTimes(2);
+    expect(moveMock).toHaveBeenCalledWith('screenshots', 'u/a.png', 'protected-screenshots');
+    expect(moveMock).toHaveBeenCalledWith('screenshots', 'u/a_thumb.webp', 'protected-screenshots');
+  });
+
+  it('should move back the files that moved when one move fails', async () => {
+    moveMock
+      .mockResolvedValueOnce({ error: null })
+      .mockResolvedValueOnce({ error: { message: 'Object not found' } });
+
+    await expect(
+      moveFiles(['u/a.png', 'u/a_thumb.webp'], 'screenshots', 'protected-screenshots')
+    ).rejects.toThrow('Failed to move file: Object not found');
+
+    expect(moveMock).toHaveBeenCalledTimes(3);
+    expect(moveMock).toHaveBeenLastCalledWith('protected-screenshots', 'u/a.png', 'screenshots');
+  });
+});
+
+describe('uploadFileStream', () => {
+  const UPLOAD_URL = 'http://localhost:54321/storage/v1/upload/resumable/upload-1';
+
+  /**
+   * Stub fetch: creating the upload returns UPLOAD_URL, PATCH responses come from the given statuses
+   */
+  const stubFetch = (patchStatuses: number[] = [], serverOffset = 0) => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      if (init.method === 'POST') {
+        return new Response(null, { status: 201, headers: { Location: UPLOAD_URL } });
+      }
+      if (init.method === 'HEAD') {
+        return new Response(null, { status: 200, headers: { 'Upload-Offset': String(serverOffset) } });
+      }
+      return new Response(null, { status: init.method === 'PATCH' ? (patchStatuses.shift() ?? 204) : 204 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  };
+
+  const patches = (fetchMock: ReturnType<typeof stubFetch>) =>
+    fetchMock.mock.calls
+      .filter(([, init]) => init.method === 'PATCH')
+      .map(([, init]) => ({ headers: init.headers as Record<string, string>, size: (init.body as Uint8Array).length }));
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should upload the stream in fixed-size chunks with the length on the last one', async () => {
+    const fetchMock = stubFetch();
+    const size = RESUMABLE_CHUNK_SIZE + 1000;
+
+    const uploaded = await uploadFileStream(
+      'user-1/export-1.zip',
+      new Blob([new Uint8Array(size)]).stream(),
+      'application/zip',
+      true,
+      'exports'
+    );
+
+    expect(uploaded).toBe(size);
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({
+      'Upload-Defer-Length': '1',
+      'Upload-Metadata': `bucketName ${btoa('exports')},objectName ${btoa('user-1/export-1.zip')},contentType ${btoa('application/zip')}`,
+      'x-upsert': 'true',
+    });
+
+    const [first, last] = patches(fetchMock);
+    expect(first).toMatchObject({ size: RESUMABLE_CHUNK_SIZE, headers: { 'Upload-Offset': '0' } });
+    expect(first.headers).not.toHaveProperty('Upload-Length');
+    expect(last).toMatchObject({
+      size: 1000,
+      headers: { 'Upload-Offset': String(RESUMABLE_CHUNK_SIZE), 'Upload-Length': String(size) },
+    });
+  });
+
+  it('should resume a failed chunk from the offset the server reports', async () => {
+    const fetchMock = stubFetch([503], 400);
+
+    await uploadFileStream('user-1/export-1.zip', new Blob([new Uint8Array(1000)]).stream(), 'application/zip');
+
+    const [failed, resumed] = patches(fetchMock);
+    expect(failed).toMatchObject({ size: 1000, headers: { 'Upload-Offset': '0' } });
+    expect(resumed).toMatchObject({ size: 600, headers: { 'Upload-Offset': '400', 'Upload-Length': '1000' } });
+  });
+
+  it('should abort the upload when a chunk is rejected', async () => {
+    const fetchMock = stubFetch([409]);
+
+    await expect(
+      uploadFileStream('user-1/export-1.zip', new Blob([new Uint8Array(1000)]).stream(), 'application/zip')
+    ).rejects.toThrow('Failed to upload file: 409');
+
+    expect(patches(fetchMock)).toHaveLength(1);
+    expect(fetchMock).toHaveBeenLastCalledWith(UPLOAD_URL, expect.objectContaining({ method: 'DELETE' }));
+  });
+});
@@ -3,7 +3,7 @@
  * Tests webhook signature verification and customer creation
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock Stripe module
 vi.mock('stripe', () => {
@@ -19,6 +19,9 @@ vi.mock('stripe', () => {
         create: vi.fn(),
       },
     },
+    subscriptions: {
+      retrieve: vi.fn(),
+    },
     billingPortal: {
       sessions: {
         create: vi.fn(),
@@ -185,6 +188,35 @@ describe('Stripe Checkout Session', () => {
   });
 });
 
+describe('Stripe Team Price', () => {
+  const teamPriceId = process.env.STRIPE_TEAM_PRICE_ID;
+
+  beforeEach(() => {
+    vi.resetModules();
+    delete process.env.STRIPE_TEAM_PRICE_ID;
+  });
+
+  afterEach(() => {
+    process.env.STRIPE_TEAM_PRICE_ID = teamPriceId;
+  });
+
+  it('should load without a team price configured', async () => {
+    const { getPlanForPrice } = await import('@/lib/stripe');
+
+    expect(getPlanForPrice(process.env.STRIPE_PRICE_ID!)).toBe('pro');
+    expect(getPlanForPrice('price_unknown')).toBeNull();
+  });
+
+  it('should require the team price only when billing team seats', async () => {
+    const { createCheckoutSession, updateSubscriptionSeats } = await import('@/lib/stripe');
+
+    await expect(
+      createCheckoutSession('cus_test123', 'team', 'https://a.test/ok', 'https://a.test/cancel', 3)
+    ).rejects.toThrow('Missing STRIPE_TEAM_PRICE_ID');
+    await expect(updateSubscriptionSeats('sub_123', 3)).rejects.toThrow('Missing STRIPE_TEAM_PRICE_ID');
+  });
+});
+
 describe('Stripe Billing Portal', () => {
   it('should create portal session with customer ID', () => {
     const customerId = 'cus_test123';